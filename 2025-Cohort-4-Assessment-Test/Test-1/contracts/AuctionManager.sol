@@ -2,9 +2,37 @@
 pragma solidity ^0.8.17;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./interfaces/IAuctionProceedsReceiver.sol";
+
+contract AuctionManager is AccessControl {
+    enum DecayCurve {
+        Linear, // falls from the start price to the floor over `decayPeriod`
+        Exponential // halves every `decayPeriod`, down to the floor
+    }
+
+    struct DutchAuctionConfig {
+        uint256 startPremium; // basis points above the reference price
+        uint256 floor; // basis points of the reference price
+        DecayCurve curve;
+        uint256 decayPeriod;
+    }
+
+    // Collateral taken from a liquidated position, sold for the debt token
+    // until the absorbed debt is covered. Prices are debt tokens per
+    // collateral token, scaled by 1e18.
+    struct DutchAuction {
+        address user;
+        address collateralToken;
+        address debtToken;
+        uint256 collateralRemaining;
+        uint256 debtRemaining;
+        uint256 referencePrice;
+        uint256 startTime;
+        DutchAuctionConfig config;
+    }
+
 
-contract AuctionManager is Ownable {
     struct Auction {
         address token;
         uint256 amount;
@@ -14,14 +42,37 @@ contract AuctionManager is Ownable {
         bool ended;
     }
 
+    // Held by the pool that deployed this contract.
+    bytes32 public constant POOL_ROLE = keccak256("POOL_ROLE");
+
+    // Receives Dutch auction proceeds and shortfalls; always the deploying
+    // pool.
+    address public immutable pool;
+    bool public bidsPaused;
+
     mapping(uint256 => Auction) public auctions;
     uint256 public auctionCount;
 
+    mapping(uint256 => DutchAuction) public dutchAuctions;
+    uint256 public dutchAuctionCount;
+    DutchAuctionConfig public dutchAuctionConfig;
+
     event AuctionCreated(uint256 indexed auctionId, address indexed token, uint256 amount);
     event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 amount);
     event AuctionEnded(uint256 indexed auctionId, address indexed winner, uint256 amount);
+    event DutchAuctionConfigUpdated(uint256 startPremium, uint256 floor, DecayCurve curve, uint256 decayPeriod);
+    event DutchAuctionCreated(uint256 indexed auctionId, address indexed user, address indexed collateralToken, address debtToken, uint256 amount, uint256 debt, uint256 referencePrice);
+    event DutchAuctionPurchase(uint256 indexed auctionId, address indexed buyer, uint256 amount, uint256 cost);
+    event DutchAuctionClosed(uint256 indexed auctionId, uint256 collateralReturned);
+    event DutchAuctionUnsold(uint256 indexed auctionId, address indexed to, uint256 amount);
+    event BidsPaused(bool paused);
+
+    modifier whenBidsNotPaused() {
+        require(!bidsPaused, "Bids paused");
+        _;
+    }
 
-    function createAuction(address token, uint256 amount) external onlyOwner {
+    function createAuction(address token, uint256 amount) external onlyRole(POOL_ROLE) {
         uint256 auctionId = auctionCount++;
         auctions[auctionId] = Auction({
             token: token,
@@ -35,7 +86,7 @@ contract AuctionManager is Ownable {
         emit AuctionCreated(auctionId, token, amount);
     }
 
-    function placeBid(uint256 auctionId) external payable {
+    function placeBid(uint256 auctionId) external payable whenBidsNotPaused {
         Auction storage auction = auctions[auctionId];
         require(!auction.ended, "Auction ended");
         require(msg.value > auction.highestBid, "Bid too low");
@@ -50,7 +101,7 @@ contract AuctionManager is Ownable {
         emit BidPlaced(auctionId, msg.sender, msg.value);
     }
 
-    function endAuction(uint256 auctionId) external onlyOwner {
+    function endAuction(uint256 auctionId) external onlyRole(POOL_ROLE) {
         Auction storage auction = auctions[auctionId];
         require(!auction.ended, "Auction already ended");
         require(block.timestamp >= auction.startTime + 1 days, "Auction not ended yet");
@@ -65,10 +116,146 @@ contract AuctionManager is Ownable {
         }
     }
 
-    function withdrawFunds() external onlyOwner {
-        payable(owner()).transfer(address(this).balance);
+    function withdrawFunds() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        payable(msg.sender).transfer(address(this).balance);
+    }
+
+    function setDutchAuctionConfig(DutchAuctionConfig calldata config) external onlyRole(POOL_ROLE) {
+        _setDutchAuctionConfig(config);
+    }
+
+    /// @notice Stops English auction bids and Dutch auction purchases.
+    function setBidsPaused(bool paused) external onlyRole(POOL_ROLE) {
+        bidsPaused = paused;
+        emit BidsPaused(paused);
+    }
+
+    /// @notice Starts selling `amount` of `collateralToken`, which the pool
+    /// has already transferred here, to cover `debt` of `debtToken`. Uses the
+    /// current config; later config changes don't affect running auctions.
+    function createDutchAuction(address user, address collateralToken, address debtToken, uint256 amount, uint256 debt, uint256 referencePrice) external onlyRole(POOL_ROLE) returns (uint256 auctionId) {
+        require(amount > 0 && debt > 0, "Invalid amount");
+        require(referencePrice > 0, "Invalid price");
+
+        auctionId = dutchAuctionCount++;
+        dutchAuctions[auctionId] = DutchAuction({
+            user: user,
+            collateralToken: collateralToken,
+            debtToken: debtToken,
+            collateralRemaining: amount,
+            debtRemaining: debt,
+            referencePrice: referencePrice,
+            startTime: block.timestamp,
+            config: dutchAuctionConfig
+        });
+
+        emit DutchAuctionCreated(auctionId, user, collateralToken, debtToken, amount, debt, referencePrice);
     }
 
-    constructor() Ownable(msg.sender) {}
+    /// @return price in debt tokens per collateral token, scaled by 1e18
+    function getDutchAuctionPrice(uint256 auctionId) public view returns (uint256) {
+        DutchAuction storage auction = dutchAuctions[auctionId];
+        require(auction.collateralRemaining > 0, "Auction not active");
+
+        DutchAuctionConfig storage config = auction.config;
+        uint256 startPrice = (auction.referencePrice * (10000 + config.startPremium)) / 10000;
+        uint256 floorPrice = (auction.referencePrice * config.floor) / 10000;
+        uint256 elapsed = block.timestamp - auction.startTime;
+
+        uint256 price;
+        if (config.curve == DecayCurve.Linear) {
+            if (elapsed >= config.decayPeriod) return floorPrice;
+            price = startPrice - ((startPrice - floorPrice) * elapsed) / config.decayPeriod;
+        } else {
+            // Halve once per full period and interpolate linearly within it.
+            price = startPrice >> (elapsed / config.decayPeriod);
+            price -= (price * (elapsed % config.decayPeriod)) / (2 * config.decayPeriod);
+        }
+        return price < floorPrice ? floorPrice : price;
+    }
+
+    /// @notice Buys up to `amount` collateral at the current price, paying in
+    /// the debt token. The lot shrinks to what covers the remaining debt;
+    /// once it is covered, leftover collateral goes back to the borrower.
+    /// Debt still owed when the last of the collateral is sold is reported
+    /// to the pool as bad debt.
+    function buy(uint256 auctionId, uint256 amount, uint256 maxPrice) external whenBidsNotPaused {
+        DutchAuction storage auction = dutchAuctions[auctionId];
+        uint256 price = getDutchAuctionPrice(auctionId);
+        require(price <= maxPrice, "Price above limit");
+
+        if (amount > auction.collateralRemaining) amount = auction.collateralRemaining;
+        // Round the cost up so partial lots never undercharge.
+        uint256 cost = (amount * price + 1e18 - 1) / 1e18;
+        if (cost > auction.debtRemaining) {
+            cost = auction.debtRemaining;
+            amount = (cost * 1e18) / price;
+        }
+        require(amount > 0, "Invalid amount");
+
+        auction.collateralRemaining -= amount;
+        auction.debtRemaining -= cost;
+
+        // Report what reached the pool, which is less than `cost` for
+        // fee-on-transfer tokens.
+        uint256 balanceBefore = IERC20(auction.debtToken).balanceOf(pool);
+        require(IERC20(auction.debtToken).transferFrom(msg.sender, pool, cost), "Transfer failed");
+        uint256 proceeds = IERC20(auction.debtToken).balanceOf(pool) - balanceBefore;
+        require(IERC20(auction.collateralToken).transfer(msg.sender, amount), "Transfer failed");
+        IAuctionProceedsReceiver(pool).onAuctionProceeds(auction.debtToken, proceeds);
+        // The transfer fee came off the debt without reaching the pool.
+        if (proceeds < cost) {
+            IAuctionProceedsReceiver(pool).onAuctionShortfall(auction.user, auction.debtToken, cost - proceeds);
+        }
+        emit DutchAuctionPurchase(auctionId, msg.sender, amount, cost);
+
+        if (auction.debtRemaining == 0 || auction.collateralRemaining == 0) {
+            uint256 collateralReturned = auction.collateralRemaining;
+            _closeDutchAuction(auctionId, auction, collateralReturned);
+            if (collateralReturned > 0) {
+                require(IERC20(auction.collateralToken).transfer(auction.user, collateralReturned), "Transfer failed");
+            }
+        }
+    }
+
+    /// @notice Ends an auction nobody buys even at its floor price. The
+    /// unsold collateral goes to `to`, which can sell it elsewhere and
+    /// cover the bad debt the auction leaves behind.
+    function closeDutchAuction(uint256 auctionId, address to) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        DutchAuction storage auction = dutchAuctions[auctionId];
+        uint256 price = getDutchAuctionPrice(auctionId);
+        require(price == (auction.referencePrice * auction.config.floor) / 10000, "Auction above floor");
+
+        uint256 unsold = auction.collateralRemaining;
+        _closeDutchAuction(auctionId, auction, 0);
+        require(IERC20(auction.collateralToken).transfer(to, unsold), "Transfer failed");
+        emit DutchAuctionUnsold(auctionId, to, unsold);
+    }
+
+    /// @param admin can grant and revoke roles. Proceeds and shortfalls
+    /// always go to the deploying pool, so the contract stays tied to it.
+    constructor(address admin) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(POOL_ROLE, msg.sender);
+        pool = msg.sender;
+        _setDutchAuctionConfig(DutchAuctionConfig({startPremium: 2000, floor: 5000, curve: DecayCurve.Linear, decayPeriod: 6 hours}));
+    }
+
+    /// @dev Debt the auction didn't raise stays in `debtRemaining` as a
+    /// record and is reported to the pool as bad debt.
+    function _closeDutchAuction(uint256 auctionId, DutchAuction storage auction, uint256 collateralReturned) internal {
+        auction.collateralRemaining = 0;
+        if (auction.debtRemaining > 0) {
+            IAuctionProceedsReceiver(pool).onAuctionShortfall(auction.user, auction.debtToken, auction.debtRemaining);
+        }
+        emit DutchAuctionClosed(auctionId, collateralReturned);
+    }
+
+    function _setDutchAuctionConfig(DutchAuctionConfig memory config) internal {
+        require(config.floor > 0 && config.floor <= 10000 + config.startPremium, "Invalid floor");
+        require(config.decayPeriod > 0, "Invalid decay period");
+        dutchAuctionConfig = config;
+        emit DutchAuctionConfigUpdated(config.startPremium, config.floor, config.curve, config.decayPeriod);
+    }
 }
 
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./Token.sol";
+
+/// @notice `Token` that skims `fee` basis points off every transfer and
+/// sends it to `feeRecipient`. Mints and burns are not charged.
+contract FeeOnTransferToken is Token, Ownable {
+    uint256 public fee;
+    address public feeRecipient;
+
+    event FeeUpdated(uint256 fee);
+    event FeeRecipientUpdated(address indexed feeRecipient);
+
+    constructor(string memory name, string memory symbol, uint256 _fee, address _feeRecipient) Token(name, symbol) Ownable(msg.sender) {
+        _setFee(_fee);
+        _setFeeRecipient(_feeRecipient);
+    }
+
+    function setFee(uint256 _fee) external onlyOwner {
+        _setFee(_fee);
+    }
+
+    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+        _setFeeRecipient(_feeRecipient);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0) || fee == 0) {
+            super._update(from, to, value);
+            return;
+        }
+
+        uint256 feeAmount = (value * fee) / 10000;
+        super._update(from, feeRecipient, feeAmount);
+        super._update(from, to, value - feeAmount);
+    }
+
+    function _setFee(uint256 _fee) internal {
+        require(_fee <= 10000, "Invalid fee");
+        fee = _fee;
+        emit FeeUpdated(_fee);
+    }
+
+    function _setFeeRecipient(address _feeRecipient) internal {
+        require(_feeRecipient != address(0), "Invalid fee recipient");
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientUpdated(_feeRecipient);
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "./interfaces/IInterestRateStrategy.sol";
+
+/// @notice Two-slope ("kinked") rate model. The borrow rate grows from
+/// `baseRate` by `slope1` as utilization approaches `optimalUtilization`, and
+/// by a further `slope2` between the kink and full utilization. All values
+/// are annual rates or ratios scaled by 1e18.
+contract InterestRateStrategy is IInterestRateStrategy {
+    uint256 public immutable baseRate;
+    uint256 public immutable slope1;
+    uint256 public immutable slope2;
+    uint256 public immutable optimalUtilization;
+
+    constructor(uint256 _baseRate, uint256 _slope1, uint256 _slope2, uint256 _optimalUtilization) {
+        require(_optimalUtilization > 0 && _optimalUtilization < 1e18, "Invalid optimal utilization");
+        baseRate = _baseRate;
+        slope1 = _slope1;
+        slope2 = _slope2;
+        optimalUtilization = _optimalUtilization;
+    }
+
+    function utilization(uint256 cash, uint256 borrows) public pure returns (uint256) {
+        if (borrows == 0) return 0;
+        return (borrows * 1e18) / (cash + borrows);
+    }
+
+    function getBorrowRate(uint256 cash, uint256 borrows) external view returns (uint256) {
+        uint256 util = utilization(cash, borrows);
+
+        if (util <= optimalUtilization) {
+            return baseRate + (util * slope1) / optimalUtilization;
+        }
+
+        uint256 excessUtilization = util - optimalUtilization;
+        return baseRate + slope1 + (excessUtilization * slope2) / (1e18 - optimalUtilization);
+    }
+}
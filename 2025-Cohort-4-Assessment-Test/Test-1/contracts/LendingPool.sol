@@ -2,24 +2,84 @@
 pragma solidity ^0.8.17;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "./AuctionManager.sol";
 import "./LoanManager.sol";
-
-contract LendingPool is Ownable {
+import "./ReceiptToken.sol";
+import "./ReserveRegistry.sol";
+import "./RewardsDistributor.sol";
+import "./interfaces/IAuctionProceedsReceiver.sol";
+import "./interfaces/IFlashBorrower.sol";
+import "./interfaces/IPriceOracle.sol";
+
+contract LendingPool is
+    AccessControl,
+    ReentrancyGuard,
+    IAuctionProceedsReceiver
+{
     AuctionManager public immutable auctionManager;
     LoanManager public immutable loanManager;
+    ReserveRegistry public immutable reserveRegistry;
+
+    IPriceOracle public priceOracle;
+
+    mapping(address => ReceiptToken) public receiptTokens;
+    // Supplied tokens not currently lent out, per reserve.
+    mapping(address => uint256) public availableLiquidity;
+
+    // Share of a debt one liquidation may repay, in basis points.
+    uint256 public closeFactor = 5000; // 50%
+
+    // Actions the pause guardian can stop one by one. Withdrawals and
+    // redemptions are never paused here, so users can always exit.
+    enum Action {
+        Deposit, // also covers supply
+        Borrow,
+        Repay,
+        Liquidate,
+        FlashLoan,
+        Bid
+    }
+
+    // Lists reserves and sets their risk parameters, close factor, interest
+    // rate strategies and auction terms.
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    // Pauses and unpauses actions and reserves.
+    bytes32 public constant PAUSE_GUARDIAN_ROLE =
+        keccak256("PAUSE_GUARDIAN_ROLE");
 
-    mapping(address => bool) public whitelistedTokens;
-    mapping(address => uint256) public tokenPrices;
+    mapping(Action => bool) public actionPaused;
 
-    uint256 public constant COLLATERALIZATION_RATIO = 150; // 150%
-    uint256 public constant FLASH_LOAN_FEE = 9; // 0.09%
-    uint256 public constant TRANSFER_FEE = 800; // 8%
+    bytes32 public constant CALLBACK_SUCCESS =
+        keccak256("ERC3156FlashBorrower.onFlashLoan");
 
-    uint256 public rewardPool;
+    // Receives protocol fees; until one is set they stay with lenders.
+    RewardsDistributor public rewardsDistributor;
+
+    // Debt written off from insolvent accounts and not yet made good to
+    // lenders, per reserve. Protocol fees repay it before going anywhere
+    // else.
+    mapping(address => uint256) public badDebt;
+
+    // Contracts trusted to act for their callers: they append the caller's
+    // address to the calldata of each call they forward, ERC-2771 style.
+    mapping(address => bool) public routers;
 
     event Deposit(address indexed user, address indexed token, uint256 amount);
+    event Withdraw(address indexed user, address indexed token, uint256 amount);
+    event Supply(
+        address indexed user,
+        address indexed token,
+        uint256 amount,
+        uint256 shares
+    );
+    event Redeem(
+        address indexed user,
+        address indexed token,
+        uint256 amount,
+        uint256 shares
+    );
     event Borrow(address indexed user, address indexed token, uint256 amount);
     event Repay(address indexed user, address indexed token, uint256 amount);
     event FlashLoan(
@@ -31,166 +91,806 @@ contract LendingPool is Ownable {
         address indexed user,
         address indexed collateralToken,
         address indexed debtToken,
+        address liquidator,
+        uint256 debtRepaid,
+        uint256 collateralSeized
+    );
+    event LiquidationToAuction(
+        address indexed user,
+        address indexed collateralToken,
+        address indexed debtToken,
+        address liquidator,
+        uint256 auctionId,
+        uint256 collateralAmount,
+        uint256 debt
+    );
+    event AuctionProceeds(address indexed token, uint256 amount);
+    event CloseFactorUpdated(uint256 closeFactor);
+    event PriceOracleUpdated(address indexed priceOracle);
+    event RewardsDistributorUpdated(address indexed rewardsDistributor);
+    event FeesCollected(address indexed token, uint256 amount);
+    event BadDebtRecorded(
+        address indexed user,
+        address indexed token,
         uint256 amount
     );
-    event PriceUpdated(address indexed token, uint256 price);
+    event BadDebtCovered(address indexed token, uint256 amount);
+    event RouterUpdated(address indexed router, bool trusted);
+    event ReceiptTokenSet(address indexed token, address indexed receiptToken);
+    event ActionPaused(Action indexed action, bool paused);
+
+    modifier whenNotPaused(Action action) {
+        require(!actionPaused[action], "Action paused");
+        _;
+    }
 
-    constructor() Ownable(msg.sender) {
-        auctionManager = new AuctionManager();
-        loanManager = new LoanManager();
+    /// @dev The deployer starts with every role and administers the child
+    /// contracts' roles as well.
+    constructor(IPriceOracle _priceOracle) {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(RISK_MANAGER_ROLE, msg.sender);
+        _grantRole(PAUSE_GUARDIAN_ROLE, msg.sender);
+        auctionManager = new AuctionManager(msg.sender);
+        loanManager = new LoanManager(msg.sender);
+        reserveRegistry = new ReserveRegistry(msg.sender);
+        _setPriceOracle(_priceOracle);
     }
 
-    function deposit(address token, uint256 amount) external {
-        require(whitelistedTokens[token], "Token not whitelisted");
+    function deposit(
+        address token,
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Deposit) {
+        address user = _sender();
+        ReserveRegistry.ReserveConfig memory config = _activeReserve(token);
+        require(config.collateralEnabled, "Collateral not enabled");
+        uint256 received = _transferIn(token, user, amount);
+        loanManager.updateCollateral(user, token, received, true);
+        _checkSupplyCap(token, config.supplyCap);
+        emit Deposit(user, token, received);
+    }
+
+    function withdraw(address token, uint256 amount) external nonReentrant {
+        address user = _sender();
+        _requireNotPaused(token);
+        loanManager.updateCollateral(user, token, amount, false);
+
         require(
-            IERC20(token).transferFrom(msg.sender, address(this), amount),
-            "Transfer failed"
+            _isWithinBorrowLimit(user),
+            "withdrawal would undercollateralize loan"
         );
-        loanManager.updateCollateral(msg.sender, token, amount, true);
-        emit Deposit(msg.sender, token, amount);
+
+        require(IERC20(token).transfer(user, amount), "Transfer failed");
+        emit Withdraw(user, token, amount);
+    }
+
+    function supply(
+        address token,
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Deposit) {
+        address user = _sender();
+        ReceiptToken receiptToken = receiptTokens[token];
+        require(address(receiptToken) != address(0), "Supply not enabled");
+        require(amount > 0, "Invalid amount");
+        ReserveRegistry.ReserveConfig memory config = _activeReserve(token);
+
+        _updateRates(token);
+        uint256 received = _transferIn(token, user, amount);
+        uint256 shares = (received * 1e18) / getExchangeRate(token);
+        require(shares > 0, "Invalid amount");
+
+        availableLiquidity[token] += received;
+        receiptToken.mint(user, shares);
+        _updateRates(token);
+        _checkSupplyCap(token, config.supplyCap);
+
+        emit Supply(user, token, received, shares);
+    }
+
+    function redeem(address token, uint256 shares) external nonReentrant {
+        address user = _sender();
+        ReceiptToken receiptToken = receiptTokens[token];
+        require(address(receiptToken) != address(0), "Supply not enabled");
+        _requireNotPaused(token);
+
+        _updateRates(token);
+        uint256 amount = (shares * getExchangeRate(token)) / 1e18;
+        require(amount <= availableLiquidity[token], "Insufficient liquidity");
+
+        receiptToken.burn(user, shares);
+        availableLiquidity[token] -= amount;
+        require(IERC20(token).transfer(user, amount), "Transfer failed");
+        _updateRates(token);
+
+        emit Redeem(user, token, amount, shares);
     }
 
     function borrow(
-        address collateralToken,
         address borrowToken,
         uint256 borrowAmount
-    ) external {
+    ) external nonReentrant whenNotPaused(Action.Borrow) {
+        address user = _sender();
+        ReserveRegistry.ReserveConfig memory config = _activeReserve(
+            borrowToken
+        );
+        require(config.borrowingEnabled, "Borrowing not enabled");
         require(
-            whitelistedTokens[collateralToken] &&
-                whitelistedTokens[borrowToken],
-            "Tokens not whitelisted"
+            availableLiquidity[borrowToken] >= borrowAmount,
+            "Insufficient liquidity"
         );
+        availableLiquidity[borrowToken] -= borrowAmount;
 
-        uint256 collateralAmount = loanManager.getCollateralAmount(
-            msg.sender,
-            collateralToken
+        loanManager.updateLoan(user, borrowToken, borrowAmount, true);
+        require(
+            config.borrowCap == 0 ||
+                loanManager.getTotalBorrows(borrowToken) <= config.borrowCap,
+            "Borrow cap exceeded"
         );
-        uint256 collateralValue = (collateralAmount *
-            tokenPrices[collateralToken]) / 1e18;
-        uint256 borrowValue = (borrowAmount * tokenPrices[borrowToken]) / 1e18;
-
         require(
-            collateralValue >= (borrowValue * COLLATERALIZATION_RATIO) / 100,
+            _isWithinBorrowLimit(user),
             "not enough collateral to cover loan"
         );
 
-        loanManager.updateLoan(msg.sender, borrowToken, borrowAmount, true);
-
-        uint256 transferFeeAmount = (borrowAmount * TRANSFER_FEE) / 10000;
-        uint256 amountAfterFee = borrowAmount - transferFeeAmount;
-
+        // Fee-on-transfer tokens take their own cut on the way out.
         require(
-            IERC20(borrowToken).transfer(msg.sender, amountAfterFee),
+            IERC20(borrowToken).transfer(user, borrowAmount),
             "Transfer failed"
         );
-        require(
-            IERC20(borrowToken).transfer(
-                address(auctionManager),
-                transferFeeAmount
-            ),
-            "Fee transfer failed"
-        );
+        _updateRates(borrowToken);
 
-        emit Borrow(msg.sender, borrowToken, borrowAmount);
+        emit Borrow(user, borrowToken, borrowAmount);
     }
 
-    function repay(address token, uint256 amount) external {
-        uint256 loanAmount = loanManager.getLoanAmount(msg.sender, token);
+    function repay(
+        address token,
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Repay) {
+        address user = _sender();
+        _requireNotPaused(token);
+        uint256 loanAmount = loanManager.getLoanAmount(user, token);
         require(loanAmount > 0, "No active loan");
 
-        uint256 interest = loanManager.calculateInterest(msg.sender, token);
-        uint256 totalDue = loanAmount + interest;
-        require(amount <= totalDue, "Repayment amount too high");
-
+        uint256 interest = loanManager.calculateInterest(user, token);
+        uint256 received = _transferIn(token, user, amount);
         require(
-            IERC20(token).transferFrom(msg.sender, address(this), amount),
-            "Transfer failed"
+            received <= loanAmount + interest,
+            "Repayment amount too high"
         );
 
-        loanManager.updateLoan(msg.sender, token, amount, false);
+        loanManager.updateLoan(user, token, received, false);
+
+        // The reserve factor's cut of interest accrues with the borrow index
+        // and is not owed to lenders; repayments bring in the cash to pay
+        // it out as protocol fees.
+        uint256 fee = loanManager.takeFees(token, received);
+        availableLiquidity[token] += received - fee;
+        _collectFee(token, fee);
+        _updateRates(token);
 
-        uint256 feeAmount = (interest * TRANSFER_FEE) / 10000;
-        rewardPool += feeAmount;
+        emit Repay(user, token, received);
+    }
+
+    function maxFlashLoan(address token) external view returns (uint256) {
+        if (
+            !reserveRegistry.isListed(token) ||
+            reserveRegistry.getReserveConfig(token).paused
+        ) return 0;
+        return IERC20(token).balanceOf(address(this));
+    }
 
-        emit Repay(msg.sender, token, amount);
+    function flashFee(
+        address token,
+        uint256 amount
+    ) public view returns (uint256) {
+        require(reserveRegistry.isListed(token), "Token not whitelisted");
+        return
+            (amount * reserveRegistry.getReserveConfig(token).flashLoanFee) /
+            10000;
     }
 
-    function flashLoan(address token, uint256 amount) external {
-        require(whitelistedTokens[token], "Token not whitelisted");
+    function flashLoan(
+        IFlashBorrower receiver,
+        address token,
+        uint256 amount,
+        bytes calldata data
+    ) external nonReentrant whenNotPaused(Action.FlashLoan) returns (bool) {
+        uint256 fee = flashFee(token, amount);
+        _requireNotPaused(token);
         uint256 balanceBefore = IERC20(token).balanceOf(address(this));
         require(balanceBefore >= amount, "Insufficient balance");
 
-        IERC20(token).transfer(msg.sender, amount);
-
+        require(
+            IERC20(token).transfer(address(receiver), amount),
+            "Transfer failed"
+        );
+        require(
+            receiver.onFlashLoan(msg.sender, token, amount, fee, data) ==
+                CALLBACK_SUCCESS,
+            "Flash loan callback failed"
+        );
+        // Receivers can send the repayment themselves, which tokens with a
+        // transfer fee require; whatever is still owed is pulled from the
+        // receiver's allowance.
         uint256 balanceAfter = IERC20(token).balanceOf(address(this));
-        uint256 fee = (amount * FLASH_LOAN_FEE) / 10000;
+        if (balanceAfter < balanceBefore + fee) {
+            require(
+                IERC20(token).transferFrom(
+                    address(receiver),
+                    address(this),
+                    balanceBefore + fee - balanceAfter
+                ),
+                "Flash loan not repaid"
+            );
+            balanceAfter = IERC20(token).balanceOf(address(this));
+        }
         require(balanceAfter >= balanceBefore + fee, "Flash loan not repaid");
 
-        rewardPool += fee;
+        _collectFee(token, balanceAfter - balanceBefore);
         emit FlashLoan(msg.sender, token, amount);
+        return true;
     }
 
+    /// @notice Repays up to `closeFactor` of an unhealthy account's
+    /// `debtToken` debt, interest included, in exchange for its
+    /// `collateralToken` at oracle prices plus that collateral's
+    /// liquidation bonus. The rest of the position stays with the borrower.
+    /// Insolvent accounts, whose collateral is worth less than their debt,
+    /// can be repaid in full; once the last of their collateral is seized,
+    /// the debt left over is written off as bad debt.
     function liquidate(
+        address user,
+        address collateralToken,
+        address debtToken,
+        uint256 repayAmount
+    ) external nonReentrant whenNotPaused(Action.Liquidate) {
+        require(repayAmount > 0, "Invalid amount");
+        _requireNotPaused(collateralToken);
+        _requireNotPaused(debtToken);
+        _updateRates(debtToken);
+
+        uint256 debt = loanManager.getLoanAmount(user, debtToken) +
+            loanManager.calculateInterest(user, debtToken);
+        require(debt > 0, "No active loan");
+
+        {
+            (
+                uint256 collateralValue,
+                uint256 debtValue,
+                uint256 healthFactor
+            ) = getAccountData(user);
+            require(
+                healthFactor < 1e18,
+                "not enough collateral to cover loan"
+            );
+            uint256 maxRepay = collateralValue < debtValue
+                ? debt
+                : (debt * closeFactor) / 10000;
+            if (repayAmount > maxRepay) repayAmount = maxRepay;
+        }
+
+        uint256 collateralSeized;
+        (repayAmount, collateralSeized) = _liquidationAmounts(
+            user,
+            collateralToken,
+            debtToken,
+            repayAmount
+        );
+        require(collateralSeized > 0, "No collateral to seize");
+
+        // Only what arrived repays debt; seize proportionally less for it.
+        uint256 received = _transferIn(debtToken, _sender(), repayAmount);
+        if (received < repayAmount) {
+            collateralSeized = (collateralSeized * received) / repayAmount;
+            repayAmount = received;
+        }
+        loanManager.updateLoan(user, debtToken, repayAmount, false);
+        loanManager.updateCollateral(
+            user,
+            collateralToken,
+            collateralSeized,
+            false
+        );
+        availableLiquidity[debtToken] += repayAmount;
+
+        require(
+            IERC20(collateralToken).transfer(_sender(), collateralSeized),
+            "Transfer failed"
+        );
+        if (loanManager.getCollateralTokens(user).length == 0) {
+            _writeOffDebt(user);
+        }
+        _updateRates(debtToken);
+
+        emit Liquidation(
+            user,
+            collateralToken,
+            debtToken,
+            _sender(),
+            repayAmount,
+            collateralSeized
+        );
+    }
+
+    /// @notice Seizes all of an unhealthy account's `collateralToken` and
+    /// sells it in a Dutch auction, which takes over as much of the
+    /// `debtToken` debt as the collateral is worth at oracle prices. The
+    /// rest of the debt stays on the loan, or is written off as bad debt
+    /// if no collateral is left to back it. Auction proceeds come back
+    /// through `onAuctionProceeds`.
+    function liquidateToAuction(
         address user,
         address collateralToken,
         address debtToken
-    ) external {
+    )
+        external
+        nonReentrant
+        whenNotPaused(Action.Liquidate)
+        returns (uint256 auctionId)
+    {
+        _requireNotPaused(collateralToken);
+        _requireNotPaused(debtToken);
+        _updateRates(debtToken);
+
+        uint256 debt = loanManager.getLoanAmount(user, debtToken) +
+            loanManager.calculateInterest(user, debtToken);
+        require(debt > 0, "No active loan");
         uint256 collateralAmount = loanManager.getCollateralAmount(
             user,
             collateralToken
         );
-        uint256 loanAmount = loanManager.getLoanAmount(user, debtToken);
-        require(loanAmount > 0, "No active loan");
+        require(collateralAmount > 0, "No collateral to seize");
 
-        uint256 collateralValue = (collateralAmount *
-            tokenPrices[collateralToken]) / 1e18;
-        uint256 debtValue = (loanAmount * tokenPrices[debtToken]) / 1e18;
+        (, , uint256 healthFactor) = getAccountData(user);
+        require(healthFactor < 1e18, "not enough collateral to cover loan");
 
+        uint256 referencePrice = (priceOracle.getPrice(collateralToken) *
+            1e18) / priceOracle.getPrice(debtToken);
+        uint256 collateralDebt = (collateralAmount * referencePrice) / 1e18;
+        if (debt > collateralDebt) debt = collateralDebt;
+
+        loanManager.updateLoan(user, debtToken, debt, false);
+        loanManager.updateCollateral(
+            user,
+            collateralToken,
+            collateralAmount,
+            false
+        );
+        uint256 balanceBefore = IERC20(collateralToken).balanceOf(
+            address(auctionManager)
+        );
         require(
-            collateralValue < (debtValue * COLLATERALIZATION_RATIO) / 100,
-            "not enough collateral to cover loan"
+            IERC20(collateralToken).transfer(
+                address(auctionManager),
+                collateralAmount
+            ),
+            "Transfer failed"
+        );
+        // Auction what the auction manager actually holds.
+        collateralAmount =
+            IERC20(collateralToken).balanceOf(address(auctionManager)) -
+            balanceBefore;
+        auctionId = auctionManager.createDutchAuction(
+            user,
+            collateralToken,
+            debtToken,
+            collateralAmount,
+            debt,
+            referencePrice
+        );
+        if (loanManager.getCollateralTokens(user).length == 0) {
+            _writeOffDebt(user);
+        }
+        _updateRates(debtToken);
+
+        emit LiquidationToAuction(
+            user,
+            collateralToken,
+            debtToken,
+            _sender(),
+            auctionId,
+            collateralAmount,
+            debt
         );
+    }
 
-        uint256 collateralToLiquidate = (loanAmount * tokenPrices[debtToken]) /
-            tokenPrices[collateralToken];
+    /// @notice Returns Dutch auction proceeds, already transferred here by
+    /// the auction manager, to the reserve's lendable liquidity.
+    function onAuctionProceeds(
+        address token,
+        uint256 amount
+    ) external nonReentrant {
+        require(
+            msg.sender == address(auctionManager),
+            "Caller is not the auction manager"
+        );
+        availableLiquidity[token] += amount;
+        _updateRates(token);
+        emit AuctionProceeds(token, amount);
+    }
 
+    /// @notice Records the debt a closed Dutch auction did not raise as bad
+    /// debt, covered by fees like any other write-off.
+    function onAuctionShortfall(
+        address user,
+        address token,
+        uint256 amount
+    ) external nonReentrant {
         require(
-            IERC20(debtToken).transferFrom(
-                msg.sender,
-                address(this),
-                loanAmount
-            ),
-            "Debt transfer failed"
+            msg.sender == address(auctionManager),
+            "Caller is not the auction manager"
+        );
+        badDebt[token] += amount;
+        emit BadDebtRecorded(user, token, amount);
+    }
+
+    /// @notice Makes good `amount` of `token`'s bad debt to lenders out of
+    /// the caller's funds, for shortfalls fees have not covered yet.
+    function coverBadDebt(address token, uint256 amount) external nonReentrant {
+        uint256 received = _transferIn(token, msg.sender, amount);
+        require(received <= badDebt[token], "Amount exceeds bad debt");
+        _coverBadDebt(token, received);
+        _updateRates(token);
+    }
+
+    /// @notice Lists `token` as a reserve. New reserves start with the
+    /// registry's default configuration.
+    function whitelistToken(address token) external onlyRole(RISK_MANAGER_ROLE) {
+        reserveRegistry.listReserve(token);
+    }
+
+    /// @notice Stops new deposits, supplies, borrows and flash loans of
+    /// `token`. Existing positions keep their terms and can be unwound.
+    function delistToken(address token) external onlyRole(RISK_MANAGER_ROLE) {
+        reserveRegistry.delistReserve(token);
+    }
+
+    function setReserveConfig(
+        address token,
+        ReserveRegistry.ReserveConfig calldata config
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        reserveRegistry.setReserveConfig(token, config);
+    }
+
+    function setReserveFrozen(
+        address token,
+        bool frozen
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        reserveRegistry.setFrozen(token, frozen);
+    }
+
+    function setReservePaused(
+        address token,
+        bool paused
+    ) external onlyRole(PAUSE_GUARDIAN_ROLE) {
+        reserveRegistry.setPaused(token, paused);
+    }
+
+    /// @notice Pauses or unpauses one kind of action across every reserve.
+    /// Bids are paused on the auction manager.
+    function setActionPaused(
+        Action action,
+        bool paused
+    ) external onlyRole(PAUSE_GUARDIAN_ROLE) {
+        actionPaused[action] = paused;
+        if (action == Action.Bid) auctionManager.setBidsPaused(paused);
+        emit ActionPaused(action, paused);
+    }
+
+    /// @notice Enables supplying `token` through a receipt token deployed
+    /// for this pool.
+    function setReceiptToken(
+        address token,
+        ReceiptToken receiptToken
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(reserveRegistry.isListed(token), "Token not whitelisted");
+        require(
+            address(receiptTokens[token]) == address(0),
+            "Receipt token already set"
         );
+        require(
+            receiptToken.pool() == address(this) &&
+                receiptToken.underlying() == token,
+            "Invalid receipt token"
+        );
+        receiptTokens[token] = receiptToken;
+        emit ReceiptTokenSet(token, address(receiptToken));
+    }
 
-        IERC20(collateralToken).transfer(msg.sender, collateralToLiquidate);
-        IERC20(collateralToken).transfer(
-            address(auctionManager),
-            collateralAmount - collateralToLiquidate
+    function setCloseFactor(
+        uint256 _closeFactor
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        require(
+            _closeFactor > 0 && _closeFactor <= 10000,
+            "Invalid close factor"
         );
+        closeFactor = _closeFactor;
+        emit CloseFactorUpdated(_closeFactor);
+    }
 
-        loanManager.clearLoan(user, collateralToken, debtToken);
+    function setLiquidationBonus(
+        address token,
+        uint256 bonus
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        reserveRegistry.setLiquidationBonus(token, bonus);
+    }
 
-        auctionManager.createAuction(
-            collateralToken,
-            collateralAmount - collateralToLiquidate
+    function setDutchAuctionConfig(
+        AuctionManager.DutchAuctionConfig calldata config
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        auctionManager.setDutchAuctionConfig(config);
+    }
+
+    function setInterestRateStrategy(
+        address token,
+        IInterestRateStrategy strategy
+    ) external onlyRole(RISK_MANAGER_ROLE) {
+        loanManager.setInterestRateStrategy(token, strategy);
+    }
+
+    /// @notice Underlying tokens one receipt token share redeems for,
+    /// scaled by 1e18.
+    function getExchangeRate(address token) public view returns (uint256) {
+        return loanManager.getSupplyIndex(token);
+    }
+
+    function balanceOfUnderlying(
+        address user,
+        address token
+    ) external view returns (uint256) {
+        ReceiptToken receiptToken = receiptTokens[token];
+        if (address(receiptToken) == address(0)) return 0;
+        return (receiptToken.balanceOf(user) * getExchangeRate(token)) / 1e18;
+    }
+
+    function getWhitelistedTokens() external view returns (address[] memory) {
+        return reserveRegistry.getReserves();
+    }
+
+    /// @notice Values the user's whole portfolio at oracle prices. Debt
+    /// includes interest accrued so far. `healthFactor` is scaled by 1e18 and
+    /// drops below 1e18 once debt exceeds the collateral's value weighted by
+    /// each reserve's liquidation threshold; it is `type(uint256).max` for
+    /// accounts without debt.
+    function getAccountData(
+        address user
+    )
+        public
+        view
+        returns (
+            uint256 totalCollateralValue,
+            uint256 totalDebtValue,
+            uint256 healthFactor
+        )
+    {
+        uint256 liquidationLimit;
+        (
+            totalCollateralValue,
+            ,
+            liquidationLimit,
+            totalDebtValue
+        ) = _accountValues(user);
+
+        if (totalDebtValue == 0) {
+            healthFactor = type(uint256).max;
+        } else {
+            healthFactor = (liquidationLimit * 1e18) / totalDebtValue;
+        }
+    }
+
+    function setPriceOracle(
+        IPriceOracle _priceOracle
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setPriceOracle(_priceOracle);
+    }
+
+    function setRewardsDistributor(
+        RewardsDistributor _rewardsDistributor
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            _rewardsDistributor.pool() == address(this),
+            "Invalid rewards distributor"
         );
+        rewardsDistributor = _rewardsDistributor;
+        emit RewardsDistributorUpdated(address(_rewardsDistributor));
+    }
+
+    /// @notice Lets `router` deposit, withdraw, supply, redeem, borrow,
+    /// repay and liquidate on behalf of whoever calls it. Only trust
+    /// routers that forward their own caller's address and no other.
+    function setRouter(
+        address router,
+        bool trusted
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        routers[router] = trusted;
+        emit RouterUpdated(router, trusted);
+    }
+
+    /// @dev Weighs each collateral by its reserve's LTV for the borrow
+    /// limit and by its liquidation threshold for the liquidation limit.
+    /// Collateral of reserves with collateral disabled no longer backs new
+    /// borrows but still counts towards the liquidation limit.
+    function _accountValues(
+        address user
+    )
+        internal
+        view
+        returns (
+            uint256 collateralValue,
+            uint256 borrowLimit,
+            uint256 liquidationLimit,
+            uint256 debtValue
+        )
+    {
+        address[] memory collateralTokens = loanManager.getCollateralTokens(
+            user
+        );
+        for (uint256 i = 0; i < collateralTokens.length; i++) {
+            address token = collateralTokens[i];
+            ReserveRegistry.ReserveConfig memory config = reserveRegistry
+                .getReserveConfig(token);
+            uint256 value = (loanManager.getCollateralAmount(user, token) *
+                priceOracle.getPrice(token)) / 1e18;
+
+            collateralValue += value;
+            if (config.collateralEnabled) {
+                borrowLimit += (value * config.ltv) / 10000;
+            }
+            liquidationLimit += (value * config.liquidationThreshold) / 10000;
+        }
+
+        address[] memory debtTokens = loanManager.getDebtTokens(user);
+        for (uint256 i = 0; i < debtTokens.length; i++) {
+            address token = debtTokens[i];
+            uint256 debtAmount = loanManager.getLoanAmount(user, token) +
+                loanManager.calculateInterest(user, token);
+            debtValue += (debtAmount * priceOracle.getPrice(token)) / 1e18;
+        }
+    }
 
-        emit Liquidation(user, collateralToken, debtToken, loanAmount);
+    function _isWithinBorrowLimit(address user) internal view returns (bool) {
+        (, uint256 borrowLimit, , uint256 debtValue) = _accountValues(user);
+        return debtValue <= borrowLimit;
     }
 
-    function whitelistToken(address token) external onlyOwner {
-        whitelistedTokens[token] = true;
+    /// @dev Returns the configuration of a listed reserve that takes new
+    /// deposits, supplies and borrows.
+    function _activeReserve(
+        address token
+    ) internal view returns (ReserveRegistry.ReserveConfig memory config) {
+        require(reserveRegistry.isListed(token), "Token not whitelisted");
+        config = reserveRegistry.getReserveConfig(token);
+        require(!config.paused, "Reserve paused");
+        require(!config.frozen, "Reserve frozen");
+    }
+
+    function _requireNotPaused(address token) internal view {
+        require(
+            !reserveRegistry.getReserveConfig(token).paused,
+            "Reserve paused"
+        );
+    }
+
+    /// @dev The cap covers everything put into the reserve: collateral and
+    /// supplied liquidity, including what is lent out.
+    function _checkSupplyCap(address token, uint256 supplyCap) internal view {
+        require(
+            supplyCap == 0 ||
+                loanManager.totalCollateral(token) +
+                    availableLiquidity[token] +
+                    loanManager.getTotalBorrows(token) <=
+                supplyCap,
+            "Supply cap exceeded"
+        );
+    }
+
+    /// @dev Accrues interest and re-prices the reserve for its current
+    /// supplied liquidity.
+    function _updateRates(address token) internal {
+        loanManager.updateRates(token, availableLiquidity[token]);
+    }
+
+    /// @dev Prices `repayAmount` of `debtToken` in `collateralToken` plus the
+    /// liquidation bonus. When the user's collateral can't cover that, all of
+    /// it is seized and the repayment shrinks to match.
+    function _liquidationAmounts(
+        address user,
+        address collateralToken,
+        address debtToken,
+        uint256 repayAmount
+    ) internal view returns (uint256 debtRepaid, uint256 collateralSeized) {
+        uint256 collateralPrice = priceOracle.getPrice(collateralToken);
+        uint256 debtPrice = priceOracle.getPrice(debtToken);
+        uint256 bonus = 10000 +
+            reserveRegistry.getReserveConfig(collateralToken).liquidationBonus;
+        uint256 collateralAmount = loanManager.getCollateralAmount(
+            user,
+            collateralToken
+        );
+
+        debtRepaid = repayAmount;
+        collateralSeized =
+            (repayAmount * debtPrice * bonus) /
+            (collateralPrice * 10000);
+        if (collateralSeized > collateralAmount) {
+            collateralSeized = collateralAmount;
+            debtRepaid =
+                (collateralAmount * collateralPrice * 10000) /
+                (debtPrice * bonus);
+        }
+    }
+
+    /// @dev Writes off every debt of an account with no collateral left.
+    function _writeOffDebt(address user) internal {
+        address[] memory debtTokens = loanManager.getDebtTokens(user);
+        for (uint256 i = 0; i < debtTokens.length; i++) {
+            address token = debtTokens[i];
+            uint256 amount = loanManager.getLoanAmount(user, token) +
+                loanManager.calculateInterest(user, token);
+            loanManager.updateLoan(user, token, amount, false);
+            badDebt[token] += amount;
+            _updateRates(token);
+            emit BadDebtRecorded(user, token, amount);
+        }
+    }
+
+    /// @dev Returns up to `amount` of `token`'s bad debt to lenders'
+    /// liquidity and returns what is left of `amount`.
+    function _coverBadDebt(
+        address token,
+        uint256 amount
+    ) internal returns (uint256) {
+        uint256 covered = amount < badDebt[token] ? amount : badDebt[token];
+        if (covered == 0) return amount;
+        badDebt[token] -= covered;
+        availableLiquidity[token] += covered;
+        emit BadDebtCovered(token, covered);
+        return amount - covered;
+    }
+
+    /// @dev Covers outstanding bad debt first, then hands protocol fees to
+    /// the rewards distributor, or to lenders while there is none.
+    function _collectFee(address token, uint256 amount) internal {
+        amount = _coverBadDebt(token, amount);
+        if (amount == 0) return;
+        if (address(rewardsDistributor) == address(0)) {
+            availableLiquidity[token] += amount;
+        } else {
+            require(
+                IERC20(token).transfer(address(rewardsDistributor), amount),
+                "Transfer failed"
+            );
+            rewardsDistributor.notifyFees(token);
+        }
+        emit FeesCollected(token, amount);
+    }
+
+    /// @dev Pulls `amount` of `token` from `from` and returns how much
+    /// actually arrived, which is less for fee-on-transfer tokens.
+    function _transferIn(
+        address token,
+        address from,
+        uint256 amount
+    ) internal returns (uint256 received) {
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        require(
+            IERC20(token).transferFrom(from, address(this), amount),
+            "Transfer failed"
+        );
+        received = IERC20(token).balanceOf(address(this)) - balanceBefore;
     }
 
-    function updatePrice(address token, uint256 price) external onlyOwner {
-        tokenPrices[token] = price;
-        emit PriceUpdated(token, price);
+    /// @dev The account a user-facing call acts for: the address a trusted
+    /// router appended to the calldata, or the caller. Role checks keep
+    /// using `msg.sender`, so a router never acts for anyone there.
+    function _sender() internal view returns (address) {
+        if (routers[msg.sender] && msg.data.length >= 4 + 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
     }
 
-    function distributeRewards() external onlyOwner {
-        require(rewardPool > 0, "No rewards to distribute");
-        IERC20(address(auctionManager)).transfer(msg.sender, rewardPool);
-        rewardPool = 0;
+    function _setPriceOracle(IPriceOracle _priceOracle) internal {
+        require(address(_priceOracle) != address(0), "Invalid price oracle");
+        priceOracle = _priceOracle;
+        emit PriceOracleUpdated(address(_priceOracle));
     }
 }
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "./AuctionManager.sol";
+import "./LendingPool.sol";
+
+/// @notice Batches pool actions into one transaction with `multicall`. Each
+/// call acts for the router's caller: the pool trusts this router to append
+/// the caller's address, so deposits, borrows, repayments, withdrawals and
+/// liquidations move tokens straight between the caller and the pool.
+/// Approvals can come from EIP-2612 permits in the same batch.
+/// @dev The pool must list this router with `setRouter`. The router only
+/// holds tokens in the middle of `liquidateAndBid`.
+contract LendingRouter is Multicall {
+    LendingPool public immutable lendingPool;
+    AuctionManager public immutable auctionManager;
+
+    constructor(LendingPool _lendingPool) {
+        lendingPool = _lendingPool;
+        auctionManager = _lendingPool.auctionManager();
+    }
+
+    /// @notice Redeems the caller's permit for `spender`: the pool for
+    /// deposits, supplies, repayments and liquidations, this router for
+    /// `liquidateAndBid`. A permit someone else already submitted is not an
+    /// error as long as the allowance it granted is in place.
+    function permit(address token, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        try IERC20Permit(token).permit(msg.sender, spender, value, deadline, v, r, s) {} catch {
+            require(IERC20(token).allowance(msg.sender, spender) >= value, "Permit failed");
+        }
+    }
+
+    function deposit(address token, uint256 amount) external {
+        _forward(abi.encodeCall(LendingPool.deposit, (token, amount)));
+    }
+
+    function withdraw(address token, uint256 amount) external {
+        _forward(abi.encodeCall(LendingPool.withdraw, (token, amount)));
+    }
+
+    function supply(address token, uint256 amount) external {
+        _forward(abi.encodeCall(LendingPool.supply, (token, amount)));
+    }
+
+    function redeem(address token, uint256 shares) external {
+        _forward(abi.encodeCall(LendingPool.redeem, (token, shares)));
+    }
+
+    function borrow(address token, uint256 amount) external {
+        _forward(abi.encodeCall(LendingPool.borrow, (token, amount)));
+    }
+
+    function repay(address token, uint256 amount) external {
+        _forward(abi.encodeCall(LendingPool.repay, (token, amount)));
+    }
+
+    function liquidate(address user, address collateralToken, address debtToken, uint256 repayAmount) external {
+        _forward(abi.encodeCall(LendingPool.liquidate, (user, collateralToken, debtToken, repayAmount)));
+    }
+
+    /// @notice Hands `user`'s `debtToken` debt to a Dutch auction and buys
+    /// as much of its collateral as `maxCost` of the caller's `debtToken`
+    /// pays for, at no more than `maxPrice`. The collateral bought and
+    /// whatever is left of `maxCost` go back to the caller.
+    /// @dev Pulls `maxCost` from the caller, so it needs an allowance or
+    /// permit for this router rather than the pool.
+    function liquidateAndBid(address user, address collateralToken, address debtToken, uint256 maxCost, uint256 maxPrice) external returns (uint256 auctionId, uint256 bought) {
+        auctionId = abi.decode(
+            _forward(abi.encodeCall(LendingPool.liquidateToAuction, (user, collateralToken, debtToken))),
+            (uint256)
+        );
+        uint256 price = auctionManager.getDutchAuctionPrice(auctionId);
+        require(price > 0, "Invalid price");
+        require(price <= maxPrice, "Price above limit");
+
+        require(IERC20(debtToken).transferFrom(msg.sender, address(this), maxCost), "Transfer failed");
+        uint256 budget = IERC20(debtToken).balanceOf(address(this));
+        IERC20(debtToken).approve(address(auctionManager), budget);
+        uint256 balanceBefore = IERC20(collateralToken).balanceOf(address(this));
+        auctionManager.buy(auctionId, (budget * 1e18) / price, price);
+        bought = IERC20(collateralToken).balanceOf(address(this)) - balanceBefore;
+
+        _sweep(collateralToken);
+        _sweep(debtToken);
+    }
+
+    /// @dev Calls the pool as the router's caller, bubbling up its revert.
+    function _forward(bytes memory data) internal returns (bytes memory result) {
+        bool success;
+        (success, result) = address(lendingPool).call(abi.encodePacked(data, msg.sender));
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function _sweep(address token) internal {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        if (balance > 0) require(IERC20(token).transfer(msg.sender, balance), "Transfer failed");
+    }
+}
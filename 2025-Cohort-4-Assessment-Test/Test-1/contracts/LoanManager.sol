@@ -1,63 +1,137 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.17;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./interfaces/IInterestRateStrategy.sol";
 
-contract LoanManager is Ownable {
+contract LoanManager is AccessControl {
     struct Loan {
-        uint256 amount;
-        uint256 lastInterestUpdate;
+        uint256 amount; // debt as of the last update, including interest
+        uint256 borrowIndex; // reserve borrow index at the last update
+    }
+
+    /// @dev Per-token interest state. Indices start at 1e18 and grow with the
+    /// rate in force since `lastUpdate`, so a loan's debt is
+    /// `loan.amount * borrowIndex / loan.borrowIndex` without touching
+    /// every borrower. `supplyIndex` is also the exchange rate of the
+    /// reserve's receipt token. `feesAccrued` is the reserve factor's cut
+    /// of the interest, owed to the protocol rather than lenders until the
+    /// pool takes it.
+    struct Reserve {
+        uint256 borrowIndex;
+        uint256 supplyIndex;
+        uint256 totalBorrows;
+        uint256 cash;
+        uint256 borrowRate;
+        uint256 supplyRate;
+        uint256 lastUpdate;
+        uint256 feesAccrued;
     }
 
     mapping(address => mapping(address => uint256)) public collateral;
+    mapping(address => uint256) public totalCollateral;
     mapping(address => mapping(address => Loan)) public loans;
+    mapping(address => Reserve) public reserves;
+    mapping(address => IInterestRateStrategy) public interestRateStrategies;
+
+    // Tokens each user currently has a non-zero collateral or loan balance in.
+    mapping(address => address[]) internal collateralTokens;
+    mapping(address => address[]) internal debtTokens;
 
-    uint256 public constant INTEREST_RATE = 5; // 5% annual interest rate
+    // Held by the pool that deployed this contract.
+    bytes32 public constant POOL_ROLE = keccak256("POOL_ROLE");
+
+    uint256 public constant INTEREST_RATE = 5; // 5% annual rate for tokens without a strategy
+    uint256 public constant RESERVE_FACTOR = 10; // 10% of interest kept by the protocol
     uint256 public constant SECONDS_PER_YEAR = 31536000;
 
     event CollateralUpdated(address indexed user, address indexed token, uint256 amount, bool isDeposit);
     event LoanUpdated(address indexed user, address indexed token, uint256 amount, bool isBorrow);
-    event LoanCleared(address indexed user, address indexed collateralToken, address indexed debtToken);
+    event InterestRateStrategyUpdated(address indexed token, address indexed strategy);
+    event RatesUpdated(address indexed token, uint256 borrowRate, uint256 supplyRate, uint256 borrowIndex, uint256 supplyIndex);
 
-    function updateCollateral(address user, address token, uint256 amount, bool isDeposit) external onlyOwner {
+    function updateCollateral(address user, address token, uint256 amount, bool isDeposit) external onlyRole(POOL_ROLE) {
+        uint256 balanceBefore = collateral[user][token];
         if (isDeposit) {
             collateral[user][token] += amount;
+            totalCollateral[token] += amount;
         } else {
-            require(collateral[user][token] >= amount, "insufficient collateral");
+            require(balanceBefore >= amount, "insufficient collateral");
             collateral[user][token] -= amount;
+            totalCollateral[token] -= amount;
         }
+        _syncToken(collateralTokens[user], token, balanceBefore, collateral[user][token]);
         emit CollateralUpdated(user, token, amount, isDeposit);
     }
 
-    function updateLoan(address user, address token, uint256 amount, bool isBorrow) external onlyOwner {
+    function updateLoan(address user, address token, uint256 amount, bool isBorrow) external onlyRole(POOL_ROLE) {
+        Reserve storage reserve = _accrue(token);
         Loan storage loan = loans[user][token];
+        uint256 amountBefore = loan.amount;
+        uint256 debt = _currentDebt(loan, reserve.borrowIndex);
 
         if (isBorrow) {
-            if (loan.amount == 0) {
-                loan.lastInterestUpdate = block.timestamp;
-            } else {
-                uint256 interest = calculateInterest(user, token);
-                loan.amount += interest;
-                loan.lastInterestUpdate = block.timestamp;
-            }
-            loan.amount += amount;
+            debt += amount;
+            reserve.totalBorrows += amount;
         } else {
-            require(loan.amount >= amount, "Repayment amount too high");
-            uint256 interest = calculateInterest(user, token);
-            loan.amount += interest;
-            loan.amount -= amount;
-            loan.lastInterestUpdate = block.timestamp;
+            require(debt >= amount, "Repayment amount too high");
+            debt -= amount;
+            reserve.totalBorrows = _subFloor(reserve.totalBorrows, amount);
         }
 
+        loan.amount = debt;
+        loan.borrowIndex = reserve.borrowIndex;
+        _syncToken(debtTokens[user], token, amountBefore, debt);
+
         emit LoanUpdated(user, token, amount, isBorrow);
     }
 
+    /// @notice Accrues interest and re-prices the reserve for the liquidity
+    /// the pool currently holds in `token`.
+    function updateRates(address token, uint256 cash) external onlyRole(POOL_ROLE) {
+        Reserve storage reserve = _accrue(token);
+        reserve.cash = cash;
+        _updateRates(token, reserve);
+    }
+
+    /// @notice Hands the pool up to `max` of the fees accrued on `token`
+    /// loans, for it to pay out of cash it has just received.
+    function takeFees(address token, uint256 max) external onlyRole(POOL_ROLE) returns (uint256 fees) {
+        Reserve storage reserve = _accrue(token);
+        fees = reserve.feesAccrued < max ? reserve.feesAccrued : max;
+        reserve.feesAccrued -= fees;
+    }
+
+    function setInterestRateStrategy(address token, IInterestRateStrategy strategy) external onlyRole(POOL_ROLE) {
+        Reserve storage reserve = _accrue(token);
+        interestRateStrategies[token] = strategy;
+        _updateRates(token, reserve);
+        emit InterestRateStrategyUpdated(token, address(strategy));
+    }
+
     function calculateInterest(address user, address token) public view returns (uint256) {
         Loan storage loan = loans[user][token];
         if (loan.amount == 0) return 0;
 
-        uint256 timeElapsed = block.timestamp - loan.lastInterestUpdate;
-        return (loan.amount * INTEREST_RATE * timeElapsed) / (SECONDS_PER_YEAR * 100);
+        return _currentDebt(loan, getBorrowIndex(token)) - loan.amount;
+    }
+
+    function getBorrowIndex(address token) public view returns (uint256) {
+        Reserve storage reserve = reserves[token];
+        if (reserve.lastUpdate == 0) return 1e18;
+        return _grow(reserve.borrowIndex, reserve.borrowRate, block.timestamp - reserve.lastUpdate);
+    }
+
+    function getSupplyIndex(address token) public view returns (uint256) {
+        Reserve storage reserve = reserves[token];
+        if (reserve.lastUpdate == 0) return 1e18;
+        return _grow(reserve.supplyIndex, reserve.supplyRate, block.timestamp - reserve.lastUpdate);
+    }
+
+    function getTotalBorrows(address token) external view returns (uint256) {
+        Reserve storage reserve = reserves[token];
+        if (reserve.lastUpdate == 0) return 0;
+        return _grow(reserve.totalBorrows, reserve.borrowRate, block.timestamp - reserve.lastUpdate);
     }
 
     function getCollateralAmount(address user, address token) external view returns (uint256) {
@@ -68,12 +142,92 @@ contract LoanManager is Ownable {
         return loans[user][token].amount;
     }
 
-    function clearLoan(address user, address collateralToken, address debtToken) external onlyOwner {
-        delete collateral[user][collateralToken];
-        delete loans[user][debtToken];
-        emit LoanCleared(user, collateralToken, debtToken);
+    function getCollateralTokens(address user) external view returns (address[] memory) {
+        return collateralTokens[user];
     }
 
-    constructor() Ownable(msg.sender) {}
-}
+    function getDebtTokens(address user) external view returns (address[] memory) {
+        return debtTokens[user];
+    }
 
+    /// @param admin can grant and revoke roles. The deploying pool keeps an
+    /// immutable reference to this contract, which no other pool can take
+    /// over.
+    constructor(address admin) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(POOL_ROLE, msg.sender);
+    }
+
+    /// @dev Brings the reserve's indices and total borrows up to date,
+    /// initializing them on first use.
+    function _accrue(address token) internal returns (Reserve storage reserve) {
+        reserve = reserves[token];
+
+        if (reserve.lastUpdate == 0) {
+            reserve.borrowIndex = 1e18;
+            reserve.supplyIndex = 1e18;
+            reserve.lastUpdate = block.timestamp;
+            _updateRates(token, reserve);
+            return reserve;
+        }
+
+        uint256 timeElapsed = block.timestamp - reserve.lastUpdate;
+        if (timeElapsed == 0) return reserve;
+
+        uint256 totalBorrows = _grow(reserve.totalBorrows, reserve.borrowRate, timeElapsed);
+        reserve.feesAccrued += ((totalBorrows - reserve.totalBorrows) * RESERVE_FACTOR) / 100;
+        reserve.totalBorrows = totalBorrows;
+        reserve.borrowIndex = _grow(reserve.borrowIndex, reserve.borrowRate, timeElapsed);
+        reserve.supplyIndex = _grow(reserve.supplyIndex, reserve.supplyRate, timeElapsed);
+        reserve.lastUpdate = block.timestamp;
+    }
+
+    function _updateRates(address token, Reserve storage reserve) internal {
+        IInterestRateStrategy strategy = interestRateStrategies[token];
+        uint256 borrows = reserve.totalBorrows;
+
+        if (address(strategy) == address(0)) {
+            reserve.borrowRate = (INTEREST_RATE * 1e18) / 100;
+        } else {
+            reserve.borrowRate = strategy.getBorrowRate(reserve.cash, borrows);
+        }
+
+        uint256 utilization = borrows == 0 ? 0 : (borrows * 1e18) / (reserve.cash + borrows);
+        reserve.supplyRate = (reserve.borrowRate * utilization * (100 - RESERVE_FACTOR)) / (1e18 * 100);
+
+        emit RatesUpdated(token, reserve.borrowRate, reserve.supplyRate, reserve.borrowIndex, reserve.supplyIndex);
+    }
+
+    function _currentDebt(Loan storage loan, uint256 borrowIndex) internal view returns (uint256) {
+        if (loan.amount == 0) return 0;
+        return (loan.amount * borrowIndex) / loan.borrowIndex;
+    }
+
+    /// @dev Simple interest over `timeElapsed`; compounding happens every
+    /// time the reserve is accrued.
+    function _grow(uint256 value, uint256 rate, uint256 timeElapsed) internal pure returns (uint256) {
+        return value + (value * rate * timeElapsed) / (SECONDS_PER_YEAR * 1e18);
+    }
+
+    /// @dev Individual debts are rounded down separately from the total, so
+    /// the last repayment can exceed what is left of `totalBorrows`.
+    function _subFloor(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a > b ? a - b : 0;
+    }
+
+    /// @dev Adds `token` to `list` when a balance opens and removes it
+    /// (swap and pop) when the balance is closed.
+    function _syncToken(address[] storage list, address token, uint256 balanceBefore, uint256 balanceAfter) internal {
+        if (balanceBefore == 0 && balanceAfter > 0) {
+            list.push(token);
+        } else if (balanceBefore > 0 && balanceAfter == 0) {
+            for (uint256 i = 0; i < list.length; i++) {
+                if (list[i] == token) {
+                    list[i] = list[list.length - 1];
+                    list.pop();
+                    break;
+                }
+            }
+        }
+    }
+}
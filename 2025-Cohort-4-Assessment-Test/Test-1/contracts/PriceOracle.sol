@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./interfaces/IAggregatorV3.sol";
+import "./interfaces/IPriceOracle.sol";
+
+contract PriceOracle is IPriceOracle, AccessControl {
+    struct Feed {
+        IAggregatorV3 aggregator;
+        uint256 heartbeat;
+    }
+
+    mapping(address => Feed) public feeds;
+
+    // Points tokens at their feeds. The admin only manages roles.
+    bytes32 public constant PRICE_UPDATER_ROLE = keccak256("PRICE_UPDATER_ROLE");
+
+    event FeedUpdated(address indexed token, address indexed aggregator, uint256 heartbeat);
+
+    function setFeed(address token, IAggregatorV3 aggregator, uint256 heartbeat) external onlyRole(PRICE_UPDATER_ROLE) {
+        require(address(aggregator) != address(0), "Invalid aggregator");
+        require(heartbeat > 0, "Invalid heartbeat");
+        require(aggregator.decimals() <= 18, "Unsupported decimals");
+
+        feeds[token] = Feed({aggregator: aggregator, heartbeat: heartbeat});
+        emit FeedUpdated(token, address(aggregator), heartbeat);
+    }
+
+    function getPrice(address token) external view returns (uint256) {
+        Feed memory feed = feeds[token];
+        require(address(feed.aggregator) != address(0), "Price feed not set");
+
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = feed
+            .aggregator
+            .latestRoundData();
+
+        require(answer > 0, "Invalid price");
+        require(updatedAt != 0 && answeredInRound >= roundId, "Incomplete round");
+        require(block.timestamp - updatedAt <= feed.heartbeat, "Stale price");
+
+        return uint256(answer) * 10 ** (18 - feed.aggregator.decimals());
+    }
+
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PRICE_UPDATER_ROLE, msg.sender);
+    }
+}
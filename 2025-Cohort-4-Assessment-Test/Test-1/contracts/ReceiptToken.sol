@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Interest-bearing claim on a `LendingPool` reserve. Balances are
+/// fixed shares; each share redeems for `LendingPool.getExchangeRate`
+/// underlying tokens, which grows as borrowers pay interest.
+contract ReceiptToken is ERC20 {
+    address public immutable pool;
+    address public immutable underlying;
+
+    constructor(string memory name, string memory symbol, address _pool, address _underlying) ERC20(name, symbol) {
+        pool = _pool;
+        underlying = _underlying;
+    }
+
+    modifier onlyPool() {
+        require(msg.sender == pool, "Caller is not the pool");
+        _;
+    }
+
+    function mint(address to, uint256 amount) external onlyPool {
+        _mint(to, amount);
+    }
+
+    function burn(address from, uint256 amount) external onlyPool {
+        _burn(from, amount);
+    }
+}
@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @notice Lists the tokens a `LendingPool` supports and holds each one's
+/// risk parameters. Deployed by the pool, which forwards its risk manager's
+/// changes.
+contract ReserveRegistry is AccessControl {
+    /// @dev Shares and fees are in basis points. Caps are in token units,
+    /// with zero meaning uncapped.
+    struct ReserveConfig {
+        bool borrowingEnabled;
+        bool collateralEnabled;
+        uint256 ltv; // share of the collateral's value that can be borrowed against
+        uint256 liquidationThreshold; // share of the collateral's value debt may reach before liquidation
+        uint256 liquidationBonus; // extra collateral liquidators receive
+        uint256 flashLoanFee;
+        uint256 supplyCap; // collateral plus supplied liquidity
+        uint256 borrowCap;
+        bool frozen; // no new deposits, supplies or borrows
+        bool paused; // no actions at all
+    }
+
+    // Held by the pool that deployed this contract.
+    bytes32 public constant POOL_ROLE = keccak256("POOL_ROLE");
+
+    mapping(address => ReserveConfig) internal configs;
+    mapping(address => bool) public isListed;
+    address[] internal reserveList;
+    // Tokens listed at some point; relisting keeps their configuration.
+    mapping(address => bool) internal configured;
+
+    uint256 public constant MAX_LIQUIDATION_BONUS = 2000; // 20%
+    uint256 public constant MAX_FLASH_LOAN_FEE = 100; // 1%
+    // New listings start at the protocol's original terms: a 150%
+    // collateralization ratio and a 0.09% flash loan fee.
+    uint256 public constant DEFAULT_LTV = 6667;
+    uint256 public constant DEFAULT_LIQUIDATION_THRESHOLD = 6667;
+    uint256 public constant DEFAULT_FLASH_LOAN_FEE = 9;
+
+    event ReserveListed(address indexed token);
+    event ReserveDelisted(address indexed token);
+    event ReserveConfigUpdated(address indexed token, ReserveConfig config);
+    event LiquidationBonusUpdated(address indexed token, uint256 bonus);
+    event ReserveFrozen(address indexed token, bool frozen);
+    event ReservePaused(address indexed token, bool paused);
+
+    modifier onlyListed(address token) {
+        require(isListed[token], "Token not whitelisted");
+        _;
+    }
+
+    /// @param admin can grant and revoke roles. The registry serves only the
+    /// pool that deployed it, which keeps an immutable reference to it.
+    constructor(address admin) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(POOL_ROLE, msg.sender);
+    }
+
+    /// @notice Lists `token`, with the default configuration the first time.
+    /// Listing an already listed token does nothing.
+    function listReserve(address token) external onlyRole(POOL_ROLE) {
+        if (isListed[token]) return;
+        isListed[token] = true;
+        reserveList.push(token);
+        emit ReserveListed(token);
+
+        if (!configured[token]) {
+            configured[token] = true;
+            _setReserveConfig(
+                token,
+                ReserveConfig({
+                    borrowingEnabled: true,
+                    collateralEnabled: true,
+                    ltv: DEFAULT_LTV,
+                    liquidationThreshold: DEFAULT_LIQUIDATION_THRESHOLD,
+                    liquidationBonus: 0,
+                    flashLoanFee: DEFAULT_FLASH_LOAN_FEE,
+                    supplyCap: 0,
+                    borrowCap: 0,
+                    frozen: false,
+                    paused: false
+                })
+            );
+        }
+    }
+
+    /// @notice Removes `token` from the list. Its configuration stays in
+    /// force so existing positions can still be valued and unwound.
+    function delistReserve(address token) external onlyRole(POOL_ROLE) onlyListed(token) {
+        isListed[token] = false;
+        for (uint256 i = 0; i < reserveList.length; i++) {
+            if (reserveList[i] == token) {
+                reserveList[i] = reserveList[reserveList.length - 1];
+                reserveList.pop();
+                break;
+            }
+        }
+        emit ReserveDelisted(token);
+    }
+
+    function setReserveConfig(address token, ReserveConfig calldata config) external onlyRole(POOL_ROLE) onlyListed(token) {
+        _setReserveConfig(token, config);
+    }
+
+    function setLiquidationBonus(address token, uint256 bonus) external onlyRole(POOL_ROLE) onlyListed(token) {
+        ReserveConfig memory config = configs[token];
+        config.liquidationBonus = bonus;
+        _setReserveConfig(token, config);
+        emit LiquidationBonusUpdated(token, bonus);
+    }
+
+    function setFrozen(address token, bool frozen) external onlyRole(POOL_ROLE) onlyListed(token) {
+        configs[token].frozen = frozen;
+        emit ReserveFrozen(token, frozen);
+    }
+
+    function setPaused(address token, bool paused) external onlyRole(POOL_ROLE) onlyListed(token) {
+        configs[token].paused = paused;
+        emit ReservePaused(token, paused);
+    }
+
+    function getReserveConfig(address token) external view returns (ReserveConfig memory) {
+        return configs[token];
+    }
+
+    function getReserves() external view returns (address[] memory) {
+        return reserveList;
+    }
+
+    /// @dev A liquidation at the threshold must not hand out more collateral,
+    /// bonus included, than the collateral backing the debt.
+    function _setReserveConfig(address token, ReserveConfig memory config) internal {
+        require(config.liquidationThreshold <= 10000, "Invalid liquidation threshold");
+        require(config.ltv <= config.liquidationThreshold, "Invalid LTV");
+        require(
+            config.liquidationBonus <= MAX_LIQUIDATION_BONUS && config.liquidationThreshold * (10000 + config.liquidationBonus) <= 10000 * 10000,
+            "Invalid liquidation bonus"
+        );
+        require(config.flashLoanFee <= MAX_FLASH_LOAN_FEE, "Invalid flash loan fee");
+
+        configs[token] = config;
+        emit ReserveConfigUpdated(token, config);
+    }
+}
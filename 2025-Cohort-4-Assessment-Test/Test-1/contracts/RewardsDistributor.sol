@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/// @notice Splits the fees a `LendingPool` collects between a protocol
+/// reserve, a liquidator incentive pool and stakers of `stakingToken`. The
+/// stakers' share of each fee token is streamed over `rewardsDuration` with a
+/// reward-per-token accumulator, so stakers earn in proportion to their stake
+/// and how long they held it.
+/// @dev Stakers' rewards streamed while nothing is staked stay in the
+/// contract unclaimed.
+contract RewardsDistributor is Ownable, ReentrancyGuard {
+    struct FeeShares {
+        uint256 reserve; // basis points
+        uint256 liquidatorIncentive; // basis points
+        uint256 stakers; // basis points
+    }
+
+    struct Reward {
+        uint256 rewardRate; // tokens per second
+        uint256 periodFinish;
+        uint256 lastUpdateTime;
+        uint256 rewardPerTokenStored; // scaled by 1e18
+        uint256 remainder; // tokens the rounded-down rate leaves for the next period
+    }
+
+    // Where each fee token's fees went, for reporting.
+    struct FeeBreakdown {
+        uint256 reserve;
+        uint256 liquidatorIncentive;
+        uint256 stakers;
+    }
+
+    IERC20 public immutable stakingToken;
+    address public immutable pool;
+    uint256 public immutable rewardsDuration;
+
+    FeeShares public feeShares;
+
+    mapping(address => Reward) public rewardData;
+    address[] internal rewardTokens;
+
+    mapping(address => mapping(address => uint256)) public userRewardPerTokenPaid;
+    mapping(address => mapping(address => uint256)) public rewards;
+
+    uint256 public totalStaked;
+    mapping(address => uint256) public balanceOf;
+
+    // Reserve and liquidator incentive balances not yet withdrawn.
+    mapping(address => uint256) public reserves;
+    mapping(address => uint256) public liquidatorIncentives;
+    mapping(address => FeeBreakdown) internal feeBreakdown;
+    // Tokens held for a purpose; anything above this is newly arrived fees.
+    mapping(address => uint256) internal accounted;
+
+    event FeeSharesUpdated(uint256 reserve, uint256 liquidatorIncentive, uint256 stakers);
+    event FeesReceived(address indexed token, uint256 reserve, uint256 liquidatorIncentive, uint256 stakers);
+    event Staked(address indexed user, uint256 amount);
+    event Unstaked(address indexed user, uint256 amount);
+    event RewardPaid(address indexed user, address indexed token, uint256 amount);
+    event ReserveWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event LiquidatorIncentiveWithdrawn(address indexed token, address indexed to, uint256 amount);
+
+    modifier onlyPool() {
+        require(msg.sender == pool, "Caller is not the pool");
+        _;
+    }
+
+    modifier updateReward(address user) {
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address token = rewardTokens[i];
+            Reward storage reward = rewardData[token];
+            reward.rewardPerTokenStored = rewardPerToken(token);
+            reward.lastUpdateTime = lastTimeRewardApplicable(token);
+            if (user != address(0)) {
+                rewards[user][token] = earned(user, token);
+                userRewardPerTokenPaid[user][token] = reward.rewardPerTokenStored;
+            }
+        }
+        _;
+    }
+
+    constructor(IERC20 _stakingToken, address _pool, uint256 _rewardsDuration) Ownable(msg.sender) {
+        require(_rewardsDuration > 0, "Invalid rewards duration");
+        stakingToken = _stakingToken;
+        pool = _pool;
+        rewardsDuration = _rewardsDuration;
+        _setFeeShares(FeeShares({reserve: 2000, liquidatorIncentive: 1000, stakers: 7000}));
+    }
+
+    function setFeeShares(FeeShares calldata shares) external onlyOwner {
+        _setFeeShares(shares);
+    }
+
+    /// @notice Splits whatever `token` the pool sent since the last call.
+    function notifyFees(address token) external onlyPool updateReward(address(0)) {
+        uint256 amount = IERC20(token).balanceOf(address(this)) - accounted[token];
+        if (amount == 0) return;
+        accounted[token] += amount;
+
+        uint256 reserveAmount = (amount * feeShares.reserve) / 10000;
+        uint256 incentiveAmount = (amount * feeShares.liquidatorIncentive) / 10000;
+        uint256 stakersAmount = amount - reserveAmount - incentiveAmount;
+
+        reserves[token] += reserveAmount;
+        liquidatorIncentives[token] += incentiveAmount;
+        FeeBreakdown storage breakdown = feeBreakdown[token];
+        breakdown.reserve += reserveAmount;
+        breakdown.liquidatorIncentive += incentiveAmount;
+        breakdown.stakers += stakersAmount;
+
+        if (stakersAmount > 0) _notifyRewardAmount(token, stakersAmount);
+        emit FeesReceived(token, reserveAmount, incentiveAmount, stakersAmount);
+    }
+
+    function stake(uint256 amount) external nonReentrant updateReward(msg.sender) {
+        uint256 balanceBefore = stakingToken.balanceOf(address(this));
+        require(stakingToken.transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        uint256 received = stakingToken.balanceOf(address(this)) - balanceBefore;
+        require(received > 0, "Invalid amount");
+
+        totalStaked += received;
+        balanceOf[msg.sender] += received;
+        accounted[address(stakingToken)] += received;
+        emit Staked(msg.sender, received);
+    }
+
+    function unstake(uint256 amount) external nonReentrant updateReward(msg.sender) {
+        require(amount > 0, "Invalid amount");
+        require(balanceOf[msg.sender] >= amount, "Insufficient stake");
+
+        totalStaked -= amount;
+        balanceOf[msg.sender] -= amount;
+        accounted[address(stakingToken)] -= amount;
+        require(stakingToken.transfer(msg.sender, amount), "Transfer failed");
+        emit Unstaked(msg.sender, amount);
+    }
+
+    /// @notice Pays out everything the caller has earned in every fee token.
+    function claim() external nonReentrant updateReward(msg.sender) {
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address token = rewardTokens[i];
+            uint256 reward = rewards[msg.sender][token];
+            if (reward == 0) continue;
+
+            rewards[msg.sender][token] = 0;
+            accounted[token] -= reward;
+            require(IERC20(token).transfer(msg.sender, reward), "Transfer failed");
+            emit RewardPaid(msg.sender, token, reward);
+        }
+    }
+
+    function withdrawReserve(address token, address to, uint256 amount) external onlyOwner {
+        require(reserves[token] >= amount, "Insufficient reserve");
+        reserves[token] -= amount;
+        accounted[token] -= amount;
+        require(IERC20(token).transfer(to, amount), "Transfer failed");
+        emit ReserveWithdrawn(token, to, amount);
+    }
+
+    function withdrawLiquidatorIncentive(address token, address to, uint256 amount) external onlyOwner {
+        require(liquidatorIncentives[token] >= amount, "Insufficient incentive");
+        liquidatorIncentives[token] -= amount;
+        accounted[token] -= amount;
+        require(IERC20(token).transfer(to, amount), "Transfer failed");
+        emit LiquidatorIncentiveWithdrawn(token, to, amount);
+    }
+
+    function lastTimeRewardApplicable(address token) public view returns (uint256) {
+        uint256 periodFinish = rewardData[token].periodFinish;
+        return block.timestamp < periodFinish ? block.timestamp : periodFinish;
+    }
+
+    function rewardPerToken(address token) public view returns (uint256) {
+        Reward storage reward = rewardData[token];
+        if (totalStaked == 0) return reward.rewardPerTokenStored;
+        return reward.rewardPerTokenStored + ((lastTimeRewardApplicable(token) - reward.lastUpdateTime) * reward.rewardRate * 1e18) / totalStaked;
+    }
+
+    function earned(address user, address token) public view returns (uint256) {
+        return (balanceOf[user] * (rewardPerToken(token) - userRewardPerTokenPaid[user][token])) / 1e18 + rewards[user][token];
+    }
+
+    function getRewardTokens() external view returns (address[] memory) {
+        return rewardTokens;
+    }
+
+    /// @return reserve fees of `token` ever sent to the reserve
+    /// @return liquidatorIncentive fees ever sent to the liquidator incentive pool
+    /// @return stakers fees ever streamed to stakers
+    function getFeeBreakdown(address token) external view returns (uint256 reserve, uint256 liquidatorIncentive, uint256 stakers) {
+        FeeBreakdown storage breakdown = feeBreakdown[token];
+        return (breakdown.reserve, breakdown.liquidatorIncentive, breakdown.stakers);
+    }
+
+    /// @dev Streams `amount` over a fresh `rewardsDuration`, rolling in
+    /// whatever was still left of the current period and the remainder the
+    /// previous rate could not stream.
+    function _notifyRewardAmount(address token, uint256 amount) internal {
+        Reward storage reward = rewardData[token];
+        if (reward.lastUpdateTime == 0) rewardTokens.push(token);
+
+        uint256 total = amount + reward.remainder;
+        if (block.timestamp < reward.periodFinish) {
+            total += (reward.periodFinish - block.timestamp) * reward.rewardRate;
+        }
+        reward.rewardRate = total / rewardsDuration;
+        reward.remainder = total % rewardsDuration;
+        reward.lastUpdateTime = block.timestamp;
+        reward.periodFinish = block.timestamp + rewardsDuration;
+    }
+
+    function _setFeeShares(FeeShares memory shares) internal {
+        require(shares.reserve + shares.liquidatorIncentive + shares.stakers == 10000, "Invalid fee shares");
+        feeShares = shares;
+        emit FeeSharesUpdated(shares.reserve, shares.liquidatorIncentive, shares.stakers);
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @notice Owner of an `AuctionManager` that takes back the debt tokens
+/// raised by its Dutch auctions, and the losses of those that fall short.
+/// @dev The auction manager sends `amount` of `token` to the receiver before
+/// calling `onAuctionProceeds`. `onAuctionShortfall` reports the `amount` of
+/// `user`'s debt an auction closed without raising.
+interface IAuctionProceedsReceiver {
+    function onAuctionProceeds(address token, uint256 amount) external;
+
+    function onAuctionShortfall(address user, address token, uint256 amount) external;
+}
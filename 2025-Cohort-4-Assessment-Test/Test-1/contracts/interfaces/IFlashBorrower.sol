@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @notice ERC-3156 style receiver for `LendingPool.flashLoan`.
+/// @dev The pool transfers `amount` to the receiver and calls `onFlashLoan`.
+/// The receiver then either approves the pool for `amount + fee`, which the
+/// pool pulls back with `transferFrom`, or transfers the repayment to the
+/// pool itself. Tokens with a transfer fee can only be repaid the second
+/// way, sending enough that `amount + fee` arrives.
+interface IFlashBorrower {
+    /// @return keccak256("ERC3156FlashBorrower.onFlashLoan") on success
+    function onFlashLoan(
+        address initiator,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata data
+    ) external returns (bytes32);
+}
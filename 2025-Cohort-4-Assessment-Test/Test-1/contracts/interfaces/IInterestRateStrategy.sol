@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @notice Borrow rate model for a single reserve.
+interface IInterestRateStrategy {
+    /// @param cash liquidity still available to borrow
+    /// @param borrows outstanding borrows, including accrued interest
+    /// @return annual borrow rate, scaled by 1e18
+    function getBorrowRate(uint256 cash, uint256 borrows) external view returns (uint256);
+}
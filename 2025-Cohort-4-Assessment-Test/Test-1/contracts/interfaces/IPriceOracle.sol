@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+/// @notice Price source used by `LendingPool` to value collateral and debt.
+interface IPriceOracle {
+    /// @return price of one whole token, scaled to 18 decimals. Must revert
+    /// rather than return a stale or zero price.
+    function getPrice(address token) external view returns (uint256);
+}
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IFlashBorrower.sol";
+import "../LendingPool.sol";
+import "./MockAmm.sol";
+import "./MockExchange.sol";
+
+/// @notice Closes the gap between a `MockAmm` and a `MockExchange` with
+/// flash-loaned `token1`, and sends the profit to its owner. The pool's
+/// reentrancy guard rules out flash-funded liquidations and auction
+/// purchases, so this is how simulated arbitrageurs use flash loans.
+contract FlashArbitrageur is IFlashBorrower {
+    LendingPool public immutable lendingPool;
+    MockAmm public immutable amm;
+    MockExchange public immutable exchange;
+    address public immutable owner;
+
+    constructor(LendingPool _lendingPool, MockAmm _amm, MockExchange _exchange) {
+        lendingPool = _lendingPool;
+        amm = _amm;
+        exchange = _exchange;
+        owner = msg.sender;
+        amm.token0().approve(address(_amm), type(uint256).max);
+        amm.token1().approve(address(_amm), type(uint256).max);
+        amm.token0().approve(address(_exchange), type(uint256).max);
+        amm.token1().approve(address(_exchange), type(uint256).max);
+    }
+
+    /// @notice Flash-borrows `amount` of token1 and trades it through both
+    /// markets: buying token0 on the AMM and selling it on the exchange when
+    /// `buyOnAmm`, the other way round otherwise. Reverts unless the trade
+    /// covers the flash loan fee.
+    /// @return profit in token1, sent to the owner
+    function arbitrage(uint256 amount, bool buyOnAmm) external returns (uint256 profit) {
+        require(msg.sender == owner, "Caller is not the owner");
+        IERC20 token1 = amm.token1();
+        lendingPool.flashLoan(this, address(token1), amount, abi.encode(buyOnAmm));
+        profit = token1.balanceOf(address(this));
+        require(token1.transfer(owner, profit), "Transfer failed");
+    }
+
+    function onFlashLoan(
+        address initiator,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata data
+    ) external returns (bytes32) {
+        require(msg.sender == address(lendingPool), "Untrusted lender");
+        require(initiator == address(this), "Untrusted initiator");
+
+        address token0 = address(amm.token0());
+        if (abi.decode(data, (bool))) {
+            uint256 bought = amm.swap(token, amount, 0);
+            exchange.swap(token0, token, bought, 0);
+        } else {
+            uint256 bought = exchange.swap(token, token0, amount, 0);
+            amm.swap(token0, bought, 0);
+        }
+
+        IERC20(token).approve(address(lendingPool), amount + fee);
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
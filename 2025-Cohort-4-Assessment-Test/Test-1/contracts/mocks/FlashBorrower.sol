@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IFlashBorrower.sol";
+import "../LendingPool.sol";
+
+/// @notice Well-behaved receiver that repays principal plus fee.
+contract FlashBorrower is IFlashBorrower {
+    LendingPool public immutable lendingPool;
+
+    address public lastInitiator;
+    uint256 public lastAmount;
+    uint256 public lastFee;
+    bytes public lastData;
+
+    // When set, sent straight to the pool instead of approving it, as the
+    // repayment of a token with a transfer fee must be.
+    uint256 public repayment;
+
+    constructor(LendingPool _lendingPool) {
+        lendingPool = _lendingPool;
+    }
+
+    function borrow(address token, uint256 amount, bytes calldata data) external {
+        lendingPool.flashLoan(this, token, amount, data);
+    }
+
+    function setRepayment(uint256 _repayment) external {
+        repayment = _repayment;
+    }
+
+    function onFlashLoan(
+        address initiator,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata data
+    ) external returns (bytes32) {
+        require(msg.sender == address(lendingPool), "Untrusted lender");
+
+        lastInitiator = initiator;
+        lastAmount = amount;
+        lastFee = fee;
+        lastData = data;
+
+        if (repayment > 0) {
+            IERC20(token).transfer(address(lendingPool), repayment);
+        } else {
+            IERC20(token).approve(address(lendingPool), amount + fee);
+        }
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
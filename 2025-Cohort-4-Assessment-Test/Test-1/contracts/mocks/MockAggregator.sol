@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "../interfaces/IAggregatorV3.sol";
+
+/// @notice Chainlink-style feed whose rounds are written by tests and
+/// deployment scripts.
+contract MockAggregator is IAggregatorV3 {
+    struct Round {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
+    uint8 public immutable decimals;
+    string public description;
+
+    uint80 public latestRound;
+    mapping(uint80 => Round) internal rounds;
+
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+
+    constructor(uint8 _decimals, string memory _description, int256 initialAnswer) {
+        decimals = _decimals;
+        description = _description;
+        updateAnswer(initialAnswer);
+    }
+
+    function updateAnswer(int256 answer) public {
+        updateRoundData(latestRound + 1, answer, block.timestamp, block.timestamp);
+    }
+
+    function updateRoundData(uint80 roundId, int256 answer, uint256 updatedAt, uint256 startedAt) public {
+        latestRound = roundId;
+        rounds[roundId] = Round({
+            answer: answer,
+            startedAt: startedAt,
+            updatedAt: updatedAt,
+            answeredInRound: roundId
+        });
+        emit AnswerUpdated(answer, roundId, updatedAt);
+    }
+
+    function getRoundData(uint80 roundId) public view returns (uint80, int256, uint256, uint256, uint80) {
+        Round memory round = rounds[roundId];
+        return (roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return getRoundData(latestRound);
+    }
+}
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/// @notice Constant-product market for one token pair, standing in for an
+/// on-chain DEX in simulations. Its price only moves when someone trades,
+/// so it lags the oracle until arbitrageurs close the gap.
+/// @dev There are no LP shares: liquidity added stays in the pool.
+contract MockAmm {
+    uint256 public constant FEE = 30; // basis points of the input
+
+    IERC20 public immutable token0;
+    IERC20 public immutable token1;
+    uint256 public reserve0;
+    uint256 public reserve1;
+
+    event LiquidityAdded(address indexed provider, uint256 amount0, uint256 amount1);
+    event Swap(address indexed trader, address indexed tokenIn, uint256 amountIn, uint256 amountOut);
+
+    constructor(IERC20 _token0, IERC20 _token1) {
+        token0 = _token0;
+        token1 = _token1;
+    }
+
+    function addLiquidity(uint256 amount0, uint256 amount1) external {
+        require(token0.transferFrom(msg.sender, address(this), amount0), "Transfer failed");
+        require(token1.transferFrom(msg.sender, address(this), amount1), "Transfer failed");
+        reserve0 += amount0;
+        reserve1 += amount1;
+        emit LiquidityAdded(msg.sender, amount0, amount1);
+    }
+
+    /// @return price of token0 in token1, scaled by 1e18
+    function price() external view returns (uint256) {
+        return (reserve1 * 1e18) / reserve0;
+    }
+
+    function getAmountOut(address tokenIn, uint256 amountIn) public view returns (uint256) {
+        (uint256 reserveIn, uint256 reserveOut) = _reserves(tokenIn);
+        uint256 amountInAfterFee = (amountIn * (10000 - FEE)) / 10000;
+        return (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+    }
+
+    function swap(address tokenIn, uint256 amountIn, uint256 minAmountOut) external returns (uint256 amountOut) {
+        amountOut = getAmountOut(tokenIn, amountIn);
+        require(amountOut > 0 && amountOut >= minAmountOut, "Insufficient output");
+
+        bool zeroForOne = tokenIn == address(token0);
+        (IERC20 tokenOut, IERC20 input) = zeroForOne ? (token1, token0) : (token0, token1);
+        require(input.transferFrom(msg.sender, address(this), amountIn), "Transfer failed");
+        require(tokenOut.transfer(msg.sender, amountOut), "Transfer failed");
+        if (zeroForOne) {
+            reserve0 += amountIn;
+            reserve1 -= amountOut;
+        } else {
+            reserve1 += amountIn;
+            reserve0 -= amountOut;
+        }
+        emit Swap(msg.sender, tokenIn, amountIn, amountOut);
+    }
+
+    function _reserves(address tokenIn) internal view returns (uint256 reserveIn, uint256 reserveOut) {
+        if (tokenIn == address(token0)) return (reserve0, reserve1);
+        require(tokenIn == address(token1), "Unknown token");
+        return (reserve1, reserve0);
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IPriceOracle.sol";
+
+/// @notice Trades any two tokens at oracle prices less a spread, out of its
+/// own inventory. Stands in for a deep off-chain market in simulations.
+contract MockExchange {
+    IPriceOracle public immutable priceOracle;
+    uint256 public immutable spread; // basis points
+
+    event Swap(address indexed trader, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut);
+
+    constructor(IPriceOracle _priceOracle, uint256 _spread) {
+        require(_spread < 10000, "Invalid spread");
+        priceOracle = _priceOracle;
+        spread = _spread;
+    }
+
+    function getAmountOut(address tokenIn, address tokenOut, uint256 amountIn) public view returns (uint256) {
+        uint256 value = amountIn * priceOracle.getPrice(tokenIn);
+        return (value * (10000 - spread)) / (priceOracle.getPrice(tokenOut) * 10000);
+    }
+
+    function swap(address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut) external returns (uint256 amountOut) {
+        amountOut = getAmountOut(tokenIn, tokenOut, amountIn);
+        require(amountOut > 0 && amountOut >= minAmountOut, "Insufficient output");
+        require(IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn), "Transfer failed");
+        require(IERC20(tokenOut).transfer(msg.sender, amountOut), "Transfer failed");
+        emit Swap(msg.sender, tokenIn, tokenOut, amountIn, amountOut);
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IFlashBorrower.sol";
+import "../LendingPool.sol";
+
+/// @notice Receiver that tries to re-enter the pool from inside the callback,
+/// either with a nested flash loan or by depositing the borrowed funds.
+contract ReentrantFlashBorrower is IFlashBorrower {
+    enum Attack {
+        FlashLoan,
+        Deposit
+    }
+
+    LendingPool public immutable lendingPool;
+    Attack public attack;
+
+    constructor(LendingPool _lendingPool) {
+        lendingPool = _lendingPool;
+    }
+
+    function setAttack(Attack _attack) external {
+        attack = _attack;
+    }
+
+    function onFlashLoan(
+        address,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata data
+    ) external returns (bytes32) {
+        IERC20(token).approve(address(lendingPool), amount + fee);
+
+        if (attack == Attack.FlashLoan) {
+            lendingPool.flashLoan(this, token, amount, data);
+        } else {
+            lendingPool.deposit(token, amount);
+        }
+
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
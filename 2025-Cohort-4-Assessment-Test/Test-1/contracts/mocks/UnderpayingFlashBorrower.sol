@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IFlashBorrower.sol";
+
+/// @notice Receiver that only approves the principal, leaving the fee unpaid.
+contract UnderpayingFlashBorrower is IFlashBorrower {
+    function onFlashLoan(
+        address,
+        address token,
+        uint256 amount,
+        uint256,
+        bytes calldata
+    ) external returns (bytes32) {
+        IERC20(token).approve(msg.sender, amount);
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
@@ -1,8 +1,15 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    settings: {
+      // LendingPool is over the 24KB contract size limit without it.
+      optimizer: { enabled: true, runs: 200 },
+    },
+  },
 };
 
 export default config;
@@ -0,0 +1,117 @@
+// This setup uses Hardhat Ignition to manage smart contract deployments.
+// Learn more about it at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import PriceOracleModule from "./PriceOracle";
+import TokensModule, { TOKEN_IDS } from "./Tokens";
+
+const LendingPoolModule = buildModule("LendingPoolModule", (m) => {
+  const tokens = m.useModule(TokensModule);
+  const { priceOracle } = m.useModule(PriceOracleModule);
+
+  const lendingPool = m.contract("LendingPool", [priceOracle]);
+
+  // The pool deploys its own AuctionManager, LoanManager and
+  // ReserveRegistry in the constructor, so we only bind to the addresses it
+  // exposes.
+  const auctionManager = m.contractAt(
+    "AuctionManager",
+    m.staticCall(lendingPool, "auctionManager"),
+    { id: "AuctionManager" }
+  );
+  const loanManager = m.contractAt(
+    "LoanManager",
+    m.staticCall(lendingPool, "loanManager"),
+    { id: "LoanManager" }
+  );
+  const reserveRegistry = m.contractAt(
+    "ReserveRegistry",
+    m.staticCall(lendingPool, "reserveRegistry"),
+    { id: "ReserveRegistry" }
+  );
+
+  // One kinked rate curve shared by every token; values are 1e18-scaled.
+  const interestRateStrategy = m.contract("InterestRateStrategy", [
+    m.getParameter("BaseRate", 20_000_000_000_000_000n), // 2%
+    m.getParameter("Slope1", 40_000_000_000_000_000n), // 4%
+    m.getParameter("Slope2", 750_000_000_000_000_000n), // 75%
+    m.getParameter("OptimalUtilization", 800_000_000_000_000_000n), // 80%
+  ]);
+
+  // The deployer seeds each reserve through `supply`, so it holds the
+  // receipt tokens for the initial liquidity.
+  const deployer = m.getAccount(0);
+  const receiptTokens = [];
+
+  for (const id of TOKEN_IDS) {
+    const token = tokens[id];
+    const liquidity = m.getParameter(
+      `${id}Liquidity`,
+      1_000_000_000_000_000_000_000n // 1000 tokens
+    );
+
+    const whitelist = m.call(lendingPool, "whitelistToken", [token], {
+      id: `whitelist_${id}`,
+    });
+    m.call(
+      lendingPool,
+      "setLiquidationBonus",
+      [token, m.getParameter(`${id}LiquidationBonus`, 500n)], // 5%
+      { id: `setLiquidationBonus_${id}`, after: [whitelist] }
+    );
+    m.call(
+      lendingPool,
+      "setInterestRateStrategy",
+      [token, interestRateStrategy],
+      { id: `setInterestRateStrategy_${id}`, after: [whitelist] }
+    );
+
+    const receiptToken = m.contract(
+      "ReceiptToken",
+      [`Interest Bearing ${id}`, `ib${id}`, lendingPool, token],
+      { id: `ib${id}` }
+    );
+    receiptTokens.push(receiptToken);
+    const enableSupply = m.call(
+      lendingPool,
+      "setReceiptToken",
+      [token, receiptToken],
+      { id: `setReceiptToken_${id}`, after: [whitelist] }
+    );
+
+    const mint = m.call(token, "mint", [deployer, liquidity], {
+      id: `mintLiquidity_${id}`,
+    });
+    const approve = m.call(token, "approve", [lendingPool, liquidity], {
+      id: `approveLiquidity_${id}`,
+      after: [mint],
+    });
+    m.call(lendingPool, "supply", [token, liquidity], {
+      id: `seedLiquidity_${id}`,
+      after: [enableSupply, approve],
+    });
+  }
+
+  const [ibWETH, ibDAI, ibLINK] = receiptTokens;
+
+  // Batches user flows into one transaction; the pool lets it act for
+  // whoever calls it.
+  const lendingRouter = m.contract("LendingRouter", [lendingPool]);
+  m.call(lendingPool, "setRouter", [lendingRouter, true]);
+
+  return {
+    lendingPool,
+    lendingRouter,
+    priceOracle,
+    interestRateStrategy,
+    auctionManager,
+    loanManager,
+    reserveRegistry,
+    ...tokens,
+    ibWETH,
+    ibDAI,
+    ibLINK,
+  };
+});
+
+export default LendingPoolModule;
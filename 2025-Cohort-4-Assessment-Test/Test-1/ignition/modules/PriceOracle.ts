@@ -0,0 +1,34 @@
+// This setup uses Hardhat Ignition to manage smart contract deployments.
+// Learn more about it at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import TokensModule, { TOKEN_IDS } from "./Tokens";
+
+const ONE_USD: bigint = 100_000_000n; // 8 decimals, like Chainlink USD feeds
+
+// Local and CI environments price every token through a MockAggregator whose
+// initial answer comes from the parameters file.
+const PriceOracleModule = buildModule("PriceOracleModule", (m) => {
+  const tokens = m.useModule(TokensModule);
+
+  const priceOracle = m.contract("PriceOracle");
+
+  const decimals = m.getParameter("FeedDecimals", 8);
+  const heartbeat = m.getParameter("Heartbeat", 3600);
+
+  const [WETHFeed, DAIFeed, LINKFeed] = TOKEN_IDS.map((id) => {
+    const feed = m.contract(
+      "MockAggregator",
+      [decimals, `${id} / USD`, m.getParameter(`${id}Price`, ONE_USD)],
+      { id: `${id}Feed` }
+    );
+    m.call(priceOracle, "setFeed", [tokens[id], feed, heartbeat], {
+      id: `setFeed_${id}`,
+    });
+    return feed;
+  });
+
+  return { priceOracle, WETHFeed, DAIFeed, LINKFeed };
+});
+
+export default PriceOracleModule;
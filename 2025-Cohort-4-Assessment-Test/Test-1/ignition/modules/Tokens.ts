@@ -0,0 +1,31 @@
+// This setup uses Hardhat Ignition to manage smart contract deployments.
+// Learn more about it at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Assets deployed in every environment. Each one can have its name and
+// symbol overridden through the parameters file, e.g. `DAIName`.
+export const TOKEN_IDS = ["WETH", "DAI", "LINK"] as const;
+
+const DEFAULT_NAMES: Record<(typeof TOKEN_IDS)[number], string> = {
+  WETH: "Wrapped Ether",
+  DAI: "Dai Stablecoin",
+  LINK: "Chainlink",
+};
+
+const TokensModule = buildModule("TokensModule", (m) => {
+  const [WETH, DAI, LINK] = TOKEN_IDS.map((id) =>
+    m.contract(
+      "Token",
+      [
+        m.getParameter(`${id}Name`, DEFAULT_NAMES[id]),
+        m.getParameter(`${id}Symbol`, id),
+      ],
+      { id }
+    )
+  );
+
+  return { WETH, DAI, LINK };
+});
+
+export default TokensModule;
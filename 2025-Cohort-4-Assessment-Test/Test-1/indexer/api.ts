@@ -0,0 +1,306 @@
+import { getAddress, isAddress } from "ethers";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { EventArgs, Store } from "./store";
+
+const WAD = 10n ** 18n;
+
+export interface TimelineEntry {
+  blockNumber: number;
+  timestamp: number;
+  txHash?: string;
+  event: string;
+  args: EventArgs;
+}
+
+export interface ReserveHistoryEntry {
+  blockNumber: number;
+  timestamp: number;
+  token: string;
+  collateral: bigint;
+  liquidity: bigint;
+  tvl: bigint; // collateral plus liquidity
+  debt: bigint;
+  price: bigint | null;
+}
+
+// Protocol-wide totals in USD scaled by 1e18, at each block that changed a
+// reserve. Reserves without a price yet are left out.
+export interface TotalsEntry {
+  blockNumber: number;
+  timestamp: number;
+  tvl: bigint;
+  debt: bigint;
+}
+
+export interface DutchAuctionOutcome {
+  id: string;
+  user: string;
+  collateralToken: string;
+  debtToken: string;
+  collateralAmount: string;
+  debt: string;
+  // The liquidation that opened the auction.
+  liquidation: { blockNumber: number; txHash: string } | null;
+  purchases: {
+    buyer: string;
+    amount: string;
+    cost: string;
+    blockNumber: number;
+    txHash: string;
+  }[];
+  sold: bigint;
+  raised: bigint;
+  closed: boolean;
+  collateralReturned: string | null;
+  // Collateral the admin took out of an auction stuck at its floor price.
+  unsold: { to: string; amount: string } | null;
+  // Debt the auction failed to cover, once closed.
+  shortfall: bigint | null;
+}
+
+export interface EnglishAuctionOutcome {
+  id: string;
+  token: string;
+  amount: string;
+  bids: { bidder: string; amount: string; blockNumber: number }[];
+  ended: boolean;
+  winner: string | null;
+  winningBid: string | null;
+}
+
+function timestamps(store: Store) {
+  const byNumber = new Map(
+    store.blocks().map((block) => [block.number, block.timestamp])
+  );
+  return (blockNumber: number) => byNumber.get(blockNumber) ?? 0;
+}
+
+// What happened to `user`, oldest first: their pool and auction events and
+// the interest charged whenever one of their loans was updated. The
+// LoanManager's bookkeeping events mirror the pool's and are left out.
+export function userTimeline(store: Store, user: string): TimelineEntry[] {
+  const timestampOf = timestamps(store);
+  const entries = [
+    ...store
+      .events({ user })
+      .filter(({ contract }) => contract !== "LoanManager")
+      .map(({ blockNumber, logIndex, txHash, name, args }) => ({
+        order: [blockNumber, logIndex, 1],
+        entry: {
+          blockNumber,
+          timestamp: timestampOf(blockNumber),
+          txHash,
+          event: name,
+          args,
+        },
+      })),
+    ...store
+      .interestCharges(user)
+      .map(({ token, blockNumber, logIndex, amount }) => ({
+        order: [blockNumber, logIndex, 0],
+        entry: {
+          blockNumber,
+          timestamp: timestampOf(blockNumber),
+          event: "InterestCharged",
+          args: { token, amount: amount.toString() },
+        },
+      })),
+  ];
+  entries.sort(
+    (a, b) =>
+      a.order[0] - b.order[0] ||
+      a.order[1] - b.order[1] ||
+      a.order[2] - b.order[2]
+  );
+  return entries.map(({ entry }) => entry);
+}
+
+export function protocolHistory(
+  store: Store,
+  token?: string
+): { reserves: ReserveHistoryEntry[]; totals: TotalsEntry[] } {
+  const timestampOf = timestamps(store);
+  const snapshots = store.snapshots();
+
+  // Carry each reserve's latest state forward to price the protocol as a
+  // whole after every change.
+  const latest = new Map<
+    string,
+    { tvl: bigint; debt: bigint; price: bigint | null }
+  >();
+  const totals: TotalsEntry[] = [];
+  for (const snapshot of snapshots) {
+    const previous = latest.get(snapshot.token);
+    latest.set(snapshot.token, {
+      tvl: snapshot.collateral + snapshot.liquidity,
+      debt: snapshot.debt,
+      price: snapshot.price ?? previous?.price ?? null,
+    });
+
+    let tvl = 0n;
+    let debt = 0n;
+    for (const reserve of latest.values()) {
+      if (reserve.price === null) continue;
+      tvl += (reserve.tvl * reserve.price) / WAD;
+      debt += (reserve.debt * reserve.price) / WAD;
+    }
+    const entry = {
+      blockNumber: snapshot.blockNumber,
+      timestamp: timestampOf(snapshot.blockNumber),
+      tvl,
+      debt,
+    };
+    if (totals.at(-1)?.blockNumber === entry.blockNumber) totals.pop();
+    totals.push(entry);
+  }
+
+  const reserves = snapshots
+    .filter((snapshot) => !token || snapshot.token === token)
+    .map(({ collateral, liquidity, ...snapshot }) => ({
+      ...snapshot,
+      timestamp: timestampOf(snapshot.blockNumber),
+      collateral,
+      liquidity,
+      tvl: collateral + liquidity,
+    }));
+  return { reserves, totals };
+}
+
+export function auctionOutcomes(store: Store): {
+  dutch: DutchAuctionOutcome[];
+  english: EnglishAuctionOutcome[];
+} {
+  const events = store.events({
+    names: [
+      "LiquidationToAuction",
+      "DutchAuctionCreated",
+      "DutchAuctionPurchase",
+      "DutchAuctionClosed",
+      "DutchAuctionUnsold",
+      "AuctionCreated",
+      "BidPlaced",
+      "AuctionEnded",
+    ],
+  });
+  const byName = (name: string) =>
+    events.filter((event) => event.name === name);
+  const forAuction = (name: string, id: string) =>
+    byName(name).filter(({ args }) => args.auctionId === id);
+
+  const dutch = byName("DutchAuctionCreated").map(({ args }) => {
+    const id = String(args.auctionId);
+    const [liquidation] = forAuction("LiquidationToAuction", id);
+    const purchases = forAuction("DutchAuctionPurchase", id).map(
+      ({ args, blockNumber, txHash }) => ({
+        buyer: String(args.buyer),
+        amount: String(args.amount),
+        cost: String(args.cost),
+        blockNumber,
+        txHash,
+      })
+    );
+    const [closed] = forAuction("DutchAuctionClosed", id);
+    const [unsold] = forAuction("DutchAuctionUnsold", id);
+    const raised = purchases.reduce((sum, p) => sum + BigInt(p.cost), 0n);
+    const debt = BigInt(String(args.debt));
+    return {
+      id,
+      user: String(args.user),
+      collateralToken: String(args.collateralToken),
+      debtToken: String(args.debtToken),
+      collateralAmount: String(args.amount),
+      debt: debt.toString(),
+      liquidation: liquidation
+        ? { blockNumber: liquidation.blockNumber, txHash: liquidation.txHash }
+        : null,
+      purchases,
+      sold: purchases.reduce((sum, p) => sum + BigInt(p.amount), 0n),
+      raised,
+      closed: Boolean(closed),
+      collateralReturned: closed
+        ? String(closed.args.collateralReturned)
+        : null,
+      unsold: unsold
+        ? { to: String(unsold.args.to), amount: String(unsold.args.amount) }
+        : null,
+      shortfall: closed ? (debt > raised ? debt - raised : 0n) : null,
+    };
+  });
+
+  const english = byName("AuctionCreated").map(({ args }) => {
+    const id = String(args.auctionId);
+    const [ended] = forAuction("AuctionEnded", id);
+    const winner = ended ? String(ended.args.winner) : null;
+    return {
+      id,
+      token: String(args.token),
+      amount: String(args.amount),
+      bids: forAuction("BidPlaced", id).map(({ args, blockNumber }) => ({
+        bidder: String(args.bidder),
+        amount: String(args.amount),
+        blockNumber,
+      })),
+      ended: Boolean(ended),
+      winner,
+      winningBid: ended ? String(ended.args.amount) : null,
+    };
+  });
+
+  return { dutch, english };
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function parseAddress(value: string): string {
+  if (!isAddress(value)) throw new HttpError(400, `Invalid address ${value}`);
+  return getAddress(value);
+}
+
+function route(store: Store, url: URL): unknown {
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length === 1 && parts[0] === "status") {
+    return { checkpoint: store.checkpoint() ?? null };
+  }
+  if (parts.length === 3 && parts[0] === "users" && parts[2] === "timeline") {
+    return userTimeline(store, parseAddress(parts[1]));
+  }
+  if (parts.length === 2 && parts[0] === "protocol" && parts[1] === "history") {
+    const token = url.searchParams.get("token");
+    return protocolHistory(store, token ? parseAddress(token) : undefined);
+  }
+  if (parts.length === 1 && parts[0] === "auctions") {
+    return auctionOutcomes(store);
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+// A read-only JSON API over `store`:
+//   GET /status                       last indexed block
+//   GET /users/:address/timeline      a user's history
+//   GET /protocol/history?token=      reserve states and USD totals over time
+//   GET /auctions                     auction outcomes
+// Amounts are decimal strings in token units.
+export function createApiServer(store: Store): Server {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET")
+        throw new HttpError(405, "Only GET is supported");
+      body = route(store, new URL(req.url ?? "/", "http://localhost"));
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(body, (_key, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      )
+    );
+  });
+}
@@ -0,0 +1,386 @@
+import type { Interface, Log, Provider } from "ethers";
+import {
+  AuctionManager__factory,
+  LoanManager__factory,
+  PriceOracle__factory,
+} from "../typechain-types";
+import type {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+} from "../typechain-types";
+import { poll } from "../utils";
+import {
+  EventArgs,
+  InterestCharge,
+  ReserveSnapshot,
+  Store,
+  StoredBlock,
+  StoredEvent,
+} from "./store";
+
+export interface IndexerOptions {
+  // First block to index when the store is empty.
+  fromBlock?: number;
+  // Most blocks fetched per log query.
+  batchSize?: number;
+}
+
+export interface SyncReport {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // Blocks dropped because the chain reorganized since the last sync.
+  reorgDepth: number;
+}
+
+// Events kept per contract, and the argument naming the account each is
+// about.
+const INDEXED: Record<string, Record<string, string | null>> = {
+  LendingPool: {
+    Deposit: "user",
+    Withdraw: "user",
+    Supply: "user",
+    Redeem: "user",
+    Borrow: "user",
+    Repay: "user",
+    FlashLoan: "user",
+    Liquidation: "user",
+    LiquidationToAuction: "user",
+    AuctionProceeds: null,
+    FeesCollected: null,
+    BadDebtRecorded: "user",
+    BadDebtCovered: null,
+  },
+  LoanManager: {
+    CollateralUpdated: "user",
+    LoanUpdated: "user",
+    RatesUpdated: null,
+  },
+  AuctionManager: {
+    AuctionCreated: null,
+    BidPlaced: "bidder",
+    AuctionEnded: "winner",
+    DutchAuctionCreated: "user",
+    DutchAuctionPurchase: "buyer",
+    DutchAuctionClosed: null,
+    DutchAuctionUnsold: null,
+  },
+};
+
+// Fetched for a block range before anything is written.
+interface Batch {
+  blocks: StoredBlock[];
+  events: StoredEvent[];
+  snapshots: ReserveSnapshot[];
+  interest: InterestCharge[];
+  checkpoint: StoredBlock;
+}
+
+// Copies a LendingPool's events into a `Store`, along with reserve snapshots
+// and the interest charged on each loan update, so its history can be
+// queried without going back to the chain. Snapshots and interest are read
+// at the block they describe, so syncing blocks older than the node's
+// recent state (a backfill from deployment) needs an archive node.
+// Progress is checkpointed in the store; blocks the chain has since
+// replaced are rolled back on the next sync.
+export class Indexer {
+  private readonly provider: Provider;
+  private readonly contracts: Map<string, { name: string; iface: Interface }>;
+
+  private constructor(
+    readonly store: Store,
+    private readonly lendingPool: LendingPool,
+    private readonly loanManager: LoanManager,
+    auctionManager: AuctionManager,
+    private readonly options: Required<IndexerOptions>
+  ) {
+    this.provider = lendingPool.runner!.provider!;
+    this.contracts = new Map(
+      [
+        { name: "LendingPool", contract: lendingPool },
+        { name: "LoanManager", contract: loanManager },
+        { name: "AuctionManager", contract: auctionManager },
+      ].map(({ name, contract }) => [
+        String(contract.target).toLowerCase(),
+        { name, iface: contract.interface },
+      ])
+    );
+  }
+
+  static async create(
+    lendingPool: LendingPool,
+    store: Store,
+    { fromBlock = 0, batchSize = 1000 }: IndexerOptions = {}
+  ): Promise<Indexer> {
+    const runner = lendingPool.runner;
+    return new Indexer(
+      store,
+      lendingPool,
+      LoanManager__factory.connect(await lendingPool.loanManager(), runner),
+      AuctionManager__factory.connect(
+        await lendingPool.auctionManager(),
+        runner
+      ),
+      { fromBlock, batchSize }
+    );
+  }
+
+  // Indexes up to the chain head and saves the store.
+  async sync(): Promise<SyncReport> {
+    const reorgDepth = await this.rollbackReorg();
+    const checkpoint = this.store.checkpoint();
+    const fromBlock = checkpoint
+      ? checkpoint.blockNumber + 1
+      : this.options.fromBlock;
+    const head = await this.provider.getBlockNumber();
+
+    let events = 0;
+    for (let start = fromBlock; start <= head; ) {
+      const end = Math.min(start + this.options.batchSize - 1, head);
+      const batch = await this.fetch(start, end);
+      // The chain moved under the batch; the next sync picks it up again.
+      if (!batch) break;
+
+      this.store.transaction(() => {
+        for (const block of batch.blocks) this.store.insertBlock(block);
+        for (const event of batch.events) this.store.insertEvent(event);
+        for (const snapshot of batch.snapshots) {
+          this.store.insertSnapshot(snapshot);
+        }
+        for (const charge of batch.interest) this.store.insertInterest(charge);
+        this.store.insertBlock(batch.checkpoint);
+        this.store.setCheckpoint({
+          blockNumber: batch.checkpoint.number,
+          blockHash: batch.checkpoint.hash,
+        });
+      });
+      events += batch.events.length;
+      start = end + 1;
+    }
+    this.store.save();
+
+    return {
+      fromBlock,
+      toBlock: this.store.checkpoint()?.blockNumber ?? fromBlock - 1,
+      events,
+      reorgDepth,
+    };
+  }
+
+  // Syncs every `intervalMs` until `signal` aborts. A sync that fails is
+  // reported to `onError` and picked up again from the checkpoint on the
+  // next interval.
+  async run(
+    intervalMs: number,
+    signal: AbortSignal,
+    onSync: (report: SyncReport) => void | Promise<void> = () => {},
+    onError: (error: unknown) => void | Promise<void> = (error) =>
+      console.error("Indexer sync failed:", error)
+  ): Promise<void> {
+    await poll(
+      intervalMs,
+      signal,
+      async () => onSync(await this.sync()),
+      onError
+    );
+  }
+
+  // Drops indexed blocks the chain no longer has, back to the latest block
+  // both agree on. Returns how many blocks were dropped.
+  private async rollbackReorg(): Promise<number> {
+    const checkpoint = this.store.checkpoint();
+    if (!checkpoint) return 0;
+    if (
+      (await this.blockHash(checkpoint.blockNumber)) === checkpoint.blockHash
+    ) {
+      return 0;
+    }
+
+    let ancestor: StoredBlock | undefined;
+    for (const block of this.store.blocks()) {
+      if ((await this.blockHash(block.number)) === block.hash) {
+        ancestor = block;
+        break;
+      }
+    }
+
+    this.store.transaction(() => {
+      if (ancestor) {
+        this.store.rollback(ancestor.number);
+        this.store.setCheckpoint({
+          blockNumber: ancestor.number,
+          blockHash: ancestor.hash,
+        });
+      } else {
+        this.store.rollback(this.options.fromBlock - 1);
+        this.store.clearCheckpoint();
+      }
+    });
+    return (
+      checkpoint.blockNumber - (ancestor?.number ?? this.options.fromBlock - 1)
+    );
+  }
+
+  private async blockHash(number: number): Promise<string | undefined> {
+    return (await this.provider.getBlock(number))?.hash ?? undefined;
+  }
+
+  private async fetch(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Batch | undefined> {
+    const logs = await this.provider.getLogs({
+      address: [...this.contracts.keys()],
+      fromBlock,
+      toBlock,
+    });
+
+    const blocks = new Map<number, StoredBlock>();
+    const events: StoredEvent[] = [];
+    for (const log of logs) {
+      const event = this.decode(log);
+      if (!event) continue;
+      if (!blocks.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        if (block?.hash !== log.blockHash) return;
+        blocks.set(log.blockNumber, {
+          number: block.number,
+          hash: block.hash,
+          timestamp: block.timestamp,
+        });
+      }
+      events.push(event);
+    }
+
+    const head = await this.provider.getBlock(toBlock);
+    if (!head?.hash) return;
+
+    return {
+      blocks: [...blocks.values()],
+      events,
+      snapshots: await this.snapshotReserves(events),
+      interest: await this.interestCharged(events),
+      checkpoint: {
+        number: head.number,
+        hash: head.hash,
+        timestamp: head.timestamp,
+      },
+    };
+  }
+
+  private decode(log: Log): StoredEvent | undefined {
+    const contract = this.contracts.get(log.address.toLowerCase());
+    if (!contract) return;
+    const parsed = contract.iface.parseLog(log);
+    const indexed = INDEXED[contract.name];
+    if (!parsed || !(parsed.name in indexed)) return;
+
+    const args: EventArgs = {};
+    parsed.fragment.inputs.forEach(({ name }, i) => {
+      const value = parsed.args[i];
+      args[name] = typeof value === "boolean" ? value : value.toString();
+    });
+    const userArg = indexed[parsed.name];
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      contract: contract.name,
+      name: parsed.name,
+      user: userArg ? String(args[userArg]) : null,
+      args,
+    };
+  }
+
+  // Each touched reserve's state as of the end of the block.
+  private async snapshotReserves(
+    events: StoredEvent[]
+  ): Promise<ReserveSnapshot[]> {
+    const touched = new Map<number, Set<string>>();
+    for (const { blockNumber, contract, args } of events) {
+      if (contract === "AuctionManager") continue;
+      for (const key of ["token", "collateralToken", "debtToken"]) {
+        if (typeof args[key] !== "string") continue;
+        if (!touched.has(blockNumber)) touched.set(blockNumber, new Set());
+        touched.get(blockNumber)!.add(args[key] as string);
+      }
+    }
+
+    const snapshots: ReserveSnapshot[] = [];
+    for (const [blockNumber, tokens] of touched) {
+      const blockTag = blockNumber;
+      const priceOracle = PriceOracle__factory.connect(
+        await this.lendingPool.priceOracle({ blockTag }),
+        this.lendingPool.runner
+      );
+      for (const token of tokens) {
+        snapshots.push({
+          token,
+          blockNumber,
+          collateral: await this.loanManager.totalCollateral(token, {
+            blockTag,
+          }),
+          liquidity: await this.lendingPool.availableLiquidity(token, {
+            blockTag,
+          }),
+          debt: await this.loanManager.getTotalBorrows(token, { blockTag }),
+          price: await priceOracle
+            .getPrice(token, { blockTag })
+            .catch(() => null),
+        });
+      }
+    }
+    return snapshots;
+  }
+
+  // Interest folded into each loan updated in a block: how much the loan
+  // grew beyond what was borrowed, repaid and handed to auctions.
+  private async interestCharged(
+    events: StoredEvent[]
+  ): Promise<InterestCharge[]> {
+    const updates = new Map<
+      string,
+      {
+        user: string;
+        token: string;
+        blockNumber: number;
+        logIndex: number;
+        moved: bigint;
+      }
+    >();
+    for (const { blockNumber, logIndex, name, args } of events) {
+      if (name !== "LoanUpdated") continue;
+      const key = `${blockNumber}:${args.user}:${args.token}`;
+      const update = updates.get(key) ?? {
+        user: String(args.user),
+        token: String(args.token),
+        blockNumber,
+        logIndex,
+        moved: 0n,
+      };
+      const amount = BigInt(String(args.amount));
+      update.moved += args.isBorrow ? amount : -amount;
+      updates.set(key, update);
+    }
+
+    const charges: InterestCharge[] = [];
+    for (const { moved, ...update } of updates.values()) {
+      const { user, token, blockNumber } = update;
+      const before =
+        blockNumber > 0
+          ? (
+              await this.loanManager.loans(user, token, {
+                blockTag: blockNumber - 1,
+              })
+            ).amount
+          : 0n;
+      const after = (
+        await this.loanManager.loans(user, token, { blockTag: blockNumber })
+      ).amount;
+      const amount = after - before - moved;
+      if (amount > 0n) charges.push({ ...update, amount });
+    }
+    return charges;
+  }
+}
@@ -0,0 +1,284 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+
+// Event arguments as stored: amounts are decimal strings, since they do not
+// fit SQLite integers.
+export type EventArgs = Record<string, string | boolean>;
+
+export interface StoredEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  contract: string; // LendingPool, LoanManager or AuctionManager
+  name: string;
+  user: string | null; // account the event is about, if any
+  args: EventArgs;
+}
+
+export interface StoredBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+// A reserve's state at the end of a block that touched it, in token units.
+export interface ReserveSnapshot {
+  token: string;
+  blockNumber: number;
+  collateral: bigint;
+  liquidity: bigint;
+  debt: bigint;
+  price: bigint | null; // USD scaled by 1e18; null if the feed was stale
+}
+
+// Interest folded into a loan when it was updated in `blockNumber`.
+export interface InterestCharge {
+  user: string;
+  token: string;
+  blockNumber: number;
+  logIndex: number; // of the loan update that charged it
+  amount: bigint;
+}
+
+// The last block fully indexed.
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    user TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_user ON events (user, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (name, block_number);
+  CREATE TABLE IF NOT EXISTS reserve_snapshots (
+    token TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    collateral TEXT NOT NULL,
+    liquidity TEXT NOT NULL,
+    debt TEXT NOT NULL,
+    price TEXT,
+    PRIMARY KEY (token, block_number)
+  );
+  CREATE TABLE IF NOT EXISTS interest_charges (
+    user TEXT NOT NULL,
+    token TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (user, token, block_number)
+  );
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  );
+`;
+
+// Tables holding per-block data, cleared past a block on reorgs.
+const BLOCK_TABLES = {
+  blocks: "number",
+  events: "block_number",
+  reserve_snapshots: "block_number",
+  interest_charges: "block_number",
+};
+
+// Indexed history in an embedded SQLite database, kept in memory and written
+// to `path`, when given, on every `save`.
+export class Store {
+  private constructor(private readonly db: Database, readonly path?: string) {
+    db.exec(SCHEMA);
+  }
+
+  static async open(path?: string): Promise<Store> {
+    const SQL = await initSqlJs();
+    const data = path && existsSync(path) ? readFileSync(path) : undefined;
+    return new Store(new SQL.Database(data), path);
+  }
+
+  save(): void {
+    if (this.path) writeFileSync(this.path, this.db.export());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Applies `write` atomically.
+  transaction<T>(write: () => T): T {
+    this.db.run("BEGIN");
+    try {
+      const result = write();
+      this.db.run("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  checkpoint(): Checkpoint | undefined {
+    const [row] = this.query(
+      "SELECT block_number, block_hash FROM checkpoint WHERE id = 0"
+    );
+    return row && { blockNumber: Number(row[0]), blockHash: String(row[1]) };
+  }
+
+  setCheckpoint({ blockNumber, blockHash }: Checkpoint): void {
+    this.db.run(
+      "INSERT OR REPLACE INTO checkpoint (id, block_number, block_hash) VALUES (0, ?, ?)",
+      [blockNumber, blockHash]
+    );
+  }
+
+  clearCheckpoint(): void {
+    this.db.run("DELETE FROM checkpoint");
+  }
+
+  // Indexed blocks, latest first.
+  blocks(): StoredBlock[] {
+    return this.query(
+      "SELECT number, hash, timestamp FROM blocks ORDER BY number DESC"
+    ).map(([number, hash, timestamp]) => ({
+      number: Number(number),
+      hash: String(hash),
+      timestamp: Number(timestamp),
+    }));
+  }
+
+  block(number: number): StoredBlock | undefined {
+    const [row] = this.query(
+      "SELECT hash, timestamp FROM blocks WHERE number = ?",
+      [number]
+    );
+    return row && { number, hash: String(row[0]), timestamp: Number(row[1]) };
+  }
+
+  insertBlock({ number, hash, timestamp }: StoredBlock): void {
+    this.db.run(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+      [number, hash, timestamp]
+    );
+  }
+
+  insertEvent(event: StoredEvent): void {
+    this.db.run(
+      "INSERT OR REPLACE INTO events (block_number, log_index, tx_hash, contract, name, user, args) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      [
+        event.blockNumber,
+        event.logIndex,
+        event.txHash,
+        event.contract,
+        event.name,
+        event.user,
+        JSON.stringify(event.args),
+      ]
+    );
+  }
+
+  insertSnapshot(snapshot: ReserveSnapshot): void {
+    this.db.run(
+      "INSERT OR REPLACE INTO reserve_snapshots (token, block_number, collateral, liquidity, debt, price) VALUES (?, ?, ?, ?, ?, ?)",
+      [
+        snapshot.token,
+        snapshot.blockNumber,
+        snapshot.collateral.toString(),
+        snapshot.liquidity.toString(),
+        snapshot.debt.toString(),
+        snapshot.price?.toString() ?? null,
+      ]
+    );
+  }
+
+  insertInterest(charge: InterestCharge): void {
+    this.db.run(
+      "INSERT OR REPLACE INTO interest_charges (user, token, block_number, log_index, amount) VALUES (?, ?, ?, ?, ?)",
+      [
+        charge.user,
+        charge.token,
+        charge.blockNumber,
+        charge.logIndex,
+        charge.amount.toString(),
+      ]
+    );
+  }
+
+  // Forgets everything indexed after `blockNumber`.
+  rollback(blockNumber: number): void {
+    for (const [table, column] of Object.entries(BLOCK_TABLES)) {
+      this.db.run(`DELETE FROM ${table} WHERE ${column} > ?`, [blockNumber]);
+    }
+  }
+
+  events(filter: { user?: string; names?: string[] } = {}): StoredEvent[] {
+    const clauses = [];
+    const params: SqlValue[] = [];
+    if (filter.user) {
+      clauses.push("user = ?");
+      params.push(filter.user);
+    }
+    if (filter.names) {
+      clauses.push(`name IN (${filter.names.map(() => "?").join(", ")})`);
+      params.push(...filter.names);
+    }
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    return this.query(
+      `SELECT block_number, log_index, tx_hash, contract, name, user, args FROM events ${where} ORDER BY block_number, log_index`,
+      params
+    ).map(([blockNumber, logIndex, txHash, contract, name, user, args]) => ({
+      blockNumber: Number(blockNumber),
+      logIndex: Number(logIndex),
+      txHash: String(txHash),
+      contract: String(contract),
+      name: String(name),
+      user: user === null ? null : String(user),
+      args: JSON.parse(String(args)),
+    }));
+  }
+
+  snapshots(token?: string): ReserveSnapshot[] {
+    const where = token ? "WHERE token = ?" : "";
+    return this.query(
+      `SELECT token, block_number, collateral, liquidity, debt, price FROM reserve_snapshots ${where} ORDER BY block_number, token`,
+      token ? [token] : []
+    ).map(([token, blockNumber, collateral, liquidity, debt, price]) => ({
+      token: String(token),
+      blockNumber: Number(blockNumber),
+      collateral: BigInt(String(collateral)),
+      liquidity: BigInt(String(liquidity)),
+      debt: BigInt(String(debt)),
+      price: price === null ? null : BigInt(String(price)),
+    }));
+  }
+
+  interestCharges(user: string): InterestCharge[] {
+    return this.query(
+      "SELECT token, block_number, log_index, amount FROM interest_charges WHERE user = ? ORDER BY block_number, log_index",
+      [user]
+    ).map(([token, blockNumber, logIndex, amount]) => ({
+      user,
+      token: String(token),
+      blockNumber: Number(blockNumber),
+      logIndex: Number(logIndex),
+      amount: BigInt(String(amount)),
+    }));
+  }
+
+  private query(sql: string, params: SqlValue[] = []): SqlValue[][] {
+    const [result] = this.db.exec(sql, params);
+    return result?.values ?? [];
+  }
+}
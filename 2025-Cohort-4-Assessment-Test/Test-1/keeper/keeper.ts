@@ -0,0 +1,376 @@
+import type { Signer } from "ethers";
+import {
+  AuctionManager__factory,
+  IERC20__factory,
+  LoanManager__factory,
+  PriceOracle__factory,
+  ReserveRegistry__factory,
+} from "../typechain-types";
+import type {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+  PriceOracle,
+  ReserveRegistry,
+} from "../typechain-types";
+import { poll } from "../utils";
+import { PositionBook } from "./positions";
+
+const WAD = 10n ** 18n;
+const BPS = 10000n;
+
+export interface KeeperOptions {
+  // Plan actions without sending transactions.
+  dryRun?: boolean;
+  // Also buy Dutch auction lots priced below the oracle.
+  bidOnAuctions?: boolean;
+  // Smallest expected profit worth acting on, in USD scaled by 1e18.
+  minProfit?: bigint;
+  // Block to start rebuilding positions from.
+  fromBlock?: number;
+}
+
+export interface Candidate {
+  user: string;
+  collateralToken: string;
+  debtToken: string;
+  healthFactor: bigint;
+  repayAmount: bigint;
+  collateralSeized: bigint;
+  profit: bigint; // USD scaled by 1e18
+}
+
+export interface AuctionLot {
+  auctionId: bigint;
+  collateralToken: string;
+  debtToken: string;
+  amount: bigint; // expected at `price`
+  request: bigint; // amount asked of the auction
+  cost: bigint;
+  price: bigint;
+  profit: bigint; // USD scaled by 1e18
+}
+
+export type ActionStatus = "planned" | "sent" | "failed" | "skipped";
+
+export interface KeeperAction<T> {
+  target: T;
+  status: ActionStatus;
+  txHash?: string;
+  reason?: string;
+}
+
+export interface KeeperReport {
+  candidates: Candidate[];
+  liquidations: KeeperAction<Candidate>[];
+  purchases: KeeperAction<AuctionLot>[];
+}
+
+// Watches a LendingPool for underwater accounts and liquidates the most
+// profitable ones first. Health is recomputed off chain the way the pool
+// does it, so only accounts worth liquidating cost a transaction.
+export class Keeper {
+  readonly book: PositionBook;
+  private readonly lendingPool: LendingPool;
+
+  private constructor(
+    lendingPool: LendingPool,
+    private readonly signer: Signer,
+    private readonly loanManager: LoanManager,
+    private readonly auctionManager: AuctionManager,
+    private readonly reserveRegistry: ReserveRegistry,
+    private readonly priceOracle: PriceOracle,
+    private readonly options: KeeperOptions
+  ) {
+    this.lendingPool = lendingPool.connect(signer);
+    this.book = new PositionBook(this.lendingPool, options.fromBlock);
+  }
+
+  static async create(
+    lendingPool: LendingPool,
+    signer: Signer,
+    options: KeeperOptions = {}
+  ): Promise<Keeper> {
+    return new Keeper(
+      lendingPool,
+      signer,
+      LoanManager__factory.connect(await lendingPool.loanManager(), signer),
+      AuctionManager__factory.connect(
+        await lendingPool.auctionManager(),
+        signer
+      ),
+      ReserveRegistry__factory.connect(
+        await lendingPool.reserveRegistry(),
+        signer
+      ),
+      PriceOracle__factory.connect(await lendingPool.priceOracle(), signer),
+      options
+    );
+  }
+
+  // One round: catch up on events, liquidate what is profitable and, if
+  // enabled, buy discounted auction lots.
+  async runOnce(): Promise<KeeperReport> {
+    await this.book.sync();
+    const candidates = await this.findCandidates();
+
+    const liquidations = [];
+    for (const candidate of candidates) {
+      liquidations.push(await this.liquidate(candidate));
+    }
+
+    const purchases = [];
+    if (this.options.bidOnAuctions) {
+      for (const lot of await this.findAuctionLots()) {
+        purchases.push(await this.buy(lot));
+      }
+    }
+    return { candidates, liquidations, purchases };
+  }
+
+  // Runs rounds every `intervalMs` until `signal` aborts. A round that
+  // fails is reported to `onError` and retried on the next interval.
+  async run(
+    intervalMs: number,
+    signal: AbortSignal,
+    onReport: (report: KeeperReport) => void | Promise<void> = () => {},
+    onError: (error: unknown) => void | Promise<void> = (error) =>
+      console.error("Keeper round failed:", error)
+  ): Promise<void> {
+    await poll(
+      intervalMs,
+      signal,
+      async () => onReport(await this.runOnce()),
+      onError
+    );
+  }
+
+  // Underwater accounts, each with its most profitable collateral and debt
+  // pair, most profitable first.
+  async findCandidates(): Promise<Candidate[]> {
+    const prices = new Map<string, bigint>();
+    const price = async (token: string) => {
+      if (!prices.has(token)) {
+        prices.set(token, await this.priceOracle.getPrice(token));
+      }
+      return prices.get(token)!;
+    };
+    const configs = new Map<
+      string,
+      Awaited<ReturnType<ReserveRegistry["getReserveConfig"]>>
+    >();
+    const config = async (token: string) => {
+      if (!configs.has(token)) {
+        configs.set(token, await this.reserveRegistry.getReserveConfig(token));
+      }
+      return configs.get(token)!;
+    };
+    const closeFactor = await this.lendingPool.closeFactor();
+    const minProfit = this.options.minProfit ?? 0n;
+
+    const candidates: Candidate[] = [];
+    for (const user of this.book.borrowers()) {
+      const position = this.book.position(user);
+
+      const debts = new Map<string, bigint>();
+      let debtValue = 0n;
+      for (const token of position.debtTokens) {
+        const debt =
+          (await this.loanManager.getLoanAmount(user, token)) +
+          (await this.loanManager.calculateInterest(user, token));
+        if (debt === 0n) {
+          position.debtTokens.delete(token);
+          continue;
+        }
+        debts.set(token, debt);
+        debtValue += (debt * (await price(token))) / WAD;
+      }
+      if (debtValue === 0n) continue;
+
+      let collateralValue = 0n;
+      let liquidationLimit = 0n;
+      for (const [token, amount] of position.collateral) {
+        const value = (amount * (await price(token))) / WAD;
+        collateralValue += value;
+        liquidationLimit +=
+          (value * (await config(token)).liquidationThreshold) / BPS;
+      }
+      const healthFactor = (liquidationLimit * WAD) / debtValue;
+      if (healthFactor >= WAD) continue;
+      // Insolvent accounts can be repaid in full.
+      const repayShare = collateralValue < debtValue ? BPS : closeFactor;
+
+      let best: Candidate | undefined;
+      for (const [collateralToken, collateralAmount] of position.collateral) {
+        for (const [debtToken, debt] of debts) {
+          // Mirrors LendingPool._liquidationAmounts.
+          const collateralPrice = await price(collateralToken);
+          const debtPrice = await price(debtToken);
+          const bonus = BPS + (await config(collateralToken)).liquidationBonus;
+          let repayAmount = (debt * repayShare) / BPS;
+          let collateralSeized =
+            (repayAmount * debtPrice * bonus) / (collateralPrice * BPS);
+          if (collateralSeized > collateralAmount) {
+            collateralSeized = collateralAmount;
+            // Rounded up: repaying the rounded-down amount seizes a wei
+            // less than everything, which keeps the debt from being
+            // written off.
+            const denominator = debtPrice * bonus;
+            repayAmount =
+              (collateralAmount * collateralPrice * BPS + denominator - 1n) /
+              denominator;
+          }
+          const profit =
+            (collateralSeized * collateralPrice) / WAD -
+            (repayAmount * debtPrice) / WAD;
+          if (!best || profit > best.profit) {
+            best = {
+              user,
+              collateralToken,
+              debtToken,
+              healthFactor,
+              repayAmount,
+              collateralSeized,
+              profit,
+            };
+          }
+        }
+      }
+      if (best && best.profit > 0n && best.profit >= minProfit) {
+        candidates.push(best);
+      }
+    }
+
+    return candidates.sort((a, b) =>
+      a.profit > b.profit ? -1 : a.profit < b.profit ? 1 : 0
+    );
+  }
+
+  // Active auction lots the keeper can buy below the oracle price, most
+  // profitable first.
+  async findAuctionLots(): Promise<AuctionLot[]> {
+    const minProfit = this.options.minProfit ?? 0n;
+    const keeper = await this.signer.getAddress();
+
+    const lots: AuctionLot[] = [];
+    const count = await this.auctionManager.dutchAuctionCount();
+    for (let auctionId = 0n; auctionId < count; auctionId++) {
+      const auction = await this.auctionManager.dutchAuctions(auctionId);
+      if (auction.collateralRemaining === 0n) continue;
+
+      const price = await this.auctionManager.getDutchAuctionPrice(auctionId);
+      const collateralPrice = await this.priceOracle.getPrice(
+        auction.collateralToken
+      );
+      const debtPrice = await this.priceOracle.getPrice(auction.debtToken);
+
+      // Mirrors AuctionManager.buy, limited by what the keeper can pay.
+      // Unless the balance binds, ask for the whole lot and let the auction
+      // trim it: the price may fall before the purchase lands.
+      const balance = await IERC20__factory.connect(
+        auction.debtToken,
+        this.signer
+      ).balanceOf(keeper);
+      let request = auction.collateralRemaining;
+      let amount = auction.collateralRemaining;
+      let cost = (amount * price + WAD - 1n) / WAD;
+      if (cost > auction.debtRemaining) {
+        cost = auction.debtRemaining;
+        amount = (cost * WAD) / price;
+      }
+      if (cost > balance) {
+        cost = balance;
+        amount = request = (cost * WAD) / price;
+      }
+      if (amount === 0n) continue;
+
+      const profit =
+        (amount * collateralPrice) / WAD - (cost * debtPrice) / WAD;
+      if (profit > 0n && profit >= minProfit) {
+        lots.push({
+          auctionId,
+          collateralToken: auction.collateralToken,
+          debtToken: auction.debtToken,
+          amount,
+          request,
+          cost,
+          price,
+          profit,
+        });
+      }
+    }
+
+    return lots.sort((a, b) =>
+      a.profit > b.profit ? -1 : a.profit < b.profit ? 1 : 0
+    );
+  }
+
+  private async liquidate(
+    candidate: Candidate
+  ): Promise<KeeperAction<Candidate>> {
+    if (this.options.dryRun) return { target: candidate, status: "planned" };
+
+    const debtToken = IERC20__factory.connect(candidate.debtToken, this.signer);
+    const balance = await debtToken.balanceOf(await this.signer.getAddress());
+    if (balance < candidate.repayAmount) {
+      return {
+        target: candidate,
+        status: "skipped",
+        reason: "Insufficient debt token balance",
+      };
+    }
+    return this.send(candidate, async () => {
+      await this.approve(
+        candidate.debtToken,
+        this.lendingPool,
+        candidate.repayAmount
+      );
+      return this.lendingPool.liquidate(
+        candidate.user,
+        candidate.collateralToken,
+        candidate.debtToken,
+        candidate.repayAmount
+      );
+    });
+  }
+
+  private async buy(lot: AuctionLot): Promise<KeeperAction<AuctionLot>> {
+    if (this.options.dryRun) return { target: lot, status: "planned" };
+
+    return this.send(lot, async () => {
+      await this.approve(lot.debtToken, this.auctionManager, lot.cost);
+      return this.auctionManager.buy(lot.auctionId, lot.request, lot.price);
+    });
+  }
+
+  private async approve(
+    token: string,
+    spender: { getAddress(): Promise<string> },
+    amount: bigint
+  ): Promise<void> {
+    const erc20 = IERC20__factory.connect(token, this.signer);
+    const owner = await this.signer.getAddress();
+    const target = await spender.getAddress();
+    if ((await erc20.allowance(owner, target)) < amount) {
+      await (await erc20.approve(target, amount)).wait();
+    }
+  }
+
+  // Sends one transaction; a revert fails that action, not the round.
+  private async send<T>(
+    target: T,
+    submit: () => Promise<{ hash: string; wait: () => Promise<unknown> }>
+  ): Promise<KeeperAction<T>> {
+    try {
+      const tx = await submit();
+      await tx.wait();
+      return { target, status: "sent", txHash: tx.hash };
+    } catch (error) {
+      return {
+        target,
+        status: "failed",
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { LendingPool } from "../typechain-types";
+
+export interface Position {
+  collateral: Map<string, bigint>;
+  // Tokens the user has borrowed. Amounts are read
+  // from the LoanManager, since interest folds into the loan on every update.
+  debtTokens: Set<string>;
+}
+
+// Rebuilds every account's positions from the pool's events, picking up
+// where the previous sync stopped.
+export class PositionBook {
+  readonly positions = new Map<string, Position>();
+  private nextBlock: number;
+
+  constructor(private readonly lendingPool: LendingPool, fromBlock = 0) {
+    this.nextBlock = fromBlock;
+  }
+
+  async sync(): Promise<void> {
+    const pool = this.lendingPool;
+    const toBlock = await pool.runner!.provider!.getBlockNumber();
+    if (toBlock < this.nextBlock) return;
+    const range = [this.nextBlock, toBlock] as const;
+
+    const [deposits, withdrawals, borrows, liquidations, auctions] =
+      await Promise.all([
+        pool.queryFilter(pool.filters.Deposit(), ...range),
+        pool.queryFilter(pool.filters.Withdraw(), ...range),
+        pool.queryFilter(pool.filters.Borrow(), ...range),
+        pool.queryFilter(pool.filters.Liquidation(), ...range),
+        pool.queryFilter(pool.filters.LiquidationToAuction(), ...range),
+      ]);
+
+    // Apply in chain order: an auction liquidation takes all of one
+    // collateral token, whatever came before.
+    const updates = [
+      ...deposits.map((event) => ({
+        event,
+        apply: () =>
+          this.addCollateral(
+            event.args.user,
+            event.args.token,
+            event.args.amount
+          ),
+      })),
+      ...withdrawals.map((event) => ({
+        event,
+        apply: () =>
+          this.addCollateral(
+            event.args.user,
+            event.args.token,
+            -event.args.amount
+          ),
+      })),
+      ...borrows.map((event) => ({
+        event,
+        apply: () =>
+          this.position(event.args.user).debtTokens.add(event.args.token),
+      })),
+      ...liquidations.map((event) => ({
+        event,
+        apply: () =>
+          this.addCollateral(
+            event.args.user,
+            event.args.collateralToken,
+            -event.args.collateralSeized
+          ),
+      })),
+      ...auctions.map((event) => ({
+        event,
+        apply: () =>
+          this.position(event.args.user).collateral.delete(
+            event.args.collateralToken
+          ),
+      })),
+    ];
+    updates.sort(
+      (a, b) =>
+        a.event.blockNumber - b.event.blockNumber ||
+        a.event.index - b.event.index
+    );
+    for (const { apply } of updates) apply();
+
+    this.nextBlock = toBlock + 1;
+  }
+
+  // Users with outstanding debt, the only ones that can be liquidated.
+  borrowers(): string[] {
+    return [...this.positions]
+      .filter(([, position]) => position.debtTokens.size > 0)
+      .map(([user]) => user);
+  }
+
+  position(user: string): Position {
+    let position = this.positions.get(user);
+    if (!position) {
+      position = { collateral: new Map(), debtTokens: new Set() };
+      this.positions.set(user, position);
+    }
+    return position;
+  }
+
+  private addCollateral(user: string, token: string, amount: bigint) {
+    const { collateral } = this.position(user);
+    const balance = (collateral.get(token) ?? 0n) + amount;
+    if (balance > 0n) collateral.set(token, balance);
+    else collateral.delete(token);
+  }
+}
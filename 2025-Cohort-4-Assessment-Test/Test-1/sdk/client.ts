@@ -0,0 +1,481 @@
+import type { ContractTransactionResponse, Signer } from "ethers";
+import {
+  AuctionManager__factory,
+  IERC20Metadata__factory,
+  LendingPool__factory,
+  LoanManager__factory,
+  PriceOracle__factory,
+  ReserveRegistry__factory,
+} from "../typechain-types";
+import type {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+  PriceOracle,
+  ReserveRegistry,
+} from "../typechain-types";
+import {
+  InsufficientCollateralError,
+  LendingError,
+  RepaymentTooHighError,
+  decodeError,
+} from "./errors";
+
+const WAD = 10n ** 18n;
+const BPS = 10000n;
+const SECONDS_PER_YEAR = 31536000n;
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Values are in USD scaled by 1e18, as the pool reports them.
+export interface TokenPosition extends TokenInfo {
+  amount: bigint;
+  value: bigint;
+}
+
+export interface DebtPosition extends TokenPosition {
+  principal: bigint; // debt as of the loan's last update
+  interest: bigint; // accrued since
+}
+
+export interface AccountSummary {
+  collateralValue: bigint;
+  borrowLimit: bigint; // debt value the collateral supports at each LTV
+  liquidationLimit: bigint; // debt value past which it can be liquidated
+  debtValue: bigint;
+  healthFactor: bigint; // scaled by 1e18; MaxUint256 without debt
+}
+
+export interface Position extends AccountSummary {
+  user: string;
+  collateral: TokenPosition[];
+  debt: DebtPosition[];
+  availableToBorrow: bigint; // USD
+}
+
+export interface AuctionInfo {
+  id: bigint;
+  user: string;
+  collateral: TokenInfo;
+  debt: TokenInfo;
+  collateralRemaining: bigint;
+  debtRemaining: bigint;
+  // Debt tokens per collateral token scaled by 1e18; zero once closed.
+  price: bigint;
+  active: boolean;
+}
+
+export interface Preview {
+  before: AccountSummary;
+  after: AccountSummary;
+  // The token allowance is too low, so the pool call was not simulated.
+  needsApproval: boolean;
+  // Why the action would fail, if it would.
+  error?: LendingError;
+}
+
+// Collateral and debt balances keyed by token, valued at one timestamp.
+interface Snapshot {
+  collateral: Map<string, bigint>;
+  debt: Map<string, bigint>;
+  prices: Map<string, bigint>;
+  configs: Map<
+    string,
+    Awaited<ReturnType<ReserveRegistry["getReserveConfig"]>>
+  >;
+}
+
+// High-level access to a LendingPool for one signer. Writes go through the
+// pool; reads value positions the way the pool does, with interest accrued
+// up to the next block. Reverts are rethrown as `LendingError` subclasses.
+export class LendingClient {
+  private constructor(
+    readonly lendingPool: LendingPool,
+    readonly loanManager: LoanManager,
+    readonly auctionManager: AuctionManager,
+    readonly reserveRegistry: ReserveRegistry,
+    readonly priceOracle: PriceOracle,
+    readonly signer: Signer
+  ) {}
+
+  static async connect(
+    lendingPool: LendingPool | string,
+    signer: Signer
+  ): Promise<LendingClient> {
+    const pool = LendingPool__factory.connect(
+      typeof lendingPool === "string"
+        ? lendingPool
+        : await lendingPool.getAddress(),
+      signer
+    );
+    return new LendingClient(
+      pool,
+      LoanManager__factory.connect(await pool.loanManager(), signer),
+      AuctionManager__factory.connect(await pool.auctionManager(), signer),
+      ReserveRegistry__factory.connect(await pool.reserveRegistry(), signer),
+      PriceOracle__factory.connect(await pool.priceOracle(), signer),
+      signer
+    );
+  }
+
+  async getTokenInfo(token: string): Promise<TokenInfo> {
+    const erc20 = IERC20Metadata__factory.connect(token, this.signer);
+    return {
+      address: await erc20.getAddress(),
+      symbol: await erc20.symbol(),
+      decimals: Number(await erc20.decimals()),
+    };
+  }
+
+  async getPosition(user?: string): Promise<Position> {
+    const account = user ?? (await this.signer.getAddress());
+    const snapshot = await this.snapshot(account, await this.nextTimestamp());
+    const summary = summarize(snapshot);
+
+    const collateral: TokenPosition[] = [];
+    for (const [token, amount] of snapshot.collateral) {
+      collateral.push({
+        ...(await this.getTokenInfo(token)),
+        amount,
+        value: (amount * snapshot.prices.get(token)!) / WAD,
+      });
+    }
+    const debt: DebtPosition[] = [];
+    for (const [token, amount] of snapshot.debt) {
+      const principal = await this.loanManager.getLoanAmount(account, token);
+      debt.push({
+        ...(await this.getTokenInfo(token)),
+        amount,
+        value: (amount * snapshot.prices.get(token)!) / WAD,
+        principal,
+        interest: amount - principal,
+      });
+    }
+
+    return {
+      user: account,
+      ...summary,
+      collateral,
+      debt,
+      availableToBorrow:
+        summary.borrowLimit > summary.debtValue
+          ? summary.borrowLimit - summary.debtValue
+          : 0n,
+    };
+  }
+
+  async getAuctions({ includeClosed = false } = {}): Promise<AuctionInfo[]> {
+    const auctions: AuctionInfo[] = [];
+    const count = await this.auctionManager.dutchAuctionCount();
+    for (let id = 0n; id < count; id++) {
+      const auction = await this.auctionManager.dutchAuctions(id);
+      const active = auction.collateralRemaining > 0n;
+      if (!active && !includeClosed) continue;
+      auctions.push({
+        id,
+        user: auction.user,
+        collateral: await this.getTokenInfo(auction.collateralToken),
+        debt: await this.getTokenInfo(auction.debtToken),
+        collateralRemaining: auction.collateralRemaining,
+        debtRemaining: auction.debtRemaining,
+        price: active ? await this.auctionManager.getDutchAuctionPrice(id) : 0n,
+        active,
+      });
+    }
+    return auctions;
+  }
+
+  // Approves the pool if needed, then deposits `amount` as collateral.
+  async depositWithApproval(token: string, amount: bigint) {
+    return this.send(async () => {
+      await this.ensureAllowance(token, amount);
+      return this.lendingPool.deposit(token, amount);
+    });
+  }
+
+  async withdraw(token: string, amount: bigint) {
+    return this.send(() => this.lendingPool.withdraw(token, amount));
+  }
+
+  async borrow(token: string, amount: bigint) {
+    return this.send(() => this.lendingPool.borrow(token, amount));
+  }
+
+  async repay(token: string, amount: bigint) {
+    return this.send(async () => {
+      await this.ensureAllowance(token, amount);
+      return this.lendingPool.repay(token, amount);
+    });
+  }
+
+  // Largest amount of `token` the signer can borrow now. `marginBps` of the
+  // headroom is left unused so interest accruing before the borrow lands
+  // does not push it over the limit.
+  async maxBorrowable(token: string, { marginBps = 1n } = {}): Promise<bigint> {
+    const user = await this.signer.getAddress();
+    const summary = summarize(
+      await this.snapshot(user, await this.nextTimestamp())
+    );
+    if (summary.borrowLimit <= summary.debtValue) return 0n;
+
+    // Debt values are rounded down per token, so keep one wei of value spare.
+    const headroom =
+      ((summary.borrowLimit - summary.debtValue) * (BPS - marginBps)) / BPS;
+    if (headroom <= 1n) return 0n;
+    let amount =
+      ((headroom - 1n) * WAD) / (await this.priceOracle.getPrice(token));
+
+    const liquidity = await this.lendingPool.availableLiquidity(token);
+    if (amount > liquidity) amount = liquidity;
+    const { borrowCap } = await this.reserveRegistry.getReserveConfig(token);
+    if (borrowCap > 0n) {
+      const totalBorrows = await this.loanManager.getTotalBorrows(token);
+      const room = borrowCap > totalBorrows ? borrowCap - totalBorrows : 0n;
+      if (amount > room) amount = room;
+    }
+    return amount;
+  }
+
+  // Borrows as much of `token` as the signer's collateral allows.
+  async borrowMax(token: string, options: { marginBps?: bigint } = {}) {
+    const amount = await this.maxBorrowable(token, options);
+    if (amount === 0n) {
+      throw new InsufficientCollateralError(
+        "Nothing left to borrow",
+        "not enough collateral to cover loan"
+      );
+    }
+    return { amount, receipt: await this.borrow(token, amount) };
+  }
+
+  // Repays the whole `token` debt, interest included. The debt keeps
+  // growing until the repayment lands, so any dust left over is repaid
+  // again.
+  async repayAll(token: string) {
+    const user = await this.signer.getAddress();
+    let repaid = 0n;
+    const receipts = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if ((await this.loanManager.getLoanAmount(user, token)) === 0n) break;
+      let debt = 0n;
+      const receipt = await this.send(async () => {
+        // Allow for a minute of interest so the approval covers the
+        // repayment even if blocks arrive in between.
+        const timestamp = await this.nextTimestamp();
+        await this.ensureAllowance(
+          token,
+          await this.debtAt(user, token, timestamp + 60n)
+        );
+        debt = await this.debtAt(user, token, await this.nextTimestamp());
+        return this.lendingPool.repay(token, debt);
+      });
+      // Only counted once the repayment is confirmed.
+      repaid += debt;
+      receipts.push(receipt);
+    }
+    return { repaid, receipts };
+  }
+
+  async previewDeposit(token: string, amount: bigint): Promise<Preview> {
+    return this.preview(
+      (snapshot) => addTo(snapshot.collateral, token, amount),
+      token,
+      amount,
+      () => this.lendingPool.deposit.staticCall(token, amount)
+    );
+  }
+
+  async previewWithdraw(token: string, amount: bigint): Promise<Preview> {
+    return this.preview(
+      (snapshot) => {
+        if ((snapshot.collateral.get(token) ?? 0n) < amount) {
+          return new InsufficientCollateralError(
+            "insufficient collateral",
+            "insufficient collateral"
+          );
+        }
+        addTo(snapshot.collateral, token, -amount);
+      },
+      undefined,
+      amount,
+      () => this.lendingPool.withdraw.staticCall(token, amount)
+    );
+  }
+
+  async previewBorrow(token: string, amount: bigint): Promise<Preview> {
+    return this.preview(
+      (snapshot) => addTo(snapshot.debt, token, amount),
+      undefined,
+      amount,
+      () => this.lendingPool.borrow.staticCall(token, amount)
+    );
+  }
+
+  async previewRepay(token: string, amount: bigint): Promise<Preview> {
+    return this.preview(
+      (snapshot) => {
+        if ((snapshot.debt.get(token) ?? 0n) < amount) {
+          return new RepaymentTooHighError(
+            "Repayment amount too high",
+            "Repayment amount too high"
+          );
+        }
+        addTo(snapshot.debt, token, -amount);
+      },
+      token,
+      amount,
+      () => this.lendingPool.repay.staticCall(token, amount)
+    );
+  }
+
+  // Projects the action on the signer's account off chain, then simulates
+  // the pool call to catch anything the projection does not model.
+  private async preview(
+    apply: (snapshot: Snapshot) => LendingError | void,
+    approvalToken: string | undefined,
+    amount: bigint,
+    simulate: () => Promise<unknown>
+  ): Promise<Preview> {
+    const user = await this.signer.getAddress();
+    const snapshot = await this.snapshot(user, await this.nextTimestamp());
+    const before = summarize(snapshot);
+    let error = apply(snapshot) ?? undefined;
+    // Value tokens the action adds to the account.
+    await this.price(snapshot, [
+      ...snapshot.collateral.keys(),
+      ...snapshot.debt.keys(),
+    ]);
+    const after = summarize(snapshot);
+
+    const needsApproval =
+      approvalToken !== undefined &&
+      (await IERC20Metadata__factory.connect(
+        approvalToken,
+        this.signer
+      ).allowance(user, await this.lendingPool.getAddress())) < amount;
+    if (!error && !needsApproval) {
+      try {
+        await simulate();
+      } catch (simulationError) {
+        error = decodeError(simulationError);
+      }
+    }
+    return { before, after, needsApproval, error };
+  }
+
+  private async snapshot(user: string, timestamp: bigint): Promise<Snapshot> {
+    const snapshot: Snapshot = {
+      collateral: new Map(),
+      debt: new Map(),
+      prices: new Map(),
+      configs: new Map(),
+    };
+    for (const token of await this.loanManager.getCollateralTokens(user)) {
+      snapshot.collateral.set(
+        token,
+        await this.loanManager.getCollateralAmount(user, token)
+      );
+    }
+    for (const token of await this.loanManager.getDebtTokens(user)) {
+      snapshot.debt.set(token, await this.debtAt(user, token, timestamp));
+    }
+    await this.price(snapshot, [
+      ...snapshot.collateral.keys(),
+      ...snapshot.debt.keys(),
+    ]);
+    return snapshot;
+  }
+
+  private async price(snapshot: Snapshot, tokens: string[]): Promise<void> {
+    for (const token of tokens) {
+      if (snapshot.prices.has(token)) continue;
+      snapshot.prices.set(token, await this.priceOracle.getPrice(token));
+      snapshot.configs.set(
+        token,
+        await this.reserveRegistry.getReserveConfig(token)
+      );
+    }
+  }
+
+  // A loan's debt at `timestamp`, as LoanManager will compute it then.
+  private async debtAt(
+    user: string,
+    token: string,
+    timestamp: bigint
+  ): Promise<bigint> {
+    const loan = await this.loanManager.loans(user, token);
+    if (loan.amount === 0n) return 0n;
+    const reserve = await this.loanManager.reserves(token);
+    let borrowIndex = WAD;
+    if (reserve.lastUpdate > 0n) {
+      const elapsed = timestamp - reserve.lastUpdate;
+      borrowIndex =
+        reserve.borrowIndex +
+        (reserve.borrowIndex * reserve.borrowRate * elapsed) /
+          (SECONDS_PER_YEAR * WAD);
+    }
+    return (loan.amount * borrowIndex) / loan.borrowIndex;
+  }
+
+  private async nextTimestamp(): Promise<bigint> {
+    const block = await this.signer.provider!.getBlock("latest");
+    return BigInt(block!.timestamp) + 1n;
+  }
+
+  private async ensureAllowance(token: string, amount: bigint): Promise<void> {
+    const erc20 = IERC20Metadata__factory.connect(token, this.signer);
+    const owner = await this.signer.getAddress();
+    const spender = await this.lendingPool.getAddress();
+    if ((await erc20.allowance(owner, spender)) < amount) {
+      await (await erc20.approve(spender, amount)).wait();
+    }
+  }
+
+  // Sends a transaction and waits for it, decoding any revert.
+  private async send(submit: () => Promise<ContractTransactionResponse>) {
+    try {
+      const tx = await submit();
+      return (await tx.wait())!;
+    } catch (error) {
+      throw decodeError(error);
+    }
+  }
+}
+
+function addTo(balances: Map<string, bigint>, token: string, amount: bigint) {
+  const balance = (balances.get(token) ?? 0n) + amount;
+  if (balance > 0n) balances.set(token, balance);
+  else balances.delete(token);
+}
+
+// Mirrors LendingPool._accountValues and getAccountData.
+function summarize(snapshot: Snapshot): AccountSummary {
+  let collateralValue = 0n;
+  let borrowLimit = 0n;
+  let liquidationLimit = 0n;
+  for (const [token, amount] of snapshot.collateral) {
+    const config = snapshot.configs.get(token)!;
+    const value = (amount * snapshot.prices.get(token)!) / WAD;
+    collateralValue += value;
+    if (config.collateralEnabled) borrowLimit += (value * config.ltv) / BPS;
+    liquidationLimit += (value * config.liquidationThreshold) / BPS;
+  }
+
+  let debtValue = 0n;
+  for (const [token, amount] of snapshot.debt) {
+    debtValue += (amount * snapshot.prices.get(token)!) / WAD;
+  }
+
+  return {
+    collateralValue,
+    borrowLimit,
+    liquidationLimit,
+    debtValue,
+    healthFactor:
+      debtValue === 0n ? 2n ** 256n - 1n : (liquidationLimit * WAD) / debtValue,
+  };
+}
@@ -0,0 +1,173 @@
+import { Interface, isHexString } from "ethers";
+
+// Base class for every failure the client decodes. `reason` is the revert
+// string or custom error name the contracts reported.
+export class LendingError extends Error {
+  constructor(
+    message: string,
+    readonly reason?: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InsufficientCollateralError extends LendingError {}
+export class InsufficientLiquidityError extends LendingError {}
+export class NoActiveLoanError extends LendingError {}
+export class RepaymentTooHighError extends LendingError {}
+export class NoCollateralToSeizeError extends LendingError {}
+export class InvalidAmountError extends LendingError {}
+export class TokenNotWhitelistedError extends LendingError {}
+export class ReservePausedError extends LendingError {}
+export class ReserveFrozenError extends LendingError {}
+export class ActionPausedError extends LendingError {}
+export class BorrowingNotEnabledError extends LendingError {}
+export class CollateralNotEnabledError extends LendingError {}
+export class SupplyNotEnabledError extends LendingError {}
+export class SupplyCapExceededError extends LendingError {}
+export class BorrowCapExceededError extends LendingError {}
+export class AuctionNotActiveError extends LendingError {}
+export class PriceAboveLimitError extends LendingError {}
+export class BidsPausedError extends LendingError {}
+export class PriceFeedError extends LendingError {}
+
+export class UnauthorizedError extends LendingError {
+  constructor(
+    message: string,
+    readonly account: string,
+    readonly role: string,
+    cause?: unknown
+  ) {
+    super(message, "AccessControlUnauthorizedAccount", cause);
+  }
+}
+
+export class InsufficientBalanceError extends LendingError {
+  constructor(
+    message: string,
+    readonly balance: bigint,
+    readonly needed: bigint,
+    cause?: unknown
+  ) {
+    super(message, "ERC20InsufficientBalance", cause);
+  }
+}
+
+export class InsufficientAllowanceError extends LendingError {
+  constructor(
+    message: string,
+    readonly allowance: bigint,
+    readonly needed: bigint,
+    cause?: unknown
+  ) {
+    super(message, "ERC20InsufficientAllowance", cause);
+  }
+}
+
+type LendingErrorClass = new (
+  message: string,
+  reason?: string,
+  cause?: unknown
+) => LendingError;
+
+// Revert strings of LendingPool, LoanManager, AuctionManager and PriceOracle.
+const REASONS: Record<string, LendingErrorClass> = {
+  "not enough collateral to cover loan": InsufficientCollateralError,
+  "withdrawal would undercollateralize loan": InsufficientCollateralError,
+  "insufficient collateral": InsufficientCollateralError,
+  "Insufficient balance": InsufficientLiquidityError,
+  "Insufficient liquidity": InsufficientLiquidityError,
+  "No active loan": NoActiveLoanError,
+  "Repayment amount too high": RepaymentTooHighError,
+  "No collateral to seize": NoCollateralToSeizeError,
+  "Invalid amount": InvalidAmountError,
+  "Amount exceeds bad debt": InvalidAmountError,
+  "Token not whitelisted": TokenNotWhitelistedError,
+  "Reserve paused": ReservePausedError,
+  "Reserve frozen": ReserveFrozenError,
+  "Action paused": ActionPausedError,
+  "Borrowing not enabled": BorrowingNotEnabledError,
+  "Collateral not enabled": CollateralNotEnabledError,
+  "Supply not enabled": SupplyNotEnabledError,
+  "Supply cap exceeded": SupplyCapExceededError,
+  "Borrow cap exceeded": BorrowCapExceededError,
+  "Auction not active": AuctionNotActiveError,
+  "Price above limit": PriceAboveLimitError,
+  "Bids paused": BidsPausedError,
+  "Price feed not set": PriceFeedError,
+  "Stale price": PriceFeedError,
+  "Invalid price": PriceFeedError,
+  "Incomplete round": PriceFeedError,
+};
+
+// Error(string) is built into every Interface.
+const errors = new Interface([
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+]);
+
+// Providers nest the revert data at different depths.
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (typeof error !== "object" || error === null || depth > 4) return;
+  const { data } = error as { data?: unknown };
+  if (typeof data === "string" && isHexString(data) && data.length >= 10) {
+    return data;
+  }
+  for (const key of ["error", "info", "cause"]) {
+    const nested = findRevertData(
+      (error as Record<string, unknown>)[key],
+      depth + 1
+    );
+    if (nested) return nested;
+  }
+}
+
+// Turns a failed call or transaction into the matching `LendingError`.
+// Anything that is not a recognized revert comes back as a plain
+// `LendingError` carrying the original error as its cause.
+export function decodeError(error: unknown): LendingError {
+  if (error instanceof LendingError) return error;
+
+  const data = findRevertData(error);
+  let parsed = null;
+  try {
+    parsed = data ? errors.parseError(data) : null;
+  } catch {
+    // Revert data we cannot decode; fall through to the generic error.
+  }
+  if (parsed?.name === "Error") {
+    const reason: string = parsed.args[0];
+    const ErrorClass = REASONS[reason] ?? LendingError;
+    return new ErrorClass(reason, reason, error);
+  }
+  if (parsed?.name === "AccessControlUnauthorizedAccount") {
+    return new UnauthorizedError(
+      `${parsed.args.account} is missing role ${parsed.args.neededRole}`,
+      parsed.args.account,
+      parsed.args.neededRole,
+      error
+    );
+  }
+  if (parsed?.name === "ERC20InsufficientBalance") {
+    return new InsufficientBalanceError(
+      `Balance ${parsed.args.balance} is below ${parsed.args.needed}`,
+      parsed.args.balance,
+      parsed.args.needed,
+      error
+    );
+  }
+  if (parsed?.name === "ERC20InsufficientAllowance") {
+    return new InsufficientAllowanceError(
+      `Allowance ${parsed.args.allowance} is below ${parsed.args.needed}`,
+      parsed.args.allowance,
+      parsed.args.needed,
+      error
+    );
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LendingError(message, parsed?.name, error);
+}
@@ -0,0 +1,194 @@
+import { parseEther } from "ethers";
+import type { Keeper } from "../keeper";
+import { LendingClient, decodeError } from "../sdk";
+import { IERC20__factory } from "../typechain-types";
+import type {
+  AuctionManager,
+  FlashArbitrageur,
+  LendingPool,
+  MockAmm,
+  PriceOracle,
+} from "../typechain-types";
+import type { BorrowerGroup } from "./scenario";
+
+const WAD = 10n ** 18n;
+const BPS = 10000n;
+
+// One participant, called once per step after prices move. Returns why any
+// of its actions failed; a thrown error counts as one failure.
+export interface Agent {
+  readonly name: string;
+  act(step: number): Promise<string[]>;
+}
+
+// Opens a position on the first step, borrowing down to a target health
+// factor, and optionally repays part of it when health drops.
+export class Borrower implements Agent {
+  constructor(
+    readonly name: string,
+    readonly client: LendingClient,
+    private readonly group: BorrowerGroup,
+    private readonly collateral: string,
+    private readonly debt: string,
+    private readonly deposit: bigint,
+    private readonly health: number
+  ) {}
+
+  async act(step: number): Promise<string[]> {
+    if (step === 0) {
+      await this.open();
+      return [];
+    }
+    const { repayBelow, repayShare } = this.group;
+    if (repayBelow === undefined) return [];
+
+    const position = await this.client.getPosition();
+    if (position.healthFactor >= parseEther(String(repayBelow))) return [];
+    const debt = position.debt.find(({ address }) => address === this.debt);
+    if (!debt) return [];
+
+    const balance = await IERC20__factory.connect(
+      this.debt,
+      this.client.signer
+    ).balanceOf(position.user);
+    let amount = (debt.amount * BigInt(Math.round(repayShare * 10000))) / BPS;
+    if (amount > balance) amount = balance;
+    if (amount > 0n) await this.client.repay(this.debt, amount);
+    return [];
+  }
+
+  private async open(): Promise<void> {
+    await this.client.depositWithApproval(this.collateral, this.deposit);
+    const { liquidationLimit } = await this.client.getPosition();
+    const price = await this.client.priceOracle.getPrice(this.debt);
+    let amount =
+      (((liquidationLimit * WAD) / parseEther(String(this.health))) * WAD) /
+      price;
+    const max = await this.client.maxBorrowable(this.debt);
+    if (amount > max) amount = max;
+    if (amount > 0n) await this.client.borrow(this.debt, amount);
+  }
+}
+
+// Liquidates underwater accounts through a `Keeper`, either directly or by
+// handing them to Dutch auctions.
+export class Liquidator implements Agent {
+  constructor(
+    readonly name: string,
+    private readonly keeper: Keeper,
+    private readonly lendingPool: LendingPool,
+    private readonly mode: "direct" | "auction"
+  ) {}
+
+  async act(): Promise<string[]> {
+    if (this.mode === "direct") {
+      const { liquidations } = await this.keeper.runOnce();
+      return liquidations
+        .filter(({ status }) => status === "failed" || status === "skipped")
+        .map(({ status, reason }) => reason ?? status);
+    }
+
+    await this.keeper.book.sync();
+    const failures = [];
+    for (const candidate of await this.keeper.findCandidates()) {
+      try {
+        await (
+          await this.lendingPool.liquidateToAuction(
+            candidate.user,
+            candidate.collateralToken,
+            candidate.debtToken
+          )
+        ).wait();
+      } catch (error) {
+        failures.push(decodeError(error).message);
+      }
+    }
+    return failures;
+  }
+}
+
+// Buys Dutch auction lots once they are priced at least `discount` basis
+// points below the oracle.
+export class Bidder implements Agent {
+  constructor(
+    readonly name: string,
+    private readonly keeper: Keeper,
+    private readonly auctionManager: AuctionManager,
+    private readonly priceOracle: PriceOracle,
+    private readonly discount: bigint
+  ) {}
+
+  async act(): Promise<string[]> {
+    const failures = [];
+    for (const lot of await this.keeper.findAuctionLots()) {
+      const reference =
+        ((await this.priceOracle.getPrice(lot.collateralToken)) * WAD) /
+        (await this.priceOracle.getPrice(lot.debtToken));
+      if (lot.price * BPS > reference * (BPS - this.discount)) continue;
+      try {
+        await (
+          await this.auctionManager.buy(lot.auctionId, lot.request, lot.price)
+        ).wait();
+      } catch (error) {
+        failures.push(decodeError(error).message);
+      }
+    }
+    return failures;
+  }
+}
+
+// Trades the AMM back towards the oracle price with flash-loaned quote
+// tokens whenever that clears `minProfit` USD after fees.
+export class Arbitrageur implements Agent {
+  constructor(
+    readonly name: string,
+    private readonly arbitrageur: FlashArbitrageur,
+    private readonly amm: MockAmm,
+    private readonly lendingPool: LendingPool,
+    private readonly priceOracle: PriceOracle,
+    private readonly base: string,
+    private readonly quote: string,
+    private readonly minProfit: bigint
+  ) {}
+
+  async act(): Promise<string[]> {
+    const reserve0 = await this.amm.reserve0();
+    const reserve1 = await this.amm.reserve1();
+    const quotePrice = await this.priceOracle.getPrice(this.quote);
+    const price =
+      ((await this.priceOracle.getPrice(this.base)) * WAD) / quotePrice;
+
+    // Base reserve at which the AMM quotes the oracle price, ignoring fees.
+    const target = sqrt((reserve0 * reserve1 * WAD) / price);
+    const buyOnAmm = target < reserve0;
+    let amount = buyOnAmm
+      ? (reserve0 * reserve1) / target - reserve1
+      : ((target - reserve0) * price) / WAD;
+    const available = await this.lendingPool.maxFlashLoan(this.quote);
+    if (amount > available) amount = available;
+
+    // Fees make the full move unprofitable at the margin; try smaller ones.
+    for (let attempt = 0; attempt < 4 && amount > 0n; attempt++) {
+      const profit = await this.arbitrageur.arbitrage
+        .staticCall(amount, buyOnAmm)
+        .catch(() => 0n);
+      if ((profit * quotePrice) / WAD >= this.minProfit && profit > 0n) {
+        await (await this.arbitrageur.arbitrage(amount, buyOnAmm)).wait();
+        return [];
+      }
+      amount /= 2n;
+    }
+    return [];
+  }
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
@@ -0,0 +1,4 @@
+export * from "./agents";
+export * from "./report";
+export * from "./scenario";
+export * from "./simulation";
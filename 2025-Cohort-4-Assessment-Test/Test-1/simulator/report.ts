@@ -0,0 +1,348 @@
+import { formatEther } from "ethers";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { TOKEN_IDS } from "../ignition/modules/Tokens";
+import { auctionOutcomes } from "../indexer";
+import type { StoredEvent } from "../indexer";
+import type { TokenId } from "./scenario";
+import type { SimulationResult } from "./simulation";
+
+const WAD = 10n ** 18n;
+
+// Amounts and USD values are decimal strings; ratios are plain numbers.
+export interface SimulationReport {
+  scenario: {
+    name: string;
+    description: string;
+    steps: number;
+    stepSeconds: number;
+    seed: number;
+  };
+  // Debt nobody will repay: borrowers' debt above their collateral's value,
+  // and debt the pool wrote off and fees have not covered yet. Written-off
+  // debt includes what closed auctions failed to raise, also shown apart.
+  // Open auctions' debt is still being worked off.
+  badDebt: {
+    totalUsd: string;
+    positionsUsd: string;
+    writtenOffUsd: string;
+    coveredUsd: string;
+    auctionsUsd: string;
+    openAuctionDebtUsd: string;
+  };
+  liquidations: {
+    accountsUnderwater: number;
+    accountsLiquidated: number;
+    liquidatedShare: number;
+    // Steps between an account going underwater and its first liquidation.
+    meanDelaySteps: number | null;
+    direct: number;
+    toAuction: number;
+    debtRepaidUsd: string;
+    collateralSeizedUsd: string;
+    bonusPaidUsd: string;
+  };
+  auctions: {
+    started: number;
+    closed: number;
+    purchases: number;
+    raisedUsd: string;
+    // Purchase prices as a share of the oracle price at the time.
+    clearingToOracle: { mean: number; min: number; max: number } | null;
+  };
+  flashLoans: { count: number; volumeUsd: string };
+  fees: Record<
+    TokenId,
+    {
+      collected: string;
+      interestAccrued: string;
+      reserve: string;
+      liquidatorIncentive: string;
+      stakers: string;
+      stakerRewardsEarned: string;
+    }
+  > & { totalUsd: string; interestUsd: string };
+  failures: Record<string, number>;
+  steps: StepRow[];
+  purchases: PurchaseRow[];
+}
+
+export type StepRow = Record<string, string | number>;
+
+export interface PurchaseRow {
+  step: number;
+  auctionId: string;
+  buyer: string;
+  amount: string;
+  cost: string;
+  clearingPrice: string;
+  oraclePrice: string;
+  clearingToOracle: number;
+}
+
+export function buildReport(result: SimulationResult): SimulationReport {
+  const { scenario, steps, store, tokens } = result;
+  const symbolOf = new Map(
+    TOKEN_IDS.map((id) => [tokens[id].toLowerCase(), id])
+  );
+  const idOf = (address: unknown) =>
+    symbolOf.get(String(address).toLowerCase())!;
+  const stepOf = (blockNumber: number) =>
+    Math.max(
+      0,
+      steps.findIndex(({ toBlock }) => toBlock >= blockNumber)
+    );
+  const pricesAt = (blockNumber: number) => steps[stepOf(blockNumber)].prices;
+  const usd = (amount: bigint, token: unknown, blockNumber?: number) => {
+    const prices =
+      blockNumber === undefined ? steps.at(-1)!.prices : pricesAt(blockNumber);
+    return (amount * prices[idOf(token)]) / WAD;
+  };
+  const amountOf = (event: StoredEvent, key: string) =>
+    BigInt(String(event.args[key]));
+  const events = (name: string) => store.events({ names: [name] });
+
+  // Liquidations, valued when they happened.
+  const firstUnderwater = new Map<string, number>();
+  for (const { step, underwater } of steps) {
+    for (const user of underwater) {
+      if (!firstUnderwater.has(user)) firstUnderwater.set(user, step);
+    }
+  }
+  const direct = events("Liquidation");
+  const toAuction = events("LiquidationToAuction");
+  const firstLiquidation = new Map<string, number>();
+  for (const event of [...direct, ...toAuction]) {
+    const user = String(event.args.user);
+    if (!firstLiquidation.has(user)) {
+      firstLiquidation.set(user, stepOf(event.blockNumber));
+    }
+  }
+  const delays = [...firstLiquidation]
+    .filter(([user]) => firstUnderwater.has(user))
+    .map(([user, step]) => step - firstUnderwater.get(user)!);
+  let debtRepaid = 0n;
+  let collateralSeized = 0n;
+  for (const event of direct) {
+    debtRepaid += usd(
+      amountOf(event, "debtRepaid"),
+      event.args.debtToken,
+      event.blockNumber
+    );
+    collateralSeized += usd(
+      amountOf(event, "collateralSeized"),
+      event.args.collateralToken,
+      event.blockNumber
+    );
+  }
+
+  // Auctions and their purchases against the oracle.
+  const { dutch } = auctionOutcomes(store);
+  const purchases: PurchaseRow[] = [];
+  let raised = 0n;
+  let auctionShortfall = 0n;
+  let openAuctionDebt = 0n;
+  for (const auction of dutch) {
+    for (const purchase of auction.purchases) {
+      const amount = BigInt(purchase.amount);
+      const cost = BigInt(purchase.cost);
+      const prices = pricesAt(purchase.blockNumber);
+      const oraclePrice =
+        (prices[idOf(auction.collateralToken)] * WAD) /
+        prices[idOf(auction.debtToken)];
+      const clearingPrice = (cost * WAD) / amount;
+      raised += usd(cost, auction.debtToken, purchase.blockNumber);
+      purchases.push({
+        step: stepOf(purchase.blockNumber),
+        auctionId: auction.id,
+        buyer: purchase.buyer,
+        amount: formatEther(amount),
+        cost: formatEther(cost),
+        clearingPrice: formatEther(clearingPrice),
+        oraclePrice: formatEther(oraclePrice),
+        clearingToOracle: ratio(clearingPrice, oraclePrice),
+      });
+    }
+    const remaining = BigInt(auction.debt) - auction.raised;
+    if (auction.closed) {
+      auctionShortfall += usd(auction.shortfall!, auction.debtToken);
+    } else if (remaining > 0n) {
+      openAuctionDebt += usd(remaining, auction.debtToken);
+    }
+  }
+  const ratios = purchases.map(({ clearingToOracle }) => clearingToOracle);
+
+  const valueOf = (list: StoredEvent[]) =>
+    list.reduce(
+      (total, event) =>
+        total + usd(amountOf(event, "amount"), event.args.token),
+      0n
+    );
+  const covered = valueOf(events("BadDebtCovered"));
+  const writtenOff = valueOf(events("BadDebtRecorded")) - covered;
+
+  // Interest is whatever the books grew by beyond what was borrowed: the
+  // run starts with no loans.
+  const fees = {} as SimulationReport["fees"];
+  let feesUsd = 0n;
+  let interestUsd = 0n;
+  for (const id of TOKEN_IDS) {
+    const mine = (event: StoredEvent) => idOf(event.args.token) === id;
+    const sum = (list: StoredEvent[], key: string) =>
+      list.reduce((total, event) => total + amountOf(event, key), 0n);
+    const collected = sum(events("FeesCollected").filter(mine), "amount");
+    const borrowed = sum(events("Borrow").filter(mine), "amount");
+    const repaid =
+      sum(events("Repay").filter(mine), "amount") +
+      sum(
+        direct.filter((event) => idOf(event.args.debtToken) === id),
+        "debtRepaid"
+      ) +
+      sum(
+        toAuction.filter((event) => idOf(event.args.debtToken) === id),
+        "debt"
+      );
+    const interest = result.totalBorrows[id] + repaid - borrowed;
+    feesUsd += usd(collected, tokens[id]);
+    interestUsd += usd(interest, tokens[id]);
+
+    const { reserve, liquidatorIncentive, stakers, earned } = result.fees[id];
+    fees[id] = {
+      collected: formatEther(collected),
+      interestAccrued: formatEther(interest),
+      reserve: formatEther(reserve),
+      liquidatorIncentive: formatEther(liquidatorIncentive),
+      stakers: formatEther(stakers),
+      stakerRewardsEarned: formatEther(earned),
+    };
+  }
+  fees.totalUsd = formatEther(feesUsd);
+  fees.interestUsd = formatEther(interestUsd);
+
+  const flashLoans = events("FlashLoan");
+  const failures: Record<string, number> = {};
+  for (const { reason } of steps.flatMap((step) => step.failures)) {
+    failures[reason] = (failures[reason] ?? 0) + 1;
+  }
+
+  const positionShortfall = steps.at(-1)?.shortfall ?? 0n;
+  return {
+    scenario: {
+      name: scenario.name,
+      description: scenario.description,
+      steps: steps.length,
+      stepSeconds: scenario.stepSeconds,
+      seed: scenario.seed,
+    },
+    badDebt: {
+      totalUsd: formatEther(positionShortfall + writtenOff),
+      positionsUsd: formatEther(positionShortfall),
+      writtenOffUsd: formatEther(writtenOff),
+      coveredUsd: formatEther(covered),
+      auctionsUsd: formatEther(auctionShortfall),
+      openAuctionDebtUsd: formatEther(openAuctionDebt),
+    },
+    liquidations: {
+      accountsUnderwater: firstUnderwater.size,
+      accountsLiquidated: firstLiquidation.size,
+      liquidatedShare: firstUnderwater.size
+        ? round(firstLiquidation.size / firstUnderwater.size)
+        : 1,
+      meanDelaySteps: delays.length
+        ? round(delays.reduce((a, b) => a + b, 0) / delays.length)
+        : null,
+      direct: direct.length,
+      toAuction: toAuction.length,
+      debtRepaidUsd: formatEther(debtRepaid),
+      collateralSeizedUsd: formatEther(collateralSeized),
+      bonusPaidUsd: formatEther(collateralSeized - debtRepaid),
+    },
+    auctions: {
+      started: dutch.length,
+      closed: dutch.filter(({ closed }) => closed).length,
+      purchases: purchases.length,
+      raisedUsd: formatEther(raised),
+      clearingToOracle: ratios.length
+        ? {
+            mean: round(ratios.reduce((a, b) => a + b, 0) / ratios.length),
+            min: Math.min(...ratios),
+            max: Math.max(...ratios),
+          }
+        : null,
+    },
+    flashLoans: {
+      count: flashLoans.length,
+      volumeUsd: formatEther(
+        flashLoans.reduce(
+          (total, event) =>
+            total +
+            usd(amountOf(event, "amount"), event.args.token, event.blockNumber),
+          0n
+        )
+      ),
+    },
+    fees,
+    failures,
+    steps: steps.map((step) => {
+      const inStep = (event: StoredEvent) =>
+        stepOf(event.blockNumber) === step.step;
+      return {
+        step: step.step,
+        timestamp: step.timestamp,
+        ...Object.fromEntries(
+          TOKEN_IDS.map((id) => [id, formatEther(step.prices[id])])
+        ),
+        ammPrice: step.ammPrice === undefined ? "" : formatEther(step.ammPrice),
+        underwater: step.underwater.length,
+        collateralUsd: formatEther(step.collateralValue),
+        debtUsd: formatEther(step.debtValue),
+        shortfallUsd: formatEther(step.shortfall),
+        liquidations: direct.filter(inStep).length,
+        auctionsStarted: toAuction.filter(inStep).length,
+        purchases: purchases.filter((p) => p.step === step.step).length,
+        flashLoans: flashLoans.filter(inStep).length,
+        failures: step.failures.length,
+      };
+    }),
+    purchases,
+  };
+}
+
+export function toCsv<Row extends { [K in keyof Row]: string | number }>(
+  rows: Row[]
+): string {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]) as (keyof Row)[];
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return (
+    [
+      columns.join(","),
+      ...rows.map((row) => columns.map((key) => escape(row[key])).join(",")),
+    ].join("\n") + "\n"
+  );
+}
+
+// Writes `<name>.json` with the whole report, and `<name>-steps.csv` and
+// `<name>-auctions.csv` with its tables, into `dir`. Returns their paths.
+export function writeReport(report: SimulationReport, dir: string): string[] {
+  mkdirSync(dir, { recursive: true });
+  const base = path.join(dir, report.scenario.name);
+  const files = [
+    [`${base}.json`, JSON.stringify(report, null, 2) + "\n"],
+    [`${base}-steps.csv`, toCsv(report.steps)],
+    [`${base}-auctions.csv`, toCsv(report.purchases)],
+  ];
+  for (const [file, contents] of files) writeFileSync(file, contents);
+  return files.map(([file]) => file);
+}
+
+function ratio(a: bigint, b: bigint): number {
+  return Number((a * 10000n) / b) / 10000;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,403 @@
+import { parseEther } from "ethers";
+import { readFileSync } from "fs";
+import path from "path";
+import { TOKEN_IDS } from "../ignition/modules/Tokens";
+
+export type TokenId = (typeof TOKEN_IDS)[number];
+
+// USD prices scaled by 1e18, one row per step. Tokens without a column stay
+// at $1.
+export interface PricePath {
+  tokens: TokenId[];
+  rows: Record<TokenId, bigint>[];
+}
+
+// Overrides applied on top of the Ignition defaults. Rates are fractions
+// (0.05 is 5% a year), shares and fees basis points, periods seconds.
+export interface ProtocolConfig {
+  liquidity: Partial<Record<TokenId, bigint>>;
+  interestRate: {
+    baseRate?: bigint;
+    slope1?: bigint;
+    slope2?: bigint;
+    optimalUtilization?: bigint;
+  };
+  closeFactor?: bigint;
+  reserves: Partial<
+    Record<
+      TokenId,
+      {
+        ltv?: bigint;
+        liquidationThreshold?: bigint;
+        liquidationBonus?: bigint;
+        flashLoanFee?: bigint;
+      }
+    >
+  >;
+  auction: {
+    startPremium?: bigint;
+    floor?: bigint;
+    curve?: "linear" | "exponential";
+    decayPeriod?: bigint;
+  };
+  // Stake in the rewards distributor that fees are paid into.
+  stake: bigint;
+}
+
+// An AMM for one pair that arbitrageurs keep in line with the oracle by
+// trading against an exchange quoting oracle prices.
+export interface MarketConfig {
+  base: TokenId;
+  quote: TokenId;
+  depth: bigint; // base tokens in the AMM, matched by quote at the first price
+  spread: bigint; // basis points the exchange charges
+}
+
+export interface BorrowerGroup {
+  label: string;
+  count: number;
+  collateral: TokenId;
+  debt: TokenId;
+  deposit: [number, number]; // collateral tokens, drawn per borrower
+  health: [number, number]; // health factor to borrow down to
+  // Repays `repayShare` of the debt when health falls below this.
+  repayBelow?: number;
+  repayShare: number;
+}
+
+export interface LiquidatorGroup {
+  count: number;
+  // Repay debt directly for collateral, or hand positions to Dutch auctions.
+  mode: "direct" | "auction";
+  minProfit: bigint; // USD
+  inventory: Partial<Record<TokenId, bigint>>;
+}
+
+export interface BidderGroup {
+  count: number;
+  discount: bigint; // basis points below the oracle price to buy at
+  inventory: Partial<Record<TokenId, bigint>>;
+}
+
+export interface ArbitrageurGroup {
+  count: number;
+  minProfit: bigint; // USD
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  seed: number;
+  stepSeconds: number;
+  prices: PricePath;
+  protocol: ProtocolConfig;
+  market?: MarketConfig;
+  borrowers: BorrowerGroup[];
+  liquidators: LiquidatorGroup[];
+  bidders: BidderGroup[];
+  arbitrageurs: ArbitrageurGroup[];
+}
+
+// Reads the price path CSV: a header naming tokens, optionally after a
+// leading `step` column, then one row of USD prices per step.
+export function parsePricePath(csv: string, source = "prices"): PricePath {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (lines.length < 2) {
+    throw new Error(`${source}: expected a header and at least one row`);
+  }
+
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  const skip = header[0] === "step" ? 1 : 0;
+  const tokens = header.slice(skip).map((name) => {
+    if (!TOKEN_IDS.includes(name as TokenId)) {
+      throw new Error(`${source}: unknown token ${name} in the header`);
+    }
+    return name as TokenId;
+  });
+
+  const rows = lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    if (cells.length !== header.length) {
+      throw new Error(
+        `${source}:${i + 2}: expected ${header.length} columns, got ${
+          cells.length
+        }`
+      );
+    }
+    const row = Object.fromEntries(
+      TOKEN_IDS.map((id) => [id, parseEther("1")])
+    ) as Record<TokenId, bigint>;
+    tokens.forEach((token, j) => {
+      const cell = cells[j + skip];
+      if (!/^\d+(\.\d+)?$/.test(cell) || Number(cell) === 0) {
+        throw new Error(`${source}:${i + 2}: invalid ${token} price ${cell}`);
+      }
+      row[token] = parseEther(cell);
+    });
+    return row;
+  });
+  return { tokens, rows };
+}
+
+// Loads a scenario file; the price path it names is resolved relative to
+// it.
+export function loadScenario(file: string): Scenario {
+  const json = JSON.parse(readFileSync(file, "utf8"));
+  const prices = field(json, "prices", "scenario", "string");
+  const pricesFile = path.resolve(path.dirname(file), prices);
+  return parseScenario(
+    json,
+    parsePricePath(readFileSync(pricesFile, "utf8"), prices)
+  );
+}
+
+export function parseScenario(json: unknown, prices: PricePath): Scenario {
+  const at = "scenario";
+  const agents = optional(json, "agents", at, "object") ?? {};
+  const market = optional(json, "market", at, "object");
+  const protocol = optional(json, "protocol", at, "object") ?? {};
+
+  return {
+    name: field(json, "name", at, "string"),
+    description: optional(json, "description", at, "string") ?? "",
+    seed: optional(json, "seed", at, "number") ?? 1,
+    stepSeconds: optional(json, "stepSeconds", at, "number") ?? 3600,
+    prices,
+    protocol: parseProtocol(protocol, `${at}.protocol`),
+    market: market && parseMarket(market, `${at}.market`),
+    borrowers: list(agents, "borrowers", `${at}.agents`, parseBorrowers),
+    liquidators: list(agents, "liquidators", `${at}.agents`, (group, at) => ({
+      count: count(group, at),
+      mode: oneOf(group, "mode", at, ["direct", "auction"]) ?? "direct",
+      minProfit: amount(optional(group, "minProfit", at, "number") ?? 0),
+      inventory: inventory(group, at),
+    })),
+    bidders: list(agents, "bidders", `${at}.agents`, (group, at) => ({
+      count: count(group, at),
+      discount: bps(group, "discount", at) ?? 0n,
+      inventory: inventory(group, at),
+    })),
+    arbitrageurs: list(agents, "arbitrageurs", `${at}.agents`, (group, at) => {
+      if (!market) throw new Error(`${at}: arbitrageurs need a market`);
+      return {
+        count: count(group, at),
+        minProfit: amount(optional(group, "minProfit", at, "number") ?? 1),
+      };
+    }),
+  };
+}
+
+function parseProtocol(json: object, at: string): ProtocolConfig {
+  const rates = optional(json, "interestRate", at, "object") ?? {};
+  const reserves = optional(json, "reserves", at, "object") ?? {};
+  const auction = optional(json, "auction", at, "object") ?? {};
+  const rate = (key: string) => {
+    const value = optional(rates, key, `${at}.interestRate`, "number");
+    return value === undefined ? undefined : amount(value);
+  };
+
+  return {
+    liquidity: tokenAmounts(
+      optional(json, "liquidity", at, "object") ?? {},
+      `${at}.liquidity`
+    ),
+    interestRate: {
+      baseRate: rate("baseRate"),
+      slope1: rate("slope1"),
+      slope2: rate("slope2"),
+      optimalUtilization: rate("optimalUtilization"),
+    },
+    closeFactor: bps(json, "closeFactor", at),
+    reserves: Object.fromEntries(
+      Object.entries(reserves as Record<string, object>).map(([id, config]) => {
+        const here = `${at}.reserves.${id}`;
+        return [
+          token(id, here),
+          {
+            ltv: bps(config, "ltv", here),
+            liquidationThreshold: bps(config, "liquidationThreshold", here),
+            liquidationBonus: bps(config, "liquidationBonus", here),
+            flashLoanFee: bps(config, "flashLoanFee", here),
+          },
+        ];
+      })
+    ),
+    auction: {
+      startPremium: bps(auction, "startPremium", `${at}.auction`),
+      floor: bps(auction, "floor", `${at}.auction`),
+      curve: oneOf(auction, "curve", `${at}.auction`, [
+        "linear",
+        "exponential",
+      ]),
+      decayPeriod: seconds(auction, "decayPeriod", `${at}.auction`),
+    },
+    stake: amount(optional(json, "stake", at, "number") ?? 1000),
+  };
+}
+
+function parseMarket(json: object, at: string): MarketConfig {
+  return {
+    base: token(field(json, "base", at, "string"), `${at}.base`),
+    quote: token(field(json, "quote", at, "string"), `${at}.quote`),
+    depth: amount(field(json, "depth", at, "number")),
+    spread: bps(json, "spread", at) ?? 10n,
+  };
+}
+
+function parseBorrowers(group: object, at: string): BorrowerGroup {
+  const collateral = token(
+    field(group, "collateral", at, "string"),
+    `${at}.collateral`
+  );
+  const debt = token(field(group, "debt", at, "string"), `${at}.debt`);
+  const health = range(group, "health", at);
+  if (health[0] < 1) throw new Error(`${at}.health: must be at least 1`);
+  return {
+    label: optional(group, "label", at, "string") ?? `${collateral}/${debt}`,
+    count: count(group, at),
+    collateral,
+    debt,
+    deposit: range(group, "deposit", at),
+    health,
+    repayBelow: optional(group, "repayBelow", at, "number"),
+    repayShare: optional(group, "repayShare", at, "number") ?? 0.5,
+  };
+}
+
+type Kind = "string" | "number" | "object";
+type KindOf<K extends Kind> = K extends "string"
+  ? string
+  : K extends "number"
+  ? number
+  : Record<string, unknown>;
+
+function optional<K extends Kind>(
+  json: unknown,
+  key: string,
+  at: string,
+  kind: K
+): KindOf<K> | undefined {
+  const value = (json as Record<string, unknown>)[key];
+  if (value === undefined) return undefined;
+  const actual = Array.isArray(value) ? "array" : typeof value;
+  if (actual !== kind || value === null) {
+    throw new Error(`${at}.${key}: expected a ${kind}, got ${actual}`);
+  }
+  return value as KindOf<K>;
+}
+
+function field<K extends Kind>(
+  json: unknown,
+  key: string,
+  at: string,
+  kind: K
+): KindOf<K> {
+  const value = optional(json, key, at, kind);
+  if (value === undefined) throw new Error(`${at}.${key}: missing`);
+  return value;
+}
+
+function list<T>(
+  json: object,
+  key: string,
+  at: string,
+  parse: (group: object, at: string) => T
+): T[] {
+  const value = (json as Record<string, unknown>)[key] ?? [];
+  if (!Array.isArray(value)) throw new Error(`${at}.${key}: expected a list`);
+  return value.map((group, i) => parse(group, `${at}.${key}[${i}]`));
+}
+
+function oneOf<T extends string>(
+  json: object,
+  key: string,
+  at: string,
+  values: T[]
+): T | undefined {
+  const value = optional(json, key, at, "string");
+  if (value !== undefined && !values.includes(value as T)) {
+    throw new Error(`${at}.${key}: expected one of ${values.join(", ")}`);
+  }
+  return value as T | undefined;
+}
+
+function token(id: string, at: string): TokenId {
+  if (!TOKEN_IDS.includes(id as TokenId)) {
+    throw new Error(`${at}: unknown token ${id}`);
+  }
+  return id as TokenId;
+}
+
+function count(json: object, at: string): number {
+  const value = field(json, "count", at, "number");
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${at}.count: expected a whole number`);
+  }
+  return value;
+}
+
+function range(json: object, key: string, at: string): [number, number] {
+  const value = (json as Record<string, unknown>)[key];
+  const [min, max] =
+    typeof value === "number"
+      ? [value, value]
+      : Array.isArray(value) && value.length === 2
+      ? value
+      : [];
+  if (typeof min !== "number" || typeof max !== "number" || min > max) {
+    throw new Error(`${at}.${key}: expected a number or [min, max]`);
+  }
+  return [min, max];
+}
+
+function bps(json: object, key: string, at: string): bigint | undefined {
+  const value = optional(json, key, at, "number");
+  if (value === undefined) return undefined;
+  if (!Number.isInteger(value) || value < 0 || value > 10000) {
+    throw new Error(`${at}.${key}: expected basis points`);
+  }
+  return BigInt(value);
+}
+
+function seconds(json: object, key: string, at: string): bigint | undefined {
+  const value = optional(json, key, at, "number");
+  if (value === undefined) return undefined;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${at}.${key}: expected a number of seconds`);
+  }
+  return BigInt(value);
+}
+
+function tokenAmounts(
+  json: object,
+  at: string
+): Partial<Record<TokenId, bigint>> {
+  return Object.fromEntries(
+    Object.entries(json).map(([id, value]) => {
+      if (typeof value !== "number" || value < 0) {
+        throw new Error(`${at}.${id}: expected an amount`);
+      }
+      return [token(id, `${at}.${id}`), amount(value)];
+    })
+  );
+}
+
+// Liquidators and bidders hold a million of every token unless told
+// otherwise.
+function inventory(json: object, at: string) {
+  const value = optional(json, "inventory", at, "object");
+  return value
+    ? tokenAmounts(value, `${at}.inventory`)
+    : Object.fromEntries(TOKEN_IDS.map((id) => [id, amount(1_000_000)]));
+}
+
+// Whole tokens or USD, to 18 decimals.
+function amount(value: number): bigint {
+  const text = String(value);
+  return parseEther(
+    text.includes("e") ? value.toFixed(18).replace(/\.?0+$/, "") : text
+  );
+}
@@ -0,0 +1,521 @@
+import { dataSlice, getAddress, id, parseEther } from "ethers";
+import type { Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import { TOKEN_IDS } from "../ignition/modules/Tokens";
+import { Store, Indexer } from "../indexer";
+import { Keeper } from "../keeper";
+import { LendingClient, decodeError } from "../sdk";
+import type {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+  MockAggregator,
+  MockAmm,
+  MockExchange,
+  PriceOracle,
+  RewardsDistributor,
+  Token,
+} from "../typechain-types";
+import { Agent, Arbitrageur, Bidder, Borrower, Liquidator } from "./agents";
+import { Scenario, TokenId } from "./scenario";
+
+const WAD = 10n ** 18n;
+const FEED_DECIMALS = 8n;
+const REWARDS_DURATION = 7 * 24 * 60 * 60;
+
+// The pool's state at the end of a step. Values are USD scaled by 1e18.
+export interface StepRecord {
+  step: number;
+  timestamp: number;
+  toBlock: number; // last block of the step
+  prices: Record<TokenId, bigint>;
+  ammPrice?: bigint; // quote per base, scaled by 1e18
+  // Borrowers below a health factor of 1 once prices moved, before anyone
+  // acted on it.
+  underwater: string[];
+  collateralValue: bigint;
+  debtValue: bigint;
+  // Debt no longer covered by collateral, summed over borrowers.
+  shortfall: bigint;
+  failures: { agent: string; reason: string }[];
+}
+
+export interface SimulationResult {
+  scenario: Scenario;
+  tokens: Record<TokenId, string>;
+  borrowers: string[];
+  steps: StepRecord[];
+  // Every pool, loan and auction event of the run.
+  store: Store;
+  // Per token at the end of the run.
+  totalBorrows: Record<TokenId, bigint>;
+  fees: Record<
+    TokenId,
+    {
+      reserve: bigint;
+      liquidatorIncentive: bigint;
+      stakers: bigint;
+      earned: bigint; // streamed to stakers so far
+    }
+  >;
+}
+
+interface Deployment {
+  lendingPool: LendingPool;
+  loanManager: LoanManager;
+  auctionManager: AuctionManager;
+  priceOracle: PriceOracle;
+  distributor: RewardsDistributor;
+  tokens: Record<TokenId, Token>;
+  feeds: Record<TokenId, MockAggregator>;
+  amm?: MockAmm;
+  exchange?: MockExchange;
+  staker: string;
+  fromBlock: number;
+}
+
+// Deploys the protocol for a scenario on the connected Hardhat network and
+// replays its price path, one step per row. Every agent acts once per step,
+// in order: borrowers, arbitrageurs, liquidators, then bidders.
+export class Simulation {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    readonly scenario: Scenario,
+    private readonly deployment: Deployment,
+    private readonly borrowers: Borrower[],
+    private readonly agents: Agent[]
+  ) {}
+
+  static async create(
+    hre: HardhatRuntimeEnvironment,
+    scenario: Scenario
+  ): Promise<Simulation> {
+    const { ethers } = hre;
+    const deployment = await deploy(hre, scenario);
+    const { lendingPool, auctionManager, priceOracle, tokens, amm, exchange } =
+      deployment;
+    const address = (token: TokenId) => tokens[token].getAddress();
+    const random = mulberry32(scenario.seed);
+    const draw = ([min, max]: [number, number]) =>
+      Number((min + random() * (max - min)).toFixed(4));
+
+    const borrowers = [];
+    for (const [g, group] of scenario.borrowers.entries()) {
+      for (let i = 0; i < group.count; i++) {
+        const name = `${group.label} borrower ${g}.${i}`;
+        const signer = await agentSigner(hre, name);
+        const deposit = parseEther(String(draw(group.deposit)));
+        await tokens[group.collateral].mint(signer, deposit);
+        borrowers.push(
+          new Borrower(
+            name,
+            await LendingClient.connect(lendingPool, signer),
+            group,
+            await address(group.collateral),
+            await address(group.debt),
+            deposit,
+            draw(group.health)
+          )
+        );
+      }
+    }
+
+    const stock = async (
+      signer: Signer,
+      inventory: Partial<Record<TokenId, bigint>>,
+      spender: string
+    ) => {
+      for (const [token, amount] of Object.entries(inventory)) {
+        const contract = tokens[token as TokenId].connect(signer);
+        await contract.mint(signer, amount);
+        await contract.approve(spender, ethers.MaxUint256);
+      }
+    };
+    const keeperOptions = { fromBlock: deployment.fromBlock };
+
+    const arbitrageurs = [];
+    for (const [g, group] of scenario.arbitrageurs.entries()) {
+      const market = scenario.market!;
+      for (let i = 0; i < group.count; i++) {
+        const name = `arbitrageur ${g}.${i}`;
+        const signer = await agentSigner(hre, name);
+        const contract = await ethers.deployContract(
+          "FlashArbitrageur",
+          [lendingPool, amm!, exchange!],
+          signer
+        );
+        arbitrageurs.push(
+          new Arbitrageur(
+            name,
+            contract,
+            amm!,
+            lendingPool,
+            priceOracle,
+            await address(market.base),
+            await address(market.quote),
+            group.minProfit
+          )
+        );
+      }
+    }
+
+    const liquidators = [];
+    for (const [g, group] of scenario.liquidators.entries()) {
+      for (let i = 0; i < group.count; i++) {
+        const name = `${group.mode} liquidator ${g}.${i}`;
+        const signer = await agentSigner(hre, name);
+        await stock(signer, group.inventory, await lendingPool.getAddress());
+        liquidators.push(
+          new Liquidator(
+            name,
+            await Keeper.create(lendingPool, signer, {
+              ...keeperOptions,
+              minProfit: group.minProfit,
+            }),
+            lendingPool.connect(signer),
+            group.mode
+          )
+        );
+      }
+    }
+
+    const bidders = [];
+    for (const [g, group] of scenario.bidders.entries()) {
+      for (let i = 0; i < group.count; i++) {
+        const name = `bidder ${g}.${i}`;
+        const signer = await agentSigner(hre, name);
+        await stock(signer, group.inventory, await auctionManager.getAddress());
+        bidders.push(
+          new Bidder(
+            name,
+            await Keeper.create(lendingPool, signer, keeperOptions),
+            auctionManager.connect(signer),
+            priceOracle,
+            group.discount
+          )
+        );
+      }
+    }
+
+    return new Simulation(hre, scenario, deployment, borrowers, [
+      ...borrowers,
+      ...arbitrageurs,
+      ...liquidators,
+      ...bidders,
+    ]);
+  }
+
+  // Replays every step, then indexes the run's events. `onStep` sees each
+  // step as it completes.
+  async run(
+    onStep: (record: StepRecord) => void | Promise<void> = () => {}
+  ): Promise<SimulationResult> {
+    const { lendingPool, loanManager, distributor, tokens, staker } =
+      this.deployment;
+    const steps = [];
+    for (const [step, prices] of this.scenario.prices.rows.entries()) {
+      const record = await this.step(step, prices);
+      steps.push(record);
+      await onStep(record);
+    }
+
+    const store = await Store.open();
+    const indexer = await Indexer.create(lendingPool, store, {
+      fromBlock: this.deployment.fromBlock,
+    });
+    await indexer.sync();
+
+    const totalBorrows = {} as SimulationResult["totalBorrows"];
+    const fees = {} as SimulationResult["fees"];
+    for (const id of TOKEN_IDS) {
+      totalBorrows[id] = await loanManager.getTotalBorrows(tokens[id]);
+      const breakdown = await distributor.getFeeBreakdown(tokens[id]);
+      fees[id] = {
+        reserve: breakdown.reserve,
+        liquidatorIncentive: breakdown.liquidatorIncentive,
+        stakers: breakdown.stakers,
+        earned: await distributor.earned(staker, tokens[id]),
+      };
+    }
+
+    return {
+      scenario: this.scenario,
+      tokens: Object.fromEntries(
+        await Promise.all(
+          TOKEN_IDS.map(async (id) => [id, await tokens[id].getAddress()])
+        )
+      ),
+      borrowers: await Promise.all(
+        this.borrowers.map((borrower) => borrower.client.signer.getAddress())
+      ),
+      steps,
+      store,
+      totalBorrows,
+      fees,
+    };
+  }
+
+  private async step(
+    step: number,
+    prices: Record<TokenId, bigint>
+  ): Promise<StepRecord> {
+    const { ethers, network } = this.hre;
+    const { lendingPool, feeds, amm } = this.deployment;
+
+    if (step > 0) {
+      await network.provider.send("evm_increaseTime", [
+        this.scenario.stepSeconds,
+      ]);
+      await network.provider.send("evm_mine", []);
+    }
+    // Every feed gets a fresh round so none goes stale between steps.
+    for (const id of TOKEN_IDS) {
+      await feeds[id].updateAnswer(prices[id] / 10n ** (18n - FEED_DECIMALS));
+    }
+
+    const addresses = await Promise.all(
+      this.borrowers.map((borrower) => borrower.client.signer.getAddress())
+    );
+    const underwater = [];
+    for (const user of addresses) {
+      const { healthFactor } = await lendingPool.getAccountData(user);
+      if (healthFactor < WAD) underwater.push(user);
+    }
+
+    const failures = [];
+    for (const agent of this.agents) {
+      let reasons: string[];
+      try {
+        reasons = await agent.act(step);
+      } catch (error) {
+        reasons = [decodeError(error).message];
+      }
+      failures.push(
+        ...reasons.map((reason) => ({ agent: agent.name, reason }))
+      );
+    }
+
+    let collateralValue = 0n;
+    let debtValue = 0n;
+    let shortfall = 0n;
+    for (const user of addresses) {
+      const account = await lendingPool.getAccountData(user);
+      collateralValue += account.totalCollateralValue;
+      debtValue += account.totalDebtValue;
+      if (account.totalDebtValue > account.totalCollateralValue) {
+        shortfall += account.totalDebtValue - account.totalCollateralValue;
+      }
+    }
+
+    const block = (await ethers.provider.getBlock("latest"))!;
+    return {
+      step,
+      timestamp: block.timestamp,
+      toBlock: block.number,
+      prices,
+      ammPrice: amm && (await amm.price()),
+      underwater,
+      collateralValue,
+      debtValue,
+      shortfall,
+      failures,
+    };
+  }
+}
+
+async function deploy(
+  hre: HardhatRuntimeEnvironment,
+  scenario: Scenario
+): Promise<Deployment> {
+  const { ethers, ignition } = hre;
+  const { protocol, market } = scenario;
+  const [first] = scenario.prices.rows;
+  const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+  const liquidity: Record<TokenId, bigint> = {
+    WETH: parseEther("100"),
+    DAI: parseEther("100000"),
+    LINK: parseEther("10000"),
+    ...protocol.liquidity,
+  };
+  const rates = {
+    BaseRate: protocol.interestRate.baseRate,
+    Slope1: protocol.interestRate.slope1,
+    Slope2: protocol.interestRate.slope2,
+    OptimalUtilization: protocol.interestRate.optimalUtilization,
+  };
+  const pool: Record<string, bigint> = {};
+  for (const [key, value] of Object.entries(rates)) {
+    if (value !== undefined) pool[key] = value;
+  }
+  for (const id of TOKEN_IDS) {
+    pool[`${id}Liquidity`] = liquidity[id];
+    const bonus = protocol.reserves[id]?.liquidationBonus;
+    if (bonus !== undefined) pool[`${id}LiquidationBonus`] = bonus;
+  }
+  const oracle: Record<string, number | bigint> = {
+    Heartbeat: scenario.stepSeconds + 3600,
+  };
+  for (const id of TOKEN_IDS) {
+    oracle[`${id}Price`] = first[id] / 10n ** (18n - FEED_DECIMALS);
+  }
+
+  const deployment = await ignition.deploy(LendingPoolModule, {
+    parameters: { PriceOracleModule: oracle, LendingPoolModule: pool },
+  });
+  const lendingPool = await ethers.getContractAt(
+    "LendingPool",
+    deployment.lendingPool.target
+  );
+  const priceOracle = await ethers.getContractAt(
+    "PriceOracle",
+    deployment.priceOracle.target
+  );
+  const reserveRegistry = await ethers.getContractAt(
+    "ReserveRegistry",
+    deployment.reserveRegistry.target
+  );
+  const tokens = {} as Record<TokenId, Token>;
+  const feeds = {} as Record<TokenId, MockAggregator>;
+  for (const id of TOKEN_IDS) {
+    tokens[id] = await ethers.getContractAt("Token", deployment[id].target);
+    feeds[id] = await ethers.getContractAt(
+      "MockAggregator",
+      (
+        await priceOracle.feeds(tokens[id])
+      ).aggregator
+    );
+  }
+
+  for (const [id, overrides] of Object.entries(protocol.reserves)) {
+    const { ltv, liquidationThreshold, flashLoanFee } = overrides;
+    if (
+      ltv === undefined &&
+      liquidationThreshold === undefined &&
+      flashLoanFee === undefined
+    ) {
+      continue;
+    }
+    const token = tokens[id as TokenId];
+    const config = await reserveRegistry.getReserveConfig(token);
+    await lendingPool.setReserveConfig(token, {
+      borrowingEnabled: config.borrowingEnabled,
+      collateralEnabled: config.collateralEnabled,
+      liquidationBonus: config.liquidationBonus,
+      supplyCap: config.supplyCap,
+      borrowCap: config.borrowCap,
+      frozen: config.frozen,
+      paused: config.paused,
+      ltv: ltv ?? config.ltv,
+      liquidationThreshold: liquidationThreshold ?? config.liquidationThreshold,
+      flashLoanFee: flashLoanFee ?? config.flashLoanFee,
+    });
+  }
+  if (protocol.closeFactor !== undefined) {
+    await lendingPool.setCloseFactor(protocol.closeFactor);
+  }
+  const auctionManager = await ethers.getContractAt(
+    "AuctionManager",
+    deployment.auctionManager.target
+  );
+  const { auction } = protocol;
+  if (Object.values(auction).some((value) => value !== undefined)) {
+    const config = await auctionManager.dutchAuctionConfig();
+    await lendingPool.setDutchAuctionConfig({
+      startPremium: auction.startPremium ?? config.startPremium,
+      floor: auction.floor ?? config.floor,
+      curve:
+        auction.curve === undefined
+          ? config.curve
+          : auction.curve === "linear"
+          ? 0
+          : 1,
+      decayPeriod: auction.decayPeriod ?? config.decayPeriod,
+    });
+  }
+
+  // Fees go to a distributor with one staker, so reward accrual shows up.
+  const protocolToken = await ethers.deployContract("Token", [
+    "Protocol Token",
+    "PRT",
+  ]);
+  const distributor = await ethers.deployContract("RewardsDistributor", [
+    protocolToken,
+    lendingPool,
+    REWARDS_DURATION,
+  ]);
+  await lendingPool.setRewardsDistributor(distributor);
+  const staker = await agentSigner(hre, "staker");
+  await protocolToken.mint(staker, protocol.stake);
+  await protocolToken.connect(staker).approve(distributor, ethers.MaxUint256);
+  await distributor.connect(staker).stake(protocol.stake);
+
+  // The exchange holds a hundred times the AMM's depth, so arbitrage is
+  // limited by the AMM and the pool's liquidity rather than by it.
+  let amm: MockAmm | undefined;
+  let exchange: MockExchange | undefined;
+  if (market) {
+    const [deployer] = await ethers.getSigners();
+    const base = tokens[market.base];
+    const quote = tokens[market.quote];
+    amm = await ethers.deployContract("MockAmm", [base, quote]);
+    const quoteDepth =
+      (market.depth * first[market.base]) / first[market.quote];
+    await base.mint(deployer, market.depth);
+    await quote.mint(deployer, quoteDepth);
+    await base.approve(amm, market.depth);
+    await quote.approve(amm, quoteDepth);
+    await amm.addLiquidity(market.depth, quoteDepth);
+
+    exchange = await ethers.deployContract("MockExchange", [
+      priceOracle,
+      market.spread,
+    ]);
+    await base.mint(exchange, market.depth * 100n);
+    await quote.mint(exchange, quoteDepth * 100n);
+  }
+
+  return {
+    lendingPool,
+    loanManager: await ethers.getContractAt(
+      "LoanManager",
+      deployment.loanManager.target
+    ),
+    auctionManager,
+    priceOracle,
+    distributor,
+    tokens,
+    feeds,
+    amm,
+    exchange,
+    staker: await staker.getAddress(),
+    fromBlock,
+  };
+}
+
+// Agents trade from fixed addresses derived from their names, impersonated
+// on the Hardhat network, so runs are reproducible.
+async function agentSigner(
+  hre: HardhatRuntimeEnvironment,
+  name: string
+): Promise<Signer> {
+  const address = getAddress(dataSlice(id(`simulator:${name}`), 12));
+  await hre.network.provider.send("hardhat_setBalance", [
+    address,
+    "0x3635c9adc5dea00000", // 1000 ETH
+  ]);
+  return hre.ethers.getImpersonatedSigner(address);
+}
+
+// Small seeded generator for drawing agent parameters.
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
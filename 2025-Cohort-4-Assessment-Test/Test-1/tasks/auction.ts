@@ -0,0 +1,147 @@
+import { types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  CommonArgs,
+  PLUGIN_NAME,
+  Row,
+  Tables,
+  TokenInfo,
+  formatAmount,
+  getTokenInfo,
+  lendingTask,
+  loadDeployment,
+  printTables,
+} from "./helpers";
+
+// Auction prices are in raw debt token units per raw collateral unit, scaled
+// by 1e18; this shows debt tokens per whole collateral token.
+function formatPrice(
+  hre: HardhatRuntimeEnvironment,
+  price: bigint,
+  collateral: TokenInfo,
+  debt: TokenInfo
+): string {
+  return hre.ethers.formatUnits(
+    (price * 10n ** BigInt(collateral.decimals)) / 10n ** 18n,
+    debt.decimals
+  );
+}
+
+lendingTask("auction:list", "Lists the Dutch auctions of liquidated collateral")
+  .addFlag("all", "Include closed auctions")
+  .setAction(
+    async ({ all, deploymentId, json }: CommonArgs & { all: boolean }, hre) => {
+      const { auctionManager } = await loadDeployment(hre, deploymentId);
+
+      const auctions: Row[] = [];
+      const count = await auctionManager.dutchAuctionCount();
+      for (let id = 0n; id < count; id++) {
+        const auction = await auctionManager.dutchAuctions(id);
+        const active = auction.collateralRemaining > 0n;
+        if (!active && !all) continue;
+
+        const collateral = await getTokenInfo(hre, auction.collateralToken);
+        const debt = await getTokenInfo(hre, auction.debtToken);
+        auctions.push({
+          id: id.toString(),
+          user: auction.user,
+          collateral: collateral.symbol,
+          lot: formatAmount(hre, auction.collateralRemaining, collateral),
+          debt: debt.symbol,
+          debtRemaining: formatAmount(hre, auction.debtRemaining, debt),
+          price: active
+            ? formatPrice(
+                hre,
+                await auctionManager.getDutchAuctionPrice(id),
+                collateral,
+                debt
+              )
+            : "-",
+          status: active ? "active" : "closed",
+        });
+      }
+
+      const tables: Tables = { Auctions: auctions };
+      printTables(tables, json);
+      return tables;
+    }
+  );
+
+lendingTask(
+  "auction:settle",
+  "Buys out what is left of a Dutch auction at its current price"
+)
+  .addPositionalParam("auctionId", "Auction to settle", undefined, types.int)
+  .addOptionalParam(
+    "maxPrice",
+    "Highest price to pay, in debt tokens per collateral token (default: the current price)"
+  )
+  .setAction(
+    async (
+      {
+        auctionId,
+        maxPrice,
+        deploymentId,
+        json,
+      }: CommonArgs & { auctionId: number; maxPrice?: string },
+      hre
+    ) => {
+      const { auctionManager } = await loadDeployment(hre, deploymentId);
+      const [signer] = await hre.ethers.getSigners();
+
+      const auction = await auctionManager.dutchAuctions(auctionId);
+      if (auction.collateralRemaining === 0n) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `Auction ${auctionId} is not active`
+        );
+      }
+      const collateral = await getTokenInfo(hre, auction.collateralToken);
+      const debt = await getTokenInfo(hre, auction.debtToken);
+
+      const limit =
+        maxPrice === undefined
+          ? await auctionManager.getDutchAuctionPrice(auctionId)
+          : (hre.ethers.parseUnits(maxPrice, debt.decimals) * 10n ** 18n) /
+            10n ** BigInt(collateral.decimals);
+      // The cost never exceeds the remaining debt or the lot at `limit`.
+      const lotCost =
+        (auction.collateralRemaining * limit + 10n ** 18n - 1n) / 10n ** 18n;
+      const allowance =
+        lotCost < auction.debtRemaining ? lotCost : auction.debtRemaining;
+
+      const debtToken = await hre.ethers.getContractAt(
+        "IERC20",
+        auction.debtToken
+      );
+      await (await debtToken.approve(auctionManager.target, allowance)).wait();
+      const receipt = await (
+        await auctionManager.buy(auctionId, auction.collateralRemaining, limit)
+      ).wait();
+
+      const purchase = receipt!.logs
+        .map((log) => auctionManager.interface.parseLog(log))
+        .find((event) => event?.name === "DutchAuctionPurchase")!;
+      const after = await auctionManager.dutchAuctions(auctionId);
+
+      const tables: Tables = {
+        Settlement: [
+          {
+            id: auctionId.toString(),
+            buyer: signer.address,
+            bought: `${formatAmount(hre, purchase.args.amount, collateral)} ${
+              collateral.symbol
+            }`,
+            paid: `${formatAmount(hre, purchase.args.cost, debt)} ${
+              debt.symbol
+            }`,
+            debtRemaining: formatAmount(hre, after.debtRemaining, debt),
+            status: after.collateralRemaining > 0n ? "active" : "closed",
+          },
+        ],
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
@@ -0,0 +1,201 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+  PriceOracle,
+  ReserveRegistry,
+} from "../typechain-types";
+
+export const PLUGIN_NAME = "lending-pool-tasks";
+
+// Ignition names deployed contracts `<module>#<id>`.
+const LENDING_POOL_KEY = "LendingPoolModule#LendingPool";
+
+export interface Deployment {
+  lendingPool: LendingPool;
+  loanManager: LoanManager;
+  auctionManager: AuctionManager;
+  reserveRegistry: ReserveRegistry;
+  priceOracle: PriceOracle;
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export type Row = Record<string, string>;
+// Each task returns named tables, printed one after another or as one JSON
+// object with `--json`.
+export type Tables = Record<string, Row[]>;
+
+export interface CommonArgs {
+  deploymentId?: string;
+  json: boolean;
+}
+
+// Declares a task that reads the Ignition deployment and can print JSON.
+export function lendingTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam(
+      "deploymentId",
+      "Ignition deployment to read addresses from (default: chain-<chainId>)"
+    )
+    .addFlag("json", "Print JSON instead of tables");
+}
+
+// `ignition/deployments/<id>`, where Ignition keeps a deployment's
+// artifacts.
+export async function getDeploymentDir(
+  hre: HardhatRuntimeEnvironment,
+  deploymentId?: string
+): Promise<string> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return path.join(
+    hre.config.paths.ignition,
+    "deployments",
+    deploymentId ?? `chain-${chainId}`
+  );
+}
+
+// Loads the pool from `ignition/deployments/<id>/deployed_addresses.json`.
+// Everything else is looked up through the pool, so contracts it was
+// pointed at after deployment are picked up too.
+export async function loadDeployment(
+  hre: HardhatRuntimeEnvironment,
+  deploymentId?: string
+): Promise<Deployment> {
+  const dir = await getDeploymentDir(hre, deploymentId);
+  const id = path.basename(dir);
+  const file = path.join(dir, "deployed_addresses.json");
+  if (!existsSync(file)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No Ignition deployment found at ${file}`
+    );
+  }
+  const addresses: Record<string, string> = JSON.parse(
+    readFileSync(file, "utf8")
+  );
+  if (!addresses[LENDING_POOL_KEY]) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Deployment ${id} has no ${LENDING_POOL_KEY}`
+    );
+  }
+
+  const { ethers } = hre;
+  const lendingPool = await ethers.getContractAt(
+    "LendingPool",
+    addresses[LENDING_POOL_KEY]
+  );
+  return {
+    lendingPool,
+    loanManager: await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    ),
+    auctionManager: await ethers.getContractAt(
+      "AuctionManager",
+      await lendingPool.auctionManager()
+    ),
+    reserveRegistry: await ethers.getContractAt(
+      "ReserveRegistry",
+      await lendingPool.reserveRegistry()
+    ),
+    priceOracle: await ethers.getContractAt(
+      "PriceOracle",
+      await lendingPool.priceOracle()
+    ),
+  };
+}
+
+export async function getTokenInfo(
+  hre: HardhatRuntimeEnvironment,
+  address: string
+): Promise<TokenInfo> {
+  const token = await hre.ethers.getContractAt("IERC20Metadata", address);
+  return {
+    address: hre.ethers.getAddress(address),
+    symbol: await token.symbol(),
+    decimals: Number(await token.decimals()),
+  };
+}
+
+// Accepts a token address, or the symbol of one of the pool's reserves.
+export async function resolveToken(
+  hre: HardhatRuntimeEnvironment,
+  lendingPool: LendingPool,
+  token: string
+): Promise<TokenInfo> {
+  const symbol = token.toLowerCase();
+  if (hre.ethers.isAddress(token)) return getTokenInfo(hre, token);
+
+  for (const address of await lendingPool.getWhitelistedTokens()) {
+    const info = await getTokenInfo(hre, address);
+    if (info.symbol.toLowerCase() === symbol) return info;
+  }
+  throw new HardhatPluginError(
+    PLUGIN_NAME,
+    `${token} is neither an address nor the symbol of a listed reserve`
+  );
+}
+
+export function formatAmount(
+  hre: HardhatRuntimeEnvironment,
+  amount: bigint,
+  token: TokenInfo
+): string {
+  return hre.ethers.formatUnits(amount, token.decimals);
+}
+
+// Values from the oracle and the pool are in USD scaled by 1e18.
+export function formatUsd(hre: HardhatRuntimeEnvironment, value: bigint) {
+  return hre.ethers.formatEther(value);
+}
+
+export function formatBps(bps: bigint): string {
+  return `${Number(bps) / 100}%`;
+}
+
+export function formatHealthFactor(
+  hre: HardhatRuntimeEnvironment,
+  healthFactor: bigint
+): string {
+  return healthFactor === hre.ethers.MaxUint256
+    ? "∞"
+    : hre.ethers.formatEther(healthFactor);
+}
+
+export function printTables(tables: Tables, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(tables, null, 2));
+    return;
+  }
+
+  for (const [title, rows] of Object.entries(tables)) {
+    console.log(`${title}:`);
+    if (rows.length === 0) {
+      console.log("  (none)\n");
+      continue;
+    }
+    const columns = Object.keys(rows[0]);
+    const widths = columns.map((column) =>
+      Math.max(column.length, ...rows.map((row) => row[column].length))
+    );
+    const line = (cells: string[]) =>
+      "  " + cells.map((cell, i) => cell.padEnd(widths[i])).join("  ");
+    console.log(line(columns));
+    console.log(line(widths.map((width) => "-".repeat(width))));
+    for (const row of rows) {
+      console.log(line(columns.map((column) => row[column])));
+    }
+    console.log("");
+  }
+}
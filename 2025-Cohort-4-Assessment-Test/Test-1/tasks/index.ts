@@ -0,0 +1,6 @@
+import "./auction";
+import "./indexer";
+import "./keeper";
+import "./pool";
+import "./rewards";
+import "./simulator";
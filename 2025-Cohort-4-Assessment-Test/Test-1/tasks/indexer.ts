@@ -0,0 +1,80 @@
+import { types } from "hardhat/config";
+import type { SyncReport } from "../indexer";
+import {
+  CommonArgs,
+  lendingTask,
+  loadDeployment,
+  printTables,
+} from "./helpers";
+
+lendingTask(
+  "indexer:run",
+  "Indexes the pool's events into SQLite and serves them over HTTP"
+)
+  .addOptionalParam("db", "SQLite file to index into", "indexer.sqlite")
+  .addOptionalParam("port", "Port to serve the JSON API on", 4000, types.int)
+  .addOptionalParam("interval", "Milliseconds between syncs", 5000, types.int)
+  .addOptionalParam(
+    "fromBlock",
+    "Block to start indexing from when the database is empty",
+    0,
+    types.int
+  )
+  .addFlag("once", "Sync once and exit without serving")
+  .setAction(
+    async (
+      {
+        db,
+        port,
+        interval,
+        fromBlock,
+        once,
+        deploymentId,
+        json,
+      }: CommonArgs & {
+        db: string;
+        port: number;
+        interval: number;
+        fromBlock: number;
+        once: boolean;
+      },
+      hre
+    ) => {
+      // Loaded lazily: the indexer needs the generated contract types, which
+      // do not exist until the first compile.
+      const { Indexer, Store, createApiServer } = await import("../indexer");
+      const { lendingPool } = await loadDeployment(hre, deploymentId);
+      const store = await Store.open(db);
+      const indexer = await Indexer.create(lendingPool, store, { fromBlock });
+      const report = (sync: SyncReport) =>
+        printTables(
+          {
+            Sync: [
+              {
+                fromBlock: sync.fromBlock.toString(),
+                toBlock: sync.toBlock.toString(),
+                events: sync.events.toString(),
+                reorgDepth: sync.reorgDepth.toString(),
+              },
+            ],
+          },
+          json
+        );
+
+      if (once) {
+        report(await indexer.sync());
+        store.close();
+        return;
+      }
+
+      const server = createApiServer(store);
+      await new Promise<void>((resolve) => server.listen(port, resolve));
+      console.log(`Serving http://localhost:${port}`);
+
+      const controller = new AbortController();
+      process.once("SIGINT", () => controller.abort());
+      await indexer.run(interval, controller.signal, report);
+      server.close();
+      store.close();
+    }
+  );
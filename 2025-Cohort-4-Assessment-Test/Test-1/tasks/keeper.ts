@@ -0,0 +1,115 @@
+import { types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { KeeperReport } from "../keeper";
+import {
+  CommonArgs,
+  Tables,
+  formatAmount,
+  formatHealthFactor,
+  formatUsd,
+  getTokenInfo,
+  lendingTask,
+  loadDeployment,
+  printTables,
+} from "./helpers";
+
+async function reportTables(
+  hre: HardhatRuntimeEnvironment,
+  report: KeeperReport
+): Promise<Tables> {
+  const liquidations = [];
+  for (const { target, status, txHash, reason } of report.liquidations) {
+    const collateral = await getTokenInfo(hre, target.collateralToken);
+    const debt = await getTokenInfo(hre, target.debtToken);
+    liquidations.push({
+      user: target.user,
+      healthFactor: formatHealthFactor(hre, target.healthFactor),
+      repay: `${formatAmount(hre, target.repayAmount, debt)} ${debt.symbol}`,
+      seize: `${formatAmount(hre, target.collateralSeized, collateral)} ${
+        collateral.symbol
+      }`,
+      profitUsd: formatUsd(hre, target.profit),
+      status,
+      detail: txHash ?? reason ?? "",
+    });
+  }
+
+  const purchases = [];
+  for (const { target, status, txHash, reason } of report.purchases) {
+    const collateral = await getTokenInfo(hre, target.collateralToken);
+    const debt = await getTokenInfo(hre, target.debtToken);
+    purchases.push({
+      auctionId: target.auctionId.toString(),
+      buy: `${formatAmount(hre, target.amount, collateral)} ${
+        collateral.symbol
+      }`,
+      pay: `${formatAmount(hre, target.cost, debt)} ${debt.symbol}`,
+      profitUsd: formatUsd(hre, target.profit),
+      status,
+      detail: txHash ?? reason ?? "",
+    });
+  }
+  return { Liquidations: liquidations, Purchases: purchases };
+}
+
+lendingTask(
+  "keeper:run",
+  "Liquidates underwater accounts, most profitable first"
+)
+  .addFlag("dryRun", "Plan liquidations without sending them")
+  .addFlag("bid", "Also buy Dutch auction lots priced below the oracle")
+  .addFlag("once", "Run a single round and exit")
+  .addOptionalParam("interval", "Milliseconds between rounds", 15000, types.int)
+  .addOptionalParam("minProfit", "Smallest profit worth acting on, in USD", "0")
+  .addOptionalParam(
+    "fromBlock",
+    "Block to start rebuilding positions from",
+    0,
+    types.int
+  )
+  .setAction(
+    async (
+      {
+        dryRun,
+        bid,
+        once,
+        interval,
+        minProfit,
+        fromBlock,
+        deploymentId,
+        json,
+      }: CommonArgs & {
+        dryRun: boolean;
+        bid: boolean;
+        once: boolean;
+        interval: number;
+        minProfit: string;
+        fromBlock: number;
+      },
+      hre
+    ) => {
+      // Loaded lazily: the keeper needs the generated contract types, which
+      // do not exist until the first compile.
+      const { Keeper } = await import("../keeper");
+      const { lendingPool } = await loadDeployment(hre, deploymentId);
+      const [signer] = await hre.ethers.getSigners();
+      const keeper = await Keeper.create(lendingPool, signer, {
+        dryRun,
+        bidOnAuctions: bid,
+        minProfit: hre.ethers.parseEther(minProfit),
+        fromBlock,
+      });
+
+      if (once) {
+        const tables = await reportTables(hre, await keeper.runOnce());
+        printTables(tables, json);
+        return tables;
+      }
+
+      const controller = new AbortController();
+      process.once("SIGINT", () => controller.abort());
+      await keeper.run(interval, controller.signal, async (report) =>
+        printTables(await reportTables(hre, report), json)
+      );
+    }
+  );
@@ -0,0 +1,228 @@
+import { types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import {
+  CommonArgs,
+  PLUGIN_NAME,
+  Row,
+  Tables,
+  formatAmount,
+  formatBps,
+  formatHealthFactor,
+  formatUsd,
+  getTokenInfo,
+  lendingTask,
+  loadDeployment,
+  printTables,
+  resolveToken,
+} from "./helpers";
+
+lendingTask("pool:whitelist", "Lists a token as a reserve of the pool")
+  .addPositionalParam("token", "Address of the token to list")
+  .setAction(
+    async (
+      { token, deploymentId, json }: CommonArgs & { token: string },
+      hre
+    ) => {
+      const { lendingPool, reserveRegistry } = await loadDeployment(
+        hre,
+        deploymentId
+      );
+      const info = await getTokenInfo(hre, token);
+      await (await lendingPool.whitelistToken(info.address)).wait();
+
+      const config = await reserveRegistry.getReserveConfig(info.address);
+      const tables: Tables = {
+        Reserve: [
+          {
+            token: info.symbol,
+            address: info.address,
+            decimals: info.decimals.toString(),
+            ltv: formatBps(config.ltv),
+            liquidationThreshold: formatBps(config.liquidationThreshold),
+            liquidationBonus: formatBps(config.liquidationBonus),
+            flashLoanFee: formatBps(config.flashLoanFee),
+            borrowingEnabled: config.borrowingEnabled.toString(),
+            collateralEnabled: config.collateralEnabled.toString(),
+          },
+        ],
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
+
+lendingTask(
+  "pool:set-price",
+  "Publishes a new USD price on a token's mock price feed"
+)
+  .addPositionalParam("token", "Token address or reserve symbol")
+  .addPositionalParam("price", "Price in USD, e.g. 1850.25")
+  .setAction(
+    async (
+      {
+        token,
+        price,
+        deploymentId,
+        json,
+      }: CommonArgs & { token: string; price: string },
+      hre
+    ) => {
+      const { lendingPool, priceOracle } = await loadDeployment(
+        hre,
+        deploymentId
+      );
+      const info = await resolveToken(hre, lendingPool, token);
+      const { aggregator } = await priceOracle.feeds(info.address);
+      if (aggregator === hre.ethers.ZeroAddress) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `${info.symbol} has no price feed`
+        );
+      }
+
+      const feed = await hre.ethers.getContractAt("MockAggregator", aggregator);
+      const [, previous] = await feed.latestRoundData();
+      const decimals = Number(await feed.decimals());
+      await (
+        await feed.updateAnswer(hre.ethers.parseUnits(price, decimals))
+      ).wait();
+
+      const tables: Tables = {
+        Price: [
+          {
+            token: info.symbol,
+            feed: aggregator,
+            previous: hre.ethers.formatUnits(previous, decimals),
+            current: hre.ethers.formatUnits(
+              (await feed.latestRoundData())[1],
+              decimals
+            ),
+          },
+        ],
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
+
+lendingTask("pool:position", "Shows a user's collateral, debt and health")
+  .addPositionalParam("user", "Address of the account")
+  .setAction(
+    async (
+      { user, deploymentId, json }: CommonArgs & { user: string },
+      hre
+    ) => {
+      const { lendingPool, loanManager, priceOracle } = await loadDeployment(
+        hre,
+        deploymentId
+      );
+
+      const positions: Row[] = [];
+      for (const address of await loanManager.getCollateralTokens(user)) {
+        const info = await getTokenInfo(hre, address);
+        const amount = await loanManager.getCollateralAmount(user, address);
+        positions.push({
+          side: "collateral",
+          token: info.symbol,
+          amount: formatAmount(hre, amount, info),
+          valueUsd: formatUsd(
+            hre,
+            (amount * (await priceOracle.getPrice(address))) /
+              10n ** BigInt(info.decimals)
+          ),
+        });
+      }
+      for (const address of await loanManager.getDebtTokens(user)) {
+        const info = await getTokenInfo(hre, address);
+        const amount =
+          (await loanManager.getLoanAmount(user, address)) +
+          (await loanManager.calculateInterest(user, address));
+        positions.push({
+          side: "debt",
+          token: info.symbol,
+          amount: formatAmount(hre, amount, info),
+          valueUsd: formatUsd(
+            hre,
+            (amount * (await priceOracle.getPrice(address))) /
+              10n ** BigInt(info.decimals)
+          ),
+        });
+      }
+
+      const data = await lendingPool.getAccountData(user);
+      const tables: Tables = {
+        Positions: positions,
+        Account: [
+          {
+            user: hre.ethers.getAddress(user),
+            collateralUsd: formatUsd(hre, data.totalCollateralValue),
+            debtUsd: formatUsd(hre, data.totalDebtValue),
+            healthFactor: formatHealthFactor(hre, data.healthFactor),
+            liquidatable: (
+              data.healthFactor < hre.ethers.WeiPerEther
+            ).toString(),
+          },
+        ],
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
+
+lendingTask(
+  "pool:liquidatable",
+  "Lists borrowers whose health factor has dropped below 1"
+)
+  .addOptionalParam(
+    "fromBlock",
+    "Block to start looking for borrowers from",
+    0,
+    types.int
+  )
+  .setAction(
+    async (
+      { fromBlock, deploymentId, json }: CommonArgs & { fromBlock: number },
+      hre
+    ) => {
+      const { lendingPool } = await loadDeployment(hre, deploymentId);
+
+      // Only accounts that have borrowed can be liquidated.
+      const events = await lendingPool.queryFilter(
+        lendingPool.filters.Borrow(),
+        fromBlock
+      );
+      const borrowers = [...new Set(events.map((event) => event.args.user))];
+
+      const accounts = [];
+      for (const user of borrowers) {
+        const data = await lendingPool.getAccountData(user);
+        if (data.healthFactor < hre.ethers.WeiPerEther) {
+          accounts.push({
+            user,
+            totalCollateralValue: data.totalCollateralValue,
+            totalDebtValue: data.totalDebtValue,
+            healthFactor: data.healthFactor,
+          });
+        }
+      }
+      // Largest debts first: they are worth liquidating soonest.
+      accounts.sort((a, b) =>
+        a.totalDebtValue > b.totalDebtValue
+          ? -1
+          : a.totalDebtValue < b.totalDebtValue
+          ? 1
+          : 0
+      );
+
+      const tables: Tables = {
+        Liquidatable: accounts.map((account) => ({
+          user: account.user,
+          collateralUsd: formatUsd(hre, account.totalCollateralValue),
+          debtUsd: formatUsd(hre, account.totalDebtValue),
+          healthFactor: formatHealthFactor(hre, account.healthFactor),
+        })),
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
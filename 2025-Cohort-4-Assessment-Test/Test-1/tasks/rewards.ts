@@ -0,0 +1,212 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import {
+  CommonArgs,
+  PLUGIN_NAME,
+  Row,
+  Tables,
+  formatAmount,
+  formatUsd,
+  getDeploymentDir,
+  getTokenInfo,
+  lendingTask,
+  loadDeployment,
+  printTables,
+} from "./helpers";
+
+// Kept next to the deployment's addresses: the first block the next run
+// counts liquidations from, so each one is only paid for once, and the
+// payouts a run planned but has not sent yet.
+const CHECKPOINT_FILE = "rewards-checkpoint.json";
+
+interface Checkpoint {
+  nextBlock: number;
+  pending: PendingPayout[];
+}
+
+interface PendingPayout {
+  token: string;
+  liquidator: string;
+  amount: string;
+}
+
+lendingTask(
+  "rewards:distribute",
+  "Pays out the liquidator incentive pool to liquidators, pro rata to the debt they repaid"
+)
+  .addOptionalParam(
+    "fromBlock",
+    "Block to start counting liquidations from (default: where the last run stopped)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block to count liquidations in (default: latest)",
+    undefined,
+    types.int
+  )
+  .addFlag("dryRun", "Show the payouts without sending them")
+  .setAction(
+    async (
+      {
+        fromBlock,
+        toBlock,
+        dryRun,
+        deploymentId,
+        json,
+      }: CommonArgs & {
+        fromBlock?: number;
+        toBlock?: number;
+        dryRun: boolean;
+      },
+      hre
+    ) => {
+      const { lendingPool, priceOracle, reserveRegistry } =
+        await loadDeployment(hre, deploymentId);
+      const distributorAddress = await lendingPool.rewardsDistributor();
+      if (distributorAddress === hre.ethers.ZeroAddress) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          "The pool has no rewards distributor"
+        );
+      }
+      const distributor = await hre.ethers.getContractAt(
+        "RewardsDistributor",
+        distributorAddress
+      );
+
+      const checkpointFile = path.join(
+        await getDeploymentDir(hre, deploymentId),
+        CHECKPOINT_FILE
+      );
+      const checkpoint: Checkpoint = {
+        nextBlock: 0,
+        pending: [],
+        ...(existsSync(checkpointFile)
+          ? (JSON.parse(readFileSync(checkpointFile, "utf8")) as Checkpoint)
+          : {}),
+      };
+      const explicitRange = fromBlock !== undefined || toBlock !== undefined;
+      fromBlock ??= checkpoint.nextBlock;
+      toBlock ??= await hre.ethers.provider.getBlockNumber();
+      // Without a range of its own, a run right after the last one has no
+      // blocks to count but can still send what that run left pending.
+      if (toBlock < fromBlock && explicitRange) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `--to-block ${toBlock} is before --from-block ${fromBlock}`
+        );
+      }
+
+      // Weigh liquidators by the USD value of the debt they repaid or
+      // handed to an auction, at today's prices so every token counts the
+      // same.
+      const [direct, toAuction] =
+        toBlock < fromBlock
+          ? [[], []]
+          : await Promise.all([
+              lendingPool.queryFilter(
+                lendingPool.filters.Liquidation(),
+                fromBlock,
+                toBlock
+              ),
+              lendingPool.queryFilter(
+                lendingPool.filters.LiquidationToAuction(),
+                fromBlock,
+                toBlock
+              ),
+            ]);
+      const weights = new Map<string, bigint>();
+      let totalWeight = 0n;
+      for (const { liquidator, debtToken, debt } of [
+        ...direct.map(({ args }) => ({
+          liquidator: args.liquidator,
+          debtToken: args.debtToken,
+          debt: args.debtRepaid,
+        })),
+        ...toAuction.map(({ args }) => ({
+          liquidator: args.liquidator,
+          debtToken: args.debtToken,
+          debt: args.debt,
+        })),
+      ]) {
+        const info = await getTokenInfo(hre, debtToken);
+        const value =
+          (debt * (await priceOracle.getPrice(debtToken))) /
+          10n ** BigInt(info.decimals);
+        weights.set(liquidator, (weights.get(liquidator) ?? 0n) + value);
+        totalWeight += value;
+      }
+
+      const liquidators: Row[] = [...weights].map(([liquidator, weight]) => ({
+        liquidator,
+        debtRepaidUsd: formatUsd(hre, weight),
+      }));
+
+      // Payouts an earlier run planned and did not send go first, and
+      // their amounts are no longer in the pots.
+      const planned = [...checkpoint.pending];
+      if (totalWeight > 0n) {
+        // Every reserve ever listed can have a pot: delisted ones keep
+        // theirs, and some reserves' fees all go to the reserve and
+        // liquidators rather than stakers.
+        const listed = await reserveRegistry.queryFilter(
+          reserveRegistry.filters.ReserveListed()
+        );
+        for (const token of new Set(listed.map(({ args }) => args.token))) {
+          let pot = await distributor.liquidatorIncentives(token);
+          for (const payout of checkpoint.pending) {
+            if (payout.token === token) pot -= BigInt(payout.amount);
+          }
+          if (pot <= 0n) continue;
+
+          for (const [liquidator, weight] of weights) {
+            // Rounding down leaves dust in the pool for the next round.
+            const amount = (pot * weight) / totalWeight;
+            if (amount === 0n) continue;
+            planned.push({ token, liquidator, amount: amount.toString() });
+          }
+        }
+      }
+
+      // Saved before each payment, so a run that stops partway sends
+      // only what is left when it is run again.
+      const nextBlock = toBlock + 1;
+      const save = (pending: PendingPayout[]) => {
+        const next: Checkpoint = { nextBlock, pending };
+        writeFileSync(checkpointFile, JSON.stringify(next, null, 2));
+      };
+      const payouts: Row[] = [];
+      for (const [i, { token, liquidator, amount }] of planned.entries()) {
+        if (!dryRun) {
+          save(planned.slice(i));
+          await (
+            await distributor.withdrawLiquidatorIncentive(
+              token,
+              liquidator,
+              amount
+            )
+          ).wait();
+        }
+        const info = await getTokenInfo(hre, token);
+        payouts.push({
+          liquidator,
+          token: info.symbol,
+          amount: formatAmount(hre, BigInt(amount), info),
+          status: dryRun ? "planned" : "paid",
+        });
+      }
+      if (!dryRun) save([]);
+
+      const tables: Tables = {
+        Blocks: [{ fromBlock: String(fromBlock), toBlock: String(toBlock) }],
+        Liquidators: liquidators,
+        Payouts: payouts,
+      };
+      printTables(tables, json);
+      return tables;
+    }
+  );
@@ -0,0 +1,86 @@
+import { task } from "hardhat/config";
+import type { SimulationReport } from "../simulator";
+import { Tables, printTables } from "./helpers";
+
+function summaryTables(report: SimulationReport): Tables {
+  const { badDebt, liquidations, auctions, flashLoans, fees } = report;
+  const clearing = auctions.clearingToOracle;
+  const rows: [string, string | number | null][] = [
+    ["bad debt (USD)", badDebt.totalUsd],
+    ["  from positions", badDebt.positionsUsd],
+    ["  written off", badDebt.writtenOffUsd],
+    ["    from closed auctions", badDebt.auctionsUsd],
+    ["bad debt covered (USD)", badDebt.coveredUsd],
+    ["open auction debt (USD)", badDebt.openAuctionDebtUsd],
+    ["accounts underwater", liquidations.accountsUnderwater],
+    ["accounts liquidated", liquidations.accountsLiquidated],
+    ["mean liquidation delay (steps)", liquidations.meanDelaySteps],
+    ["direct liquidations", liquidations.direct],
+    ["liquidations to auction", liquidations.toAuction],
+    ["liquidation bonus paid (USD)", liquidations.bonusPaidUsd],
+    ["auction purchases", auctions.purchases],
+    ["mean clearing / oracle", clearing?.mean ?? null],
+    ["flash loans", flashLoans.count],
+    ["flash loan volume (USD)", flashLoans.volumeUsd],
+    ["fees collected (USD)", fees.totalUsd],
+    ["interest accrued (USD)", fees.interestUsd],
+  ];
+  return {
+    [report.scenario.name]: rows.map(([metric, value]) => ({
+      metric,
+      value: value === null ? "-" : String(value),
+    })),
+    [`${report.scenario.name} failures`]: Object.entries(report.failures).map(
+      ([reason, count]) => ({
+        reason,
+        count: String(count),
+      })
+    ),
+  };
+}
+
+task(
+  "sim:run",
+  "Replays stress scenarios against a fresh deployment and reports how the protocol held up"
+)
+  .addVariadicPositionalParam("scenarios", "Scenario files to run")
+  .addOptionalParam(
+    "out",
+    "Directory for the JSON and CSV reports",
+    "simulations"
+  )
+  .addFlag("json", "Print JSON instead of tables")
+  .setAction(
+    async (
+      {
+        scenarios,
+        out,
+        json,
+      }: { scenarios: string[]; out: string; json: boolean },
+      hre
+    ) => {
+      // Loaded lazily: the simulator needs the generated contract types,
+      // which do not exist until the first compile.
+      const { Simulation, buildReport, loadScenario, writeReport } =
+        await import("../simulator");
+
+      const tables: Tables = {};
+      for (const file of scenarios) {
+        const scenario = loadScenario(file);
+        const simulation = await Simulation.create(hre, scenario);
+        const result = await simulation.run();
+        const report = buildReport(result);
+        result.store.close();
+        const files = writeReport(report, out);
+
+        const summary = summaryTables(report);
+        Object.assign(tables, summary);
+        if (!json) {
+          console.log(`Wrote ${files.join(", ")}\n`);
+          printTables(summary, json);
+        }
+      }
+      if (json) printTables(tables, json);
+      return tables;
+    }
+  );
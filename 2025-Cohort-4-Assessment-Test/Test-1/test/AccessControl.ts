@@ -0,0 +1,417 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployPriceFeed, deployPriceOracle, setPrice } from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+// Mirrors LendingPool.Action.
+const Action = {
+  Deposit: 0,
+  Borrow: 1,
+  Repay: 2,
+  Liquidate: 3,
+  FlashLoan: 4,
+  Bid: 5,
+};
+
+describe("AccessControl", function () {
+  async function deployAccessControlFixture() {
+    const [admin, riskManager, priceUpdater, guardian, borrower, liquidator] =
+      await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      await lendingPool.auctionManager()
+    );
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+
+    const roles = {
+      admin: ethers.ZeroHash,
+      riskManager: await lendingPool.RISK_MANAGER_ROLE(),
+      pauseGuardian: await lendingPool.PAUSE_GUARDIAN_ROLE(),
+    };
+    await lendingPool.grantRole(roles.riskManager, riskManager.address);
+    await lendingPool.grantRole(roles.pauseGuardian, guardian.address);
+    // Feeds are managed on the oracle itself.
+    const priceUpdaterRole = await priceOracle.PRICE_UPDATER_ROLE();
+    await priceOracle.grantRole(priceUpdaterRole, priceUpdater.address);
+
+    const Token = await ethers.getContractFactory("Token");
+    const weth = await Token.deploy("Wrapped Ether", "WETH");
+    const dai = await Token.deploy("Dai Stablecoin", "DAI");
+
+    await lendingPool.whitelistToken(weth.target);
+    await lendingPool.whitelistToken(dai.target);
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    await deployPriceFeed(priceOracle, dai.target, ethers.parseEther("1"));
+    await deployReceiptToken(lendingPool, dai);
+    await supplyLiquidity(lendingPool, dai, admin, ethers.parseEther("100000"));
+
+    // 1 WETH backs 1200 DAI: healthy at $2000, liquidatable below $1800.
+    await weth.mint(borrower.address, ethers.parseEther("2"));
+    await dai.mint(liquidator.address, ethers.parseEther("10000"));
+    for (const user of [borrower, liquidator]) {
+      await weth.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+      await dai.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+      await dai.connect(user).approve(auctionManager.target, ethers.MaxUint256);
+    }
+    await lendingPool
+      .connect(borrower)
+      .deposit(weth.target, ethers.parseEther("1"));
+    await lendingPool
+      .connect(borrower)
+      .borrow(dai.target, ethers.parseEther("1200"));
+
+    return {
+      lendingPool,
+      auctionManager,
+      loanManager,
+      priceOracle,
+      roles,
+      priceUpdaterRole,
+      weth,
+      dai,
+      wethFeed,
+      admin,
+      riskManager,
+      priceUpdater,
+      guardian,
+      borrower,
+      liquidator,
+    };
+  }
+
+  describe("Roles", function () {
+    it("Should limit each setter to its role", async function () {
+      const { lendingPool, roles, weth, dai, borrower } = await loadFixture(
+        deployAccessControlFixture
+      );
+      const asBorrower = lendingPool.connect(borrower);
+      const distributor = await ethers.deployContract("RewardsDistributor", [
+        weth.target,
+        lendingPool.target,
+        3600,
+      ]);
+
+      for (const [call, role] of [
+        [asBorrower.whitelistToken(borrower.address), roles.riskManager],
+        [asBorrower.setCloseFactor(10000n), roles.riskManager],
+        [asBorrower.setLiquidationBonus(weth.target, 0n), roles.riskManager],
+        [
+          asBorrower.setInterestRateStrategy(dai.target, ethers.ZeroAddress),
+          roles.riskManager,
+        ],
+        [asBorrower.setPriceOracle(borrower.address), roles.admin],
+        [asBorrower.setActionPaused(Action.Borrow, true), roles.pauseGuardian],
+        [asBorrower.setReservePaused(dai.target, true), roles.pauseGuardian],
+        [asBorrower.setRewardsDistributor(distributor.target), roles.admin],
+        [
+          asBorrower.setReceiptToken(weth.target, borrower.address),
+          roles.admin,
+        ],
+        [
+          asBorrower.grantRole(roles.riskManager, borrower.address),
+          roles.admin,
+        ],
+      ] as const) {
+        await expect(call)
+          .to.be.revertedWithCustomError(
+            lendingPool,
+            "AccessControlUnauthorizedAccount"
+          )
+          .withArgs(borrower.address, role);
+      }
+    });
+
+    it("Should let the risk manager list reserves and set parameters", async function () {
+      const { lendingPool, roles, weth, riskManager } = await loadFixture(
+        deployAccessControlFixture
+      );
+      const asRiskManager = lendingPool.connect(riskManager);
+      const link = await ethers.deployContract("Token", ["Chainlink", "LINK"]);
+
+      await asRiskManager.whitelistToken(link.target);
+      await asRiskManager.setCloseFactor(10000n);
+      await asRiskManager.setLiquidationBonus(weth.target, 500n);
+      await asRiskManager.setReserveFrozen(weth.target, true);
+
+      await expect(asRiskManager.setActionPaused(Action.Borrow, true))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(riskManager.address, roles.pauseGuardian);
+    });
+
+    it("Should let the price updater manage feeds but not replace the oracle", async function () {
+      const {
+        lendingPool,
+        priceOracle,
+        roles,
+        priceUpdaterRole,
+        weth,
+        priceUpdater,
+        borrower,
+      } = await loadFixture(deployAccessControlFixture);
+      const feed = await ethers.deployContract("MockAggregator", [8, "", 1]);
+
+      await expect(
+        priceOracle.connect(priceUpdater).setFeed(weth.target, feed.target, 300)
+      )
+        .to.emit(priceOracle, "FeedUpdated")
+        .withArgs(weth.target, feed.target, 300);
+      await expect(
+        priceOracle.connect(borrower).setFeed(weth.target, feed.target, 300)
+      )
+        .to.be.revertedWithCustomError(
+          priceOracle,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(borrower.address, priceUpdaterRole);
+
+      const newOracle = await deployPriceOracle();
+      await expect(
+        lendingPool.connect(priceUpdater).setPriceOracle(newOracle.target)
+      )
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(priceUpdater.address, roles.admin);
+      await expect(lendingPool.setPriceOracle(newOracle.target))
+        .to.emit(lendingPool, "PriceOracleUpdated")
+        .withArgs(newOracle.target);
+    });
+
+    it("Should let the admin hand over every role", async function () {
+      const { lendingPool, roles, admin, borrower } = await loadFixture(
+        deployAccessControlFixture
+      );
+      for (const role of Object.values(roles)) {
+        await lendingPool.grantRole(role, borrower.address);
+      }
+      for (const role of Object.values(roles)) {
+        await lendingPool.renounceRole(role, admin.address);
+      }
+
+      await expect(lendingPool.setCloseFactor(10000n))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(admin.address, roles.riskManager);
+      await lendingPool.connect(borrower).setCloseFactor(10000n);
+    });
+
+    it("Should let the deployer hand over the child contracts", async function () {
+      const { lendingPool, auctionManager, loanManager, admin, borrower } =
+        await loadFixture(deployAccessControlFixture);
+      const poolRole = await loanManager.POOL_ROLE();
+
+      for (const child of [auctionManager, loanManager]) {
+        expect(await child.hasRole(poolRole, lendingPool.target)).to.be.true;
+        expect(await child.hasRole(ethers.ZeroHash, admin.address)).to.be.true;
+
+        await child.grantRole(ethers.ZeroHash, borrower.address);
+        await child.renounceRole(ethers.ZeroHash, admin.address);
+        await expect(child.grantRole(poolRole, admin.address))
+          .to.be.revertedWithCustomError(
+            child,
+            "AccessControlUnauthorizedAccount"
+          )
+          .withArgs(admin.address, ethers.ZeroHash);
+        await child.connect(borrower).grantRole(poolRole, borrower.address);
+      }
+
+      await loanManager
+        .connect(borrower)
+        .setInterestRateStrategy(borrower.address, ethers.ZeroAddress);
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should let the guardian pause and unpause actions", async function () {
+      const { lendingPool, weth, guardian, borrower } = await loadFixture(
+        deployAccessControlFixture
+      );
+      await expect(
+        lendingPool.connect(guardian).setActionPaused(Action.Deposit, true)
+      )
+        .to.emit(lendingPool, "ActionPaused")
+        .withArgs(Action.Deposit, true);
+      expect(await lendingPool.actionPaused(Action.Deposit)).to.be.true;
+
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .deposit(weth.target, ethers.parseEther("1"))
+      ).to.be.revertedWith("Action paused");
+
+      await lendingPool
+        .connect(guardian)
+        .setActionPaused(Action.Deposit, false);
+      await lendingPool
+        .connect(borrower)
+        .deposit(weth.target, ethers.parseEther("1"));
+    });
+
+    it("Should pause supplies with deposits but keep withdrawals open", async function () {
+      const { lendingPool, weth, dai, guardian, borrower } = await loadFixture(
+        deployAccessControlFixture
+      );
+      await lendingPool.connect(guardian).setActionPaused(Action.Deposit, true);
+
+      await expect(lendingPool.supply(dai.target, 1n)).to.be.revertedWith(
+        "Action paused"
+      );
+      await expect(
+        lendingPool.redeem(dai.target, ethers.parseEther("1"))
+      ).to.emit(lendingPool, "Redeem");
+
+      await lendingPool
+        .connect(borrower)
+        .repay(dai.target, ethers.parseEther("600"));
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .withdraw(weth.target, ethers.parseEther("0.4"))
+      ).to.emit(lendingPool, "Withdraw");
+    });
+
+    it("Should keep repay and liquidate open while borrows are paused", async function () {
+      const {
+        lendingPool,
+        weth,
+        dai,
+        wethFeed,
+        guardian,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployAccessControlFixture);
+      await lendingPool.connect(guardian).setActionPaused(Action.Borrow, true);
+
+      await expect(
+        lendingPool.connect(borrower).borrow(dai.target, 1n)
+      ).to.be.revertedWith("Action paused");
+
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .repay(dai.target, ethers.parseEther("100"))
+      ).to.emit(lendingPool, "Repay");
+
+      await setPrice(wethFeed, ethers.parseEther("1500"));
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(
+            borrower.address,
+            weth.target,
+            dai.target,
+            ethers.parseEther("100")
+          )
+      ).to.emit(lendingPool, "Liquidation");
+    });
+
+    it("Should pause repayments", async function () {
+      const { lendingPool, dai, guardian, borrower } = await loadFixture(
+        deployAccessControlFixture
+      );
+      await lendingPool.connect(guardian).setActionPaused(Action.Repay, true);
+      await expect(
+        lendingPool.connect(borrower).repay(dai.target, 1n)
+      ).to.be.revertedWith("Action paused");
+    });
+
+    it("Should pause both kinds of liquidation", async function () {
+      const {
+        lendingPool,
+        weth,
+        dai,
+        wethFeed,
+        guardian,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployAccessControlFixture);
+      await setPrice(wethFeed, ethers.parseEther("1500"));
+      await lendingPool
+        .connect(guardian)
+        .setActionPaused(Action.Liquidate, true);
+      const asLiquidator = lendingPool.connect(liquidator);
+
+      await expect(
+        asLiquidator.liquidate(borrower.address, weth.target, dai.target, 1n)
+      ).to.be.revertedWith("Action paused");
+      await expect(
+        asLiquidator.liquidateToAuction(
+          borrower.address,
+          weth.target,
+          dai.target
+        )
+      ).to.be.revertedWith("Action paused");
+    });
+
+    it("Should pause flash loans", async function () {
+      const { lendingPool, dai, guardian } = await loadFixture(
+        deployAccessControlFixture
+      );
+      const flashBorrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      await lendingPool
+        .connect(guardian)
+        .setActionPaused(Action.FlashLoan, true);
+
+      await expect(
+        flashBorrower.borrow(dai.target, ethers.parseEther("1"), "0x")
+      ).to.be.revertedWith("Action paused");
+    });
+
+    it("Should pause auction bids", async function () {
+      const {
+        lendingPool,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        guardian,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployAccessControlFixture);
+      await setPrice(wethFeed, ethers.parseEther("1500"));
+      await lendingPool
+        .connect(liquidator)
+        .liquidateToAuction(borrower.address, weth.target, dai.target);
+
+      await expect(
+        lendingPool.connect(guardian).setActionPaused(Action.Bid, true)
+      )
+        .to.emit(auctionManager, "BidsPaused")
+        .withArgs(true);
+      expect(await auctionManager.bidsPaused()).to.be.true;
+
+      const asLiquidator = auctionManager.connect(liquidator);
+      await expect(
+        asLiquidator.buy(0, ethers.parseEther("0.1"), ethers.MaxUint256)
+      ).to.be.revertedWith("Bids paused");
+      await expect(asLiquidator.placeBid(0, { value: 1n })).to.be.revertedWith(
+        "Bids paused"
+      );
+
+      await lendingPool.connect(guardian).setActionPaused(Action.Bid, false);
+      await expect(
+        asLiquidator.buy(0, ethers.parseEther("0.1"), ethers.MaxUint256)
+      ).to.emit(auctionManager, "DutchAuctionPurchase");
+    });
+  });
+});
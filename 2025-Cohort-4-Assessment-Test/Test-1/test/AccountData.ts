@@ -0,0 +1,266 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+  setPrice,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+describe("AccountData", function () {
+  async function deployPortfolioFixture() {
+    const [owner, user1, user2] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const tokenA = await Token.deploy("TokenA", "TKNA");
+    const tokenB = await Token.deploy("TokenB", "TKNB");
+    const tokenC = await Token.deploy("TokenC", "TKNC");
+
+    const feeds = [];
+    for (const [token, price] of [
+      [tokenA, "1"],
+      [tokenB, "2"],
+      [tokenC, "10"],
+    ] as const) {
+      await lendingPool.whitelistToken(token.target);
+      await deployReceiptToken(lendingPool, token);
+      await supplyLiquidity(
+        lendingPool,
+        token,
+        owner,
+        ethers.parseEther("10000")
+      );
+      feeds.push(
+        await deployPriceFeed(
+          priceOracle,
+          token.target,
+          ethers.parseEther(price)
+        )
+      );
+    }
+    const [feedA, feedB, feedC] = feeds;
+
+    async function deposit(token: typeof tokenA, amount: string) {
+      const value = ethers.parseEther(amount);
+      await token.mint(user1.address, value);
+      await token.connect(user1).approve(lendingPool.target, value);
+      await lendingPool.connect(user1).deposit(token.target, value);
+    }
+
+    return {
+      lendingPool,
+      loanManager,
+      tokenA,
+      tokenB,
+      tokenC,
+      feedA,
+      feedB,
+      feedC,
+      deposit,
+      owner,
+      user1,
+      user2,
+    };
+  }
+
+  describe("getAccountData", function () {
+    it("Should report an empty account", async function () {
+      const { lendingPool, user1 } = await loadFixture(deployPortfolioFixture);
+      const data = await lendingPool.getAccountData(user1.address);
+      expect(data.totalCollateralValue).to.equal(0);
+      expect(data.totalDebtValue).to.equal(0);
+      expect(data.healthFactor).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should value collateral across tokens", async function () {
+      const { lendingPool, tokenA, tokenB, tokenC, deposit, user1 } =
+        await loadFixture(deployPortfolioFixture);
+      await deposit(tokenA, "100");
+      await deposit(tokenB, "50");
+      await deposit(tokenC, "3");
+
+      const data = await lendingPool.getAccountData(user1.address);
+      expect(data.totalCollateralValue).to.equal(ethers.parseEther("230"));
+      expect(data.totalDebtValue).to.equal(0);
+    });
+
+    it("Should value debt across tokens including interest", async function () {
+      const {
+        lendingPool,
+        tokenA,
+        tokenB,
+        tokenC,
+        feedA,
+        feedB,
+        feedC,
+        deposit,
+        user1,
+      } = await loadFixture(deployPortfolioFixture);
+      await deposit(tokenC, "30");
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenA.target, ethers.parseEther("50"));
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenB.target, ethers.parseEther("25"));
+
+      await time.increase(ONE_YEAR);
+      await refreshPrices(feedA, feedB, feedC);
+
+      // $100 borrowed at 5% simple interest is worth $105 after a year.
+      const data = await lendingPool.getAccountData(user1.address);
+      expect(data.totalDebtValue).to.be.closeTo(
+        ethers.parseEther("105"),
+        ethers.parseEther("0.01")
+      );
+      expect(data.healthFactor).to.be.closeTo(
+        (ethers.parseEther("300") * 100n) / 150n / 105n,
+        ethers.parseEther("0.001")
+      );
+    });
+  });
+
+  describe("Borrowing", function () {
+    it("Should let several collateral tokens back one loan", async function () {
+      const { lendingPool, tokenA, tokenB, tokenC, deposit, user1 } =
+        await loadFixture(deployPortfolioFixture);
+      // $200 of collateral supports up to $133 of debt.
+      await deposit(tokenA, "100");
+      await deposit(tokenB, "50");
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .borrow(tokenC.target, ethers.parseEther("13"))
+      ).to.emit(lendingPool, "Borrow");
+
+      await expect(
+        lendingPool.connect(user1).borrow(tokenC.target, ethers.parseEther("1"))
+      ).to.be.revertedWith("not enough collateral to cover loan");
+    });
+
+    it("Should not let one deposit back unlimited loans in different tokens", async function () {
+      const { lendingPool, tokenA, tokenB, tokenC, deposit, user1 } =
+        await loadFixture(deployPortfolioFixture);
+      // At the default 66.67% LTV, $150 of collateral supports $100.005 of
+      // debt in total.
+      await deposit(tokenA, "150");
+
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenB.target, ethers.parseEther("25"));
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenC.target, ethers.parseEther("4.9"));
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .borrow(tokenA.target, ethers.parseEther("1.01"))
+      ).to.be.revertedWith("not enough collateral to cover loan");
+    });
+
+    it("Should not borrow non-whitelisted tokens", async function () {
+      const { lendingPool, tokenA, deposit, user1 } = await loadFixture(
+        deployPortfolioFixture
+      );
+      await deposit(tokenA, "150");
+      const other = await ethers.deployContract("Token", ["Other", "OTH"]);
+
+      await expect(
+        lendingPool.connect(user1).borrow(other.target, 1n)
+      ).to.be.revertedWith("Token not whitelisted");
+    });
+  });
+
+  describe("Liquidation", function () {
+    it("Should judge liquidations on the whole portfolio", async function () {
+      const {
+        lendingPool,
+        tokenA,
+        tokenB,
+        tokenC,
+        feedC,
+        deposit,
+        user1,
+        user2,
+      } = await loadFixture(deployPortfolioFixture);
+      await deposit(tokenA, "100");
+      await deposit(tokenC, "10");
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenB.target, ethers.parseEther("40"));
+
+      const repayment = ethers.parseEther("40");
+      await tokenB.mint(user2.address, repayment);
+      await tokenB.connect(user2).approve(lendingPool.target, repayment);
+
+      // tokenA alone ($100) does not cover $80 of debt at 150%, but the
+      // whole portfolio ($200) does.
+      await expect(
+        lendingPool
+          .connect(user2)
+          .liquidate(user1.address, tokenA.target, tokenB.target, repayment)
+      ).to.be.revertedWith("not enough collateral to cover loan");
+
+      await setPrice(feedC, ethers.parseEther("1"));
+      const data = await lendingPool.getAccountData(user1.address);
+      expect(data.healthFactor).to.be.lt(ethers.parseEther("1"));
+
+      await expect(
+        lendingPool
+          .connect(user2)
+          .liquidate(user1.address, tokenA.target, tokenB.target, repayment)
+      ).to.emit(lendingPool, "Liquidation");
+    });
+  });
+
+  describe("Position tracking", function () {
+    it("Should track which tokens a user holds positions in", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        tokenA,
+        tokenB,
+        tokenC,
+        deposit,
+        user1,
+      } = await loadFixture(deployPortfolioFixture);
+      await deposit(tokenA, "100");
+      await deposit(tokenB, "50");
+      await lendingPool
+        .connect(user1)
+        .borrow(tokenC.target, ethers.parseEther("1"));
+
+      expect(
+        await loanManager.getCollateralTokens(user1.address)
+      ).to.deep.equal([tokenA.target, tokenB.target]);
+      expect(await loanManager.getDebtTokens(user1.address)).to.deep.equal([
+        tokenC.target,
+      ]);
+
+      await lendingPool
+        .connect(user1)
+        .withdraw(tokenA.target, ethers.parseEther("100"));
+      expect(
+        await loanManager.getCollateralTokens(user1.address)
+      ).to.deep.equal([tokenB.target]);
+    });
+  });
+});
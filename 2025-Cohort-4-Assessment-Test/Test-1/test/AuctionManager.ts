@@ -8,7 +8,7 @@ describe("AuctionManager", function () {
     const [owner, user1, user2] = await ethers.getSigners();
 
     const AuctionManager = await ethers.getContractFactory("AuctionManager");
-    const auctionManager = await AuctionManager.deploy();
+    const auctionManager = await AuctionManager.deploy(owner.address);
 
     const Token = await ethers.getContractFactory("Token");
     const token = await Token.deploy("Auction Token", "AUT");
@@ -17,9 +17,11 @@ describe("AuctionManager", function () {
   }
 
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
+    it("Should grant the admin and pool roles", async function () {
       const { auctionManager, owner } = await loadFixture(deployAuctionManagerFixture);
-      expect(await auctionManager.owner()).to.equal(owner.address);
+      expect(await auctionManager.hasRole(ethers.ZeroHash, owner.address)).to.be.true;
+      expect(await auctionManager.hasRole(await auctionManager.POOL_ROLE(), owner.address)).to.be.true;
+      expect(await auctionManager.pool()).to.equal(owner.address);
     });
   });
 
@@ -42,8 +44,8 @@ describe("AuctionManager", function () {
       const amount = ethers.parseEther("100");
 
       await expect(auctionManager.connect(user1).createAuction(token.target, amount))
-        .to.be.revertedWithCustomError(auctionManager, "OwnableUnauthorizedAccount")
-        .withArgs(user1.address);
+        .to.be.revertedWithCustomError(auctionManager, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await auctionManager.POOL_ROLE());
     });
   });
 
@@ -137,8 +139,8 @@ describe("AuctionManager", function () {
       const { auctionManager, user1 } = await loadFixture(deployAuctionManagerFixture);
 
       await expect(auctionManager.connect(user1).withdrawFunds())
-        .to.be.revertedWithCustomError(auctionManager, "OwnableUnauthorizedAccount")
-        .withArgs(user1.address);
+        .to.be.revertedWithCustomError(auctionManager, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, ethers.ZeroHash);
     });
   });
 });
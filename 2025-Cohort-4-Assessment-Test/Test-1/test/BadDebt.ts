@@ -0,0 +1,417 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { LendingPool } from "../typechain-types";
+import { deployPriceFeed, deployPriceOracle, setPrice } from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+const BONUS = 500n; // 5%
+
+describe("BadDebt", function () {
+  // 1 WETH backs 1200 DAI, next to a healthy 10 WETH position paying
+  // interest on 5000 DAI. Protocol fees go to a rewards distributor.
+  async function deployBadDebtFixture() {
+    const [owner, borrower, liquidator, payer] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const lendingPool = await ethers.deployContract("LendingPool", [
+      priceOracle.target,
+    ]);
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+
+    const weth = await ethers.deployContract("Token", [
+      "Wrapped Ether",
+      "WETH",
+    ]);
+    const dai = await ethers.deployContract("Token", ["Dai Stablecoin", "DAI"]);
+    await lendingPool.whitelistToken(weth.target);
+    await lendingPool.whitelistToken(dai.target);
+    await lendingPool.setLiquidationBonus(weth.target, BONUS);
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    await deployPriceFeed(priceOracle, dai.target, ethers.parseEther("1"));
+
+    await deployReceiptToken(lendingPool, dai);
+    await supplyLiquidity(lendingPool, dai, owner, ethers.parseEther("100000"));
+
+    const distributor = await ethers.deployContract("RewardsDistributor", [
+      weth.target,
+      lendingPool.target,
+      ONE_YEAR,
+    ]);
+    await lendingPool.setRewardsDistributor(distributor.target);
+
+    const borrowAmount = ethers.parseEther("1200");
+    await weth.mint(borrower.address, ethers.parseEther("1"));
+    await weth.connect(borrower).approve(lendingPool.target, ethers.MaxUint256);
+    await lendingPool
+      .connect(borrower)
+      .deposit(weth.target, ethers.parseEther("1"));
+    await lendingPool.connect(borrower).borrow(dai.target, borrowAmount);
+
+    await weth.mint(payer.address, ethers.parseEther("10"));
+    await weth.connect(payer).approve(lendingPool.target, ethers.MaxUint256);
+    await dai.connect(payer).approve(lendingPool.target, ethers.MaxUint256);
+    await lendingPool
+      .connect(payer)
+      .deposit(weth.target, ethers.parseEther("10"));
+    await lendingPool
+      .connect(payer)
+      .borrow(dai.target, ethers.parseEther("5000"));
+
+    await dai.mint(liquidator.address, ethers.parseEther("10000"));
+    await dai
+      .connect(liquidator)
+      .approve(lendingPool.target, ethers.MaxUint256);
+
+    const flashBorrower = await ethers.deployContract("FlashBorrower", [
+      lendingPool.target,
+    ]);
+
+    return {
+      lendingPool,
+      loanManager,
+      distributor,
+      weth,
+      dai,
+      wethFeed,
+      borrowAmount,
+      flashBorrower,
+      owner,
+      borrower,
+      liquidator,
+      payer,
+    };
+  }
+
+  // At $500 the borrower's 1 WETH is worth well under its 1200 DAI debt.
+  async function insolventFixture() {
+    const fixture = await loadFixture(deployBadDebtFixture);
+    const { lendingPool, weth, dai, wethFeed, borrower, liquidator } = fixture;
+    await setPrice(wethFeed, ethers.parseEther("500"));
+    const { debtRepaid, badDebt } = await liquidate(
+      lendingPool.connect(liquidator),
+      borrower.address,
+      weth.target,
+      dai.target,
+      ethers.MaxUint256
+    );
+    return { ...fixture, debtRepaid, badDebt };
+  }
+
+  async function liquidate(
+    lendingPool: LendingPool,
+    ...args: Parameters<LendingPool["liquidate"]>
+  ) {
+    const receipt = await (await lendingPool.liquidate(...args)).wait();
+    const result = { debtRepaid: 0n, collateralSeized: 0n, badDebt: 0n };
+    for (const log of receipt!.logs) {
+      const event = lendingPool.interface.parseLog(log);
+      if (event?.name === "Liquidation") {
+        result.debtRepaid = event.args.debtRepaid;
+        result.collateralSeized = event.args.collateralSeized;
+      } else if (event?.name === "BadDebtRecorded") {
+        result.badDebt += event.args.amount;
+      }
+    }
+    return result;
+  }
+
+  describe("Insolvent positions", function () {
+    it("Should seize all collateral and write off the rest of the debt", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployBadDebtFixture);
+      await setPrice(wethFeed, ethers.parseEther("500"));
+      const poolDai = await dai.balanceOf(lendingPool.target);
+      const poolWeth = await weth.balanceOf(lendingPool.target);
+      const liquidatorDai = await dai.balanceOf(liquidator.address);
+      const available = await lendingPool.availableLiquidity(dai.target);
+      const totalBorrows = await loanManager.getTotalBorrows(dai.target);
+
+      const { debtRepaid, collateralSeized, badDebt } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        ethers.MaxUint256
+      );
+
+      // All of the collateral goes, for what it is worth less the bonus.
+      const oneWeth = ethers.parseEther("1");
+      expect(collateralSeized).to.equal(oneWeth);
+      expect(debtRepaid).to.equal(
+        (oneWeth * ethers.parseEther("500") * 10000n) /
+          (ethers.parseEther("1") * (10000n + BONUS))
+      );
+      expect(debtRepaid + badDebt).to.be.closeTo(
+        borrowAmount,
+        ethers.parseEther("0.01")
+      );
+      expect(await lendingPool.badDebt(dai.target)).to.equal(badDebt);
+
+      // Liquidator.
+      expect(await weth.balanceOf(liquidator.address)).to.equal(oneWeth);
+      expect(await dai.balanceOf(liquidator.address)).to.equal(
+        liquidatorDai - debtRepaid
+      );
+      // Borrower keeps what they borrowed and owes nothing.
+      expect(await weth.balanceOf(borrower.address)).to.equal(0n);
+      expect(await dai.balanceOf(borrower.address)).to.equal(borrowAmount);
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(0n);
+      expect(
+        await loanManager.getLoanAmount(borrower.address, dai.target)
+      ).to.equal(0n);
+      expect(await loanManager.getCollateralTokens(borrower.address)).to.be
+        .empty;
+      expect(await loanManager.getDebtTokens(borrower.address)).to.be.empty;
+      const account = await lendingPool.getAccountData(borrower.address);
+      expect(account.totalCollateralValue).to.equal(0n);
+      expect(account.totalDebtValue).to.equal(0n);
+      // Pool.
+      expect(await weth.balanceOf(lendingPool.target)).to.equal(
+        poolWeth - oneWeth
+      );
+      expect(await dai.balanceOf(lendingPool.target)).to.equal(
+        poolDai + debtRepaid
+      );
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        available + debtRepaid
+      );
+      expect(await loanManager.getTotalBorrows(dai.target)).to.be.closeTo(
+        totalBorrows - debtRepaid - badDebt,
+        ethers.parseEther("0.01")
+      );
+    });
+
+    it("Should emit an event for the written-off debt", async function () {
+      const { lendingPool, weth, dai, wethFeed, borrower, liquidator } =
+        await loadFixture(deployBadDebtFixture);
+      await setPrice(wethFeed, ethers.parseEther("500"));
+
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(
+            borrower.address,
+            weth.target,
+            dai.target,
+            ethers.MaxUint256
+          )
+      )
+        .to.emit(lendingPool, "BadDebtRecorded")
+        .withArgs(
+          borrower.address,
+          dai.target,
+          (amount: bigint) => amount > 0n
+        );
+    });
+
+    it("Should lift the close factor only for insolvent accounts", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployBadDebtFixture);
+      // Worth more than the debt, but below the liquidation threshold.
+      await setPrice(wethFeed, ethers.parseEther("1400"));
+
+      const { debtRepaid, badDebt } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        ethers.MaxUint256
+      );
+
+      expect(debtRepaid).to.be.closeTo(
+        borrowAmount / 2n,
+        ethers.parseEther("0.001")
+      );
+      expect(badDebt).to.equal(0n);
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.be.gt(0n);
+      expect(await lendingPool.badDebt(dai.target)).to.equal(0n);
+    });
+
+    it("Should keep positions with collateral elsewhere open", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployBadDebtFixture);
+      // A sliver of DAI collateral is not enough to save the account, but
+      // it has not been seized yet.
+      await dai.mint(borrower.address, ethers.parseEther("1"));
+      await dai
+        .connect(borrower)
+        .approve(lendingPool.target, ethers.MaxUint256);
+      await lendingPool
+        .connect(borrower)
+        .deposit(dai.target, ethers.parseEther("1"));
+      await setPrice(wethFeed, ethers.parseEther("500"));
+
+      const { badDebt } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        ethers.MaxUint256
+      );
+
+      expect(badDebt).to.equal(0n);
+      expect(
+        await loanManager.getLoanAmount(borrower.address, dai.target)
+      ).to.be.gt(0n);
+
+      // Seizing the last of it writes the rest off.
+      const last = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        dai.target,
+        dai.target,
+        ethers.MaxUint256
+      );
+      expect(last.badDebt).to.be.gt(0n);
+      expect(await loanManager.getDebtTokens(borrower.address)).to.be.empty;
+    });
+  });
+
+  describe("Coverage", function () {
+    it("Should cover bad debt with the reserve factor on interest", async function () {
+      const { lendingPool, loanManager, distributor, dai, payer, badDebt } =
+        await insolventFixture();
+      await time.increase(ONE_YEAR);
+      const available = await lendingPool.availableLiquidity(dai.target);
+      const distributorDai = await dai.balanceOf(distributor.target);
+
+      const debt =
+        (await loanManager.getLoanAmount(payer.address, dai.target)) +
+        (await loanManager.calculateInterest(payer.address, dai.target));
+      await dai.mint(payer.address, debt);
+      const tx = lendingPool.connect(payer).repay(dai.target, debt);
+      await expect(tx).not.to.emit(lendingPool, "FeesCollected");
+
+      // The reserve factor's cut of the interest pays down bad debt, so
+      // the whole repayment goes back to lenders.
+      const events = (await (await tx).wait())!.logs.map((log) =>
+        lendingPool.interface.parseLog(log)
+      );
+      const covered = events.find((event) => event?.name === "BadDebtCovered")!
+        .args.amount;
+      expect(covered).to.be.closeTo(
+        ((debt - ethers.parseEther("5000")) * 10n) / 100n,
+        ethers.parseEther("0.001")
+      );
+      expect(await lendingPool.badDebt(dai.target)).to.equal(badDebt - covered);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        available + debt
+      );
+      expect(await dai.balanceOf(distributor.target)).to.equal(distributorDai);
+    });
+
+    it("Should cover bad debt with flash loan fees", async function () {
+      const { lendingPool, distributor, dai, flashBorrower, badDebt } =
+        await insolventFixture();
+      const amount = ethers.parseEther("10000");
+      const fee = await lendingPool.flashFee(dai.target, amount);
+      await dai.mint(flashBorrower.target, fee);
+      const available = await lendingPool.availableLiquidity(dai.target);
+
+      await expect(flashBorrower.borrow(dai.target, amount, "0x"))
+        .to.emit(lendingPool, "BadDebtCovered")
+        .withArgs(dai.target, fee);
+
+      expect(await lendingPool.badDebt(dai.target)).to.equal(badDebt - fee);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        available + fee
+      );
+      expect(await dai.balanceOf(distributor.target)).to.equal(0n);
+    });
+
+    it("Should pass fees on once bad debt is covered", async function () {
+      const {
+        lendingPool,
+        distributor,
+        dai,
+        flashBorrower,
+        liquidator,
+        badDebt,
+      } = await insolventFixture();
+      const left = ethers.parseEther("1");
+      await lendingPool
+        .connect(liquidator)
+        .coverBadDebt(dai.target, badDebt - left);
+      const amount = ethers.parseEther("10000");
+      const fee = await lendingPool.flashFee(dai.target, amount);
+      await dai.mint(flashBorrower.target, fee);
+
+      await expect(flashBorrower.borrow(dai.target, amount, "0x"))
+        .to.emit(lendingPool, "BadDebtCovered")
+        .withArgs(dai.target, left)
+        .and.to.emit(lendingPool, "FeesCollected")
+        .withArgs(dai.target, fee - left);
+
+      expect(await lendingPool.badDebt(dai.target)).to.equal(0n);
+      expect(await dai.balanceOf(distributor.target)).to.equal(fee - left);
+    });
+
+    it("Should let anyone cover bad debt directly", async function () {
+      const { lendingPool, dai, liquidator, badDebt } =
+        await insolventFixture();
+      const available = await lendingPool.availableLiquidity(dai.target);
+      const liquidatorDai = await dai.balanceOf(liquidator.address);
+
+      await expect(
+        lendingPool.connect(liquidator).coverBadDebt(dai.target, badDebt)
+      )
+        .to.emit(lendingPool, "BadDebtCovered")
+        .withArgs(dai.target, badDebt);
+
+      expect(await lendingPool.badDebt(dai.target)).to.equal(0n);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        available + badDebt
+      );
+      expect(await dai.balanceOf(liquidator.address)).to.equal(
+        liquidatorDai - badDebt
+      );
+    });
+
+    it("Should not take more than the outstanding bad debt", async function () {
+      const { lendingPool, dai, liquidator, badDebt } =
+        await insolventFixture();
+      await expect(
+        lendingPool.connect(liquidator).coverBadDebt(dai.target, badDebt + 1n)
+      ).to.be.revertedWith("Amount exceeds bad debt");
+    });
+  });
+});
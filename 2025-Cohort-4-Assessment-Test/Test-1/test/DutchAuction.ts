@@ -0,0 +1,702 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AuctionManager } from "../typechain-types";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+  setPrice,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const HOUR = 60 * 60;
+const LINEAR = 0n;
+const EXPONENTIAL = 1n;
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+async function latestTimestamp() {
+  return BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+}
+
+// Reference implementation of AuctionManager.getDutchAuctionPrice.
+function expectedPrice(
+  auction: Awaited<ReturnType<AuctionManager["dutchAuctions"]>>,
+  timestamp: bigint
+) {
+  const { startPremium, floor, curve, decayPeriod } = auction.config;
+  const startPrice =
+    (auction.referencePrice * (10000n + startPremium)) / 10000n;
+  const floorPrice = (auction.referencePrice * floor) / 10000n;
+  const elapsed = timestamp - auction.startTime;
+
+  let price: bigint;
+  if (curve === LINEAR) {
+    if (elapsed >= decayPeriod) return floorPrice;
+    price = startPrice - ((startPrice - floorPrice) * elapsed) / decayPeriod;
+  } else {
+    price = startPrice >> (elapsed / decayPeriod);
+    price -= (price * (elapsed % decayPeriod)) / (2n * decayPeriod);
+  }
+  return price < floorPrice ? floorPrice : price;
+}
+
+describe("DutchAuction", function () {
+  async function deployDutchAuctionFixture() {
+    const [owner, borrower, buyer] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      await lendingPool.auctionManager()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const weth = await Token.deploy("Wrapped Ether", "WETH");
+    const dai = await Token.deploy("Dai Stablecoin", "DAI");
+
+    await lendingPool.whitelistToken(weth.target);
+    await lendingPool.whitelistToken(dai.target);
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    const daiFeed = await deployPriceFeed(
+      priceOracle,
+      dai.target,
+      ethers.parseEther("1")
+    );
+
+    const liquidity = ethers.parseEther("100000");
+    await deployReceiptToken(lendingPool, dai);
+    await supplyLiquidity(lendingPool, dai, owner, liquidity);
+
+    // 1 WETH backs 1200 DAI, which is underwater once WETH drops to $1500.
+    const depositAmount = ethers.parseEther("1");
+    const borrowAmount = ethers.parseEther("1200");
+    await weth.mint(borrower.address, depositAmount);
+    await weth.connect(borrower).approve(lendingPool.target, depositAmount);
+    await lendingPool.connect(borrower).deposit(weth.target, depositAmount);
+    await lendingPool.connect(borrower).borrow(dai.target, borrowAmount);
+
+    await dai.mint(buyer.address, ethers.parseEther("10000"));
+    await dai.connect(buyer).approve(auctionManager.target, ethers.MaxUint256);
+
+    async function startAuction() {
+      await setPrice(wethFeed, ethers.parseEther("1500"));
+      await lendingPool.liquidateToAuction(
+        borrower.address,
+        weth.target,
+        dai.target
+      );
+      return auctionManager.dutchAuctions(0);
+    }
+
+    // Dutch auctions outlive the feeds' heartbeat; keep prices fresh so the
+    // pool can re-price reserves when proceeds come in.
+    async function advance(seconds: number) {
+      await increaseTime(seconds);
+      await refreshPrices(wethFeed, daiFeed);
+    }
+
+    return {
+      lendingPool,
+      loanManager,
+      auctionManager,
+      priceOracle,
+      weth,
+      dai,
+      wethFeed,
+      daiFeed,
+      liquidity,
+      depositAmount,
+      borrowAmount,
+      startAuction,
+      advance,
+      owner,
+      borrower,
+      buyer,
+    };
+  }
+
+  describe("Configuration", function () {
+    it("Should start with a 20% premium, a 50% floor and a six hour linear decay", async function () {
+      const { auctionManager } = await loadFixture(deployDutchAuctionFixture);
+      const config = await auctionManager.dutchAuctionConfig();
+      expect(config.startPremium).to.equal(2000n);
+      expect(config.floor).to.equal(5000n);
+      expect(config.curve).to.equal(LINEAR);
+      expect(config.decayPeriod).to.equal(6n * BigInt(HOUR));
+    });
+
+    it("Should let the pool owner change the config", async function () {
+      const { lendingPool, auctionManager } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      const config = {
+        startPremium: 1000n,
+        floor: 8000n,
+        curve: EXPONENTIAL,
+        decayPeriod: BigInt(HOUR),
+      };
+      await expect(lendingPool.setDutchAuctionConfig(config))
+        .to.emit(auctionManager, "DutchAuctionConfigUpdated")
+        .withArgs(1000n, 8000n, EXPONENTIAL, BigInt(HOUR));
+      expect((await auctionManager.dutchAuctionConfig()).curve).to.equal(
+        EXPONENTIAL
+      );
+    });
+
+    it("Should reject a zero floor, a floor above the start price or an empty decay period", async function () {
+      const { lendingPool } = await loadFixture(deployDutchAuctionFixture);
+      // Collateral would sell for nothing once the price decays.
+      await expect(
+        lendingPool.setDutchAuctionConfig({
+          startPremium: 1000n,
+          floor: 0n,
+          curve: LINEAR,
+          decayPeriod: BigInt(HOUR),
+        })
+      ).to.be.revertedWith("Invalid floor");
+      await expect(
+        lendingPool.setDutchAuctionConfig({
+          startPremium: 1000n,
+          floor: 11001n,
+          curve: LINEAR,
+          decayPeriod: BigInt(HOUR),
+        })
+      ).to.be.revertedWith("Invalid floor");
+      await expect(
+        lendingPool.setDutchAuctionConfig({
+          startPremium: 1000n,
+          floor: 5000n,
+          curve: LINEAR,
+          decayPeriod: 0n,
+        })
+      ).to.be.revertedWith("Invalid decay period");
+    });
+
+    it("Should only let the owner change the config", async function () {
+      const { lendingPool, auctionManager, owner, buyer } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      const config = {
+        startPremium: 1000n,
+        floor: 8000n,
+        curve: EXPONENTIAL,
+        decayPeriod: BigInt(HOUR),
+      };
+      await expect(lendingPool.connect(buyer).setDutchAuctionConfig(config))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(buyer.address, await lendingPool.RISK_MANAGER_ROLE());
+      await expect(auctionManager.setDutchAuctionConfig(config))
+        .to.be.revertedWithCustomError(
+          auctionManager,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(owner.address, await auctionManager.POOL_ROLE());
+    });
+  });
+
+  describe("Liquidation to auction", function () {
+    it("Should move the position's collateral and debt into an auction", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        depositAmount,
+        borrowAmount,
+        borrower,
+      } = await loadFixture(deployDutchAuctionFixture);
+      await setPrice(wethFeed, ethers.parseEther("1500"));
+
+      await expect(
+        lendingPool.liquidateToAuction(
+          borrower.address,
+          weth.target,
+          dai.target
+        )
+      )
+        .to.emit(lendingPool, "LiquidationToAuction")
+        .and.to.emit(auctionManager, "DutchAuctionCreated");
+
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.user).to.equal(borrower.address);
+      expect(auction.collateralRemaining).to.equal(depositAmount);
+      expect(auction.debtRemaining).to.be.closeTo(
+        borrowAmount,
+        ethers.parseEther("0.01")
+      );
+      expect(auction.debtRemaining).to.be.gt(borrowAmount);
+      expect(auction.referencePrice).to.equal(ethers.parseEther("1500"));
+
+      expect(await weth.balanceOf(auctionManager.target)).to.equal(
+        depositAmount
+      );
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(0n);
+      expect(
+        await loanManager.getLoanAmount(borrower.address, dai.target)
+      ).to.equal(0n);
+      // Only index rounding dust is left in the reserve's borrows.
+      expect(await loanManager.getTotalBorrows(dai.target)).to.be.lt(10000n);
+    });
+
+    it("Should only take on the debt the seized collateral is worth", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        auctionManager,
+        priceOracle,
+        weth,
+        dai,
+        wethFeed,
+        depositAmount,
+        borrowAmount,
+        borrower,
+      } = await loadFixture(deployDutchAuctionFixture);
+      // A second collateral of 1 wei, next to the 1 WETH backing the loan.
+      const link = await ethers.deployContract("Token", ["Chainlink", "LINK"]);
+      await lendingPool.whitelistToken(link.target);
+      const linkPrice = ethers.parseEther("10");
+      await deployPriceFeed(priceOracle, link.target, linkPrice);
+      await link.mint(borrower.address, 1n);
+      await link.connect(borrower).approve(lendingPool.target, 1n);
+      await lendingPool.connect(borrower).deposit(link.target, 1n);
+      await setPrice(wethFeed, ethers.parseEther("1700"));
+
+      // The borrower auctions the dust to get out of their debt.
+      await lendingPool
+        .connect(borrower)
+        .liquidateToAuction(borrower.address, link.target, dai.target);
+
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.collateralRemaining).to.equal(1n);
+      expect(auction.debtRemaining).to.equal(
+        linkPrice / ethers.parseEther("1")
+      );
+      const debt =
+        (await loanManager.getLoanAmount(borrower.address, dai.target)) +
+        (await loanManager.calculateInterest(borrower.address, dai.target));
+      expect(debt).to.be.closeTo(
+        borrowAmount - auction.debtRemaining,
+        ethers.parseEther("0.01")
+      );
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(depositAmount);
+      await expect(
+        lendingPool.connect(borrower).withdraw(weth.target, depositAmount)
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+      expect(await lendingPool.badDebt(dai.target)).to.equal(0n);
+    });
+
+    it("Should write off debt no collateral is left to back", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+      } = await loadFixture(deployDutchAuctionFixture);
+      await setPrice(wethFeed, ethers.parseEther("1000"));
+
+      await expect(
+        lendingPool.liquidateToAuction(
+          borrower.address,
+          weth.target,
+          dai.target
+        )
+      ).to.emit(lendingPool, "BadDebtRecorded");
+
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.debtRemaining).to.equal(ethers.parseEther("1000"));
+      expect(await lendingPool.badDebt(dai.target)).to.be.closeTo(
+        borrowAmount - auction.debtRemaining,
+        ethers.parseEther("0.01")
+      );
+      expect(
+        await loanManager.getLoanAmount(borrower.address, dai.target)
+      ).to.equal(0n);
+      expect(await loanManager.getDebtTokens(borrower.address)).to.be.empty;
+      expect(await weth.balanceOf(auctionManager.target)).to.equal(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should not auction healthy positions", async function () {
+      const { lendingPool, weth, dai, borrower } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await expect(
+        lendingPool.liquidateToAuction(
+          borrower.address,
+          weth.target,
+          dai.target
+        )
+      ).to.be.revertedWith("not enough collateral to cover loan");
+    });
+
+    it("Should only accept proceeds from the auction manager", async function () {
+      const { lendingPool, dai, buyer } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await expect(
+        lendingPool.connect(buyer).onAuctionProceeds(dai.target, 1n)
+      ).to.be.revertedWith("Caller is not the auction manager");
+    });
+
+    it("Should only let the owner create auctions", async function () {
+      const { auctionManager, weth, dai, buyer } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await expect(
+        auctionManager
+          .connect(buyer)
+          .createDutchAuction(
+            buyer.address,
+            weth.target,
+            dai.target,
+            1n,
+            1n,
+            1n
+          )
+      )
+        .to.be.revertedWithCustomError(
+          auctionManager,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(buyer.address, await auctionManager.POOL_ROLE());
+    });
+  });
+
+  describe("Price curve", function () {
+    it("Should fall linearly from the premium to the floor", async function () {
+      const { auctionManager, startAuction } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      const auction = await startAuction();
+
+      expect(await auctionManager.getDutchAuctionPrice(0)).to.equal(
+        ethers.parseEther("1800")
+      );
+
+      for (const step of [HOUR, HOUR / 2, 2 * HOUR, HOUR, 90 * 60]) {
+        await increaseTime(step);
+        const price = await auctionManager.getDutchAuctionPrice(0);
+        expect(price).to.equal(expectedPrice(auction, await latestTimestamp()));
+        expect(price).to.be.lt(ethers.parseEther("1800"));
+        expect(price).to.be.gte(ethers.parseEther("750"));
+      }
+
+      // Six hours in, the price rests on the floor for good.
+      await increaseTime(HOUR);
+      expect(await auctionManager.getDutchAuctionPrice(0)).to.equal(
+        ethers.parseEther("750")
+      );
+      await increaseTime(30 * 24 * HOUR);
+      expect(await auctionManager.getDutchAuctionPrice(0)).to.equal(
+        ethers.parseEther("750")
+      );
+    });
+
+    it("Should halve every period on the exponential curve", async function () {
+      const { lendingPool, auctionManager, startAuction } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await lendingPool.setDutchAuctionConfig({
+        startPremium: 2000n,
+        floor: 1000n,
+        curve: EXPONENTIAL,
+        decayPeriod: BigInt(HOUR),
+      });
+      const auction = await startAuction();
+
+      await increaseTime(HOUR / 2);
+      let price = await auctionManager.getDutchAuctionPrice(0);
+      expect(price).to.equal(expectedPrice(auction, await latestTimestamp()));
+      expect(price).to.be.closeTo(
+        ethers.parseEther("1350"),
+        ethers.parseEther("1")
+      );
+
+      await increaseTime(HOUR / 2);
+      price = await auctionManager.getDutchAuctionPrice(0);
+      expect(price).to.equal(expectedPrice(auction, await latestTimestamp()));
+      expect(price).to.be.closeTo(
+        ethers.parseEther("900"),
+        ethers.parseEther("1")
+      );
+
+      await increaseTime(HOUR);
+      price = await auctionManager.getDutchAuctionPrice(0);
+      expect(price).to.equal(expectedPrice(auction, await latestTimestamp()));
+      expect(price).to.be.closeTo(
+        ethers.parseEther("450"),
+        ethers.parseEther("1")
+      );
+
+      await increaseTime(3 * HOUR);
+      expect(await auctionManager.getDutchAuctionPrice(0)).to.equal(
+        ethers.parseEther("150")
+      );
+    });
+
+    it("Should keep the config an auction started with", async function () {
+      const { lendingPool, auctionManager, startAuction } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      const auction = await startAuction();
+      await lendingPool.setDutchAuctionConfig({
+        startPremium: 0n,
+        floor: 100n,
+        curve: EXPONENTIAL,
+        decayPeriod: 60n,
+      });
+
+      await increaseTime(HOUR);
+      expect(await auctionManager.getDutchAuctionPrice(0)).to.equal(
+        expectedPrice(auction, await latestTimestamp())
+      );
+      expect((await auctionManager.dutchAuctions(0)).config.curve).to.equal(
+        LINEAR
+      );
+    });
+  });
+
+  describe("Buying", function () {
+    it("Should sell partial lots and return proceeds to the pool", async function () {
+      const {
+        lendingPool,
+        auctionManager,
+        weth,
+        dai,
+        startAuction,
+        advance,
+        buyer,
+      } = await loadFixture(deployDutchAuctionFixture);
+      await startAuction();
+      const liquidityBefore = await lendingPool.availableLiquidity(dai.target);
+
+      let sold = 0n;
+      let raised = 0n;
+      for (const lot of ["0.25", "0.25"]) {
+        await advance(HOUR);
+        const amount = ethers.parseEther(lot);
+        const tx = await auctionManager
+          .connect(buyer)
+          .buy(0, amount, ethers.MaxUint256);
+        const price = expectedPrice(
+          await auctionManager.dutchAuctions(0),
+          await latestTimestamp()
+        );
+        const cost =
+          (amount * price + ethers.parseEther("1") - 1n) / 10n ** 18n;
+        await expect(tx)
+          .to.emit(auctionManager, "DutchAuctionPurchase")
+          .withArgs(0, buyer.address, amount, cost)
+          .and.to.emit(lendingPool, "AuctionProceeds")
+          .withArgs(dai.target, cost);
+        sold += amount;
+        raised += cost;
+      }
+
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.collateralRemaining).to.equal(ethers.parseEther("0.5"));
+      expect(await weth.balanceOf(buyer.address)).to.equal(sold);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        liquidityBefore + raised
+      );
+    });
+
+    it("Should not sell above the buyer's price limit", async function () {
+      const { auctionManager, startAuction, buyer } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await startAuction();
+      await expect(
+        auctionManager
+          .connect(buyer)
+          .buy(0, ethers.parseEther("1"), ethers.parseEther("1000"))
+      ).to.be.revertedWith("Price above limit");
+    });
+
+    it("Should return leftover collateral once the debt is covered", async function () {
+      const { auctionManager, weth, dai, startAuction, borrower, buyer } =
+        await loadFixture(deployDutchAuctionFixture);
+      const auction = await startAuction();
+      const daiBefore = await dai.balanceOf(buyer.address);
+
+      // At ~$1800 the debt is covered by two thirds of the collateral.
+      await expect(
+        auctionManager
+          .connect(buyer)
+          .buy(0, ethers.parseEther("1"), ethers.MaxUint256)
+      ).to.emit(auctionManager, "DutchAuctionClosed");
+
+      const bought = await weth.balanceOf(buyer.address);
+      expect(daiBefore - (await dai.balanceOf(buyer.address))).to.equal(
+        auction.debtRemaining
+      );
+      expect(bought).to.be.closeTo(
+        ethers.parseEther("0.667"),
+        ethers.parseEther("0.001")
+      );
+      expect(await weth.balanceOf(borrower.address)).to.equal(
+        ethers.parseEther("1") - bought
+      );
+      expect(await weth.balanceOf(auctionManager.target)).to.equal(0n);
+      await expect(
+        auctionManager.connect(buyer).buy(0, 1n, ethers.MaxUint256)
+      ).to.be.revertedWith("Auction not active");
+    });
+
+    it("Should close once all collateral is sold even if debt remains", async function () {
+      const {
+        lendingPool,
+        auctionManager,
+        startAuction,
+        advance,
+        borrower,
+        weth,
+        dai,
+        buyer,
+      } = await loadFixture(deployDutchAuctionFixture);
+      await startAuction();
+      await advance(6 * HOUR);
+
+      // 1 WETH at the $750 floor can't cover ~1200 DAI.
+      await expect(
+        auctionManager
+          .connect(buyer)
+          .buy(0, ethers.parseEther("1"), ethers.MaxUint256)
+      )
+        .to.emit(auctionManager, "DutchAuctionClosed")
+        .withArgs(0, 0n)
+        .and.to.emit(lendingPool, "BadDebtRecorded");
+
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.collateralRemaining).to.equal(0n);
+      expect(auction.debtRemaining).to.be.closeTo(
+        ethers.parseEther("450"),
+        ethers.parseEther("0.01")
+      );
+      expect(await lendingPool.badDebt(dai.target)).to.equal(
+        auction.debtRemaining
+      );
+      expect(await weth.balanceOf(borrower.address)).to.equal(0n);
+    });
+
+    it("Should not record bad debt once the debt is covered", async function () {
+      const { lendingPool, auctionManager, startAuction, dai, buyer } =
+        await loadFixture(deployDutchAuctionFixture);
+      await startAuction();
+
+      await expect(
+        auctionManager
+          .connect(buyer)
+          .buy(0, ethers.parseEther("1"), ethers.MaxUint256)
+      ).not.to.emit(lendingPool, "BadDebtRecorded");
+      expect(await lendingPool.badDebt(dai.target)).to.equal(0n);
+    });
+  });
+
+  describe("Closing", function () {
+    it("Should let the admin close an auction stuck at its floor", async function () {
+      const {
+        lendingPool,
+        auctionManager,
+        startAuction,
+        advance,
+        weth,
+        dai,
+        owner,
+        borrower,
+        buyer,
+      } = await loadFixture(deployDutchAuctionFixture);
+      const auction = await startAuction();
+      await advance(6 * HOUR);
+
+      // Nobody buys at $750, so the whole lot goes to the admin and all
+      // of the auction's debt becomes bad debt.
+      await expect(auctionManager.closeDutchAuction(0, owner.address))
+        .to.emit(auctionManager, "DutchAuctionUnsold")
+        .withArgs(0, owner.address, auction.collateralRemaining)
+        .and.to.emit(auctionManager, "DutchAuctionClosed")
+        .withArgs(0, 0n)
+        .and.to.emit(lendingPool, "BadDebtRecorded")
+        .withArgs(borrower.address, dai.target, auction.debtRemaining);
+
+      expect(await weth.balanceOf(owner.address)).to.equal(
+        auction.collateralRemaining
+      );
+      expect(await weth.balanceOf(auctionManager.target)).to.equal(0n);
+      expect(await lendingPool.badDebt(dai.target)).to.equal(
+        auction.debtRemaining
+      );
+      await expect(
+        auctionManager.connect(buyer).buy(0, 1n, ethers.MaxUint256)
+      ).to.be.revertedWith("Auction not active");
+    });
+
+    it("Should only close auctions that reached their floor", async function () {
+      const { auctionManager, startAuction, advance, owner } =
+        await loadFixture(deployDutchAuctionFixture);
+      await startAuction();
+      await advance(6 * HOUR - 60);
+
+      await expect(
+        auctionManager.closeDutchAuction(0, owner.address)
+      ).to.be.revertedWith("Auction above floor");
+    });
+
+    it("Should only let the admin close auctions", async function () {
+      const { auctionManager, startAuction, advance, buyer } =
+        await loadFixture(deployDutchAuctionFixture);
+      await startAuction();
+      await advance(6 * HOUR);
+
+      await expect(
+        auctionManager.connect(buyer).closeDutchAuction(0, buyer.address)
+      )
+        .to.be.revertedWithCustomError(
+          auctionManager,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(buyer.address, await auctionManager.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should only accept shortfalls from the auction manager", async function () {
+      const { lendingPool, dai, borrower, buyer } = await loadFixture(
+        deployDutchAuctionFixture
+      );
+      await expect(
+        lendingPool
+          .connect(buyer)
+          .onAuctionShortfall(borrower.address, dai.target, 1n)
+      ).to.be.revertedWith("Caller is not the auction manager");
+    });
+  });
+});
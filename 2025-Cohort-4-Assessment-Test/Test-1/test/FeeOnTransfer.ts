@@ -0,0 +1,461 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { LendingPool, LoanManager, Token } from "../typechain-types";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+  setPrice,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const THIRTY_DAYS = 30 * 24 * 60 * 60;
+
+// Every case runs against plain tokens and against tokens charging the 8%
+// transfer fee the README describes, paid to the auction manager.
+const TOKEN_KINDS = [
+  { name: "plain tokens", fee: 0n },
+  { name: "8% fee-on-transfer tokens", fee: 800n },
+];
+
+for (const { name, fee } of TOKEN_KINDS) {
+  const net = (amount: bigint) => amount - (amount * fee) / 10000n;
+  // Smallest amount to send so that at most `amount` arrives.
+  const gross = (amount: bigint) => (amount * 10000n) / (10000n - fee);
+
+  describe(`FeeOnTransfer with ${name}`, function () {
+    async function deployFeeFixture() {
+      const [owner, lender, borrower, liquidator] = await ethers.getSigners();
+
+      const priceOracle = await deployPriceOracle();
+      const LendingPool = await ethers.getContractFactory("LendingPool");
+      const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+      const loanManager = await ethers.getContractAt(
+        "LoanManager",
+        await lendingPool.loanManager()
+      );
+      const auctionManager = await ethers.getContractAt(
+        "AuctionManager",
+        await lendingPool.auctionManager()
+      );
+
+      async function deployToken(tokenName: string, symbol: string) {
+        const token: Token =
+          fee === 0n
+            ? await ethers.deployContract("Token", [tokenName, symbol])
+            : await ethers.deployContract("FeeOnTransferToken", [
+                tokenName,
+                symbol,
+                fee,
+                auctionManager.target,
+              ]);
+        await lendingPool.whitelistToken(token.target);
+        return token;
+      }
+      const weth = await deployToken("Wrapped Ether", "WETH");
+      const dai = await deployToken("Dai Stablecoin", "DAI");
+
+      const wethFeed = await deployPriceFeed(
+        priceOracle,
+        weth.target,
+        ethers.parseEther("2000")
+      );
+      const daiFeed = await deployPriceFeed(
+        priceOracle,
+        dai.target,
+        ethers.parseEther("1")
+      );
+      const receiptToken = await deployReceiptToken(lendingPool, dai);
+
+      for (const signer of [lender, borrower, liquidator]) {
+        await weth
+          .connect(signer)
+          .approve(lendingPool.target, ethers.MaxUint256);
+        await dai
+          .connect(signer)
+          .approve(lendingPool.target, ethers.MaxUint256);
+        await dai
+          .connect(signer)
+          .approve(auctionManager.target, ethers.MaxUint256);
+      }
+
+      return {
+        lendingPool,
+        loanManager,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        daiFeed,
+        receiptToken,
+        owner,
+        lender,
+        borrower,
+        liquidator,
+      };
+    }
+
+    // Supplies 10000 DAI and borrows 1000 DAI against 1 WETH.
+    async function deployLoanFixture() {
+      const fixture = await deployFeeFixture();
+      const { lendingPool, weth, dai, lender, borrower } = fixture;
+
+      await supplyLiquidity(
+        lendingPool,
+        dai,
+        lender,
+        ethers.parseEther("10000")
+      );
+      await weth.mint(borrower.address, ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .deposit(weth.target, ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+
+      return fixture;
+    }
+
+    async function debtOf(
+      loanManager: LoanManager,
+      user: string,
+      token: Token
+    ) {
+      return (
+        (await loanManager.getLoanAmount(user, token.target)) +
+        (await loanManager.calculateInterest(user, token.target))
+      );
+    }
+
+    // Every token the pool holds is either lendable liquidity, someone's
+    // collateral or flash loan fees; nominal amounts would break this for
+    // fee-charging tokens.
+    async function expectBalancesAccounted(
+      lendingPool: LendingPool,
+      loanManager: LoanManager,
+      token: Token,
+      users: string[]
+    ) {
+      let collateral = 0n;
+      for (const user of users) {
+        collateral += await loanManager.getCollateralAmount(user, token.target);
+      }
+      expect(await token.balanceOf(lendingPool.target)).to.equal(
+        (await lendingPool.availableLiquidity(token.target)) + collateral
+      );
+    }
+
+    it("Should credit supplies with what arrived", async function () {
+      const { lendingPool, auctionManager, dai, receiptToken, lender } =
+        await loadFixture(deployFeeFixture);
+      const amount = ethers.parseEther("1000");
+      await dai.mint(lender.address, amount);
+
+      await expect(lendingPool.connect(lender).supply(dai.target, amount))
+        .to.emit(lendingPool, "Supply")
+        .withArgs(lender.address, dai.target, net(amount), net(amount));
+
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        net(amount)
+      );
+      expect(await receiptToken.balanceOf(lender.address)).to.equal(
+        net(amount)
+      );
+      expect(await dai.balanceOf(auctionManager.target)).to.equal(
+        amount - net(amount)
+      );
+    });
+
+    it("Should credit collateral with what arrived", async function () {
+      const { lendingPool, loanManager, weth, borrower } = await loadFixture(
+        deployFeeFixture
+      );
+      const amount = ethers.parseEther("1");
+      await weth.mint(borrower.address, amount);
+
+      await expect(lendingPool.connect(borrower).deposit(weth.target, amount))
+        .to.emit(lendingPool, "Deposit")
+        .withArgs(borrower.address, weth.target, net(amount));
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(net(amount));
+    });
+
+    it("Should charge the token's own fee on borrowed funds", async function () {
+      const { lendingPool, loanManager, auctionManager, dai, borrower } =
+        await loadFixture(deployLoanFixture);
+      const borrowAmount = ethers.parseEther("1000");
+
+      expect(await dai.balanceOf(borrower.address)).to.equal(net(borrowAmount));
+      expect(
+        await loanManager.getLoanAmount(borrower.address, dai.target)
+      ).to.equal(borrowAmount);
+      expect(await dai.balanceOf(auctionManager.target)).to.equal(
+        ethers.parseEther("10000") -
+          net(ethers.parseEther("10000")) +
+          borrowAmount -
+          net(borrowAmount)
+      );
+    });
+
+    it("Should run the whole lifecycle with every balance accounted for", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        daiFeed,
+        receiptToken,
+        lender,
+        borrower,
+      } = await loadFixture(deployLoanFixture);
+      const users = [lender.address, borrower.address];
+      await expectBalancesAccounted(lendingPool, loanManager, dai, users);
+      await expectBalancesAccounted(lendingPool, loanManager, weth, users);
+
+      await time.increase(THIRTY_DAYS);
+      await refreshPrices(wethFeed, daiFeed);
+
+      // Repay everything owed so far; only the interest of the next block
+      // is left over.
+      const due = await debtOf(loanManager, borrower.address, dai);
+      await dai.mint(borrower.address, gross(due));
+      const liquidityBefore = await lendingPool.availableLiquidity(dai.target);
+      await lendingPool.connect(borrower).repay(dai.target, gross(due));
+      const repaid =
+        (await lendingPool.availableLiquidity(dai.target)) - liquidityBefore;
+      expect(repaid).to.be.lte(due);
+      expect(repaid).to.be.closeTo(due, 1n);
+      expect(await debtOf(loanManager, borrower.address, dai)).to.be.lt(
+        ethers.parseEther("0.0001")
+      );
+      await expectBalancesAccounted(lendingPool, loanManager, dai, users);
+
+      const collateral = await loanManager.getCollateralAmount(
+        borrower.address,
+        weth.target
+      );
+      const kept = ethers.parseEther("0.001");
+      await lendingPool
+        .connect(borrower)
+        .withdraw(weth.target, collateral - kept);
+      expect(await weth.balanceOf(borrower.address)).to.equal(
+        net(collateral - kept)
+      );
+      await expectBalancesAccounted(lendingPool, loanManager, weth, users);
+
+      const shares = await receiptToken.balanceOf(lender.address);
+      await lendingPool.connect(lender).redeem(dai.target, shares);
+      expect(await receiptToken.totalSupply()).to.equal(0n);
+      await expectBalancesAccounted(lendingPool, loanManager, dai, users);
+      // What is left covers the reserve factor's cut of the interest and the
+      // borrower's leftover debt.
+      expect(await lendingPool.availableLiquidity(dai.target)).to.be.lt(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should only count received tokens toward liquidations", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        lender,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLoanFixture);
+      await setPrice(wethFeed, ethers.parseEther("1400"));
+      const repayAmount = ethers.parseEther("100");
+      await dai.mint(liquidator.address, repayAmount);
+      const debtBefore = await debtOf(loanManager, borrower.address, dai);
+
+      const tx = await lendingPool
+        .connect(liquidator)
+        .liquidate(borrower.address, weth.target, dai.target, repayAmount);
+      // Priced for the full repayment, then scaled down to what arrived.
+      const seized =
+        (((repayAmount * ethers.parseEther("1")) / ethers.parseEther("1400")) *
+          net(repayAmount)) /
+        repayAmount;
+      await expect(tx)
+        .to.emit(lendingPool, "Liquidation")
+        .withArgs(
+          borrower.address,
+          weth.target,
+          dai.target,
+          liquidator.address,
+          net(repayAmount),
+          seized
+        );
+
+      expect(await debtOf(loanManager, borrower.address, dai)).to.be.closeTo(
+        debtBefore - net(repayAmount),
+        ethers.parseEther("0.001")
+      );
+      expect(await weth.balanceOf(liquidator.address)).to.equal(net(seized));
+      const users = [lender.address, borrower.address];
+      await expectBalancesAccounted(lendingPool, loanManager, dai, users);
+      await expectBalancesAccounted(lendingPool, loanManager, weth, users);
+    });
+
+    it("Should auction the collateral that reached the auction manager", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        lender,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLoanFixture);
+      await setPrice(wethFeed, ethers.parseEther("1400"));
+      await lendingPool.liquidateToAuction(
+        borrower.address,
+        weth.target,
+        dai.target
+      );
+      const auction = await auctionManager.dutchAuctions(0);
+      expect(auction.collateralRemaining).to.equal(net(ethers.parseEther("1")));
+
+      await dai.mint(liquidator.address, ethers.parseEther("1000"));
+      const liquidityBefore = await lendingPool.availableLiquidity(dai.target);
+      const amount = ethers.parseEther("0.1");
+      const tx = await auctionManager
+        .connect(liquidator)
+        .buy(0, amount, ethers.MaxUint256);
+      const cost = (await auctionManager.dutchAuctions(0)).debtRemaining;
+      await expect(tx)
+        .to.emit(lendingPool, "AuctionProceeds")
+        .withArgs(dai.target, net(auction.debtRemaining - cost));
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        liquidityBefore + net(auction.debtRemaining - cost)
+      );
+      // What the transfer fee took off the payment is bad debt.
+      expect(await lendingPool.badDebt(dai.target)).to.equal(
+        auction.debtRemaining - cost - net(auction.debtRemaining - cost)
+      );
+      await expectBalancesAccounted(lendingPool, loanManager, dai, [
+        lender.address,
+        borrower.address,
+      ]);
+    });
+
+    it("Should keep flash loan fees only when they arrive", async function () {
+      const { lendingPool, dai, lender } = await loadFixture(deployFeeFixture);
+      await supplyLiquidity(
+        lendingPool,
+        dai,
+        lender,
+        ethers.parseEther("10000")
+      );
+      const borrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      const amount = ethers.parseEther("1000");
+      const flashFee = await lendingPool.flashFee(dai.target, amount);
+      // The repayment is charged on the way back too, so the borrower sends
+      // enough that `amount + fee` arrives, rounding up.
+      const repayment =
+        ((amount + flashFee) * 10000n + 10000n - fee - 1n) / (10000n - fee);
+      if (fee > 0n) await borrower.setRepayment(repayment);
+      // Cover the fee plus whatever the token skims off the loan itself.
+      await dai.mint(borrower.target, repayment - net(amount));
+
+      await expect(borrower.borrow(dai.target, amount, "0x"))
+        .to.emit(lendingPool, "FeesCollected")
+        .withArgs(dai.target, net(repayment) - amount);
+      // At least the fee, credited to the reserve's lenders.
+      expect(net(repayment) - amount).to.be.gte(flashFee);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        net(ethers.parseEther("10000")) + net(repayment) - amount
+      );
+    });
+
+    it("Should only accept repayments that arrive in full", async function () {
+      const { lendingPool, dai, lender } = await loadFixture(deployFeeFixture);
+      await supplyLiquidity(
+        lendingPool,
+        dai,
+        lender,
+        ethers.parseEther("10000")
+      );
+      const borrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      const amount = ethers.parseEther("1000");
+      const flashFee = await lendingPool.flashFee(dai.target, amount);
+      await dai.mint(borrower.target, amount + flashFee);
+
+      // Sending `amount + fee` loses the transfer fee on the way back.
+      await borrower.setRepayment(amount + flashFee);
+      if (fee === 0n) {
+        await borrower.borrow(dai.target, amount, "0x");
+      } else {
+        await expect(borrower.borrow(dai.target, amount, "0x")).to.be.reverted;
+      }
+    });
+  });
+}
+
+describe("FeeOnTransferToken", function () {
+  async function deployTokenFixture() {
+    const [owner, user1, user2, recipient] = await ethers.getSigners();
+    const token = await ethers.deployContract("FeeOnTransferToken", [
+      "Fee Token",
+      "FEE",
+      800n,
+      recipient.address,
+    ]);
+    return { token, owner, user1, user2, recipient };
+  }
+
+  it("Should send the fee to the recipient on transfers", async function () {
+    const { token, user1, user2, recipient } = await loadFixture(
+      deployTokenFixture
+    );
+    const amount = ethers.parseEther("100");
+    await token.mint(user1.address, amount);
+
+    await token.connect(user1).transfer(user2.address, amount);
+    expect(await token.balanceOf(user2.address)).to.equal(
+      ethers.parseEther("92")
+    );
+    expect(await token.balanceOf(recipient.address)).to.equal(
+      ethers.parseEther("8")
+    );
+  });
+
+  it("Should not charge mints", async function () {
+    const { token, user1, recipient } = await loadFixture(deployTokenFixture);
+    await token.mint(user1.address, 100n);
+    expect(await token.balanceOf(user1.address)).to.equal(100n);
+    expect(await token.balanceOf(recipient.address)).to.equal(0n);
+  });
+
+  it("Should let the owner change the fee and recipient", async function () {
+    const { token, user1, user2 } = await loadFixture(deployTokenFixture);
+    await expect(token.setFee(0n)).to.emit(token, "FeeUpdated").withArgs(0n);
+    await expect(token.setFeeRecipient(user2.address))
+      .to.emit(token, "FeeRecipientUpdated")
+      .withArgs(user2.address);
+
+    await expect(token.setFee(10001n)).to.be.revertedWith("Invalid fee");
+    await expect(token.setFeeRecipient(ethers.ZeroAddress)).to.be.revertedWith(
+      "Invalid fee recipient"
+    );
+    await expect(token.connect(user1).setFee(0n))
+      .to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount")
+      .withArgs(user1.address);
+  });
+});
@@ -0,0 +1,219 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployPriceOracle } from "./helpers/oracle";
+
+describe("FlashLoan", function () {
+  async function deployFlashLoanFixture() {
+    const [owner, user1] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const Token = await ethers.getContractFactory("Token");
+    const token = await Token.deploy("Dai Stablecoin", "DAI");
+    await lendingPool.whitelistToken(token.target);
+
+    const liquidity = ethers.parseEther("100000");
+    await token.mint(lendingPool.target, liquidity);
+
+    const borrower = await ethers.deployContract("FlashBorrower", [
+      lendingPool.target,
+    ]);
+    const underpayingBorrower = await ethers.deployContract(
+      "UnderpayingFlashBorrower"
+    );
+    const reentrantBorrower = await ethers.deployContract(
+      "ReentrantFlashBorrower",
+      [lendingPool.target]
+    );
+
+    return {
+      lendingPool,
+      token,
+      liquidity,
+      borrower,
+      underpayingBorrower,
+      reentrantBorrower,
+      owner,
+      user1,
+    };
+  }
+
+  describe("Views", function () {
+    it("Should report the pool balance as the max flash loan", async function () {
+      const { lendingPool, token, liquidity } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      expect(await lendingPool.maxFlashLoan(token.target)).to.equal(liquidity);
+    });
+
+    it("Should report zero max flash loan for non-whitelisted tokens", async function () {
+      const { lendingPool } = await loadFixture(deployFlashLoanFixture);
+      const other = await ethers.deployContract("Token", ["Other", "OTH"]);
+      await other.mint(lendingPool.target, ethers.parseEther("1"));
+      expect(await lendingPool.maxFlashLoan(other.target)).to.equal(0);
+    });
+
+    it("Should charge a 0.09% fee", async function () {
+      const { lendingPool, token } = await loadFixture(deployFlashLoanFixture);
+      expect(
+        await lendingPool.flashFee(token.target, ethers.parseEther("10000"))
+      ).to.equal(ethers.parseEther("9"));
+    });
+
+    it("Should not quote fees for non-whitelisted tokens", async function () {
+      const { lendingPool } = await loadFixture(deployFlashLoanFixture);
+      const other = await ethers.deployContract("Token", ["Other", "OTH"]);
+      await expect(
+        lendingPool.flashFee(other.target, ethers.parseEther("1"))
+      ).to.be.revertedWith("Token not whitelisted");
+    });
+  });
+
+  describe("Honest borrower", function () {
+    it("Should lend and collect principal plus fee", async function () {
+      const { lendingPool, token, liquidity, borrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      const amount = ethers.parseEther("10000");
+      const fee = ethers.parseEther("9");
+      await token.mint(borrower.target, fee);
+
+      await expect(borrower.borrow(token.target, amount, "0x1234"))
+        .to.emit(lendingPool, "FlashLoan")
+        .withArgs(borrower.target, token.target, amount);
+
+      expect(await token.balanceOf(lendingPool.target)).to.equal(
+        liquidity + fee
+      );
+      expect(await token.balanceOf(borrower.target)).to.equal(0);
+      // Without a rewards distributor the fee stays with lenders.
+      expect(await lendingPool.availableLiquidity(token.target)).to.equal(fee);
+    });
+
+    it("Should pass initiator, fee and data to the callback", async function () {
+      const { lendingPool, token, borrower, user1 } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      const amount = ethers.parseEther("5000");
+      const fee = await lendingPool.flashFee(token.target, amount);
+      await token.mint(borrower.target, fee);
+
+      await lendingPool
+        .connect(user1)
+        .flashLoan(borrower.target, token.target, amount, "0xdeadbeef");
+
+      expect(await borrower.lastInitiator()).to.equal(user1.address);
+      expect(await borrower.lastAmount()).to.equal(amount);
+      expect(await borrower.lastFee()).to.equal(fee);
+      expect(await borrower.lastData()).to.equal("0xdeadbeef");
+    });
+
+    it("Should accumulate fees across loans", async function () {
+      const { lendingPool, token, borrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      const amount = ethers.parseEther("10000");
+      await token.mint(borrower.target, ethers.parseEther("18"));
+
+      await borrower.borrow(token.target, amount, "0x");
+      await borrower.borrow(token.target, amount, "0x");
+
+      expect(await lendingPool.availableLiquidity(token.target)).to.equal(
+        ethers.parseEther("18")
+      );
+    });
+
+    it("Should revert when the borrower cannot pay the fee", async function () {
+      const { token, borrower } = await loadFixture(deployFlashLoanFixture);
+
+      await expect(
+        borrower.borrow(token.target, ethers.parseEther("10000"), "0x")
+      ).to.be.revertedWithCustomError(token, "ERC20InsufficientBalance");
+    });
+
+    it("Should not lend more than the pool holds", async function () {
+      const { token, liquidity, borrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+
+      await expect(
+        borrower.borrow(token.target, liquidity + 1n, "0x")
+      ).to.be.revertedWith("Insufficient balance");
+    });
+
+    it("Should not lend non-whitelisted tokens", async function () {
+      const { lendingPool, borrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      const other = await ethers.deployContract("Token", ["Other", "OTH"]);
+      await other.mint(lendingPool.target, ethers.parseEther("1"));
+
+      await expect(
+        borrower.borrow(other.target, ethers.parseEther("1"), "0x")
+      ).to.be.revertedWith("Token not whitelisted");
+    });
+  });
+
+  describe("Underpaying borrower", function () {
+    it("Should revert when only the principal is returned", async function () {
+      const { lendingPool, token, underpayingBorrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      await token.mint(underpayingBorrower.target, ethers.parseEther("9"));
+
+      await expect(
+        lendingPool.flashLoan(
+          underpayingBorrower.target,
+          token.target,
+          ethers.parseEther("10000"),
+          "0x"
+        )
+      ).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+      expect(await lendingPool.availableLiquidity(token.target)).to.equal(0);
+    });
+  });
+
+  describe("Reentrant borrower", function () {
+    it("Should block nested flash loans", async function () {
+      const { lendingPool, token, reentrantBorrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      await token.mint(reentrantBorrower.target, ethers.parseEther("18"));
+
+      await expect(
+        lendingPool.flashLoan(
+          reentrantBorrower.target,
+          token.target,
+          ethers.parseEther("10000"),
+          "0x"
+        )
+      ).to.be.revertedWithCustomError(
+        lendingPool,
+        "ReentrancyGuardReentrantCall"
+      );
+    });
+
+    it("Should block depositing borrowed funds from the callback", async function () {
+      const { lendingPool, token, reentrantBorrower } = await loadFixture(
+        deployFlashLoanFixture
+      );
+      await token.mint(reentrantBorrower.target, ethers.parseEther("9"));
+      await reentrantBorrower.setAttack(1);
+
+      await expect(
+        lendingPool.flashLoan(
+          reentrantBorrower.target,
+          token.target,
+          ethers.parseEther("10000"),
+          "0x"
+        )
+      ).to.be.revertedWithCustomError(
+        lendingPool,
+        "ReentrancyGuardReentrantCall"
+      );
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import {
+  loadFixture,
+  takeSnapshot,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import {
+  Indexer,
+  Store,
+  auctionOutcomes,
+  createApiServer,
+  protocolHistory,
+  userTimeline,
+} from "../indexer";
+import { refreshPrices, setPrice } from "./helpers/oracle";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+describe("Indexer", function () {
+  // 1 WETH at $2000 backing 1000 DAI.
+  async function deployIndexerFixture() {
+    const [deployer, user, buyer] = await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      deployment.loanManager.target
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      deployment.auctionManager.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const WETH = await ethers.getContractAt("Token", deployment.WETH.target);
+    const DAI = await ethers.getContractAt("Token", deployment.DAI.target);
+    const LINK = await ethers.getContractAt("Token", deployment.LINK.target);
+    const feedOf = async (token: typeof WETH) =>
+      ethers.getContractAt(
+        "MockAggregator",
+        (await priceOracle.feeds(token.target)).aggregator
+      );
+    const feeds = [await feedOf(WETH), await feedOf(DAI), await feedOf(LINK)];
+
+    await WETH.mint(user.address, ethers.parseEther("10"));
+    await DAI.mint(user.address, ethers.parseEther("10000"));
+    await DAI.mint(buyer.address, ethers.parseEther("10000"));
+    await WETH.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+    await DAI.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+    await DAI.connect(buyer).approve(auctionManager.target, ethers.MaxUint256);
+
+    await lendingPool
+      .connect(user)
+      .deposit(WETH.target, ethers.parseEther("1"));
+    await lendingPool
+      .connect(user)
+      .borrow(DAI.target, ethers.parseEther("1000"));
+
+    const store = await Store.open();
+    const indexer = await Indexer.create(lendingPool, store);
+
+    return {
+      indexer,
+      store,
+      lendingPool,
+      loanManager,
+      auctionManager,
+      WETH,
+      DAI,
+      feeds,
+      deployer,
+      user,
+      buyer,
+    };
+  }
+
+  describe("Sync", function () {
+    it("Should index up to the chain head", async function () {
+      const { indexer, store } = await loadFixture(deployIndexerFixture);
+      const report = await indexer.sync();
+      const head = await ethers.provider.getBlock("latest");
+
+      expect(report.fromBlock).to.equal(0);
+      expect(report.toBlock).to.equal(head!.number);
+      expect(report.reorgDepth).to.equal(0);
+      expect(store.checkpoint()).to.deep.equal({
+        blockNumber: head!.number,
+        blockHash: head!.hash,
+      });
+      expect(report.events).to.equal(store.events().length);
+
+      const again = await indexer.sync();
+      expect(again.fromBlock).to.equal(head!.number + 1);
+      expect(again.events).to.equal(0);
+    });
+
+    it("Should build a user's timeline with the interest charged", async function () {
+      const { indexer, store, lendingPool, loanManager, DAI, feeds, user } =
+        await loadFixture(deployIndexerFixture);
+      await time.increase(30 * 24 * 60 * 60);
+      await refreshPrices(...feeds);
+      await lendingPool
+        .connect(user)
+        .repay(DAI.target, ethers.parseEther("100"));
+      await indexer.sync();
+
+      const timeline = userTimeline(store, user.address);
+      expect(timeline.map(({ event }) => event)).to.deep.equal([
+        "Deposit",
+        "Borrow",
+        "InterestCharged",
+        "Repay",
+      ]);
+      const [, borrow, interest, repay] = timeline;
+      expect(borrow.args.amount).to.equal(ethers.parseEther("1000").toString());
+      expect(interest.args.token).to.equal(await DAI.getAddress());
+      expect(BigInt(interest.args.amount as string)).to.be.gt(0n);
+      expect(
+        await loanManager.getLoanAmount(user.address, DAI.target)
+      ).to.equal(
+        ethers.parseEther("900") + BigInt(interest.args.amount as string)
+      );
+      expect(repay.timestamp).to.equal(
+        (await ethers.provider.getBlock(repay.blockNumber))!.timestamp
+      );
+    });
+
+    it("Should track each reserve like the pool does", async function () {
+      const { indexer, store, lendingPool, loanManager, WETH, DAI, user } =
+        await loadFixture(deployIndexerFixture);
+      await lendingPool
+        .connect(user)
+        .withdraw(WETH.target, ethers.parseEther("0.1"));
+      await indexer.sync();
+
+      const { reserves, totals } = protocolHistory(
+        store,
+        await DAI.getAddress()
+      );
+      const latest = reserves.at(-1)!;
+      expect(latest.collateral).to.equal(
+        await loanManager.totalCollateral(DAI.target)
+      );
+      expect(latest.liquidity).to.equal(
+        await lendingPool.availableLiquidity(DAI.target)
+      );
+      expect(latest.debt).to.equal(
+        await loanManager.getTotalBorrows(DAI.target, {
+          blockTag: latest.blockNumber,
+        })
+      );
+      expect(latest.price).to.equal(ethers.parseEther("1"));
+      expect(reserves.every(({ token }) => token === DAI.target)).to.equal(
+        true
+      );
+
+      // 0.9 WETH plus the pool's liquidity, priced in USD.
+      const weth = protocolHistory(store, await WETH.getAddress()).reserves;
+      expect(weth.at(-1)!.collateral).to.equal(ethers.parseEther("0.9"));
+      const expectedTvl =
+        (weth.at(-1)!.tvl * ethers.parseEther("2000")) /
+          ethers.parseEther("1") +
+        latest.tvl;
+      const lastTotals = totals.at(-1)!;
+      expect(lastTotals.tvl).to.be.gte(expectedTvl);
+      expect(lastTotals.debt).to.equal(latest.debt);
+    });
+
+    it("Should link auction outcomes to their liquidation", async function () {
+      const {
+        indexer,
+        store,
+        lendingPool,
+        auctionManager,
+        WETH,
+        DAI,
+        feeds,
+        deployer,
+        user,
+        buyer,
+      } = await loadFixture(deployIndexerFixture);
+      await setPrice(feeds[0], ethers.parseEther("1400"));
+      const tx = await lendingPool
+        .connect(deployer)
+        .liquidateToAuction(user.address, WETH.target, DAI.target);
+      await auctionManager
+        .connect(buyer)
+        .buy(0, ethers.parseEther("0.25"), ethers.MaxUint256);
+      await indexer.sync();
+
+      const { dutch, english } = auctionOutcomes(store);
+      expect(english).to.be.empty;
+      const [auction] = dutch;
+      expect(auction.id).to.equal("0");
+      expect(auction.user).to.equal(user.address);
+      expect(auction.liquidation?.txHash).to.equal(tx.hash);
+      expect(auction.collateralAmount).to.equal(
+        ethers.parseEther("1").toString()
+      );
+      expect(auction.purchases).to.have.length(1);
+      expect(auction.purchases[0].buyer).to.equal(buyer.address);
+      expect(auction.sold).to.equal(ethers.parseEther("0.25"));
+      expect(auction.raised).to.equal(BigInt(auction.purchases[0].cost));
+      expect(auction.closed).to.equal(false);
+      expect(auction.shortfall).to.equal(null);
+
+      const events = userTimeline(store, user.address).map(
+        ({ event }) => event
+      );
+      expect(events).to.include.members([
+        "LiquidationToAuction",
+        "DutchAuctionCreated",
+      ]);
+      expect(
+        userTimeline(store, buyer.address).map(({ event }) => event)
+      ).to.deep.equal(["DutchAuctionPurchase"]);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should roll back blocks the chain replaced", async function () {
+      const { indexer, store, lendingPool, WETH, DAI, user } =
+        await loadFixture(deployIndexerFixture);
+      await indexer.sync();
+      const fork = await takeSnapshot();
+
+      await lendingPool
+        .connect(user)
+        .deposit(WETH.target, ethers.parseEther("2"));
+      await lendingPool
+        .connect(user)
+        .borrow(DAI.target, ethers.parseEther("500"));
+      await indexer.sync();
+      expect(
+        userTimeline(store, user.address).filter(
+          ({ event }) => event === "Borrow"
+        )
+      ).to.have.length(2);
+
+      // Replace both blocks with a single, different one.
+      await fork.restore();
+      await lendingPool
+        .connect(user)
+        .repay(DAI.target, ethers.parseEther("100"));
+      const report = await indexer.sync();
+
+      expect(report.reorgDepth).to.equal(2);
+      const events = userTimeline(store, user.address).map(
+        ({ event }) => event
+      );
+      expect(events).to.include("Repay");
+      expect(events.filter((event) => event === "Deposit")).to.have.length(1);
+      expect(events.filter((event) => event === "Borrow")).to.have.length(1);
+
+      const head = await ethers.provider.getBlock("latest");
+      expect(store.checkpoint()?.blockHash).to.equal(head!.hash);
+      expect(store.block(head!.number)?.hash).to.equal(head!.hash);
+    });
+  });
+
+  describe("Checkpoints", function () {
+    it("Should resume from a saved database", async function () {
+      const { lendingPool, WETH, user } = await loadFixture(
+        deployIndexerFixture
+      );
+      const dir = mkdtempSync(path.join(tmpdir(), "indexer-"));
+      const file = path.join(dir, "indexer.sqlite");
+      try {
+        const first = await Store.open(file);
+        const { toBlock } = await (
+          await Indexer.create(lendingPool, first)
+        ).sync();
+        first.close();
+
+        await lendingPool
+          .connect(user)
+          .deposit(WETH.target, ethers.parseEther("1"));
+
+        const resumed = await Store.open(file);
+        const report = await (
+          await Indexer.create(lendingPool, resumed)
+        ).sync();
+        expect(report.fromBlock).to.equal(toBlock + 1);
+        expect(report.events).to.be.gt(0);
+
+        const fresh = await Store.open();
+        await (await Indexer.create(lendingPool, fresh)).sync();
+        expect(resumed.events()).to.deep.equal(fresh.events());
+        expect(resumed.snapshots()).to.deep.equal(fresh.snapshots());
+        resumed.close();
+        fresh.close();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should retry a failed sync on the next interval", async function () {
+      const { indexer, store } = await loadFixture(deployIndexerFixture);
+      // The first sync hits a dead RPC endpoint.
+      const sync = indexer.sync.bind(indexer);
+      let attempts = 0;
+      indexer.sync = async () => {
+        if (++attempts === 1) throw new Error("connection refused");
+        return sync();
+      };
+
+      const controller = new AbortController();
+      const errors: unknown[] = [];
+      await indexer.run(
+        1,
+        controller.signal,
+        () => controller.abort(),
+        (error) => {
+          errors.push(error);
+        }
+      );
+
+      expect(errors).to.have.lengthOf(1);
+      expect(attempts).to.equal(2);
+      expect(store.checkpoint()!.blockNumber).to.equal(
+        await ethers.provider.getBlockNumber()
+      );
+    });
+  });
+
+  describe("API", function () {
+    it("Should serve the indexed history as JSON", async function () {
+      const { indexer, store, DAI, user } = await loadFixture(
+        deployIndexerFixture
+      );
+      await indexer.sync();
+      const server = createApiServer(store);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      const get = async (route: string) => {
+        const response = await fetch(`http://localhost:${port}${route}`);
+        return { status: response.status, body: await response.json() };
+      };
+
+      try {
+        const status = await get("/status");
+        expect(status.body.checkpoint).to.deep.equal(store.checkpoint());
+
+        const timeline = await get(
+          `/users/${user.address.toLowerCase()}/timeline`
+        );
+        expect(timeline.status).to.equal(200);
+        expect(
+          timeline.body.map(({ event }: { event: string }) => event)
+        ).to.deep.equal(["Deposit", "Borrow"]);
+
+        const history = await get(
+          `/protocol/history?token=${await DAI.getAddress()}`
+        );
+        expect(history.body.reserves.at(-1).debt).to.equal(
+          ethers.parseEther("1000").toString()
+        );
+
+        expect((await get("/auctions")).body).to.deep.equal({
+          dutch: [],
+          english: [],
+        });
+        expect((await get("/users/0x1234/timeline")).status).to.equal(400);
+        expect((await get("/nothing")).status).to.equal(404);
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  borrowRate,
+  grow,
+  RateCurve,
+  supplyRate,
+  utilization,
+  WAD,
+} from "./helpers/interestRate";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const CURVE: RateCurve = {
+  baseRate: ethers.parseEther("0.02"),
+  slope1: ethers.parseEther("0.04"),
+  slope2: ethers.parseEther("0.75"),
+  optimalUtilization: ethers.parseEther("0.8"),
+};
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+describe("InterestRateStrategy", function () {
+  async function deployStrategyFixture() {
+    const [owner, user1, user2] = await ethers.getSigners();
+
+    const strategy = await ethers.deployContract("InterestRateStrategy", [
+      CURVE.baseRate,
+      CURVE.slope1,
+      CURVE.slope2,
+      CURVE.optimalUtilization,
+    ]);
+
+    const LoanManager = await ethers.getContractFactory("LoanManager");
+    const loanManager = await LoanManager.deploy(owner.address);
+
+    const Token = await ethers.getContractFactory("Token");
+    const token = await Token.deploy("Test Token", "TST");
+
+    await loanManager.setInterestRateStrategy(token.target, strategy.target);
+
+    return { strategy, loanManager, token, owner, user1, user2 };
+  }
+
+  describe("Deployment", function () {
+    it("Should store the curve parameters", async function () {
+      const { strategy } = await loadFixture(deployStrategyFixture);
+      expect(await strategy.baseRate()).to.equal(CURVE.baseRate);
+      expect(await strategy.slope1()).to.equal(CURVE.slope1);
+      expect(await strategy.slope2()).to.equal(CURVE.slope2);
+      expect(await strategy.optimalUtilization()).to.equal(
+        CURVE.optimalUtilization
+      );
+    });
+
+    it("Should reject an optimal utilization of 0% or 100%", async function () {
+      for (const optimal of [0n, WAD]) {
+        await expect(
+          ethers.deployContract("InterestRateStrategy", [0, 0, 0, optimal])
+        ).to.be.revertedWith("Invalid optimal utilization");
+      }
+    });
+  });
+
+  describe("Rate curve", function () {
+    it("Should match the reference curve across utilization", async function () {
+      const { strategy } = await loadFixture(deployStrategyFixture);
+      const liquidity = ethers.parseEther("1000");
+
+      // Every 2.5% from 0% to 100%, plus points hugging the kink.
+      const points = Array.from(
+        { length: 41 },
+        (_, i) => (BigInt(i) * WAD) / 40n
+      );
+      points.push(CURVE.optimalUtilization - 1n, CURVE.optimalUtilization + 1n);
+
+      for (const point of points) {
+        const borrows = (liquidity * point) / WAD;
+        const cash = liquidity - borrows;
+
+        expect(await strategy.utilization(cash, borrows)).to.equal(
+          utilization(cash, borrows)
+        );
+        expect(await strategy.getBorrowRate(cash, borrows)).to.equal(
+          borrowRate(CURVE, cash, borrows)
+        );
+      }
+    });
+
+    it("Should price the key points of the curve", async function () {
+      const { strategy } = await loadFixture(deployStrategyFixture);
+      const e = ethers.parseEther;
+
+      expect(await strategy.getBorrowRate(e("100"), 0)).to.equal(e("0.02"));
+      expect(await strategy.getBorrowRate(e("20"), e("80"))).to.equal(
+        e("0.06")
+      );
+      expect(await strategy.getBorrowRate(0, e("100"))).to.equal(e("0.81"));
+    });
+  });
+
+  describe("Reserve accrual", function () {
+    it("Should re-price the reserve from cash and borrows", async function () {
+      const { loanManager, token, user1 } = await loadFixture(
+        deployStrategyFixture
+      );
+      const cash = ethers.parseEther("400");
+
+      await loanManager.updateLoan(
+        user1.address,
+        token.target,
+        ethers.parseEther("600"),
+        true
+      );
+      await loanManager.updateRates(token.target, cash);
+
+      const reserve = await loanManager.reserves(token.target);
+      expect(reserve.cash).to.equal(cash);
+      expect(reserve.borrowRate).to.equal(
+        borrowRate(CURVE, cash, reserve.totalBorrows)
+      );
+      expect(reserve.supplyRate).to.equal(
+        supplyRate(CURVE, cash, reserve.totalBorrows)
+      );
+    });
+
+    it("Should compound interest for every borrower through the index", async function () {
+      const { loanManager, token, user1, user2 } = await loadFixture(
+        deployStrategyFixture
+      );
+      const borrowAmount = ethers.parseEther("100");
+
+      await loanManager.updateLoan(
+        user1.address,
+        token.target,
+        borrowAmount,
+        true
+      );
+      await loanManager.updateRates(token.target, ethers.parseEther("100"));
+      const first = await loanManager.reserves(token.target);
+
+      // A second borrower accrues the reserve half-way through the year.
+      await time.increase(ONE_YEAR / 2);
+      await loanManager.updateLoan(
+        user2.address,
+        token.target,
+        borrowAmount,
+        true
+      );
+      const second = await loanManager.reserves(token.target);
+      const elapsed = second.lastUpdate - first.lastUpdate;
+      expect(second.borrowIndex).to.equal(
+        grow(first.borrowIndex, first.borrowRate, elapsed)
+      );
+      expect(second.totalBorrows).to.equal(
+        grow(first.totalBorrows, first.borrowRate, elapsed) + borrowAmount
+      );
+
+      // Fully utilized from here on, so the rate jumps past the kink.
+      await loanManager.updateRates(token.target, 0);
+      const third = await loanManager.reserves(token.target);
+      expect(third.borrowRate).to.equal(
+        borrowRate(CURVE, 0n, third.totalBorrows)
+      );
+
+      await time.increase(ONE_YEAR / 2);
+      const index = grow(
+        third.borrowIndex,
+        third.borrowRate,
+        BigInt(await time.latest()) - third.lastUpdate
+      );
+      expect(await loanManager.getBorrowIndex(token.target)).to.equal(index);
+
+      for (const user of [user1, user2]) {
+        const loan = await loanManager.loans(user.address, token.target);
+        expect(
+          await loanManager.calculateInterest(user.address, token.target)
+        ).to.equal((borrowAmount * index) / loan.borrowIndex - borrowAmount);
+      }
+      expect(
+        await loanManager.calculateInterest(user1.address, token.target)
+      ).to.be.gt(
+        await loanManager.calculateInterest(user2.address, token.target)
+      );
+    });
+
+    it("Should grow the supply index at the utilization-weighted rate", async function () {
+      const { loanManager, token, user1 } = await loadFixture(
+        deployStrategyFixture
+      );
+      const cash = ethers.parseEther("500");
+
+      await loanManager.updateLoan(
+        user1.address,
+        token.target,
+        ethers.parseEther("500"),
+        true
+      );
+      await loanManager.updateRates(token.target, cash);
+      const reserve = await loanManager.reserves(token.target);
+      expect(reserve.supplyRate).to.equal(
+        supplyRate(CURVE, cash, reserve.totalBorrows)
+      );
+
+      await time.increase(ONE_YEAR);
+      const elapsed = BigInt(await time.latest()) - reserve.lastUpdate;
+
+      expect(await loanManager.getSupplyIndex(token.target)).to.equal(
+        grow(reserve.supplyIndex, reserve.supplyRate, elapsed)
+      );
+      expect(await loanManager.getTotalBorrows(token.target)).to.equal(
+        grow(reserve.totalBorrows, reserve.borrowRate, elapsed)
+      );
+    });
+
+    it("Should let a borrower repay principal plus interest in full", async function () {
+      const { loanManager, token, user1 } = await loadFixture(
+        deployStrategyFixture
+      );
+      const borrowAmount = ethers.parseEther("100");
+      await loanManager.updateLoan(
+        user1.address,
+        token.target,
+        borrowAmount,
+        true
+      );
+      await loanManager.updateRates(token.target, borrowAmount);
+      await time.increase(ONE_YEAR);
+
+      const reserve = await loanManager.reserves(token.target);
+      const loan = await loanManager.loans(user1.address, token.target);
+      const repaidAt = (await time.latest()) + 1;
+      const index = grow(
+        reserve.borrowIndex,
+        reserve.borrowRate,
+        BigInt(repaidAt) - reserve.lastUpdate
+      );
+      const due = (loan.amount * index) / loan.borrowIndex;
+
+      await time.setNextBlockTimestamp(repaidAt);
+      await loanManager.updateLoan(user1.address, token.target, due, false);
+
+      expect(
+        await loanManager.getLoanAmount(user1.address, token.target)
+      ).to.equal(0);
+      expect(await loanManager.getDebtTokens(user1.address)).to.be.empty;
+      // Total borrows accrue on their own, so only rounding dust may remain.
+      expect(await loanManager.getTotalBorrows(token.target)).to.be.lt(1000);
+    });
+  });
+
+  describe("LendingPool", function () {
+    it("Should raise rates as the pool is borrowed", async function () {
+      const [owner, user1] = await ethers.getSigners();
+      const { strategy, token } = await loadFixture(deployStrategyFixture);
+
+      const priceOracle = await ethers.deployContract("PriceOracle");
+      const lendingPool = await ethers.deployContract("LendingPool", [
+        priceOracle.target,
+      ]);
+      const loanManager = await ethers.getContractAt(
+        "LoanManager",
+        await lendingPool.loanManager()
+      );
+      const feed = await ethers.deployContract("MockAggregator", [
+        8,
+        "",
+        100000000,
+      ]);
+      await priceOracle.setFeed(token.target, feed.target, 3600);
+      await lendingPool.whitelistToken(token.target);
+      await lendingPool.setInterestRateStrategy(token.target, strategy.target);
+
+      const liquidity = ethers.parseEther("1000");
+      await deployReceiptToken(lendingPool, token);
+      await supplyLiquidity(lendingPool, token, owner, liquidity);
+      await token.mint(user1.address, liquidity);
+      await token.connect(user1).approve(lendingPool.target, liquidity);
+      await lendingPool.connect(user1).deposit(token.target, liquidity);
+
+      expect((await loanManager.reserves(token.target)).borrowRate).to.equal(
+        CURVE.baseRate
+      );
+
+      const borrowAmount = ethers.parseEther("600");
+      await lendingPool.connect(user1).borrow(token.target, borrowAmount);
+
+      const cash = await lendingPool.availableLiquidity(token.target);
+      const borrows = await loanManager.getTotalBorrows(token.target);
+      const reserve = await loanManager.reserves(token.target);
+      expect(reserve.borrowRate).to.equal(borrowRate(CURVE, cash, borrows));
+      expect(reserve.borrowRate).to.be.gt(CURVE.baseRate);
+    });
+
+    it("Should only let the owner set strategies", async function () {
+      const [, user1] = await ethers.getSigners();
+      const { strategy, token } = await loadFixture(deployStrategyFixture);
+      const priceOracle = await ethers.deployContract("PriceOracle");
+      const lendingPool = await ethers.deployContract("LendingPool", [
+        priceOracle.target,
+      ]);
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .setInterestRateStrategy(token.target, strategy.target)
+      )
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(user1.address, await lendingPool.RISK_MANAGER_ROLE());
+    });
+  });
+});
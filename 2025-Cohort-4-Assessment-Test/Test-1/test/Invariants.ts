@@ -0,0 +1,227 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import fc from "fast-check";
+import { readFileSync } from "fs";
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import { TOKEN_IDS } from "../ignition/modules/Tokens";
+import { LendingClient } from "../sdk";
+import {
+  Borrow,
+  Deposit,
+  Ledger,
+  Lifecycle,
+  Liquidate,
+  MovePrice,
+  Repay,
+  lifecycleSteps,
+  openLedger,
+} from "./helpers/lifecycle";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+// INVARIANT_RUNS and INVARIANT_MAX_STEPS widen the search; a failure prints
+// the seed and path to replay it with INVARIANT_SEED and INVARIANT_PATH.
+const RUNS = Number(process.env.INVARIANT_RUNS ?? 8);
+const MAX_STEPS = Number(process.env.INVARIANT_MAX_STEPS ?? 30);
+const REPLAY = process.env.INVARIANT_SEED
+  ? {
+      seed: Number(process.env.INVARIANT_SEED),
+      path: process.env.INVARIANT_PATH,
+    }
+  : {};
+
+describe("Invariants", function () {
+  async function deployLifecycleFixture(): Promise<Lifecycle> {
+    const [deployer, lender, liquidator, staker, ...users] =
+      await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const tokens = await Promise.all(
+      TOKEN_IDS.map((id) =>
+        ethers.getContractAt("Token", deployment[id].target)
+      )
+    );
+    const feeds = await Promise.all(
+      tokens.map(async (token) =>
+        ethers.getContractAt(
+          "MockAggregator",
+          (
+            await priceOracle.feeds(token.target)
+          ).aggregator
+        )
+      )
+    );
+    const receiptTokens = await Promise.all(
+      tokens.map(async (token) =>
+        ethers.getContractAt(
+          "ReceiptToken",
+          await lendingPool.receiptTokens(token.target)
+        )
+      )
+    );
+
+    // Fees go to a distributor with one staker, so every share of them is
+    // in play.
+    const protocolToken = await ethers.deployContract("Token", [
+      "Protocol Token",
+      "PRT",
+    ]);
+    const distributor = await ethers.deployContract("RewardsDistributor", [
+      protocolToken.target,
+      lendingPool.target,
+      7 * 24 * 60 * 60,
+    ]);
+    await lendingPool.connect(deployer).setRewardsDistributor(distributor);
+    await protocolToken.mint(staker.address, ethers.parseEther("1000"));
+    await protocolToken
+      .connect(staker)
+      .approve(distributor.target, ethers.MaxUint256);
+    await distributor.connect(staker).stake(ethers.parseEther("1000"));
+
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      deployment.auctionManager.target
+    );
+    const borrowers = users.slice(0, 3);
+    const [WETH] = tokens;
+    for (const token of tokens) {
+      for (const account of [lender, liquidator, ...borrowers]) {
+        await token.mint(account.address, ethers.parseEther("1000000"));
+      }
+      for (const account of [lender, liquidator]) {
+        await token
+          .connect(account)
+          .approve(lendingPool.target, ethers.MaxUint256);
+      }
+      await token
+        .connect(liquidator)
+        .approve(auctionManager.target, ethers.MaxUint256);
+    }
+
+    // Every borrower starts with 5 WETH ($10000) of collateral.
+    const clients = [];
+    for (const user of borrowers) {
+      const client = await LendingClient.connect(lendingPool, user);
+      await client.depositWithApproval(
+        await WETH.getAddress(),
+        ethers.parseEther("5")
+      );
+      clients.push(client);
+    }
+
+    return {
+      lendingPool,
+      loanManager: await ethers.getContractAt(
+        "LoanManager",
+        deployment.loanManager.target
+      ),
+      auctionManager,
+      priceOracle,
+      distributor,
+      tokens,
+      feeds,
+      receiptTokens,
+      borrowers: clients,
+      lender,
+      liquidator,
+      staker,
+    };
+  }
+
+  async function run(
+    system: Lifecycle,
+    steps: Iterable<fc.AsyncCommand<Ledger, Lifecycle>>
+  ) {
+    await fc.asyncModelRun(
+      async () => ({ model: await openLedger(system), real: system }),
+      steps
+    );
+  }
+
+  it("Should hold after every step of random lifecycles", async function () {
+    this.timeout(0);
+    await fc.assert(
+      fc.asyncProperty(
+        fc.commands(lifecycleSteps(3), {
+          maxCommands: MAX_STEPS,
+          size: "max",
+        }),
+        async (steps) => run(await loadFixture(deployLifecycleFixture), steps)
+      ),
+      { numRuns: RUNS, ...REPLAY }
+    );
+  });
+
+  it("Should hold through a crash and partial liquidation", async function () {
+    const system = await loadFixture(deployLifecycleFixture);
+    const [WETH, DAI] = [0, 1];
+    // $14000 of collateral backs ~$9330 of DAI; after WETH drops 30% the
+    // liquidation limit is ~$7330.
+    await run(system, [
+      new Deposit(0, DAI, 4000),
+      new Borrow(0, DAI, 100),
+      new MovePrice(WETH, -30),
+      new Repay(0, 0, 10),
+      new Liquidate(0, 0, 50),
+    ]);
+
+    const user = await system.borrowers[0].signer.getAddress();
+    const liquidations = await system.lendingPool.queryFilter(
+      system.lendingPool.filters.Liquidation(user)
+    );
+    expect(liquidations).to.have.length(1);
+  });
+
+  it("Should shrink a failing lifecycle to the steps that cause it", async function () {
+    this.timeout(0);
+    // A deliberately false invariant: nobody ever owes DAI.
+    async function noDaiDebt(system: Lifecycle) {
+      for (const client of system.borrowers) {
+        expect(
+          await system.loanManager.getLoanAmount(
+            await client.signer.getAddress(),
+            system.tokens[1].target
+          )
+        ).to.equal(0n);
+      }
+    }
+    const details = await fc.check(
+      fc.asyncProperty(
+        fc.commands(lifecycleSteps(3), { maxCommands: 10 }),
+        async (steps) =>
+          run(
+            {
+              ...(await loadFixture(deployLifecycleFixture)),
+              extraInvariants: [noDaiDebt],
+            },
+            steps
+          )
+      ),
+      { numRuns: 50, seed: 42 }
+    );
+
+    expect(details.failed).to.equal(true);
+    // Borrowers start with collateral, so one borrow is enough.
+    expect(String(details.counterexample![0])).to.match(
+      /^Borrow\(user0, \d+% of max DAI\) \/\*/
+    );
+  });
+});
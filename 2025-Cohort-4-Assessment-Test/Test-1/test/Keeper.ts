@@ -0,0 +1,485 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { getEventListeners } from "events";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import hre, { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import { Keeper, KeeperOptions, KeeperReport } from "../keeper";
+import type { Tables } from "../tasks/helpers";
+import { refreshPrices, setPrice } from "./helpers/oracle";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+describe("Keeper", function () {
+  async function deployKeeperFixture() {
+    const [deployer, keeperSigner, borrower, bigBorrower, safeBorrower] =
+      await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      deployment.loanManager.target
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      deployment.auctionManager.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const WETH = await ethers.getContractAt("Token", deployment.WETH.target);
+    const DAI = await ethers.getContractAt("Token", deployment.DAI.target);
+    const LINK = await ethers.getContractAt("Token", deployment.LINK.target);
+    const feedOf = async (token: typeof WETH) =>
+      ethers.getContractAt(
+        "MockAggregator",
+        (await priceOracle.feeds(token.target)).aggregator
+      );
+    const wethFeed = await feedOf(WETH);
+    const daiFeed = await feedOf(DAI);
+    const linkFeed = await feedOf(LINK);
+
+    async function open(
+      user: typeof borrower,
+      collateral: string,
+      debt: string
+    ) {
+      await WETH.mint(user.address, ethers.parseEther(collateral));
+      await WETH.connect(user).approve(
+        lendingPool.target,
+        ethers.parseEther(collateral)
+      );
+      await lendingPool
+        .connect(user)
+        .deposit(WETH.target, ethers.parseEther(collateral));
+      await lendingPool
+        .connect(user)
+        .borrow(DAI.target, ethers.parseEther(debt));
+    }
+
+    // All three borrow against WETH at $2000; the safe borrower can take a
+    // 40% drop.
+    await open(borrower, "1", "1200");
+    await open(bigBorrower, "2", "2400");
+    await open(safeBorrower, "1", "700");
+    await DAI.mint(keeperSigner.address, ethers.parseEther("10000"));
+
+    // Keepers keep their own position book, so each test builds a fresh one.
+    const createKeeper = (options: KeeperOptions = {}) =>
+      Keeper.create(lendingPool, keeperSigner, options);
+
+    return {
+      lendingPool,
+      loanManager,
+      auctionManager,
+      WETH,
+      DAI,
+      LINK,
+      wethFeed,
+      daiFeed,
+      linkFeed,
+      createKeeper,
+      deployer,
+      keeperSigner,
+      borrower,
+      bigBorrower,
+      safeBorrower,
+    };
+  }
+
+  // At $1500, 1 WETH at a 66.67% threshold covers $1000 of debt.
+  async function deployCrashFixture() {
+    const fixture = await deployKeeperFixture();
+    await setPrice(fixture.wethFeed, ethers.parseEther("1500"));
+    return fixture;
+  }
+
+  describe("Positions", function () {
+    it("Should rebuild positions from the pool's events", async function () {
+      const { createKeeper, lendingPool, WETH, DAI, borrower, safeBorrower } =
+        await loadFixture(deployKeeperFixture);
+      const keeper = await createKeeper();
+      await lendingPool
+        .connect(safeBorrower)
+        .withdraw(WETH.target, ethers.parseEther("0.25"));
+
+      await keeper.book.sync();
+      expect(keeper.book.position(borrower.address).collateral).to.deep.equal(
+        new Map([[await WETH.getAddress(), ethers.parseEther("1")]])
+      );
+      expect(
+        keeper.book
+          .position(safeBorrower.address)
+          .collateral.get(await WETH.getAddress())
+      ).to.equal(ethers.parseEther("0.75"));
+      expect([
+        ...keeper.book.position(borrower.address).debtTokens,
+      ]).to.deep.equal([DAI.target]);
+    });
+
+    it("Should pick up new events on the next sync", async function () {
+      const { createKeeper, lendingPool, WETH, borrower } = await loadFixture(
+        deployKeeperFixture
+      );
+      const keeper = await createKeeper();
+      await keeper.book.sync();
+
+      await WETH.mint(borrower.address, ethers.parseEther("1"));
+      await WETH.connect(borrower).approve(
+        lendingPool.target,
+        ethers.parseEther("1")
+      );
+      await lendingPool
+        .connect(borrower)
+        .deposit(WETH.target, ethers.parseEther("1"));
+
+      await keeper.book.sync();
+      expect(
+        keeper.book
+          .position(borrower.address)
+          .collateral.get(await WETH.getAddress())
+      ).to.equal(ethers.parseEther("2"));
+    });
+  });
+
+  describe("Candidates", function () {
+    it("Should find nobody while every account is healthy", async function () {
+      const { createKeeper } = await loadFixture(deployKeeperFixture);
+      const keeper = await createKeeper();
+      const report = await keeper.runOnce();
+      expect(report.candidates).to.be.empty;
+      expect(report.liquidations).to.be.empty;
+    });
+
+    it("Should compute health like the pool", async function () {
+      const { createKeeper, lendingPool, borrower, bigBorrower } =
+        await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper();
+      await keeper.book.sync();
+
+      const candidates = await keeper.findCandidates();
+      for (const user of [borrower, bigBorrower]) {
+        const candidate = candidates.find((c) => c.user === user.address)!;
+        expect(candidate.healthFactor).to.equal(
+          (await lendingPool.getAccountData(user.address)).healthFactor
+        );
+      }
+    });
+
+    it("Should rank underwater accounts by profit", async function () {
+      const { createKeeper, WETH, DAI, borrower, bigBorrower } =
+        await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper();
+      await keeper.book.sync();
+
+      const candidates = await keeper.findCandidates();
+      expect(candidates.map((c) => c.user)).to.deep.equal([
+        bigBorrower.address,
+        borrower.address,
+      ]);
+      // Half of ~1200 DAI repaid for 5% more than its worth in WETH.
+      const [, candidate] = candidates;
+      expect(candidate.collateralToken).to.equal(WETH.target);
+      expect(candidate.debtToken).to.equal(DAI.target);
+      expect(candidate.repayAmount).to.be.closeTo(
+        ethers.parseEther("600"),
+        ethers.parseEther("0.01")
+      );
+      expect(candidate.profit).to.be.closeTo(
+        ethers.parseEther("30"),
+        ethers.parseEther("0.01")
+      );
+    });
+
+    it("Should skip accounts below the minimum profit", async function () {
+      const { createKeeper, lendingPool, bigBorrower } = await loadFixture(
+        deployCrashFixture
+      );
+      const keeper = await createKeeper({
+        minProfit: ethers.parseEther("50"),
+      });
+      await keeper.book.sync();
+
+      const candidates = await keeper.findCandidates();
+      expect(candidates.map((c) => c.user)).to.deep.equal([
+        bigBorrower.address,
+      ]);
+    });
+  });
+
+  describe("Liquidation", function () {
+    it("Should liquidate underwater accounts after a price crash", async function () {
+      const {
+        createKeeper,
+        lendingPool,
+        loanManager,
+        WETH,
+        DAI,
+        keeperSigner,
+        borrower,
+        bigBorrower,
+        safeBorrower,
+      } = await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper();
+      const debtBefore = await loanManager.getLoanAmount(
+        borrower.address,
+        DAI.target
+      );
+
+      const report = await keeper.runOnce();
+      expect(report.liquidations.map((l) => l.status)).to.deep.equal([
+        "sent",
+        "sent",
+      ]);
+
+      const events = await lendingPool.queryFilter(
+        lendingPool.filters.Liquidation()
+      );
+      expect(events.map((e) => e.args.user)).to.have.members([
+        borrower.address,
+        bigBorrower.address,
+      ]);
+      for (const event of events) {
+        expect(event.args.liquidator).to.equal(keeperSigner.address);
+      }
+      expect(
+        await loanManager.getLoanAmount(borrower.address, DAI.target)
+      ).to.be.lt(debtBefore);
+      expect(await WETH.balanceOf(keeperSigner.address)).to.be.gt(0);
+      expect(
+        await loanManager.getLoanAmount(safeBorrower.address, DAI.target)
+      ).to.equal(ethers.parseEther("700"));
+    });
+
+    it("Should follow up on accounts still underwater next round", async function () {
+      const { createKeeper, lendingPool, wethFeed, borrower } =
+        await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper();
+      // At $1300 one liquidation is not enough to restore health, though
+      // the collateral still covers the debt.
+      await setPrice(wethFeed, ethers.parseEther("1300"));
+      await keeper.runOnce();
+      expect(
+        (await lendingPool.getAccountData(borrower.address)).healthFactor
+      ).to.be.lt(ethers.parseEther("1"));
+
+      const report = await keeper.runOnce();
+      expect(report.candidates.map((c) => c.user)).to.include(borrower.address);
+      expect(report.liquidations.every((l) => l.status === "sent")).to.be.true;
+    });
+
+    it("Should close out insolvent accounts in one round", async function () {
+      const {
+        createKeeper,
+        lendingPool,
+        loanManager,
+        wethFeed,
+        DAI,
+        borrower,
+      } = await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper();
+      // At $1100 the collateral no longer covers the debt.
+      await setPrice(wethFeed, ethers.parseEther("1100"));
+
+      const report = await keeper.runOnce();
+      expect(report.liquidations.every((l) => l.status === "sent")).to.be.true;
+      expect(await loanManager.getCollateralTokens(borrower.address)).to.be
+        .empty;
+      expect(await loanManager.getDebtTokens(borrower.address)).to.be.empty;
+      expect(await lendingPool.badDebt(DAI.target)).to.be.gt(0);
+    });
+
+    it("Should only plan liquidations in a dry run", async function () {
+      const { createKeeper, lendingPool, keeperSigner } = await loadFixture(
+        deployCrashFixture
+      );
+      const keeper = await createKeeper({
+        dryRun: true,
+      });
+
+      const report = await keeper.runOnce();
+      expect(report.liquidations.map((l) => l.status)).to.deep.equal([
+        "planned",
+        "planned",
+      ]);
+      expect(await lendingPool.queryFilter(lendingPool.filters.Liquidation()))
+        .to.be.empty;
+    });
+
+    it("Should skip liquidations it cannot pay for", async function () {
+      const { createKeeper, DAI, keeperSigner, deployer } = await loadFixture(
+        deployCrashFixture
+      );
+      const keeper = await createKeeper();
+      // Enough for the smaller liquidation only.
+      await DAI.connect(keeperSigner).transfer(
+        deployer.address,
+        ethers.parseEther("9000")
+      );
+
+      const report = await keeper.runOnce();
+      expect(report.liquidations.map((l) => l.status)).to.deep.equal([
+        "skipped",
+        "sent",
+      ]);
+      expect(report.liquidations[0].reason).to.equal(
+        "Insufficient debt token balance"
+      );
+    });
+
+    it("Should report reverts without stopping the round", async function () {
+      const { createKeeper, lendingPool, deployer } = await loadFixture(
+        deployCrashFixture
+      );
+      const keeper = await createKeeper();
+      await lendingPool
+        .connect(deployer)
+        .setActionPaused(3 /* Action.Liquidate */, true);
+
+      const report = await keeper.runOnce();
+      expect(report.liquidations.map((l) => l.status)).to.deep.equal([
+        "failed",
+        "failed",
+      ]);
+      expect(report.liquidations[0].reason).to.include("Action paused");
+    });
+  });
+
+  describe("Auctions", function () {
+    it("Should buy auction lots priced below the oracle", async function () {
+      const {
+        createKeeper,
+        lendingPool,
+        auctionManager,
+        WETH,
+        DAI,
+        wethFeed,
+        daiFeed,
+        linkFeed,
+        keeperSigner,
+        deployer,
+        bigBorrower,
+      } = await loadFixture(deployCrashFixture);
+      await lendingPool
+        .connect(deployer)
+        .liquidateToAuction(bigBorrower.address, WETH.target, DAI.target);
+      const keeper = await createKeeper({
+        bidOnAuctions: true,
+      });
+
+      // Auctions open 20% above the oracle price: nothing to buy yet.
+      expect(await keeper.findAuctionLots()).to.be.empty;
+
+      // Three hours into the linear decay the price is 15% below it.
+      await time.increase(3 * 60 * 60);
+      await refreshPrices(wethFeed, daiFeed, linkFeed);
+      const report = await keeper.runOnce();
+      expect(report.purchases).to.have.lengthOf(1);
+      const [purchase] = report.purchases;
+      expect(purchase.status).to.equal("sent");
+      expect(purchase.target.profit).to.be.gt(0);
+
+      expect(
+        (await auctionManager.dutchAuctions(0)).collateralRemaining
+      ).to.equal(0);
+      expect(await WETH.balanceOf(keeperSigner.address)).to.be.gt(0);
+    });
+  });
+
+  describe("Running", function () {
+    it("Should keep running after a failed round", async function () {
+      const { createKeeper } = await loadFixture(deployCrashFixture);
+      const keeper = await createKeeper({ dryRun: true });
+      // The first round hits a dead RPC endpoint.
+      const runOnce = keeper.runOnce.bind(keeper);
+      let rounds = 0;
+      keeper.runOnce = async () => {
+        if (++rounds === 1) throw new Error("connection refused");
+        return runOnce();
+      };
+
+      const controller = new AbortController();
+      const errors: unknown[] = [];
+      const reports: KeeperReport[] = [];
+      await keeper.run(
+        1,
+        controller.signal,
+        (report) => {
+          reports.push(report);
+          // Waits between rounds leave nothing behind on the signal.
+          expect(getEventListeners(controller.signal, "abort")).to.be.empty;
+          if (reports.length === 3) controller.abort();
+        },
+        (error) => {
+          errors.push(error);
+        }
+      );
+
+      expect(errors).to.have.lengthOf(1);
+      expect((errors[0] as Error).message).to.equal("connection refused");
+      expect(reports).to.have.lengthOf(3);
+      expect(reports[0].liquidations).to.have.lengthOf(2);
+    });
+  });
+
+  describe("keeper:run", function () {
+    const DEPLOYMENT_ID = "keeper-test";
+    const deploymentDir = path.join(
+      hre.config.paths.ignition,
+      "deployments",
+      DEPLOYMENT_ID
+    );
+
+    after(function () {
+      rmSync(deploymentDir, { recursive: true, force: true });
+    });
+
+    it("Should run one round from the command line", async function () {
+      const { lendingPool, borrower, bigBorrower } = await loadFixture(
+        deployCrashFixture
+      );
+      mkdirSync(deploymentDir, { recursive: true });
+      writeFileSync(
+        path.join(deploymentDir, "deployed_addresses.json"),
+        JSON.stringify({ "LendingPoolModule#LendingPool": lendingPool.target })
+      );
+
+      const log = console.log;
+      console.log = () => {};
+      let result: Tables;
+      try {
+        result = await hre.run("keeper:run", {
+          deploymentId: DEPLOYMENT_ID,
+          once: true,
+          dryRun: true,
+        });
+      } finally {
+        console.log = log;
+      }
+
+      expect(result.Liquidations.map((row) => row.user)).to.deep.equal([
+        bigBorrower.address,
+        borrower.address,
+      ]);
+      expect(result.Liquidations[1].seize).to.match(/^0\.42\d* WETH$/);
+      expect(result.Liquidations[1].status).to.equal("planned");
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import {
+  ActionPausedError,
+  InsufficientAllowanceError,
+  InsufficientCollateralError,
+  InsufficientLiquidityError,
+  LendingClient,
+  LendingError,
+  RepaymentTooHighError,
+  UnauthorizedError,
+  decodeError,
+} from "../sdk";
+import { refreshPrices, setPrice } from "./helpers/oracle";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+describe("LendingClient", function () {
+  async function deployClientFixture() {
+    const [deployer, user, other] = await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      deployment.loanManager.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const WETH = await ethers.getContractAt("Token", deployment.WETH.target);
+    const DAI = await ethers.getContractAt("Token", deployment.DAI.target);
+    const LINK = await ethers.getContractAt("Token", deployment.LINK.target);
+    const feedOf = async (token: typeof WETH) =>
+      ethers.getContractAt(
+        "MockAggregator",
+        (await priceOracle.feeds(token.target)).aggregator
+      );
+    const feeds = [await feedOf(WETH), await feedOf(DAI), await feedOf(LINK)];
+
+    await WETH.mint(user.address, ethers.parseEther("10"));
+    await DAI.mint(user.address, ethers.parseEther("10000"));
+    const client = await LendingClient.connect(lendingPool, user);
+
+    return {
+      client,
+      lendingPool,
+      loanManager,
+      WETH,
+      DAI,
+      feeds,
+      deployer,
+      user,
+      other,
+    };
+  }
+
+  // 1 WETH at $2000 and the default 66.67% LTV back $1333 of DAI.
+  async function deployBorrowerFixture() {
+    const fixture = await deployClientFixture();
+    const { client, WETH, DAI } = fixture;
+    await client.depositWithApproval(
+      await WETH.getAddress(),
+      ethers.parseEther("1")
+    );
+    await client.borrow(await DAI.getAddress(), ethers.parseEther("1000"));
+    return fixture;
+  }
+
+  describe("Errors", function () {
+    it("Should decode revert strings into typed errors", async function () {
+      const { client, DAI } = await loadFixture(deployClientFixture);
+      const error = await client
+        .borrow(await DAI.getAddress(), ethers.parseEther("1"))
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InsufficientCollateralError);
+      expect(error).to.be.instanceOf(LendingError);
+      expect(error.reason).to.equal("not enough collateral to cover loan");
+      expect(error.name).to.equal("InsufficientCollateralError");
+    });
+
+    it("Should decode token errors raised inside the pool", async function () {
+      const { lendingPool, WETH, user } = await loadFixture(
+        deployClientFixture
+      );
+      const error = await lendingPool
+        .connect(user)
+        .deposit(WETH.target, ethers.parseEther("1"))
+        .then(
+          () => expect.fail("deposit should revert"),
+          (e) => decodeError(e) as InsufficientAllowanceError
+        );
+      expect(error).to.be.instanceOf(InsufficientAllowanceError);
+      expect(error.allowance).to.equal(0n);
+      expect(error.needed).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should decode access control errors", async function () {
+      const { lendingPool, user } = await loadFixture(deployClientFixture);
+      const error = await lendingPool
+        .connect(user)
+        .setActionPaused(1, true)
+        .then(
+          () => expect.fail("pausing should revert"),
+          (e) => decodeError(e) as UnauthorizedError
+        );
+      expect(error).to.be.instanceOf(UnauthorizedError);
+      expect(error.account).to.equal(user.address);
+      expect(error.role).to.equal(await lendingPool.PAUSE_GUARDIAN_ROLE());
+    });
+
+    it("Should keep errors it cannot decode as the cause", async function () {
+      const cause = new Error("connection refused");
+      const error = decodeError(cause);
+      expect(error.constructor).to.equal(LendingError);
+      expect(error.message).to.equal("connection refused");
+      expect(error.cause).to.equal(cause);
+    });
+  });
+
+  describe("Transactions", function () {
+    it("Should approve and deposit in one call", async function () {
+      const { client, loanManager, WETH, user } = await loadFixture(
+        deployClientFixture
+      );
+      await client.depositWithApproval(
+        await WETH.getAddress(),
+        ethers.parseEther("2")
+      );
+      expect(
+        await loanManager.getCollateralAmount(user.address, WETH.target)
+      ).to.equal(ethers.parseEther("2"));
+    });
+
+    it("Should borrow up to the borrow limit", async function () {
+      const { client, lendingPool, DAI, user } = await loadFixture(
+        deployBorrowerFixture
+      );
+      const { amount } = await client.borrowMax(await DAI.getAddress());
+      expect(amount).to.be.closeTo(
+        ethers.parseEther("333.4"),
+        ethers.parseEther("0.2")
+      );
+
+      // Within the 1 bps margin of the limit.
+      const { availableToBorrow } = await client.getPosition();
+      expect(availableToBorrow).to.be.lte(ethers.parseEther("0.2"));
+      const preview = await client.previewBorrow(
+        await DAI.getAddress(),
+        ethers.parseEther("1")
+      );
+      expect(preview.error).to.be.instanceOf(InsufficientCollateralError);
+    });
+
+    it("Should refuse to borrow with nothing left", async function () {
+      const { client, DAI } = await loadFixture(deployClientFixture);
+      const error = await client
+        .borrowMax(await DAI.getAddress())
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InsufficientCollateralError);
+    });
+
+    it("Should repay the whole debt including live interest", async function () {
+      const { client, loanManager, DAI, feeds, user } = await loadFixture(
+        deployBorrowerFixture
+      );
+      await time.increase(30 * 24 * 60 * 60);
+      await refreshPrices(...feeds);
+      const balance = await DAI.balanceOf(user.address);
+
+      const { repaid } = await client.repayAll(await DAI.getAddress());
+      expect(repaid).to.be.gt(ethers.parseEther("1000"));
+      expect(
+        await loanManager.getLoanAmount(user.address, DAI.target)
+      ).to.equal(0n);
+      expect(await DAI.balanceOf(user.address)).to.equal(balance - repaid);
+    });
+  });
+
+  describe("Reads", function () {
+    it("Should value positions like the pool", async function () {
+      const { client, lendingPool, WETH, DAI, feeds, user } = await loadFixture(
+        deployBorrowerFixture
+      );
+      await time.increase(7 * 24 * 60 * 60);
+      await refreshPrices(...feeds);
+
+      const position = await client.getPosition();
+      // Mine a block so the pool accrues to the timestamp the client used.
+      await ethers.provider.send("evm_mine", []);
+      const accountData = await lendingPool.getAccountData(user.address);
+      expect(position.collateralValue).to.equal(
+        accountData.totalCollateralValue
+      );
+      expect(position.debtValue).to.equal(accountData.totalDebtValue);
+      expect(position.healthFactor).to.equal(accountData.healthFactor);
+
+      expect(position.collateral).to.have.length(1);
+      expect(position.collateral[0].symbol).to.equal(await WETH.symbol());
+      const [debt] = position.debt;
+      expect(debt.address).to.equal(await DAI.getAddress());
+      expect(debt.principal).to.equal(ethers.parseEther("1000"));
+      expect(debt.interest).to.be.gt(0n);
+      expect(debt.amount).to.equal(debt.principal + debt.interest);
+    });
+
+    it("Should list open auctions", async function () {
+      const { client, lendingPool, WETH, DAI, feeds, deployer, user } =
+        await loadFixture(deployBorrowerFixture);
+      expect(await client.getAuctions()).to.be.empty;
+
+      await setPrice(feeds[0], ethers.parseEther("1400"));
+      await lendingPool
+        .connect(deployer)
+        .liquidateToAuction(user.address, WETH.target, DAI.target);
+
+      const [auction] = await client.getAuctions();
+      expect(auction.id).to.equal(0n);
+      expect(auction.user).to.equal(user.address);
+      expect(auction.collateral.symbol).to.equal(await WETH.symbol());
+      expect(auction.collateralRemaining).to.equal(ethers.parseEther("1"));
+      // Opens 20% above the $1400 WETH / $1 DAI oracle price.
+      expect(auction.price).to.equal(ethers.parseEther("1680"));
+      expect(auction.active).to.equal(true);
+    });
+  });
+
+  describe("Previews", function () {
+    it("Should project a deposit and flag the missing approval", async function () {
+      const { client, WETH } = await loadFixture(deployClientFixture);
+      const preview = await client.previewDeposit(
+        await WETH.getAddress(),
+        ethers.parseEther("1")
+      );
+      expect(preview.before.collateralValue).to.equal(0n);
+      expect(preview.after.collateralValue).to.equal(ethers.parseEther("2000"));
+      expect(preview.needsApproval).to.equal(true);
+      expect(preview.error).to.be.undefined;
+    });
+
+    it("Should project a borrow that fits", async function () {
+      const { client, DAI } = await loadFixture(deployBorrowerFixture);
+      const preview = await client.previewBorrow(
+        await DAI.getAddress(),
+        ethers.parseEther("100")
+      );
+      expect(preview.after.debtValue - preview.before.debtValue).to.equal(
+        ethers.parseEther("100")
+      );
+      expect(preview.after.healthFactor).to.be.lt(preview.before.healthFactor);
+      expect(preview.error).to.be.undefined;
+    });
+
+    it("Should report why a borrow would fail", async function () {
+      const { client, lendingPool, DAI, deployer } = await loadFixture(
+        deployBorrowerFixture
+      );
+      const tooMuch = await client.previewBorrow(
+        await DAI.getAddress(),
+        ethers.parseEther("500")
+      );
+      expect(tooMuch.error).to.be.instanceOf(InsufficientCollateralError);
+
+      const dry = await client.previewBorrow(
+        await DAI.getAddress(),
+        (await lendingPool.availableLiquidity(DAI.target)) + 1n
+      );
+      expect(dry.error).to.be.instanceOf(InsufficientLiquidityError);
+
+      await lendingPool.connect(deployer).setActionPaused(1, true);
+      const paused = await client.previewBorrow(
+        await DAI.getAddress(),
+        ethers.parseEther("1")
+      );
+      expect(paused.error).to.be.instanceOf(ActionPausedError);
+    });
+
+    it("Should report a withdrawal that undercollateralizes", async function () {
+      const { client, WETH } = await loadFixture(deployBorrowerFixture);
+      const preview = await client.previewWithdraw(
+        await WETH.getAddress(),
+        ethers.parseEther("0.5")
+      );
+      expect(preview.after.collateralValue).to.equal(ethers.parseEther("1000"));
+      expect(preview.after.borrowLimit).to.be.lt(preview.after.debtValue);
+      expect(preview.error).to.be.instanceOf(InsufficientCollateralError);
+    });
+
+    it("Should refuse to project repaying more than is owed", async function () {
+      const { client, DAI } = await loadFixture(deployBorrowerFixture);
+      const preview = await client.previewRepay(
+        await DAI.getAddress(),
+        ethers.parseEther("2000")
+      );
+      expect(preview.error).to.be.instanceOf(RepaymentTooHighError);
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import {
@@ -7,13 +10,22 @@ import {
   AuctionManager,
   LoanManager,
 } from "../typechain-types";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  movePrice,
+  HEARTBEAT,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
 
 describe("LendingPool", function () {
   async function deployLendingPoolFixture() {
     const [owner, user1, user2] = await ethers.getSigners();
 
+    const priceOracle = await deployPriceOracle();
+
     const LendingPool = await ethers.getContractFactory("LendingPool");
-    const lendingPool = await LendingPool.deploy();
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
 
     const Token = await ethers.getContractFactory("Token");
     const token1 = await Token.deploy("Token1", "TKN1");
@@ -21,8 +33,27 @@ describe("LendingPool", function () {
 
     await lendingPool.whitelistToken(token1.target);
     await lendingPool.whitelistToken(token2.target);
-    await lendingPool.updatePrice(token1.target, ethers.parseEther("1"));
-    await lendingPool.updatePrice(token2.target, ethers.parseEther("2"));
+    const feed1 = await deployPriceFeed(
+      priceOracle,
+      token1.target,
+      ethers.parseEther("1")
+    );
+    const feed2 = await deployPriceFeed(
+      priceOracle,
+      token2.target,
+      ethers.parseEther("2")
+    );
+
+    // The owner supplies both tokens so there is liquidity to borrow.
+    for (const token of [token1, token2]) {
+      await deployReceiptToken(lendingPool, token);
+      await supplyLiquidity(
+        lendingPool,
+        token,
+        owner,
+        ethers.parseEther("1000")
+      );
+    }
 
     const auctionManager = await ethers.getContractAt(
       "AuctionManager",
@@ -35,8 +66,11 @@ describe("LendingPool", function () {
 
     return {
       lendingPool,
+      priceOracle,
       token1,
       token2,
+      feed1,
+      feed2,
       auctionManager,
       loanManager,
       owner,
@@ -46,11 +80,17 @@ describe("LendingPool", function () {
   }
 
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
+    it("Should grant the deployer every role", async function () {
       const { lendingPool, owner } = await loadFixture(
         deployLendingPoolFixture
       );
-      expect(await lendingPool.owner()).to.equal(owner.address);
+      for (const role of [
+        ethers.ZeroHash,
+        await lendingPool.RISK_MANAGER_ROLE(),
+        await lendingPool.PAUSE_GUARDIAN_ROLE(),
+      ]) {
+        expect(await lendingPool.hasRole(role, owner.address)).to.be.true;
+      }
     });
 
     it("Should deploy AuctionManager and LoanManager", async function () {
@@ -69,18 +109,30 @@ describe("LendingPool", function () {
       const { lendingPool, token1 } = await loadFixture(
         deployLendingPoolFixture
       );
-      expect(await lendingPool.whitelistedTokens(token1.target)).to.be.true;
+      const reserveRegistry = await ethers.getContractAt(
+        "ReserveRegistry",
+        await lendingPool.reserveRegistry()
+      );
+      expect(await reserveRegistry.isListed(token1.target)).to.be.true;
+      expect(await lendingPool.getWhitelistedTokens()).to.include(
+        token1.target
+      );
     });
 
-    it("Should update token prices", async function () {
-      const { lendingPool, token1 } = await loadFixture(
-        deployLendingPoolFixture
-      );
-      const newPrice = ethers.parseEther("1.5");
-      await expect(lendingPool.updatePrice(token1.target, newPrice))
-        .to.emit(lendingPool, "PriceUpdated")
-        .withArgs(token1.target, newPrice);
-      expect(await lendingPool.tokenPrices(token1.target)).to.equal(newPrice);
+    it("Should update the price oracle", async function () {
+      const { lendingPool } = await loadFixture(deployLendingPoolFixture);
+      const newOracle = await deployPriceOracle();
+      await expect(lendingPool.setPriceOracle(newOracle.target))
+        .to.emit(lendingPool, "PriceOracleUpdated")
+        .withArgs(newOracle.target);
+      expect(await lendingPool.priceOracle()).to.equal(newOracle.target);
+    });
+
+    it("Should not allow the zero address as price oracle", async function () {
+      const { lendingPool } = await loadFixture(deployLendingPoolFixture);
+      await expect(
+        lendingPool.setPriceOracle(ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid price oracle");
     });
 
     it("Should not allow non-owner to whitelist tokens", async function () {
@@ -90,25 +142,22 @@ describe("LendingPool", function () {
       await expect(lendingPool.connect(user1).whitelistToken(token1.target))
         .to.be.revertedWithCustomError(
           lendingPool,
-          "OwnableUnauthorizedAccount"
+          "AccessControlUnauthorizedAccount"
         )
-        .withArgs(user1.address);
+        .withArgs(user1.address, await lendingPool.RISK_MANAGER_ROLE());
     });
 
-    it("Should not allow non-owner to update token prices", async function () {
-      const { lendingPool, token1, user1 } = await loadFixture(
+    it("Should not allow non-owner to update the price oracle", async function () {
+      const { lendingPool, user1 } = await loadFixture(
         deployLendingPoolFixture
       );
-      await expect(
-        lendingPool
-          .connect(user1)
-          .updatePrice(token1.target, ethers.parseEther("2"))
-      )
+      const newOracle = await deployPriceOracle();
+      await expect(lendingPool.connect(user1).setPriceOracle(newOracle.target))
         .to.be.revertedWithCustomError(
           lendingPool,
-          "OwnableUnauthorizedAccount"
+          "AccessControlUnauthorizedAccount"
         )
-        .withArgs(user1.address);
+        .withArgs(user1.address, ethers.ZeroHash);
     });
   });
 
@@ -157,17 +206,31 @@ describe("LendingPool", function () {
       await token1.connect(user1).approve(lendingPool.target, depositAmount);
       await lendingPool.connect(user1).deposit(token1.target, depositAmount);
 
-      await token2.mint(lendingPool.target, borrowAmount);
-
       await expect(
-        lendingPool
-          .connect(user1)
-          .borrow(token1.target, token2.target, borrowAmount)
+        lendingPool.connect(user1).borrow(token2.target, borrowAmount)
       )
         .to.emit(lendingPool, "Borrow")
         .withArgs(user1.address, token2.target, borrowAmount);
     });
 
+    it("Should not allow borrowing against a stale price", async function () {
+      const { lendingPool, token1, token2, user1 } = await loadFixture(
+        deployLendingPoolFixture
+      );
+      const depositAmount = ethers.parseEther("150");
+      const borrowAmount = ethers.parseEther("50");
+
+      await token1.mint(user1.address, depositAmount);
+      await token1.connect(user1).approve(lendingPool.target, depositAmount);
+      await lendingPool.connect(user1).deposit(token1.target, depositAmount);
+
+      await time.increase(HEARTBEAT + 1);
+
+      await expect(
+        lendingPool.connect(user1).borrow(token2.target, borrowAmount)
+      ).to.be.revertedWith("Stale price");
+    });
+
     it("Should not allow borrowing with insufficient collateral", async function () {
       const { lendingPool, token1, token2, user1 } = await loadFixture(
         deployLendingPoolFixture
@@ -179,12 +242,8 @@ describe("LendingPool", function () {
       await token1.connect(user1).approve(lendingPool.target, depositAmount);
       await lendingPool.connect(user1).deposit(token1.target, depositAmount);
 
-      await token2.mint(lendingPool.target, borrowAmount);
-
       await expect(
-        lendingPool
-          .connect(user1)
-          .borrow(token1.target, token2.target, borrowAmount)
+        lendingPool.connect(user1).borrow(token2.target, borrowAmount)
       ).to.be.revertedWith("not enough collateral to cover loan");
     });
   });
@@ -198,15 +257,14 @@ describe("LendingPool", function () {
       const { lendingPool, token1, user1, user2 } = await loadFixture(
         deployLendingPoolFixture
       );
+      // Borrow below the limit so accrued interest keeps the position healthy.
       const depositAmount = ethers.parseEther("150");
-      const borrowAmount = ethers.parseEther("100");
+      const borrowAmount = ethers.parseEther("90");
 
       await token1.mint(user1.address, depositAmount);
       await token1.connect(user1).approve(lendingPool.target, depositAmount);
       await lendingPool.connect(user1).deposit(token1.target, depositAmount);
-      await lendingPool
-        .connect(user1)
-        .borrow(token1.target, token1.target, borrowAmount);
+      await lendingPool.connect(user1).borrow(token1.target, borrowAmount);
 
       await token1.mint(user2.address, borrowAmount);
       await token1.connect(user2).approve(lendingPool.target, borrowAmount);
@@ -214,22 +272,134 @@ describe("LendingPool", function () {
       await expect(
         lendingPool
           .connect(user2)
-          .liquidate(user1.address, token1.target, token1.target)
+          .liquidate(user1.address, token1.target, token1.target, borrowAmount)
+      ).to.be.revertedWith("not enough collateral to cover loan");
+    });
+
+    it("Should liquidate once the collateral price falls", async function () {
+      const {
+        lendingPool,
+        token1,
+        token2,
+        feed1,
+        auctionManager,
+        loanManager,
+        user1,
+        user2,
+      } = await loadFixture(deployLendingPoolFixture);
+      const depositAmount = ethers.parseEther("150");
+      const borrowAmount = ethers.parseEther("45");
+
+      await token1.mint(user1.address, depositAmount);
+      await token1.connect(user1).approve(lendingPool.target, depositAmount);
+      await lendingPool.connect(user1).deposit(token1.target, depositAmount);
+      await lendingPool.connect(user1).borrow(token2.target, borrowAmount);
+
+      await token2.mint(user2.address, borrowAmount);
+      await token2.connect(user2).approve(lendingPool.target, borrowAmount);
+
+      // Still healthy at 1.0, underwater once the feed prints 0.85.
+      await movePrice(feed1, [ethers.parseEther("1")], 60);
+      await expect(
+        lendingPool
+          .connect(user2)
+          .liquidate(user1.address, token1.target, token2.target, borrowAmount)
       ).to.be.revertedWith("not enough collateral to cover loan");
+
+      await movePrice(
+        feed1,
+        [ethers.parseEther("0.95"), ethers.parseEther("0.85")],
+        60
+      );
+
+      await expect(
+        lendingPool
+          .connect(user2)
+          .liquidate(user1.address, token1.target, token2.target, borrowAmount)
+      ).to.emit(lendingPool, "Liquidation");
+
+      // Only half the debt can be repaid at once; the remaining collateral
+      // stays with the borrower.
+      const repaid = borrowAmount - (await token2.balanceOf(user2.address));
+      const seized =
+        (repaid * ethers.parseEther("2")) / ethers.parseEther("0.85");
+      expect(repaid).to.be.closeTo(
+        borrowAmount / 2n,
+        ethers.parseEther("0.001")
+      );
+      expect(await token1.balanceOf(user2.address)).to.equal(seized);
+      expect(
+        await loanManager.getCollateralAmount(user1.address, token1.target)
+      ).to.equal(depositAmount - seized);
+      expect(await token1.balanceOf(auctionManager.target)).to.equal(0n);
+    });
+
+    it("Should not liquidate against a stale price", async function () {
+      const { lendingPool, token1, token2, user1, user2 } = await loadFixture(
+        deployLendingPoolFixture
+      );
+      const depositAmount = ethers.parseEther("150");
+      const borrowAmount = ethers.parseEther("50");
+
+      await token1.mint(user1.address, depositAmount);
+      await token1.connect(user1).approve(lendingPool.target, depositAmount);
+      await lendingPool.connect(user1).deposit(token1.target, depositAmount);
+      await lendingPool.connect(user1).borrow(token2.target, borrowAmount);
+
+      await time.increase(HEARTBEAT + 1);
+
+      await expect(
+        lendingPool
+          .connect(user2)
+          .liquidate(user1.address, token1.target, token2.target, borrowAmount)
+      ).to.be.revertedWith("Stale price");
     });
   });
 
-  describe("Reward Distribution", function () {
-    it("Should not allow non-owner to distribute rewards", async function () {
+  describe("Rewards Distributor", function () {
+    it("Should let the owner set a distributor for this pool", async function () {
+      const { lendingPool, token1 } = await loadFixture(
+        deployLendingPoolFixture
+      );
+      const distributor = await ethers.deployContract("RewardsDistributor", [
+        token1.target,
+        lendingPool.target,
+        7 * 24 * 60 * 60,
+      ]);
+      await expect(lendingPool.setRewardsDistributor(distributor.target))
+        .to.emit(lendingPool, "RewardsDistributorUpdated")
+        .withArgs(distributor.target);
+      expect(await lendingPool.rewardsDistributor()).to.equal(
+        distributor.target
+      );
+    });
+
+    it("Should reject a distributor for another pool", async function () {
+      const { lendingPool, token1, user1 } = await loadFixture(
+        deployLendingPoolFixture
+      );
+      const distributor = await ethers.deployContract("RewardsDistributor", [
+        token1.target,
+        user1.address,
+        7 * 24 * 60 * 60,
+      ]);
+      await expect(
+        lendingPool.setRewardsDistributor(distributor.target)
+      ).to.be.revertedWith("Invalid rewards distributor");
+    });
+
+    it("Should not allow non-owner to set the distributor", async function () {
       const { lendingPool, user1 } = await loadFixture(
         deployLendingPoolFixture
       );
-      await expect(lendingPool.connect(user1).distributeRewards())
+      await expect(
+        lendingPool.connect(user1).setRewardsDistributor(user1.address)
+      )
         .to.be.revertedWithCustomError(
           lendingPool,
-          "OwnableUnauthorizedAccount"
+          "AccessControlUnauthorizedAccount"
         )
-        .withArgs(user1.address);
+        .withArgs(user1.address, ethers.ZeroHash);
     });
   });
 });
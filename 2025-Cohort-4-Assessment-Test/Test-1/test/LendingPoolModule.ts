@@ -0,0 +1,185 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+
+// Ignition's CLI revives "123n" strings into bigints; do the same here so the
+// test deploys with exactly what `--parameters ignition/parameters/ci.json`
+// would use.
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+describe("LendingPoolModule", function () {
+  async function deployModuleFixture() {
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    return {
+      lendingPool: await ethers.getContractAt(
+        "LendingPool",
+        deployment.lendingPool.target
+      ),
+      lendingRouter: await ethers.getContractAt(
+        "LendingRouter",
+        deployment.lendingRouter.target
+      ),
+      auctionManager: await ethers.getContractAt(
+        "AuctionManager",
+        deployment.auctionManager.target
+      ),
+      loanManager: await ethers.getContractAt(
+        "LoanManager",
+        deployment.loanManager.target
+      ),
+      reserveRegistry: await ethers.getContractAt(
+        "ReserveRegistry",
+        deployment.reserveRegistry.target
+      ),
+      interestRateStrategy: await ethers.getContractAt(
+        "InterestRateStrategy",
+        deployment.interestRateStrategy.target
+      ),
+      priceOracle: await ethers.getContractAt(
+        "PriceOracle",
+        deployment.priceOracle.target
+      ),
+      WETH: await ethers.getContractAt("Token", deployment.WETH.target),
+      DAI: await ethers.getContractAt("Token", deployment.DAI.target),
+      LINK: await ethers.getContractAt("Token", deployment.LINK.target),
+      ibWETH: await ethers.getContractAt(
+        "ReceiptToken",
+        deployment.ibWETH.target
+      ),
+      ibDAI: await ethers.getContractAt(
+        "ReceiptToken",
+        deployment.ibDAI.target
+      ),
+      ibLINK: await ethers.getContractAt(
+        "ReceiptToken",
+        deployment.ibLINK.target
+      ),
+    };
+  }
+
+  it("Should deploy the pool with its child contracts", async function () {
+    const { lendingPool, auctionManager, loanManager, reserveRegistry } =
+      await loadFixture(deployModuleFixture);
+    expect(await lendingPool.auctionManager()).to.equal(auctionManager.target);
+    expect(await lendingPool.loanManager()).to.equal(loanManager.target);
+    expect(await lendingPool.reserveRegistry()).to.equal(
+      reserveRegistry.target
+    );
+    // The pool drives its children; the deployer administers them.
+    const [deployer] = await ethers.getSigners();
+    for (const child of [auctionManager, loanManager, reserveRegistry]) {
+      expect(await child.hasRole(await child.POOL_ROLE(), lendingPool.target))
+        .to.be.true;
+      expect(await child.hasRole(ethers.ZeroHash, deployer.address)).to.be.true;
+    }
+  });
+
+  it("Should deploy a router the pool trusts", async function () {
+    const { lendingPool, lendingRouter, auctionManager } = await loadFixture(
+      deployModuleFixture
+    );
+    expect(await lendingRouter.lendingPool()).to.equal(lendingPool.target);
+    expect(await lendingRouter.auctionManager()).to.equal(
+      auctionManager.target
+    );
+    expect(await lendingPool.routers(lendingRouter.target)).to.be.true;
+  });
+
+  it("Should whitelist, price and seed every token from the parameters", async function () {
+    const { lendingPool, priceOracle, reserveRegistry, WETH, DAI, LINK } =
+      await loadFixture(deployModuleFixture);
+    const prices = parameters.PriceOracleModule;
+    const config = parameters.LendingPoolModule;
+
+    expect(await lendingPool.priceOracle()).to.equal(priceOracle.target);
+
+    for (const [token, price, liquidity] of [
+      [WETH, prices.WETHPrice, config.WETHLiquidity],
+      [DAI, prices.DAIPrice, config.DAILiquidity],
+      [LINK, prices.LINKPrice, config.LINKLiquidity],
+    ]) {
+      expect(await reserveRegistry.isListed(token.target)).to.be.true;
+      // Feeds report 8 decimals, the oracle scales them to 18.
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        price * 10n ** 10n
+      );
+      expect(await token.balanceOf(lendingPool.target)).to.equal(liquidity);
+      expect(await lendingPool.availableLiquidity(token.target)).to.equal(
+        liquidity
+      );
+      expect(
+        (await reserveRegistry.getReserveConfig(token.target)).liquidationBonus
+      ).to.equal(500n);
+    }
+  });
+
+  it("Should supply the seeded liquidity through receipt tokens", async function () {
+    const { lendingPool, WETH, DAI, LINK, ibWETH, ibDAI, ibLINK } =
+      await loadFixture(deployModuleFixture);
+    const [deployer] = await ethers.getSigners();
+    const config = parameters.LendingPoolModule;
+
+    for (const [token, receiptToken, liquidity] of [
+      [WETH, ibWETH, config.WETHLiquidity],
+      [DAI, ibDAI, config.DAILiquidity],
+      [LINK, ibLINK, config.LINKLiquidity],
+    ] as const) {
+      expect(await lendingPool.receiptTokens(token.target)).to.equal(
+        receiptToken.target
+      );
+      expect(await receiptToken.underlying()).to.equal(token.target);
+      // Nothing is borrowed yet, so shares are minted one to one.
+      expect(await receiptToken.balanceOf(deployer.address)).to.equal(
+        liquidity
+      );
+    }
+    expect(await ibDAI.symbol()).to.equal("ibDAI");
+  });
+
+  it("Should price every token with the interest rate strategy", async function () {
+    const { loanManager, interestRateStrategy, WETH, DAI, LINK } =
+      await loadFixture(deployModuleFixture);
+
+    expect(await interestRateStrategy.optimalUtilization()).to.equal(
+      ethers.parseEther("0.8")
+    );
+    for (const token of [WETH, DAI, LINK]) {
+      expect(await loanManager.interestRateStrategies(token.target)).to.equal(
+        interestRateStrategy.target
+      );
+    }
+  });
+
+  it("Should name tokens from the parameters", async function () {
+    const { WETH, DAI } = await loadFixture(deployModuleFixture);
+    expect(await WETH.name()).to.equal(parameters.TokensModule.WETHName);
+    expect(await DAI.symbol()).to.equal("DAI");
+  });
+
+  it("Should allow borrowing against the seeded liquidity", async function () {
+    const { lendingPool, WETH, DAI } = await loadFixture(deployModuleFixture);
+    const [, user] = await ethers.getSigners();
+    const depositAmount = ethers.parseEther("1");
+    const borrowAmount = ethers.parseEther("1000");
+
+    await WETH.mint(user.address, depositAmount);
+    await WETH.connect(user).approve(lendingPool.target, depositAmount);
+    await lendingPool.connect(user).deposit(WETH.target, depositAmount);
+
+    await expect(lendingPool.connect(user).borrow(DAI.target, borrowAmount))
+      .to.emit(lendingPool, "Borrow")
+      .withArgs(user.address, DAI.target, borrowAmount);
+  });
+});
@@ -0,0 +1,561 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { AddressLike } from "ethers";
+import { readFileSync } from "fs";
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import { LendingRouter, Token } from "../typechain-types";
+import { setPrice } from "./helpers/oracle";
+import { signPermit } from "./helpers/permit";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+describe("LendingRouter", function () {
+  // Nobody has approved anything: every flow starts from a permit.
+  async function deployRouterFixture() {
+    const [, user, liquidator] = await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const lendingRouter = await ethers.getContractAt(
+      "LendingRouter",
+      deployment.lendingRouter.target
+    );
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      deployment.loanManager.target
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      deployment.auctionManager.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const WETH = await ethers.getContractAt("Token", deployment.WETH.target);
+    const DAI = await ethers.getContractAt("Token", deployment.DAI.target);
+    const { aggregator } = await priceOracle.feeds(WETH.target);
+    const wethFeed = await ethers.getContractAt("MockAggregator", aggregator);
+
+    await WETH.mint(user.address, ethers.parseEther("1"));
+    await DAI.mint(liquidator.address, ethers.parseEther("5000"));
+
+    return {
+      lendingPool,
+      lendingRouter,
+      loanManager,
+      auctionManager,
+      WETH,
+      DAI,
+      wethFeed,
+      user,
+      liquidator,
+    };
+  }
+
+  // Signs a permit and encodes the router call that redeems it, for
+  // `multicall`.
+  async function permitCall(
+    router: LendingRouter,
+    token: Token,
+    owner: HardhatEthersSigner,
+    spender: AddressLike,
+    value: bigint
+  ) {
+    const { deadline, v, r, s } = await signPermit(
+      token,
+      owner,
+      spender,
+      value
+    );
+    return router.interface.encodeFunctionData("permit", [
+      token.target,
+      await ethers.resolveAddress(spender),
+      value,
+      deadline,
+      v,
+      r,
+      s,
+    ]);
+  }
+
+  // 1 WETH backing 1000 DAI, opened in one transaction.
+  async function openPositionFixture() {
+    const fixture = await loadFixture(deployRouterFixture);
+    const { lendingPool, lendingRouter, WETH, DAI, user } = fixture;
+    await lendingRouter
+      .connect(user)
+      .multicall([
+        await permitCall(
+          lendingRouter,
+          WETH,
+          user,
+          lendingPool.target,
+          ethers.parseEther("1")
+        ),
+        lendingRouter.interface.encodeFunctionData("deposit", [
+          WETH.target,
+          ethers.parseEther("1"),
+        ]),
+        lendingRouter.interface.encodeFunctionData("borrow", [
+          DAI.target,
+          ethers.parseEther("1000"),
+        ]),
+      ]);
+    return fixture;
+  }
+
+  describe("Permits", function () {
+    it("Should approve spending with a signed permit", async function () {
+      const { lendingPool, WETH, user, liquidator } = await loadFixture(
+        deployRouterFixture
+      );
+      const amount = ethers.parseEther("1");
+      const { deadline, v, r, s } = await signPermit(
+        WETH,
+        user,
+        lendingPool.target,
+        amount
+      );
+
+      // Anyone can submit it; only the signer's allowance changes.
+      await WETH.connect(liquidator).permit(
+        user.address,
+        lendingPool.target,
+        amount,
+        deadline,
+        v,
+        r,
+        s
+      );
+      expect(await WETH.allowance(user.address, lendingPool.target)).to.equal(
+        amount
+      );
+      expect(await WETH.nonces(user.address)).to.equal(1n);
+    });
+
+    it("Should tolerate a permit someone else already submitted", async function () {
+      const { lendingPool, lendingRouter, WETH, user } = await loadFixture(
+        deployRouterFixture
+      );
+      const amount = ethers.parseEther("1");
+      const { deadline, v, r, s } = await signPermit(
+        WETH,
+        user,
+        lendingPool.target,
+        amount
+      );
+      await WETH.permit(
+        user.address,
+        lendingPool.target,
+        amount,
+        deadline,
+        v,
+        r,
+        s
+      );
+
+      await expect(
+        lendingRouter
+          .connect(user)
+          .permit(WETH.target, lendingPool.target, amount, deadline, v, r, s)
+      ).not.to.be.reverted;
+    });
+
+    it("Should reject permits that grant nothing", async function () {
+      const { lendingPool, lendingRouter, WETH, user, liquidator } =
+        await loadFixture(deployRouterFixture);
+      // Signed by someone other than the caller.
+      const { value, deadline, v, r, s } = await signPermit(
+        WETH,
+        liquidator,
+        lendingPool.target,
+        ethers.parseEther("1")
+      );
+
+      await expect(
+        lendingRouter
+          .connect(user)
+          .permit(WETH.target, lendingPool.target, value, deadline, v, r, s)
+      ).to.be.revertedWith("Permit failed");
+    });
+  });
+
+  describe("Deposit and borrow", function () {
+    it("Should open a position in one transaction", async function () {
+      const { lendingPool, lendingRouter, loanManager, WETH, DAI, user } =
+        await loadFixture(deployRouterFixture);
+      const nonce = await ethers.provider.getTransactionCount(user.address);
+
+      const tx = lendingRouter
+        .connect(user)
+        .multicall([
+          await permitCall(
+            lendingRouter,
+            WETH,
+            user,
+            lendingPool.target,
+            ethers.parseEther("1")
+          ),
+          lendingRouter.interface.encodeFunctionData("deposit", [
+            WETH.target,
+            ethers.parseEther("1"),
+          ]),
+          lendingRouter.interface.encodeFunctionData("borrow", [
+            DAI.target,
+            ethers.parseEther("1000"),
+          ]),
+        ]);
+
+      await expect(tx)
+        .to.emit(lendingPool, "Deposit")
+        .withArgs(user.address, WETH.target, ethers.parseEther("1"))
+        .and.to.emit(lendingPool, "Borrow")
+        .withArgs(user.address, DAI.target, ethers.parseEther("1000"));
+      expect(await ethers.provider.getTransactionCount(user.address)).to.equal(
+        nonce + 1
+      );
+      expect(
+        await loanManager.getCollateralAmount(user.address, WETH.target)
+      ).to.equal(ethers.parseEther("1"));
+      expect(
+        await loanManager.getLoanAmount(user.address, DAI.target)
+      ).to.equal(ethers.parseEther("1000"));
+      expect(await WETH.balanceOf(user.address)).to.equal(0n);
+      expect(await DAI.balanceOf(user.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await WETH.allowance(user.address, lendingPool.target)).to.equal(
+        0n
+      );
+      // Nothing stays with the router.
+      expect(await WETH.balanceOf(lendingRouter.target)).to.equal(0n);
+      expect(await DAI.balanceOf(lendingRouter.target)).to.equal(0n);
+      expect(
+        await loanManager.getCollateralAmount(lendingRouter.target, WETH.target)
+      ).to.equal(0n);
+    });
+
+    it("Should undo the whole batch when one step fails", async function () {
+      const { lendingPool, lendingRouter, loanManager, WETH, DAI, user } =
+        await loadFixture(deployRouterFixture);
+
+      await expect(
+        lendingRouter
+          .connect(user)
+          .multicall([
+            await permitCall(
+              lendingRouter,
+              WETH,
+              user,
+              lendingPool.target,
+              ethers.parseEther("1")
+            ),
+            lendingRouter.interface.encodeFunctionData("deposit", [
+              WETH.target,
+              ethers.parseEther("1"),
+            ]),
+            lendingRouter.interface.encodeFunctionData("borrow", [
+              DAI.target,
+              ethers.parseEther("1500"),
+            ]),
+          ])
+      ).to.be.revertedWith("not enough collateral to cover loan");
+
+      expect(
+        await loanManager.getCollateralAmount(user.address, WETH.target)
+      ).to.equal(0n);
+      expect(await WETH.balanceOf(user.address)).to.equal(
+        ethers.parseEther("1")
+      );
+      expect(await WETH.nonces(user.address)).to.equal(0n);
+    });
+  });
+
+  describe("Repay and withdraw", function () {
+    it("Should pay down debt and free collateral in one transaction", async function () {
+      const { lendingPool, lendingRouter, loanManager, WETH, DAI, user } =
+        await openPositionFixture();
+      const repayAmount = ethers.parseEther("600");
+      const withdrawAmount = ethers.parseEther("0.5");
+
+      await expect(
+        lendingRouter
+          .connect(user)
+          .multicall([
+            await permitCall(
+              lendingRouter,
+              DAI,
+              user,
+              lendingPool.target,
+              repayAmount
+            ),
+            lendingRouter.interface.encodeFunctionData("repay", [
+              DAI.target,
+              repayAmount,
+            ]),
+            lendingRouter.interface.encodeFunctionData("withdraw", [
+              WETH.target,
+              withdrawAmount,
+            ]),
+          ])
+      )
+        .to.emit(lendingPool, "Repay")
+        .withArgs(user.address, DAI.target, repayAmount)
+        .and.to.emit(lendingPool, "Withdraw")
+        .withArgs(user.address, WETH.target, withdrawAmount);
+
+      expect(await WETH.balanceOf(user.address)).to.equal(withdrawAmount);
+      expect(await DAI.balanceOf(user.address)).to.equal(
+        ethers.parseEther("400")
+      );
+      expect(
+        await loanManager.getCollateralAmount(user.address, WETH.target)
+      ).to.equal(ethers.parseEther("0.5"));
+      expect(
+        await loanManager.getLoanAmount(user.address, DAI.target)
+      ).to.be.closeTo(ethers.parseEther("400"), ethers.parseEther("0.01"));
+    });
+
+    it("Should not withdraw collateral the remaining debt needs", async function () {
+      const { lendingPool, lendingRouter, WETH, DAI, user } =
+        await openPositionFixture();
+      const repayAmount = ethers.parseEther("100");
+
+      await expect(
+        lendingRouter
+          .connect(user)
+          .multicall([
+            await permitCall(
+              lendingRouter,
+              DAI,
+              user,
+              lendingPool.target,
+              repayAmount
+            ),
+            lendingRouter.interface.encodeFunctionData("repay", [
+              DAI.target,
+              repayAmount,
+            ]),
+            lendingRouter.interface.encodeFunctionData("withdraw", [
+              WETH.target,
+              ethers.parseEther("0.5"),
+            ]),
+          ])
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+    });
+  });
+
+  describe("Liquidate and bid", function () {
+    // At $1400, 1 WETH no longer safely backs 1000 DAI.
+    async function unhealthyFixture() {
+      const fixture = await openPositionFixture();
+      await setPrice(fixture.wethFeed, ethers.parseEther("1400"));
+      return fixture;
+    }
+
+    it("Should auction a position and buy its collateral in one transaction", async function () {
+      const {
+        lendingPool,
+        lendingRouter,
+        loanManager,
+        auctionManager,
+        WETH,
+        DAI,
+        user,
+        liquidator,
+      } = await loadFixture(unhealthyFixture);
+      const maxCost = ethers.parseEther("2000");
+
+      const tx = lendingRouter
+        .connect(liquidator)
+        .multicall([
+          await permitCall(
+            lendingRouter,
+            DAI,
+            liquidator,
+            lendingRouter.target,
+            maxCost
+          ),
+          lendingRouter.interface.encodeFunctionData("liquidateAndBid", [
+            user.address,
+            WETH.target,
+            DAI.target,
+            maxCost,
+            ethers.parseEther("2000"),
+          ]),
+        ]);
+      await expect(tx)
+        .to.emit(lendingPool, "LiquidationToAuction")
+        .and.to.emit(auctionManager, "DutchAuctionPurchase")
+        .and.to.emit(auctionManager, "DutchAuctionClosed");
+
+      // The auction opens 20% above the oracle, and the bid covers the
+      // whole debt; the rest of the collateral goes back to the borrower.
+      const auction = await auctionManager.dutchAuctions(0n);
+      expect(auction.collateralRemaining).to.equal(0n);
+      expect(auction.debtRemaining).to.equal(0n);
+      const [purchase] = await auctionManager.queryFilter(
+        auctionManager.filters.DutchAuctionPurchase(0n)
+      );
+      const { amount, cost } = purchase.args;
+      expect(purchase.args.buyer).to.equal(lendingRouter.target);
+      expect(amount).to.equal(
+        (cost * ethers.parseEther("1")) / ethers.parseEther("1680")
+      );
+
+      expect(await WETH.balanceOf(liquidator.address)).to.equal(amount);
+      expect(await DAI.balanceOf(liquidator.address)).to.equal(
+        ethers.parseEther("5000") - cost
+      );
+      expect(await WETH.balanceOf(user.address)).to.equal(
+        ethers.parseEther("1") - amount
+      );
+      expect(await loanManager.getDebtTokens(user.address)).to.be.empty;
+      expect(await WETH.balanceOf(lendingRouter.target)).to.equal(0n);
+      expect(await DAI.balanceOf(lendingRouter.target)).to.equal(0n);
+    });
+
+    it("Should not liquidate when the auction price is above the limit", async function () {
+      const { lendingRouter, loanManager, WETH, DAI, user, liquidator } =
+        await loadFixture(unhealthyFixture);
+      await DAI.connect(liquidator).approve(
+        lendingRouter.target,
+        ethers.MaxUint256
+      );
+
+      await expect(
+        lendingRouter
+          .connect(liquidator)
+          .liquidateAndBid(
+            user.address,
+            WETH.target,
+            DAI.target,
+            ethers.parseEther("2000"),
+            ethers.parseEther("1500")
+          )
+      ).to.be.revertedWith("Price above limit");
+      expect(
+        await loanManager.getCollateralAmount(user.address, WETH.target)
+      ).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should credit direct liquidations to the caller", async function () {
+      const { lendingPool, lendingRouter, WETH, DAI, user, liquidator } =
+        await loadFixture(unhealthyFixture);
+      const repayAmount = ethers.parseEther("500");
+
+      await expect(
+        lendingRouter
+          .connect(liquidator)
+          .multicall([
+            await permitCall(
+              lendingRouter,
+              DAI,
+              liquidator,
+              lendingPool.target,
+              repayAmount
+            ),
+            lendingRouter.interface.encodeFunctionData("liquidate", [
+              user.address,
+              WETH.target,
+              DAI.target,
+              repayAmount,
+            ]),
+          ])
+      )
+        .to.emit(lendingPool, "Liquidation")
+        .withArgs(
+          user.address,
+          WETH.target,
+          DAI.target,
+          liquidator.address,
+          repayAmount,
+          (seized: bigint) => seized > 0n
+        );
+      expect(await WETH.balanceOf(liquidator.address)).to.be.gt(0n);
+    });
+  });
+
+  describe("Delegated callers", function () {
+    it("Should ignore appended addresses from callers it does not trust", async function () {
+      const { lendingPool, WETH, user, liquidator } = await loadFixture(
+        deployRouterFixture
+      );
+      await WETH.mint(liquidator.address, ethers.parseEther("1"));
+      await WETH.connect(liquidator).approve(
+        lendingPool.target,
+        ethers.MaxUint256
+      );
+      const data = ethers.concat([
+        lendingPool.interface.encodeFunctionData("deposit", [
+          WETH.target,
+          ethers.parseEther("1"),
+        ]),
+        user.address,
+      ]);
+
+      await expect(liquidator.sendTransaction({ to: lendingPool.target, data }))
+        .to.emit(lendingPool, "Deposit")
+        .withArgs(liquidator.address, WETH.target, ethers.parseEther("1"));
+    });
+
+    it("Should act as the router itself once it is no longer trusted", async function () {
+      const { lendingPool, lendingRouter, WETH, user } = await loadFixture(
+        deployRouterFixture
+      );
+      await WETH.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+      await expect(lendingPool.setRouter(lendingRouter.target, false))
+        .to.emit(lendingPool, "RouterUpdated")
+        .withArgs(lendingRouter.target, false);
+
+      // The router has no tokens of its own to deposit.
+      await expect(
+        lendingRouter.connect(user).deposit(WETH.target, ethers.parseEther("1"))
+      ).to.be.revertedWithCustomError(WETH, "ERC20InsufficientAllowance");
+    });
+
+    it("Should check roles against the router itself", async function () {
+      const { lendingPool, user } = await loadFixture(deployRouterFixture);
+      const [admin] = await ethers.getSigners();
+      await lendingPool.setRouter(user.address, true);
+
+      // Appending the admin's address only changes who user actions are
+      // for, never whose roles count.
+      const data = ethers.concat([
+        lendingPool.interface.encodeFunctionData("setCloseFactor", [10000n]),
+        admin.address,
+      ]);
+      await expect(user.sendTransaction({ to: lendingPool.target, data }))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(user.address, await lendingPool.RISK_MANAGER_ROLE());
+    });
+
+    it("Should only let the admin trust routers", async function () {
+      const { lendingPool, user } = await loadFixture(deployRouterFixture);
+      await expect(lendingPool.connect(user).setRouter(user.address, true))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(user.address, ethers.ZeroHash);
+    });
+  });
+});
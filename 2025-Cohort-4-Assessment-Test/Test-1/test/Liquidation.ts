@@ -0,0 +1,459 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { AddressLike } from "ethers";
+import { ethers } from "hardhat";
+import { LendingPool, LoanManager } from "../typechain-types";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+  setPrice,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+const BONUS = 500n; // 5%
+
+describe("Liquidation", function () {
+  async function deployLiquidationFixture() {
+    const [owner, borrower, liquidator] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      await lendingPool.auctionManager()
+    );
+    const reserveRegistry = await ethers.getContractAt(
+      "ReserveRegistry",
+      await lendingPool.reserveRegistry()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const weth = await Token.deploy("Wrapped Ether", "WETH");
+    const dai = await Token.deploy("Dai Stablecoin", "DAI");
+
+    await lendingPool.whitelistToken(weth.target);
+    await lendingPool.whitelistToken(dai.target);
+    await lendingPool.setLiquidationBonus(weth.target, BONUS);
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    const daiFeed = await deployPriceFeed(
+      priceOracle,
+      dai.target,
+      ethers.parseEther("1")
+    );
+
+    await deployReceiptToken(lendingPool, dai);
+    await supplyLiquidity(lendingPool, dai, owner, ethers.parseEther("100000"));
+
+    // 1 WETH backs 1200 DAI: healthy at $2000, liquidatable below $1800.
+    const depositAmount = ethers.parseEther("1");
+    const borrowAmount = ethers.parseEther("1200");
+    await weth.mint(borrower.address, depositAmount);
+    await weth.connect(borrower).approve(lendingPool.target, depositAmount);
+    await lendingPool.connect(borrower).deposit(weth.target, depositAmount);
+    await lendingPool.connect(borrower).borrow(dai.target, borrowAmount);
+
+    await dai.mint(liquidator.address, borrowAmount * 2n);
+    await dai
+      .connect(liquidator)
+      .approve(lendingPool.target, ethers.MaxUint256);
+
+    return {
+      lendingPool,
+      loanManager,
+      auctionManager,
+      reserveRegistry,
+      weth,
+      dai,
+      wethFeed,
+      daiFeed,
+      depositAmount,
+      borrowAmount,
+      owner,
+      borrower,
+      liquidator,
+    };
+  }
+
+  async function liquidate(
+    lendingPool: LendingPool,
+    ...args: Parameters<LendingPool["liquidate"]>
+  ) {
+    const tx = await lendingPool.liquidate(...args);
+    const receipt = await tx.wait();
+    for (const log of receipt!.logs) {
+      const event = lendingPool.interface.parseLog(log);
+      if (event?.name === "Liquidation") {
+        return {
+          debtRepaid: event.args.debtRepaid as bigint,
+          collateralSeized: event.args.collateralSeized as bigint,
+        };
+      }
+    }
+    throw new Error("Liquidation event not emitted");
+  }
+
+  function seizedFor(repaid: bigint, collateralPrice: string) {
+    return (
+      (repaid * ethers.parseEther("1") * (10000n + BONUS)) /
+      (ethers.parseEther(collateralPrice) * 10000n)
+    );
+  }
+
+  async function debtOf(
+    loanManager: LoanManager,
+    user: AddressLike,
+    token: AddressLike
+  ) {
+    return (
+      (await loanManager.getLoanAmount(user, token)) +
+      (await loanManager.calculateInterest(user, token))
+    );
+  }
+
+  describe("Parameters", function () {
+    it("Should default to a 50% close factor and no bonus", async function () {
+      const { lendingPool, reserveRegistry, dai } = await loadFixture(
+        deployLiquidationFixture
+      );
+      expect(await lendingPool.closeFactor()).to.equal(5000n);
+      expect(
+        (await reserveRegistry.getReserveConfig(dai.target)).liquidationBonus
+      ).to.equal(0n);
+    });
+
+    it("Should let the owner set the close factor", async function () {
+      const { lendingPool } = await loadFixture(deployLiquidationFixture);
+      await expect(lendingPool.setCloseFactor(10000n))
+        .to.emit(lendingPool, "CloseFactorUpdated")
+        .withArgs(10000n);
+      expect(await lendingPool.closeFactor()).to.equal(10000n);
+
+      for (const closeFactor of [0n, 10001n]) {
+        await expect(
+          lendingPool.setCloseFactor(closeFactor)
+        ).to.be.revertedWith("Invalid close factor");
+      }
+    });
+
+    it("Should let the owner set liquidation bonuses", async function () {
+      const { lendingPool, reserveRegistry, dai, owner } = await loadFixture(
+        deployLiquidationFixture
+      );
+      await expect(lendingPool.setLiquidationBonus(dai.target, 2000n))
+        .to.emit(reserveRegistry, "LiquidationBonusUpdated")
+        .withArgs(dai.target, 2000n);
+
+      await expect(
+        lendingPool.setLiquidationBonus(dai.target, 2001n)
+      ).to.be.revertedWith("Invalid liquidation bonus");
+      await expect(
+        lendingPool.setLiquidationBonus(owner.address, 0n)
+      ).to.be.revertedWith("Token not whitelisted");
+    });
+
+    it("Should only let the owner change liquidation parameters", async function () {
+      const { lendingPool, dai, liquidator } = await loadFixture(
+        deployLiquidationFixture
+      );
+      await expect(lendingPool.connect(liquidator).setCloseFactor(10000n))
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(liquidator.address, await lendingPool.RISK_MANAGER_ROLE());
+      await expect(
+        lendingPool.connect(liquidator).setLiquidationBonus(dai.target, 0n)
+      )
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(liquidator.address, await lendingPool.RISK_MANAGER_ROLE());
+    });
+  });
+
+  describe("Partial liquidation", function () {
+    it("Should cap the repayment at the close factor", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+      await setPrice(wethFeed, ethers.parseEther("1700"));
+
+      const { debtRepaid, collateralSeized } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        borrowAmount
+      );
+
+      const remaining = await debtOf(loanManager, borrower.address, dai.target);
+      expect(debtRepaid).to.be.closeTo(
+        borrowAmount / 2n,
+        ethers.parseEther("0.001")
+      );
+      expect(remaining).to.be.closeTo(debtRepaid, ethers.parseEther("0.001"));
+      expect(collateralSeized).to.equal(seizedFor(debtRepaid, "1700"));
+      expect(await weth.balanceOf(liquidator.address)).to.equal(
+        collateralSeized
+      );
+    });
+
+    it("Should repay less than the close factor when asked to", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        depositAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+      await setPrice(wethFeed, ethers.parseEther("1700"));
+      const repayAmount = ethers.parseEther("100");
+
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, repayAmount)
+      )
+        .to.emit(lendingPool, "Liquidation")
+        .withArgs(
+          borrower.address,
+          weth.target,
+          dai.target,
+          liquidator.address,
+          repayAmount,
+          seizedFor(repayAmount, "1700")
+        );
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        ethers.parseEther("100000") - ethers.parseEther("1100")
+      );
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(depositAmount - seizedFor(repayAmount, "1700"));
+    });
+
+    it("Should include accrued interest in the debt", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        daiFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+
+      // A year at 5% takes the debt to ~1261.5 DAI, past what 1 WETH at
+      // $1850 covers.
+      await time.increase(ONE_YEAR);
+      await setPrice(wethFeed, ethers.parseEther("1850"));
+      await refreshPrices(daiFeed);
+      const debt = await debtOf(loanManager, borrower.address, dai.target);
+      expect(debt).to.be.gt(borrowAmount);
+
+      const { debtRepaid } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        borrowAmount
+      );
+      expect(debtRepaid).to.be.closeTo(debt / 2n, ethers.parseEther("0.001"));
+      expect(debtRepaid).to.be.gt(borrowAmount / 2n);
+    });
+
+    it("Should not send leftover collateral to the auction manager", async function () {
+      const {
+        lendingPool,
+        auctionManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+      await setPrice(wethFeed, ethers.parseEther("1700"));
+
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, borrowAmount)
+      ).not.to.emit(auctionManager, "AuctionCreated");
+      expect(await weth.balanceOf(auctionManager.target)).to.equal(0n);
+    });
+
+    it("Should liquidate in steps as the price keeps falling", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        depositAmount,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+      let collateral = depositAmount;
+      let repaidTotal = 0n;
+
+      // Each step halves the debt and brings the account back to health
+      // until the next drop.
+      for (const price of ["1700", "1300"]) {
+        await setPrice(wethFeed, ethers.parseEther(price));
+        expect(
+          (await lendingPool.getAccountData(borrower.address)).healthFactor
+        ).to.be.lt(ethers.parseEther("1"));
+
+        const { debtRepaid, collateralSeized } = await liquidate(
+          lendingPool.connect(liquidator),
+          borrower.address,
+          weth.target,
+          dai.target,
+          borrowAmount
+        );
+        expect(collateralSeized).to.equal(seizedFor(debtRepaid, price));
+        collateral -= collateralSeized;
+        repaidTotal += debtRepaid;
+
+        expect(
+          await loanManager.getCollateralAmount(borrower.address, weth.target)
+        ).to.equal(collateral);
+        expect(
+          (await lendingPool.getAccountData(borrower.address)).healthFactor
+        ).to.be.gte(ethers.parseEther("1"));
+        await expect(
+          lendingPool
+            .connect(liquidator)
+            .liquidate(borrower.address, weth.target, dai.target, borrowAmount)
+        ).to.be.revertedWith("not enough collateral to cover loan");
+      }
+
+      expect(repaidTotal).to.be.closeTo(
+        (borrowAmount * 3n) / 4n,
+        ethers.parseEther("0.001")
+      );
+      expect(
+        await debtOf(loanManager, borrower.address, dai.target)
+      ).to.be.closeTo(borrowAmount / 4n, ethers.parseEther("0.001"));
+      expect(await weth.balanceOf(liquidator.address)).to.equal(
+        depositAmount - collateral
+      );
+    });
+
+    it("Should seize all collateral once it no longer covers the bonus", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        weth,
+        dai,
+        wethFeed,
+        borrowAmount,
+        borrower,
+        liquidator,
+      } = await loadFixture(deployLiquidationFixture);
+      // The first step leaves ~0.55 WETH behind 600 DAI of debt.
+      await setPrice(wethFeed, ethers.parseEther("1400"));
+      await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        borrowAmount
+      );
+      await setPrice(wethFeed, ethers.parseEther("400"));
+      const collateral = await loanManager.getCollateralAmount(
+        borrower.address,
+        weth.target
+      );
+      const debtBefore = await debtOf(
+        loanManager,
+        borrower.address,
+        dai.target
+      );
+
+      // The collateral is worth ~220 DAI, less than the debt plus the
+      // bonus, so the liquidation takes all of it and repays only what it
+      // is worth.
+      const { debtRepaid, collateralSeized } = await liquidate(
+        lendingPool.connect(liquidator),
+        borrower.address,
+        weth.target,
+        dai.target,
+        borrowAmount
+      );
+      expect(collateralSeized).to.equal(collateral);
+      expect(debtRepaid).to.equal(
+        (collateral * ethers.parseEther("400") * 10000n) /
+          (ethers.parseEther("1") * (10000n + BONUS))
+      );
+      expect(
+        await loanManager.getCollateralAmount(borrower.address, weth.target)
+      ).to.equal(0n);
+      // With nothing left to seize, the rest of the debt is written off.
+      expect(await debtOf(loanManager, borrower.address, dai.target)).to.equal(
+        0n
+      );
+      expect(await lendingPool.badDebt(dai.target)).to.be.closeTo(
+        debtBefore - debtRepaid,
+        ethers.parseEther("0.001")
+      );
+
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, borrowAmount)
+      ).to.be.revertedWith("No active loan");
+    });
+
+    it("Should not liquidate without a repayment", async function () {
+      const { lendingPool, weth, dai, wethFeed, borrower, liquidator } =
+        await loadFixture(deployLiquidationFixture);
+      await setPrice(wethFeed, ethers.parseEther("1700"));
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, 0n)
+      ).to.be.revertedWith("Invalid amount");
+    });
+
+    it("Should not liquidate accounts without debt", async function () {
+      const { lendingPool, weth, dai, liquidator, owner } = await loadFixture(
+        deployLiquidationFixture
+      );
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(owner.address, weth.target, dai.target, 1n)
+      ).to.be.revertedWith("No active loan");
+    });
+  });
+});
@@ -8,7 +8,7 @@ describe("LoanManager", function () {
     const [owner, user1, user2] = await ethers.getSigners();
 
     const LoanManager = await ethers.getContractFactory("LoanManager");
-    const loanManager = await LoanManager.deploy();
+    const loanManager = await LoanManager.deploy(owner.address);
 
     const Token = await ethers.getContractFactory("Token");
     const token = await Token.deploy("Test Token", "TST");
@@ -17,9 +17,10 @@ describe("LoanManager", function () {
   }
 
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
+    it("Should grant the admin and pool roles", async function () {
       const { loanManager, owner } = await loadFixture(deployLoanManagerFixture);
-      expect(await loanManager.owner()).to.equal(owner.address);
+      expect(await loanManager.hasRole(ethers.ZeroHash, owner.address)).to.be.true;
+      expect(await loanManager.hasRole(await loanManager.POOL_ROLE(), owner.address)).to.be.true;
     });
   });
 
@@ -99,37 +100,69 @@ describe("LoanManager", function () {
     });
   });
 
-  describe("Interest Calculation", function () {
-    it("Should calculate interest correctly", async function () {
+  describe("Position Tracking", function () {
+    it("Should list tokens with open collateral and loans", async function () {
       const { loanManager, token, user1 } = await loadFixture(deployLoanManagerFixture);
-      const borrowAmount = ethers.parseEther("100");
+      const amount = ethers.parseEther("100");
 
-      await loanManager.updateLoan(user1.address, token.target, borrowAmount, true);
+      await loanManager.updateCollateral(user1.address, token.target, amount, true);
+      await loanManager.updateCollateral(user1.address, token.target, amount, true);
+      await loanManager.updateLoan(user1.address, token.target, amount, true);
 
-      // Increase time by 1 year
-      await ethers.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
-      await ethers.provider.send("evm_mine", []);
+      expect(await loanManager.getCollateralTokens(user1.address)).to.deep.equal([token.target]);
+      expect(await loanManager.getDebtTokens(user1.address)).to.deep.equal([token.target]);
+    });
 
-      const interest = await loanManager.calculateInterest(user1.address, token.target);
-      expect(interest).to.be.closeTo(ethers.parseEther("5"), ethers.parseEther("0.01")); // 5% annual interest
+    it("Should drop tokens once a balance is closed", async function () {
+      const { loanManager, token, user1 } = await loadFixture(deployLoanManagerFixture);
+      const Token = await ethers.getContractFactory("Token");
+      const other = await Token.deploy("Other Token", "OTH");
+      const amount = ethers.parseEther("100");
+
+      await loanManager.updateCollateral(user1.address, token.target, amount, true);
+      await loanManager.updateCollateral(user1.address, other.target, amount, true);
+      await loanManager.updateCollateral(user1.address, token.target, amount, false);
+
+      expect(await loanManager.getCollateralTokens(user1.address)).to.deep.equal([other.target]);
+    });
+  });
+
+  describe("Interest Rates", function () {
+    it("Should default to the flat annual rate", async function () {
+      const { loanManager, token, user1 } = await loadFixture(deployLoanManagerFixture);
+
+      await loanManager.updateLoan(user1.address, token.target, ethers.parseEther("100"), true);
+
+      const reserve = await loanManager.reserves(token.target);
+      expect(reserve.borrowRate).to.equal(ethers.parseEther("0.05"));
+      expect(reserve.borrowIndex).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should not allow non-owner to update rates", async function () {
+      const { loanManager, token, user1 } = await loadFixture(deployLoanManagerFixture);
+
+      await expect(loanManager.connect(user1).updateRates(token.target, 0))
+        .to.be.revertedWithCustomError(loanManager, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await loanManager.POOL_ROLE());
+      await expect(loanManager.connect(user1).setInterestRateStrategy(token.target, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(loanManager, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await loanManager.POOL_ROLE());
     });
   });
 
-  describe("Loan Clearing", function () {
-    it("Should clear loan and collateral", async function () {
+  describe("Interest Calculation", function () {
+    it("Should calculate interest correctly", async function () {
       const { loanManager, token, user1 } = await loadFixture(deployLoanManagerFixture);
-      const collateralAmount = ethers.parseEther("150");
       const borrowAmount = ethers.parseEther("100");
 
-      await loanManager.updateCollateral(user1.address, token.target, collateralAmount, true);
       await loanManager.updateLoan(user1.address, token.target, borrowAmount, true);
 
-      await expect(loanManager.clearLoan(user1.address, token.target, token.target))
-        .to.emit(loanManager, "LoanCleared")
-        .withArgs(user1.address, token.target, token.target);
+      // Increase time by 1 year
+      await ethers.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
 
-      expect(await loanManager.getCollateralAmount(user1.address, token.target)).to.equal(0);
-      expect(await loanManager.getLoanAmount(user1.address, token.target)).to.equal(0);
+      const interest = await loanManager.calculateInterest(user1.address, token.target);
+      expect(interest).to.be.closeTo(ethers.parseEther("5"), ethers.parseEther("0.01")); // 5% annual interest
     });
   });
 });
@@ -0,0 +1,208 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  movePrice,
+  refreshPrices,
+  setPrice,
+  HEARTBEAT,
+} from "./helpers/oracle";
+
+describe("PriceOracle", function () {
+  async function deployPriceOracleFixture() {
+    const [owner, user1] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+
+    const Token = await ethers.getContractFactory("Token");
+    const token = await Token.deploy("Wrapped Ether", "WETH");
+
+    const feed = await deployPriceFeed(
+      priceOracle,
+      token.target,
+      ethers.parseEther("2000")
+    );
+
+    return { priceOracle, token, feed, owner, user1 };
+  }
+
+  describe("Deployment", function () {
+    it("Should grant the deployer the admin and price updater roles", async function () {
+      const { priceOracle, owner } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      for (const role of [
+        ethers.ZeroHash,
+        await priceOracle.PRICE_UPDATER_ROLE(),
+      ]) {
+        expect(await priceOracle.hasRole(role, owner.address)).to.be.true;
+      }
+    });
+  });
+
+  describe("Feeds", function () {
+    it("Should register a feed", async function () {
+      const { priceOracle, token } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      const feed = await ethers.deployContract("MockAggregator", [8, "", 1]);
+
+      await expect(priceOracle.setFeed(token.target, feed.target, 300))
+        .to.emit(priceOracle, "FeedUpdated")
+        .withArgs(token.target, feed.target, 300);
+
+      const config = await priceOracle.feeds(token.target);
+      expect(config.aggregator).to.equal(feed.target);
+      expect(config.heartbeat).to.equal(300);
+    });
+
+    it("Should only let the price updater register a feed", async function () {
+      const { priceOracle, token, feed, user1 } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      await expect(
+        priceOracle.connect(user1).setFeed(token.target, feed.target, 300)
+      )
+        .to.be.revertedWithCustomError(
+          priceOracle,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(user1.address, await priceOracle.PRICE_UPDATER_ROLE());
+    });
+
+    it("Should reject feeds with more than 18 decimals", async function () {
+      const { priceOracle, token } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      const feed = await ethers.deployContract("MockAggregator", [19, "", 1]);
+      await expect(
+        priceOracle.setFeed(token.target, feed.target, 300)
+      ).to.be.revertedWith("Unsupported decimals");
+    });
+
+    it("Should reject a zero heartbeat", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      await expect(
+        priceOracle.setFeed(token.target, feed.target, 0)
+      ).to.be.revertedWith("Invalid heartbeat");
+    });
+  });
+
+  describe("Prices", function () {
+    it("Should scale answers to 18 decimals", async function () {
+      const { priceOracle, token } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        ethers.parseEther("2000")
+      );
+    });
+
+    it("Should support feeds with any decimals up to 18", async function () {
+      const { priceOracle } = await loadFixture(deployPriceOracleFixture);
+
+      for (const decimals of [0, 6, 18]) {
+        const token = await ethers.deployContract("Token", ["T", "T"]);
+        await deployPriceFeed(
+          priceOracle,
+          token.target,
+          ethers.parseEther("3"),
+          {
+            decimals,
+          }
+        );
+        expect(await priceOracle.getPrice(token.target)).to.equal(
+          ethers.parseEther("3")
+        );
+      }
+    });
+
+    it("Should follow the latest round", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      await movePrice(
+        feed,
+        [ethers.parseEther("1900"), ethers.parseEther("1750")],
+        600
+      );
+
+      expect(await feed.latestRound()).to.equal(3);
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        ethers.parseEther("1750")
+      );
+    });
+
+    it("Should revert for tokens without a feed", async function () {
+      const { priceOracle } = await loadFixture(deployPriceOracleFixture);
+      await expect(priceOracle.getPrice(ethers.ZeroAddress)).to.be.revertedWith(
+        "Price feed not set"
+      );
+    });
+
+    it("Should reject zero and negative prices", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+
+      await feed.updateAnswer(0);
+      await expect(priceOracle.getPrice(token.target)).to.be.revertedWith(
+        "Invalid price"
+      );
+
+      await feed.updateAnswer(-1);
+      await expect(priceOracle.getPrice(token.target)).to.be.revertedWith(
+        "Invalid price"
+      );
+    });
+
+    it("Should reject rounds that were never completed", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      await feed.updateRoundData(2, 100, 0, 0);
+      await expect(priceOracle.getPrice(token.target)).to.be.revertedWith(
+        "Incomplete round"
+      );
+    });
+
+    it("Should reject prices older than the heartbeat", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+
+      await time.increase(HEARTBEAT - 1);
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        ethers.parseEther("2000")
+      );
+
+      await time.increase(2);
+      await expect(priceOracle.getPrice(token.target)).to.be.revertedWith(
+        "Stale price"
+      );
+
+      await refreshPrices(feed);
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        ethers.parseEther("2000")
+      );
+    });
+
+    it("Should accept a new answer after going stale", async function () {
+      const { priceOracle, token, feed } = await loadFixture(
+        deployPriceOracleFixture
+      );
+      await time.increase(HEARTBEAT * 2);
+      await setPrice(feed, ethers.parseEther("2100"));
+      expect(await priceOracle.getPrice(token.target)).to.equal(
+        ethers.parseEther("2100")
+      );
+    });
+  });
+});
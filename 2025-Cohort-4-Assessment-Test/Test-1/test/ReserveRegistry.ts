@@ -0,0 +1,543 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { AddressLike } from "ethers";
+import { ethers } from "hardhat";
+import { ReserveRegistry } from "../typechain-types";
+import { deployPriceFeed, deployPriceOracle, setPrice } from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+describe("ReserveRegistry", function () {
+  async function deployRegistryFixture() {
+    const [owner, borrower, liquidator] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+    const reserveRegistry = await ethers.getContractAt(
+      "ReserveRegistry",
+      await lendingPool.reserveRegistry()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const weth = await Token.deploy("Wrapped Ether", "WETH");
+    const dai = await Token.deploy("Dai Stablecoin", "DAI");
+
+    await lendingPool.whitelistToken(weth.target);
+    await lendingPool.whitelistToken(dai.target);
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    await deployPriceFeed(priceOracle, dai.target, ethers.parseEther("1"));
+
+    await deployReceiptToken(lendingPool, weth);
+    await deployReceiptToken(lendingPool, dai);
+    await supplyLiquidity(lendingPool, dai, owner, ethers.parseEther("100000"));
+
+    for (const user of [borrower, liquidator]) {
+      await weth.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+      await dai.connect(user).approve(lendingPool.target, ethers.MaxUint256);
+    }
+
+    async function deposit(amount: bigint) {
+      await weth.mint(borrower.address, amount);
+      await lendingPool.connect(borrower).deposit(weth.target, amount);
+    }
+
+    // Copies the registry's view of `token` into a struct it accepts back.
+    async function configOf(
+      token: AddressLike
+    ): Promise<ReserveRegistry.ReserveConfigStruct> {
+      const config = await reserveRegistry.getReserveConfig(token);
+      return {
+        borrowingEnabled: config.borrowingEnabled,
+        collateralEnabled: config.collateralEnabled,
+        ltv: config.ltv,
+        liquidationThreshold: config.liquidationThreshold,
+        liquidationBonus: config.liquidationBonus,
+        flashLoanFee: config.flashLoanFee,
+        supplyCap: config.supplyCap,
+        borrowCap: config.borrowCap,
+        frozen: config.frozen,
+        paused: config.paused,
+      };
+    }
+
+    // Overrides some of `token`'s configuration, keeping the rest.
+    async function configure(
+      token: AddressLike,
+      overrides: Partial<ReserveRegistry.ReserveConfigStruct>
+    ) {
+      return lendingPool.setReserveConfig(token, {
+        ...(await configOf(token)),
+        ...overrides,
+      });
+    }
+
+    return {
+      lendingPool,
+      reserveRegistry,
+      weth,
+      dai,
+      wethFeed,
+      deposit,
+      configOf,
+      configure,
+      owner,
+      borrower,
+      liquidator,
+    };
+  }
+
+  describe("Listing", function () {
+    it("Should list new reserves with the default configuration", async function () {
+      const { lendingPool, reserveRegistry, weth, dai } = await loadFixture(
+        deployRegistryFixture
+      );
+      const link = await ethers.deployContract("Token", ["Chainlink", "LINK"]);
+
+      await expect(lendingPool.whitelistToken(link.target))
+        .to.emit(reserveRegistry, "ReserveListed")
+        .withArgs(link.target)
+        .and.to.emit(reserveRegistry, "ReserveConfigUpdated");
+      // Listing twice does not duplicate the reserve.
+      await lendingPool.whitelistToken(link.target);
+
+      expect(await reserveRegistry.getReserves()).to.deep.equal([
+        weth.target,
+        dai.target,
+        link.target,
+      ]);
+      const config = await reserveRegistry.getReserveConfig(link.target);
+      expect(config.borrowingEnabled).to.be.true;
+      expect(config.collateralEnabled).to.be.true;
+      expect(config.ltv).to.equal(6667n);
+      expect(config.liquidationThreshold).to.equal(6667n);
+      expect(config.liquidationBonus).to.equal(0n);
+      expect(config.flashLoanFee).to.equal(9n);
+      expect(config.supplyCap).to.equal(0n);
+      expect(config.borrowCap).to.equal(0n);
+      expect(config.frozen).to.be.false;
+      expect(config.paused).to.be.false;
+    });
+
+    it("Should delist reserves and let positions unwind", async function () {
+      const { lendingPool, reserveRegistry, weth, dai, deposit, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await deposit(ethers.parseEther("2"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+
+      await expect(lendingPool.delistToken(weth.target))
+        .to.emit(reserveRegistry, "ReserveDelisted")
+        .withArgs(weth.target);
+      expect(await reserveRegistry.isListed(weth.target)).to.be.false;
+      expect(await lendingPool.getWhitelistedTokens()).to.deep.equal([
+        dai.target,
+      ]);
+      await expect(
+        lendingPool.connect(borrower).deposit(weth.target, 1n)
+      ).to.be.revertedWith("Token not whitelisted");
+      await expect(
+        lendingPool.connect(borrower).borrow(weth.target, 1n)
+      ).to.be.revertedWith("Token not whitelisted");
+      await expect(lendingPool.delistToken(weth.target)).to.be.revertedWith(
+        "Token not whitelisted"
+      );
+
+      // The delisted collateral still backs the loan until it is repaid.
+      await lendingPool
+        .connect(borrower)
+        .repay(dai.target, ethers.parseEther("500"));
+      await lendingPool
+        .connect(borrower)
+        .withdraw(weth.target, ethers.parseEther("1"));
+      expect(await weth.balanceOf(borrower.address)).to.equal(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should keep a relisted reserve's configuration", async function () {
+      const { lendingPool, reserveRegistry, weth } = await loadFixture(
+        deployRegistryFixture
+      );
+      await lendingPool.setLiquidationBonus(weth.target, 500n);
+      await lendingPool.delistToken(weth.target);
+      await lendingPool.whitelistToken(weth.target);
+
+      expect(
+        (await reserveRegistry.getReserveConfig(weth.target)).liquidationBonus
+      ).to.equal(500n);
+      expect(await reserveRegistry.isListed(weth.target)).to.be.true;
+    });
+  });
+
+  describe("Configuration", function () {
+    it("Should let the owner update a reserve", async function () {
+      const { reserveRegistry, weth, configure } = await loadFixture(
+        deployRegistryFixture
+      );
+      await expect(configure(weth.target, { ltv: 5000n, supplyCap: 10n }))
+        .to.emit(reserveRegistry, "ReserveConfigUpdated")
+        .withArgs(weth.target, [
+          true,
+          true,
+          5000n,
+          6667n,
+          0n,
+          9n,
+          10n,
+          0n,
+          false,
+          false,
+        ]);
+    });
+
+    it("Should reject invalid configurations", async function () {
+      const { owner, weth, configure } = await loadFixture(
+        deployRegistryFixture
+      );
+      await expect(
+        configure(weth.target, { ltv: 10001n, liquidationThreshold: 10001n })
+      ).to.be.revertedWith("Invalid liquidation threshold");
+      await expect(
+        configure(weth.target, { ltv: 8000n, liquidationThreshold: 7000n })
+      ).to.be.revertedWith("Invalid LTV");
+      await expect(
+        configure(weth.target, { liquidationBonus: 2001n })
+      ).to.be.revertedWith("Invalid liquidation bonus");
+      // A 90% threshold with a 20% bonus would seize more than the
+      // collateral backing the debt.
+      await expect(
+        configure(weth.target, {
+          liquidationThreshold: 9000n,
+          liquidationBonus: 2000n,
+        })
+      ).to.be.revertedWith("Invalid liquidation bonus");
+      await expect(
+        configure(weth.target, { flashLoanFee: 101n })
+      ).to.be.revertedWith("Invalid flash loan fee");
+      await expect(configure(owner.address, {})).to.be.revertedWith(
+        "Token not whitelisted"
+      );
+    });
+
+    it("Should only let the risk manager and pause guardian configure reserves", async function () {
+      const {
+        lendingPool,
+        reserveRegistry,
+        weth,
+        configOf,
+        configure,
+        owner,
+        borrower,
+      } = await loadFixture(deployRegistryFixture);
+      const asBorrower = lendingPool.connect(borrower);
+      const config = await configOf(weth.target);
+      const riskManager = await lendingPool.RISK_MANAGER_ROLE();
+      const pauseGuardian = await lendingPool.PAUSE_GUARDIAN_ROLE();
+
+      for (const [call, role] of [
+        [asBorrower.whitelistToken(borrower.address), riskManager],
+        [asBorrower.delistToken(weth.target), riskManager],
+        [asBorrower.setReserveConfig(weth.target, config), riskManager],
+        [asBorrower.setReserveFrozen(weth.target, true), riskManager],
+        [asBorrower.setReservePaused(weth.target, true), pauseGuardian],
+      ] as const) {
+        await expect(call)
+          .to.be.revertedWithCustomError(
+            lendingPool,
+            "AccessControlUnauthorizedAccount"
+          )
+          .withArgs(borrower.address, role);
+      }
+
+      // Changes go through the pool, even for the registry's admin.
+      await expect(reserveRegistry.setPaused(weth.target, true))
+        .to.be.revertedWithCustomError(
+          reserveRegistry,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(owner.address, await reserveRegistry.POOL_ROLE());
+      await expect(configure(weth.target, {})).not.to.be.reverted;
+    });
+  });
+
+  describe("Deposits", function () {
+    it("Should reject deposits when collateral is disabled", async function () {
+      const { weth, deposit, configure } = await loadFixture(
+        deployRegistryFixture
+      );
+      await configure(weth.target, { collateralEnabled: false });
+      await expect(deposit(ethers.parseEther("1"))).to.be.revertedWith(
+        "Collateral not enabled"
+      );
+    });
+
+    it("Should stop disabled collateral backing new borrows without making it liquidatable", async function () {
+      const { lendingPool, weth, dai, deposit, configure, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await deposit(ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+      const before = await lendingPool.getAccountData(borrower.address);
+
+      await configure(weth.target, { collateralEnabled: false });
+
+      await expect(
+        lendingPool.connect(borrower).borrow(dai.target, 1n)
+      ).to.be.revertedWith("not enough collateral to cover loan");
+      const after = await lendingPool.getAccountData(borrower.address);
+      expect(after.healthFactor).to.be.closeTo(before.healthFactor, 10n ** 13n);
+      expect(after.healthFactor).to.be.gt(ethers.parseEther("1"));
+    });
+
+    it("Should enforce the supply cap across collateral and supplied liquidity", async function () {
+      const { lendingPool, weth, deposit, configure, owner } =
+        await loadFixture(deployRegistryFixture);
+      await configure(weth.target, { supplyCap: ethers.parseEther("10") });
+
+      await deposit(ethers.parseEther("6"));
+      await expect(deposit(ethers.parseEther("5"))).to.be.revertedWith(
+        "Supply cap exceeded"
+      );
+
+      await weth.mint(owner.address, ethers.parseEther("5"));
+      await weth.approve(lendingPool.target, ethers.MaxUint256);
+      await expect(
+        lendingPool.supply(weth.target, ethers.parseEther("5"))
+      ).to.be.revertedWith("Supply cap exceeded");
+      await lendingPool.supply(weth.target, ethers.parseEther("4"));
+    });
+
+    it("Should reject deposits and supplies into a frozen reserve", async function () {
+      const { lendingPool, reserveRegistry, weth, deposit } = await loadFixture(
+        deployRegistryFixture
+      );
+      await expect(lendingPool.setReserveFrozen(weth.target, true))
+        .to.emit(reserveRegistry, "ReserveFrozen")
+        .withArgs(weth.target, true);
+
+      await expect(deposit(1n)).to.be.revertedWith("Reserve frozen");
+      await expect(lendingPool.supply(weth.target, 1n)).to.be.revertedWith(
+        "Reserve frozen"
+      );
+
+      await lendingPool.setReserveFrozen(weth.target, false);
+      await deposit(1n);
+    });
+
+    it("Should halt every action on a paused reserve", async function () {
+      const { lendingPool, reserveRegistry, weth, dai, deposit, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await deposit(ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("100"));
+
+      await expect(lendingPool.setReservePaused(weth.target, true))
+        .to.emit(reserveRegistry, "ReservePaused")
+        .withArgs(weth.target, true);
+      await lendingPool.setReservePaused(dai.target, true);
+      const asBorrower = lendingPool.connect(borrower);
+
+      await expect(deposit(1n)).to.be.revertedWith("Reserve paused");
+      await expect(asBorrower.withdraw(weth.target, 1n)).to.be.revertedWith(
+        "Reserve paused"
+      );
+      await expect(asBorrower.borrow(dai.target, 1n)).to.be.revertedWith(
+        "Reserve paused"
+      );
+      await expect(asBorrower.repay(dai.target, 1n)).to.be.revertedWith(
+        "Reserve paused"
+      );
+      await expect(asBorrower.redeem(dai.target, 1n)).to.be.revertedWith(
+        "Reserve paused"
+      );
+      expect(await lendingPool.maxFlashLoan(dai.target)).to.equal(0n);
+    });
+  });
+
+  describe("Borrowing", function () {
+    it("Should reject borrows when borrowing is disabled", async function () {
+      const { lendingPool, dai, deposit, configure, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await deposit(ethers.parseEther("1"));
+      await configure(dai.target, { borrowingEnabled: false });
+
+      await expect(
+        lendingPool.connect(borrower).borrow(dai.target, 1n)
+      ).to.be.revertedWith("Borrowing not enabled");
+    });
+
+    it("Should limit borrows to the collateral's LTV", async function () {
+      const { lendingPool, weth, dai, deposit, configure, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await configure(weth.target, { ltv: 5000n });
+      await deposit(ethers.parseEther("1"));
+
+      // $2000 of collateral at 50% backs $1000.
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .borrow(dai.target, ethers.parseEther("1001"))
+      ).to.be.revertedWith("not enough collateral to cover loan");
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+    });
+
+    it("Should limit withdrawals to the collateral's LTV", async function () {
+      const { lendingPool, weth, dai, deposit, configure, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await configure(weth.target, { ltv: 5000n });
+      await deposit(ethers.parseEther("2"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .withdraw(weth.target, ethers.parseEther("1.01"))
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+    });
+
+    it("Should enforce the borrow cap", async function () {
+      const { lendingPool, dai, deposit, configure, borrower } =
+        await loadFixture(deployRegistryFixture);
+      await configure(dai.target, { borrowCap: ethers.parseEther("500") });
+      await deposit(ethers.parseEther("1"));
+
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("400"));
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .borrow(dai.target, ethers.parseEther("101"))
+      ).to.be.revertedWith("Borrow cap exceeded");
+    });
+
+    it("Should reject borrows from a frozen reserve but still take repayments", async function () {
+      const { lendingPool, dai, deposit, borrower } = await loadFixture(
+        deployRegistryFixture
+      );
+      await deposit(ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("100"));
+      await lendingPool.setReserveFrozen(dai.target, true);
+
+      await expect(
+        lendingPool.connect(borrower).borrow(dai.target, 1n)
+      ).to.be.revertedWith("Reserve frozen");
+      await expect(
+        lendingPool.connect(borrower).repay(dai.target, ethers.parseEther("50"))
+      ).to.emit(lendingPool, "Repay");
+    });
+
+    it("Should charge each reserve's flash loan fee", async function () {
+      const { lendingPool, dai, configure } = await loadFixture(
+        deployRegistryFixture
+      );
+      await configure(dai.target, { flashLoanFee: 30n });
+      expect(
+        await lendingPool.flashFee(dai.target, ethers.parseEther("10000"))
+      ).to.equal(ethers.parseEther("30"));
+    });
+  });
+
+  describe("Liquidation", function () {
+    // 1 WETH at 50% LTV and an 80% threshold backs 1000 DAI and becomes
+    // liquidatable below $1250.
+    async function deployLiquidatableFixture() {
+      const fixture = await deployRegistryFixture();
+      const { lendingPool, weth, dai, deposit, configure, borrower } = fixture;
+      await configure(weth.target, {
+        ltv: 5000n,
+        liquidationThreshold: 8000n,
+        liquidationBonus: 1000n,
+      });
+      await deposit(ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+      await dai.mint(fixture.liquidator.address, ethers.parseEther("1000"));
+      return fixture;
+    }
+
+    it("Should judge health by the liquidation threshold", async function () {
+      const { lendingPool, weth, dai, wethFeed, borrower, liquidator } =
+        await loadFixture(deployLiquidatableFixture);
+      const repayment = ethers.parseEther("100");
+
+      await setPrice(wethFeed, ethers.parseEther("1300"));
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, repayment)
+      ).to.be.revertedWith("not enough collateral to cover loan");
+
+      await setPrice(wethFeed, ethers.parseEther("1200"));
+      await expect(
+        lendingPool
+          .connect(liquidator)
+          .liquidate(borrower.address, weth.target, dai.target, repayment)
+      ).to.emit(lendingPool, "Liquidation");
+    });
+
+    it("Should pay the collateral reserve's liquidation bonus", async function () {
+      const { lendingPool, weth, dai, wethFeed, borrower, liquidator } =
+        await loadFixture(deployLiquidatableFixture);
+      await setPrice(wethFeed, ethers.parseEther("1000"));
+
+      await lendingPool
+        .connect(liquidator)
+        .liquidate(
+          borrower.address,
+          weth.target,
+          dai.target,
+          ethers.parseEther("100")
+        );
+      // $100 of debt buys $110 of WETH at $1000.
+      expect(await weth.balanceOf(liquidator.address)).to.equal(
+        ethers.parseEther("0.11")
+      );
+    });
+
+    it("Should not liquidate against a paused reserve", async function () {
+      const { lendingPool, weth, dai, wethFeed, borrower, liquidator } =
+        await loadFixture(deployLiquidatableFixture);
+      await setPrice(wethFeed, ethers.parseEther("1000"));
+      const liquidate = () =>
+        lendingPool
+          .connect(liquidator)
+          .liquidate(
+            borrower.address,
+            weth.target,
+            dai.target,
+            ethers.parseEther("100")
+          );
+
+      for (const token of [weth, dai]) {
+        await lendingPool.setReservePaused(token.target, true);
+        await expect(liquidate()).to.be.revertedWith("Reserve paused");
+        await expect(
+          lendingPool
+            .connect(liquidator)
+            .liquidateToAuction(borrower.address, weth.target, dai.target)
+        ).to.be.revertedWith("Reserve paused");
+        await lendingPool.setReservePaused(token.target, false);
+      }
+
+      // Frozen reserves can still be liquidated.
+      await lendingPool.setReserveFrozen(weth.target, true);
+      await lendingPool.setReserveFrozen(dai.target, true);
+      await expect(liquidate()).to.emit(lendingPool, "Liquidation");
+    });
+  });
+});
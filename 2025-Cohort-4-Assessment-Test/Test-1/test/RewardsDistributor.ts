@@ -0,0 +1,411 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const DAY = 24 * 60 * 60;
+const DURATION = 7 * DAY;
+
+describe("RewardsDistributor", function () {
+  async function deployRewardsFixture() {
+    const [owner, alice, bob, carol, borrower] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const Token = await ethers.getContractFactory("Token");
+    const dai = await Token.deploy("Dai Stablecoin", "DAI");
+    const weth = await Token.deploy("Wrapped Ether", "WETH");
+    const protocolToken = await Token.deploy("Protocol Token", "PRT");
+
+    await lendingPool.whitelistToken(dai.target);
+    await lendingPool.whitelistToken(weth.target);
+    const daiFeed = await deployPriceFeed(
+      priceOracle,
+      dai.target,
+      ethers.parseEther("1")
+    );
+    const wethFeed = await deployPriceFeed(
+      priceOracle,
+      weth.target,
+      ethers.parseEther("2000")
+    );
+    await deployReceiptToken(lendingPool, dai);
+    await deployReceiptToken(lendingPool, weth);
+    await supplyLiquidity(lendingPool, dai, owner, ethers.parseEther("100000"));
+    await supplyLiquidity(lendingPool, weth, owner, ethers.parseEther("100"));
+
+    const distributor = await ethers.deployContract("RewardsDistributor", [
+      protocolToken.target,
+      lendingPool.target,
+      DURATION,
+    ]);
+    await lendingPool.setRewardsDistributor(distributor.target);
+
+    for (const staker of [alice, bob, carol]) {
+      await protocolToken.mint(staker.address, ethers.parseEther("1000"));
+      await protocolToken
+        .connect(staker)
+        .approve(distributor.target, ethers.MaxUint256);
+    }
+
+    const flashBorrower = await ethers.deployContract("FlashBorrower", [
+      lendingPool.target,
+    ]);
+
+    // Flash loans 10000 DAI (or 10 WETH) for a 0.09% fee.
+    async function generateFees(token = dai) {
+      const amount =
+        token === dai ? ethers.parseEther("10000") : ethers.parseEther("10");
+      const fee = await lendingPool.flashFee(token.target, amount);
+      await token.mint(flashBorrower.target, fee);
+      await flashBorrower.borrow(token.target, amount, "0x");
+      return fee;
+    }
+
+    return {
+      lendingPool,
+      distributor,
+      dai,
+      weth,
+      daiFeed,
+      wethFeed,
+      protocolToken,
+      generateFees,
+      owner,
+      alice,
+      bob,
+      carol,
+      borrower,
+    };
+  }
+
+  describe("Fee shares", function () {
+    it("Should default to 20% reserve, 10% liquidators and 70% stakers", async function () {
+      const { distributor } = await loadFixture(deployRewardsFixture);
+      const shares = await distributor.feeShares();
+      expect(shares.reserve).to.equal(2000n);
+      expect(shares.liquidatorIncentive).to.equal(1000n);
+      expect(shares.stakers).to.equal(7000n);
+    });
+
+    it("Should let the owner change the shares", async function () {
+      const { distributor, alice } = await loadFixture(deployRewardsFixture);
+      const shares = { reserve: 0n, liquidatorIncentive: 0n, stakers: 10000n };
+      await expect(distributor.setFeeShares(shares))
+        .to.emit(distributor, "FeeSharesUpdated")
+        .withArgs(0n, 0n, 10000n);
+
+      await expect(
+        distributor.setFeeShares({ ...shares, reserve: 1n })
+      ).to.be.revertedWith("Invalid fee shares");
+      await expect(distributor.connect(alice).setFeeShares(shares))
+        .to.be.revertedWithCustomError(
+          distributor,
+          "OwnableUnauthorizedAccount"
+        )
+        .withArgs(alice.address);
+    });
+
+    it("Should only take fees from the pool", async function () {
+      const { distributor, dai, alice } = await loadFixture(
+        deployRewardsFixture
+      );
+      await expect(
+        distributor.connect(alice).notifyFees(dai.target)
+      ).to.be.revertedWith("Caller is not the pool");
+    });
+  });
+
+  describe("Collecting fees", function () {
+    it("Should split flash loan fees", async function () {
+      const { lendingPool, distributor, dai, generateFees } = await loadFixture(
+        deployRewardsFixture
+      );
+      const liquidityBefore = await lendingPool.availableLiquidity(dai.target);
+
+      const fee = await generateFees();
+
+      expect(fee).to.equal(ethers.parseEther("9"));
+      expect(await dai.balanceOf(distributor.target)).to.equal(fee);
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        liquidityBefore
+      );
+      const breakdown = await distributor.getFeeBreakdown(dai.target);
+      expect(breakdown.reserve).to.equal(ethers.parseEther("1.8"));
+      expect(breakdown.liquidatorIncentive).to.equal(ethers.parseEther("0.9"));
+      expect(breakdown.stakers).to.equal(ethers.parseEther("6.3"));
+      expect(await distributor.reserves(dai.target)).to.equal(
+        ethers.parseEther("1.8")
+      );
+      expect(await distributor.liquidatorIncentives(dai.target)).to.equal(
+        ethers.parseEther("0.9")
+      );
+      expect(await distributor.getRewardTokens()).to.deep.equal([dai.target]);
+    });
+
+    it("Should take the reserve factor's cut of interest as it accrues", async function () {
+      const {
+        lendingPool,
+        distributor,
+        dai,
+        weth,
+        daiFeed,
+        wethFeed,
+        borrower,
+      } = await loadFixture(deployRewardsFixture);
+      await weth.mint(borrower.address, ethers.parseEther("1"));
+      await weth
+        .connect(borrower)
+        .approve(lendingPool.target, ethers.MaxUint256);
+      await lendingPool
+        .connect(borrower)
+        .deposit(weth.target, ethers.parseEther("1"));
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1000"));
+
+      await time.increase(365 * DAY);
+      await refreshPrices(daiFeed, wethFeed);
+      // Borrowing again folds the year's ~50 DAI of interest into the loan,
+      // and the protocol's 10% of it is still owed.
+      await lendingPool
+        .connect(borrower)
+        .borrow(dai.target, ethers.parseEther("1"));
+
+      const repayment = ethers.parseEther("10");
+      await dai.mint(borrower.address, repayment);
+      await dai.connect(borrower).approve(lendingPool.target, repayment);
+      const liquidityBefore = await lendingPool.availableLiquidity(dai.target);
+      await expect(
+        lendingPool.connect(borrower).repay(dai.target, repayment)
+      ).to.emit(lendingPool, "FeesCollected");
+
+      const fee = await dai.balanceOf(distributor.target);
+      expect(fee).to.be.closeTo(
+        ethers.parseEther("5"),
+        ethers.parseEther("0.001")
+      );
+      expect(await lendingPool.availableLiquidity(dai.target)).to.equal(
+        liquidityBefore + repayment - fee
+      );
+    });
+
+    it("Should keep a breakdown per fee token", async function () {
+      const { distributor, dai, weth, generateFees } = await loadFixture(
+        deployRewardsFixture
+      );
+      await generateFees(dai);
+      await generateFees(weth);
+      await generateFees(dai);
+
+      expect((await distributor.getFeeBreakdown(dai.target)).stakers).to.equal(
+        ethers.parseEther("12.6")
+      );
+      expect((await distributor.getFeeBreakdown(weth.target)).stakers).to.equal(
+        ethers.parseEther("0.0063")
+      );
+      expect(await distributor.getRewardTokens()).to.deep.equal([
+        dai.target,
+        weth.target,
+      ]);
+    });
+
+    it("Should let the owner withdraw the reserve and liquidator incentives", async function () {
+      const { distributor, dai, generateFees, owner, alice } =
+        await loadFixture(deployRewardsFixture);
+      await generateFees();
+
+      await expect(
+        distributor.withdrawReserve(
+          dai.target,
+          owner.address,
+          ethers.parseEther("1.8")
+        )
+      )
+        .to.emit(distributor, "ReserveWithdrawn")
+        .withArgs(dai.target, owner.address, ethers.parseEther("1.8"));
+      await distributor.withdrawLiquidatorIncentive(
+        dai.target,
+        alice.address,
+        ethers.parseEther("0.9")
+      );
+      expect(await dai.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("0.9")
+      );
+
+      await expect(
+        distributor.withdrawReserve(dai.target, owner.address, 1n)
+      ).to.be.revertedWith("Insufficient reserve");
+      await expect(
+        distributor.withdrawLiquidatorIncentive(dai.target, owner.address, 1n)
+      ).to.be.revertedWith("Insufficient incentive");
+      await expect(
+        distributor
+          .connect(alice)
+          .withdrawReserve(dai.target, alice.address, 0n)
+      )
+        .to.be.revertedWithCustomError(
+          distributor,
+          "OwnableUnauthorizedAccount"
+        )
+        .withArgs(alice.address);
+    });
+  });
+
+  describe("Staking", function () {
+    it("Should stream rewards to stakers who join at different times", async function () {
+      const { distributor, dai, generateFees, alice, bob, carol } =
+        await loadFixture(deployRewardsFixture);
+      await distributor.connect(alice).stake(ethers.parseEther("100"));
+
+      await generateFees();
+      const start = BigInt(await time.latest());
+      const rate = ethers.parseEther("6.3") / BigInt(DURATION);
+
+      // Alice is alone for a day, shares 1:3 with Bob for three days and
+      // 1:3:1 with Carol for the last three.
+      await time.setNextBlockTimestamp(start + BigInt(DAY));
+      await distributor.connect(bob).stake(ethers.parseEther("300"));
+      await time.setNextBlockTimestamp(start + BigInt(4 * DAY));
+      await distributor.connect(carol).stake(ethers.parseEther("100"));
+      await time.increaseTo(start + BigInt(DURATION + DAY));
+
+      const day = rate * BigInt(DAY);
+      const expected = {
+        alice: day + (day * 3n) / 4n + (day * 3n) / 5n,
+        bob: (day * 9n) / 4n + (day * 9n) / 5n,
+        carol: (day * 3n) / 5n,
+      };
+      for (const [staker, amount] of [
+        [alice, expected.alice],
+        [bob, expected.bob],
+        [carol, expected.carol],
+      ] as const) {
+        expect(
+          await distributor.earned(staker.address, dai.target)
+        ).to.be.closeTo(amount, 1_000_000n);
+      }
+
+      // Nothing streams after the period ends.
+      await time.increase(DAY);
+      expect(await distributor.earned(alice.address, dai.target)).to.be.closeTo(
+        expected.alice,
+        1_000_000n
+      );
+    });
+
+    it("Should pay every fee token on claim", async function () {
+      const { distributor, dai, weth, generateFees, alice } = await loadFixture(
+        deployRewardsFixture
+      );
+      await distributor.connect(alice).stake(ethers.parseEther("100"));
+      await generateFees(dai);
+      await generateFees(weth);
+      await time.increase(DURATION);
+
+      const tx = await distributor.connect(alice).claim();
+      const daiReward = await dai.balanceOf(alice.address);
+      const wethReward = await weth.balanceOf(alice.address);
+      await expect(tx)
+        .to.emit(distributor, "RewardPaid")
+        .withArgs(alice.address, dai.target, daiReward)
+        .and.to.emit(distributor, "RewardPaid")
+        .withArgs(alice.address, weth.target, wethReward);
+
+      // A lone staker gets the whole stream, less rate rounding.
+      expect(daiReward).to.be.closeTo(ethers.parseEther("6.3"), 1_000_000n);
+      expect(wethReward).to.be.closeTo(ethers.parseEther("0.0063"), 1_000_000n);
+      expect(await distributor.earned(alice.address, dai.target)).to.equal(0n);
+    });
+
+    it("Should roll new fees into the running period", async function () {
+      const { distributor, dai, generateFees, alice } = await loadFixture(
+        deployRewardsFixture
+      );
+      await distributor.connect(alice).stake(ethers.parseEther("100"));
+      await generateFees();
+      await time.increase(DURATION / 2);
+      await generateFees();
+
+      const reward = await distributor.rewardData(dai.target);
+      expect(reward.periodFinish).to.equal(
+        BigInt(await time.latest()) + BigInt(DURATION)
+      );
+      await time.increase(DURATION);
+      expect(await distributor.earned(alice.address, dai.target)).to.be.closeTo(
+        ethers.parseEther("12.6"),
+        1_000_000n
+      );
+    });
+
+    it("Should carry the rate's rounding remainder into the next period", async function () {
+      const { distributor, dai, generateFees, alice } = await loadFixture(
+        deployRewardsFixture
+      );
+      // A stake of exactly one token earns what streams, without rounding.
+      await distributor.connect(alice).stake(ethers.parseEther("1"));
+      await generateFees();
+      await time.increase(DURATION);
+
+      const { remainder } = await distributor.rewardData(dai.target);
+      expect(remainder).to.be.gt(0n);
+      expect(await distributor.earned(alice.address, dai.target)).to.equal(
+        ethers.parseEther("6.3") - remainder
+      );
+
+      await generateFees();
+      await time.increase(DURATION);
+      await distributor.connect(alice).claim();
+      expect(
+        (await dai.balanceOf(alice.address)) +
+          (await distributor.rewardData(dai.target)).remainder
+      ).to.equal(ethers.parseEther("12.6"));
+    });
+
+    it("Should stop earning after unstaking", async function () {
+      const { distributor, protocolToken, dai, generateFees, alice, bob } =
+        await loadFixture(deployRewardsFixture);
+      await distributor.connect(alice).stake(ethers.parseEther("100"));
+      await distributor.connect(bob).stake(ethers.parseEther("100"));
+      await generateFees();
+
+      await time.increase(DAY);
+      await expect(distributor.connect(alice).unstake(ethers.parseEther("100")))
+        .to.emit(distributor, "Unstaked")
+        .withArgs(alice.address, ethers.parseEther("100"));
+      expect(await protocolToken.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+
+      const earned = await distributor.earned(alice.address, dai.target);
+      await time.increase(DAY);
+      expect(await distributor.earned(alice.address, dai.target)).to.equal(
+        earned
+      );
+      expect(await distributor.totalStaked()).to.equal(
+        ethers.parseEther("100")
+      );
+    });
+
+    it("Should not unstake more than staked", async function () {
+      const { distributor, alice } = await loadFixture(deployRewardsFixture);
+      await distributor.connect(alice).stake(ethers.parseEther("100"));
+      await expect(
+        distributor.connect(alice).unstake(ethers.parseEther("101"))
+      ).to.be.revertedWith("Insufficient stake");
+      await expect(distributor.connect(alice).unstake(0n)).to.be.revertedWith(
+        "Invalid amount"
+      );
+    });
+  });
+});
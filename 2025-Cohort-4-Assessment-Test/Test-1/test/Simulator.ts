@@ -0,0 +1,269 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import hre from "hardhat";
+import {
+  Simulation,
+  buildReport,
+  loadScenario,
+  parsePricePath,
+  parseScenario,
+  toCsv,
+  writeReport,
+} from "../simulator";
+
+const scenariosDir = path.join(__dirname, "../simulator/scenarios");
+
+// WETH halves in two steps, then recovers a little.
+const CRASH_PRICES = `
+# WETH falls hard
+step,WETH,DAI
+0,2000,1
+1,1500,1
+2,1000,1
+3,1100,1
+`;
+
+// A gentler fall, slow enough for auctions to decay between steps.
+const BLEED_PRICES = `
+WETH,DAI
+2000,1
+1900,1
+1800,1
+1700,1
+1700,1
+1700,1
+`;
+
+async function simulate(json: object, prices: string) {
+  const scenario = parseScenario(json, parsePricePath(prices));
+  const simulation = await Simulation.create(hre, scenario);
+  const result = await simulation.run();
+  const report = buildReport(result);
+  result.store.close();
+  return { scenario, result, report };
+}
+
+describe("Simulator", function () {
+  async function crashFixture() {
+    return simulate(
+      {
+        name: "test-crash",
+        seed: 7,
+        protocol: { liquidity: { DAI: 100000 } },
+        market: { base: "WETH", quote: "DAI", depth: 20 },
+        agents: {
+          borrowers: [
+            {
+              label: "leveraged",
+              count: 3,
+              collateral: "WETH",
+              debt: "DAI",
+              deposit: [1, 2],
+              health: [1.05, 1.1],
+            },
+          ],
+          arbitrageurs: [{ count: 1 }],
+          liquidators: [{ count: 1 }],
+        },
+      },
+      CRASH_PRICES
+    );
+  }
+
+  async function auctionFixture() {
+    return simulate(
+      {
+        name: "test-auction",
+        protocol: {
+          liquidity: { DAI: 100000 },
+          auction: { startPremium: 500, floor: 8000, decayPeriod: 7200 },
+        },
+        agents: {
+          borrowers: [
+            {
+              count: 2,
+              collateral: "WETH",
+              debt: "DAI",
+              deposit: 1,
+              health: 1.05,
+            },
+          ],
+          liquidators: [{ count: 1, mode: "auction" }],
+          bidders: [{ count: 1, discount: 300 }],
+        },
+      },
+      BLEED_PRICES
+    );
+  }
+
+  describe("Scenarios", function () {
+    it("Should load the bundled scenarios", async function () {
+      for (const file of readdirSync(scenariosDir)) {
+        const scenario = loadScenario(path.join(scenariosDir, file));
+        expect(scenario.name).to.equal(path.basename(file, ".json"));
+        expect(scenario.prices.rows.length).to.be.greaterThan(1);
+        expect(scenario.borrowers.length).to.be.greaterThan(0);
+      }
+    });
+
+    it("Should price tokens missing from the path at $1", async function () {
+      const { tokens, rows } = parsePricePath(CRASH_PRICES);
+
+      expect(tokens).to.deep.equal(["WETH", "DAI"]);
+      expect(rows).to.have.length(4);
+      expect(rows[2].WETH).to.equal(hre.ethers.parseEther("1000"));
+      expect(rows[2].LINK).to.equal(hre.ethers.parseEther("1"));
+    });
+
+    it("Should reject malformed price paths", async function () {
+      expect(() => parsePricePath("WETH\n", "p.csv")).to.throw(
+        "p.csv: expected a header and at least one row"
+      );
+      expect(() => parsePricePath("WETH,BTC\n1,2\n", "p.csv")).to.throw(
+        "p.csv: unknown token BTC in the header"
+      );
+      expect(() => parsePricePath("WETH,DAI\n1\n", "p.csv")).to.throw(
+        "p.csv:2: expected 2 columns, got 1"
+      );
+      expect(() => parsePricePath("WETH\n2000\n0\n", "p.csv")).to.throw(
+        "p.csv:3: invalid WETH price 0"
+      );
+    });
+
+    it("Should point at the field a scenario gets wrong", async function () {
+      const prices = parsePricePath(CRASH_PRICES);
+      const borrower = {
+        count: 1,
+        collateral: "WETH",
+        debt: "DAI",
+        deposit: 1,
+        health: 1.5,
+      };
+      const parse = (json: object) => () => parseScenario(json, prices);
+
+      expect(parse({})).to.throw("scenario.name: missing");
+      expect(
+        parse({
+          name: "x",
+          agents: { borrowers: [{ ...borrower, debt: "BTC" }] },
+        })
+      ).to.throw("scenario.agents.borrowers[0].debt: unknown token BTC");
+      expect(
+        parse({
+          name: "x",
+          agents: { borrowers: [{ ...borrower, health: 0.9 }] },
+        })
+      ).to.throw("scenario.agents.borrowers[0].health: must be at least 1");
+      expect(
+        parse({
+          name: "x",
+          agents: { borrowers: [{ ...borrower, deposit: [2, 1] }] },
+        })
+      ).to.throw(
+        "scenario.agents.borrowers[0].deposit: expected a number or [min, max]"
+      );
+      expect(parse({ name: "x", protocol: { closeFactor: 20000 } })).to.throw(
+        "scenario.protocol.closeFactor: expected basis points"
+      );
+      expect(
+        parse({
+          name: "x",
+          agents: { liquidators: [{ count: 1, mode: "flash" }] },
+        })
+      ).to.throw(
+        "scenario.agents.liquidators[0].mode: expected one of direct, auction"
+      );
+      expect(
+        parse({ name: "x", agents: { arbitrageurs: [{ count: 1 }] } })
+      ).to.throw("scenario.agents.arbitrageurs[0]: arbitrageurs need a market");
+    });
+  });
+
+  describe("Runs", function () {
+    it("Should record one step per price row", async function () {
+      const { result, report } = await loadFixture(crashFixture);
+
+      expect(result.steps).to.have.length(4);
+      expect(report.steps.map(({ WETH }) => WETH)).to.deep.equal([
+        "2000.0",
+        "1500.0",
+        "1000.0",
+        "1100.0",
+      ]);
+      expect(report.failures).to.deep.equal({});
+    });
+
+    it("Should liquidate every account that goes underwater", async function () {
+      const { report } = await loadFixture(crashFixture);
+      const { liquidations } = report;
+
+      expect(liquidations.accountsUnderwater).to.be.greaterThan(0);
+      expect(liquidations.accountsLiquidated).to.equal(
+        liquidations.accountsUnderwater
+      );
+      expect(liquidations.liquidatedShare).to.equal(1);
+      expect(liquidations.direct).to.be.greaterThan(0);
+      expect(liquidations.toAuction).to.equal(0);
+      expect(Number(liquidations.bonusPaidUsd)).to.be.greaterThan(0);
+    });
+
+    it("Should keep the AMM near the oracle with flash loans", async function () {
+      const { result, report } = await loadFixture(crashFixture);
+
+      expect(report.flashLoans.count).to.be.greaterThan(0);
+      expect(Number(report.fees.DAI.collected)).to.be.greaterThan(0);
+      for (const { prices, ammPrice } of result.steps.slice(1)) {
+        const gap = Number(ammPrice! - prices.WETH) / Number(prices.WETH);
+        expect(Math.abs(gap)).to.be.lessThan(0.02);
+      }
+    });
+
+    it("Should sell liquidated collateral through Dutch auctions", async function () {
+      const { report } = await loadFixture(auctionFixture);
+      const { auctions, liquidations } = report;
+
+      expect(liquidations.toAuction).to.equal(2);
+      expect(liquidations.direct).to.equal(0);
+      expect(auctions.started).to.equal(2);
+      expect(auctions.purchases).to.be.greaterThan(0);
+      expect(auctions.clearingToOracle!.max).to.be.at.most(0.97);
+      expect(report.purchases).to.have.length(auctions.purchases);
+    });
+  });
+
+  describe("Reports", function () {
+    it("Should write the report as JSON and CSV", async function () {
+      const { report } = await loadFixture(auctionFixture);
+      const dir = mkdtempSync(path.join(tmpdir(), "simulator-"));
+      try {
+        const files = writeReport(report, dir);
+
+        expect(files.map((file) => path.basename(file))).to.deep.equal([
+          "test-auction.json",
+          "test-auction-steps.csv",
+          "test-auction-auctions.csv",
+        ]);
+        expect(JSON.parse(readFileSync(files[0], "utf8"))).to.deep.equal(
+          JSON.parse(JSON.stringify(report))
+        );
+        const steps = readFileSync(files[1], "utf8").trim().split("\n");
+        expect(steps).to.have.length(report.steps.length + 1);
+        expect(steps[0]).to.match(/^step,timestamp,WETH,DAI,LINK,ammPrice,/);
+        const purchases = readFileSync(files[2], "utf8").trim().split("\n");
+        expect(purchases).to.have.length(report.purchases.length + 1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should quote CSV cells that need it", async function () {
+      expect(toCsv([{ a: "x,y", b: 'say "hi"' }])).to.equal(
+        'a,b\n"x,y","say ""hi"""\n'
+      );
+      expect(toCsv([])).to.equal("");
+    });
+  });
+});
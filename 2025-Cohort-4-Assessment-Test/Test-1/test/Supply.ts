@@ -0,0 +1,323 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+describe("Supply", function () {
+  async function deploySupplyFixture() {
+    const [owner, lender, borrower] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const collateral = await Token.deploy("Wrapped Ether", "WETH");
+    const asset = await Token.deploy("Dai Stablecoin", "DAI");
+
+    await lendingPool.whitelistToken(collateral.target);
+    await lendingPool.whitelistToken(asset.target);
+    const collateralFeed = await deployPriceFeed(
+      priceOracle,
+      collateral.target,
+      ethers.parseEther("1")
+    );
+    const assetFeed = await deployPriceFeed(
+      priceOracle,
+      asset.target,
+      ethers.parseEther("1")
+    );
+
+    const receiptToken = await deployReceiptToken(lendingPool, asset);
+
+    // The borrower posts enough collateral to borrow 600 DAI comfortably.
+    const depositAmount = ethers.parseEther("1500");
+    await collateral.mint(borrower.address, depositAmount);
+    await collateral
+      .connect(borrower)
+      .approve(lendingPool.target, depositAmount);
+    await lendingPool
+      .connect(borrower)
+      .deposit(collateral.target, depositAmount);
+
+    return {
+      lendingPool,
+      loanManager,
+      collateral,
+      asset,
+      collateralFeed,
+      assetFeed,
+      receiptToken,
+      owner,
+      lender,
+      borrower,
+    };
+  }
+
+  describe("Receipt tokens", function () {
+    it("Should register the receipt token for the reserve", async function () {
+      const { lendingPool, asset, receiptToken } = await loadFixture(
+        deploySupplyFixture
+      );
+      expect(await lendingPool.receiptTokens(asset.target)).to.equal(
+        receiptToken.target
+      );
+      expect(await receiptToken.pool()).to.equal(lendingPool.target);
+      expect(await receiptToken.underlying()).to.equal(asset.target);
+      expect(await receiptToken.symbol()).to.equal("ibDAI");
+    });
+
+    it("Should only let the owner set receipt tokens", async function () {
+      const { lendingPool, collateral, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      const receiptToken = await ethers.deployContract("ReceiptToken", [
+        "Interest Bearing WETH",
+        "ibWETH",
+        lendingPool.target,
+        collateral.target,
+      ]);
+
+      await expect(
+        lendingPool
+          .connect(lender)
+          .setReceiptToken(collateral.target, receiptToken.target)
+      )
+        .to.be.revertedWithCustomError(
+          lendingPool,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(lender.address, ethers.ZeroHash);
+    });
+
+    it("Should reject receipt tokens for another pool or asset", async function () {
+      const { lendingPool, collateral, asset, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      for (const [pool, underlying] of [
+        [lender.address, collateral.target],
+        [lendingPool.target, asset.target],
+      ]) {
+        const receiptToken = await ethers.deployContract("ReceiptToken", [
+          "Interest Bearing WETH",
+          "ibWETH",
+          pool,
+          underlying,
+        ]);
+        await expect(
+          lendingPool.setReceiptToken(collateral.target, receiptToken.target)
+        ).to.be.revertedWith("Invalid receipt token");
+      }
+    });
+
+    it("Should not replace an existing receipt token", async function () {
+      const { lendingPool, asset } = await loadFixture(deploySupplyFixture);
+      await expect(deployReceiptToken(lendingPool, asset)).to.be.revertedWith(
+        "Receipt token already set"
+      );
+    });
+
+    it("Should only let the pool mint and burn", async function () {
+      const { receiptToken, lender } = await loadFixture(deploySupplyFixture);
+      await expect(
+        receiptToken.connect(lender).mint(lender.address, 1n)
+      ).to.be.revertedWith("Caller is not the pool");
+      await expect(
+        receiptToken.connect(lender).burn(lender.address, 1n)
+      ).to.be.revertedWith("Caller is not the pool");
+    });
+  });
+
+  describe("Supply", function () {
+    it("Should mint shares one to one before any interest", async function () {
+      const { lendingPool, asset, receiptToken, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      const amount = ethers.parseEther("1000");
+      await asset.mint(lender.address, amount);
+      await asset.connect(lender).approve(lendingPool.target, amount);
+
+      await expect(lendingPool.connect(lender).supply(asset.target, amount))
+        .to.emit(lendingPool, "Supply")
+        .withArgs(lender.address, asset.target, amount, amount);
+
+      expect(await receiptToken.balanceOf(lender.address)).to.equal(amount);
+      expect(await lendingPool.availableLiquidity(asset.target)).to.equal(
+        amount
+      );
+      expect(
+        await lendingPool.balanceOfUnderlying(lender.address, asset.target)
+      ).to.equal(amount);
+    });
+
+    it("Should not supply tokens without a receipt token", async function () {
+      const { lendingPool, collateral, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      await expect(
+        lendingPool.connect(lender).supply(collateral.target, 1n)
+      ).to.be.revertedWith("Supply not enabled");
+    });
+
+    it("Should not supply nothing", async function () {
+      const { lendingPool, asset, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      await expect(
+        lendingPool.connect(lender).supply(asset.target, 0n)
+      ).to.be.revertedWith("Invalid amount");
+    });
+  });
+
+  describe("Borrowing supplied liquidity", function () {
+    it("Should not lend out deposited collateral", async function () {
+      const { lendingPool, collateral, asset, lender, borrower } =
+        await loadFixture(deploySupplyFixture);
+      await supplyLiquidity(
+        lendingPool,
+        asset,
+        lender,
+        ethers.parseEther("1000")
+      );
+
+      // The pool holds 1500 WETH of collateral, none of it supplied.
+      await expect(
+        lendingPool.connect(borrower).borrow(collateral.target, 1n)
+      ).to.be.revertedWith("Insufficient liquidity");
+    });
+
+    it("Should not borrow more than the supplied liquidity", async function () {
+      const { lendingPool, asset, lender, borrower } = await loadFixture(
+        deploySupplyFixture
+      );
+      await supplyLiquidity(
+        lendingPool,
+        asset,
+        lender,
+        ethers.parseEther("500")
+      );
+
+      await expect(
+        lendingPool
+          .connect(borrower)
+          .borrow(asset.target, ethers.parseEther("600"))
+      ).to.be.revertedWith("Insufficient liquidity");
+    });
+
+    it("Should not redeem liquidity that is lent out", async function () {
+      const { lendingPool, asset, receiptToken, lender, borrower } =
+        await loadFixture(deploySupplyFixture);
+      await supplyLiquidity(
+        lendingPool,
+        asset,
+        lender,
+        ethers.parseEther("1000")
+      );
+      await lendingPool
+        .connect(borrower)
+        .borrow(asset.target, ethers.parseEther("600"));
+
+      expect(await lendingPool.availableLiquidity(asset.target)).to.equal(
+        ethers.parseEther("400")
+      );
+      await expect(
+        lendingPool
+          .connect(lender)
+          .redeem(asset.target, await receiptToken.balanceOf(lender.address))
+      ).to.be.revertedWith("Insufficient liquidity");
+    });
+  });
+
+  describe("Redeem", function () {
+    it("Should redeem the supplied amount when nothing was borrowed", async function () {
+      const { lendingPool, asset, receiptToken, lender } = await loadFixture(
+        deploySupplyFixture
+      );
+      const amount = ethers.parseEther("1000");
+      await supplyLiquidity(lendingPool, asset, lender, amount);
+
+      await expect(lendingPool.connect(lender).redeem(asset.target, amount))
+        .to.emit(lendingPool, "Redeem")
+        .withArgs(lender.address, asset.target, amount, amount);
+
+      expect(await asset.balanceOf(lender.address)).to.equal(amount);
+      expect(await receiptToken.totalSupply()).to.equal(0n);
+      expect(await lendingPool.availableLiquidity(asset.target)).to.equal(0n);
+    });
+
+    it("Should not redeem more shares than held", async function () {
+      const { lendingPool, asset, receiptToken, owner, lender } =
+        await loadFixture(deploySupplyFixture);
+      const amount = ethers.parseEther("1000");
+      await supplyLiquidity(lendingPool, asset, lender, amount);
+      // Someone else's supply must not be redeemable with the lender's shares.
+      await supplyLiquidity(lendingPool, asset, owner, amount);
+
+      await expect(
+        lendingPool.connect(lender).redeem(asset.target, amount + 1n)
+      )
+        .to.be.revertedWithCustomError(receiptToken, "ERC20InsufficientBalance")
+        .withArgs(lender.address, amount, amount + 1n);
+      expect(await receiptToken.balanceOf(lender.address)).to.equal(amount);
+    });
+
+    it("Should pay lenders the interest borrowers repay", async function () {
+      const {
+        lendingPool,
+        loanManager,
+        asset,
+        receiptToken,
+        collateralFeed,
+        assetFeed,
+        lender,
+        borrower,
+      } = await loadFixture(deploySupplyFixture);
+      const supplied = ethers.parseEther("1000");
+      const borrowAmount = ethers.parseEther("600");
+      await supplyLiquidity(lendingPool, asset, lender, supplied);
+      await lendingPool.connect(borrower).borrow(asset.target, borrowAmount);
+
+      await time.increase(ONE_YEAR);
+      await refreshPrices(collateralFeed, assetFeed);
+
+      // Repay the whole debt, interest included, so every share is backed
+      // by cash again.
+      const debt = borrowAmount * 2n;
+      await asset.mint(borrower.address, debt);
+      await asset.connect(borrower).approve(lendingPool.target, debt);
+      const due =
+        (await loanManager.getLoanAmount(borrower.address, asset.target)) +
+        (await loanManager.calculateInterest(borrower.address, asset.target));
+      await lendingPool.connect(borrower).repay(asset.target, due);
+
+      expect(await lendingPool.getExchangeRate(asset.target)).to.be.gt(
+        ethers.parseEther("1")
+      );
+
+      await expect(
+        lendingPool.connect(lender).redeem(asset.target, supplied)
+      ).to.emit(lendingPool, "Redeem");
+
+      const redeemed = await asset.balanceOf(lender.address);
+      expect(redeemed).to.be.gt(supplied);
+      // Lenders earn the borrowers' interest less the reserve factor.
+      expect(redeemed - supplied).to.be.lt(due - borrowAmount);
+      expect(await receiptToken.totalSupply()).to.equal(0n);
+    });
+  });
+});
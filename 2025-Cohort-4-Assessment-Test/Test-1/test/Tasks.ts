@@ -0,0 +1,609 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import hre, { ethers, ignition } from "hardhat";
+import LendingPoolModule from "../ignition/modules/LendingPool";
+import type { Tables } from "../tasks/helpers";
+import type { LendingPool } from "../typechain-types";
+
+const parameters = JSON.parse(
+  readFileSync(path.join(__dirname, "../ignition/parameters/ci.json"), "utf8"),
+  (_key, value) =>
+    typeof value === "string" && /^\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value
+);
+
+// In-process deployments are not written to disk, so the fixture writes the
+// artifact the tasks read under a deployment id of its own.
+const DEPLOYMENT_ID = "tasks-test";
+const deploymentDir = path.join(
+  hre.config.paths.ignition,
+  "deployments",
+  DEPLOYMENT_ID
+);
+
+// Starts from an empty directory, so no task state such as the rewards
+// checkpoint carries over from another test.
+function writeDeployment(lendingPool: LendingPool) {
+  rmSync(deploymentDir, { recursive: true, force: true });
+  mkdirSync(deploymentDir, { recursive: true });
+  writeFileSync(
+    path.join(deploymentDir, "deployed_addresses.json"),
+    JSON.stringify({ "LendingPoolModule#LendingPool": lendingPool.target })
+  );
+}
+
+// Nested fixtures deploy again at new addresses, so the artifact is rewritten
+// for whichever fixture a test restores.
+async function loadTasksFixture<T extends { lendingPool: LendingPool }>(
+  fixture: () => Promise<T>
+): Promise<T> {
+  const result = await loadFixture(fixture);
+  writeDeployment(result.lendingPool);
+  return result;
+}
+
+// Runs a task with its printed output captured.
+async function runTask(name: string, args: Record<string, unknown> = {}) {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...values: unknown[]) => lines.push(values.join(" "));
+  try {
+    const result: Tables = await hre.run(name, {
+      deploymentId: DEPLOYMENT_ID,
+      ...args,
+    });
+    return { result, output: lines.join("\n") };
+  } finally {
+    console.log = log;
+  }
+}
+
+describe("Tasks", function () {
+  async function deployTasksFixture() {
+    const [deployer, borrower, otherBorrower, liquidator, otherLiquidator] =
+      await ethers.getSigners();
+    const deployment = await ignition.deploy(LendingPoolModule, {
+      parameters,
+    });
+
+    const lendingPool = await ethers.getContractAt(
+      "LendingPool",
+      deployment.lendingPool.target
+    );
+    const auctionManager = await ethers.getContractAt(
+      "AuctionManager",
+      deployment.auctionManager.target
+    );
+    const priceOracle = await ethers.getContractAt(
+      "PriceOracle",
+      deployment.priceOracle.target
+    );
+    const WETH = await ethers.getContractAt("Token", deployment.WETH.target);
+    const DAI = await ethers.getContractAt("Token", deployment.DAI.target);
+
+    // Each borrower puts up 1 WETH ($2000) and borrows 1200 DAI.
+    for (const user of [borrower, otherBorrower]) {
+      await WETH.mint(user.address, ethers.parseEther("1"));
+      await WETH.connect(user).approve(
+        lendingPool.target,
+        ethers.parseEther("1")
+      );
+      await lendingPool
+        .connect(user)
+        .deposit(WETH.target, ethers.parseEther("1"));
+      await lendingPool
+        .connect(user)
+        .borrow(DAI.target, ethers.parseEther("1200"));
+    }
+    for (const signer of [deployer, liquidator, otherLiquidator]) {
+      await DAI.mint(signer.address, ethers.parseEther("10000"));
+      await DAI.connect(signer).approve(lendingPool.target, ethers.MaxUint256);
+    }
+
+    return {
+      lendingPool,
+      auctionManager,
+      priceOracle,
+      WETH,
+      DAI,
+      deployer,
+      borrower,
+      otherBorrower,
+      liquidator,
+      otherLiquidator,
+    };
+  }
+
+  // At $1500, 1 WETH at a 66.67% threshold covers $1000 of debt.
+  async function deployUnhealthyFixture() {
+    const fixture = await deployTasksFixture();
+    writeDeployment(fixture.lendingPool);
+    await runTask("pool:set-price", { token: "WETH", price: "1500" });
+    return fixture;
+  }
+
+  after(function () {
+    rmSync(deploymentDir, { recursive: true, force: true });
+  });
+
+  describe("Deployment", function () {
+    it("Should fail without an Ignition deployment", async function () {
+      await loadTasksFixture(deployTasksFixture);
+      await expect(
+        runTask("pool:liquidatable", { deploymentId: "missing" })
+      ).to.be.rejectedWith("No Ignition deployment found");
+    });
+  });
+
+  describe("pool:whitelist", function () {
+    it("Should list a token with the default reserve configuration", async function () {
+      const { lendingPool } = await loadTasksFixture(deployTasksFixture);
+      const token = await ethers.deployContract("Token", ["Uniswap", "UNI"]);
+
+      const { result } = await runTask("pool:whitelist", {
+        token: token.target,
+      });
+      expect(await lendingPool.getWhitelistedTokens()).to.include(token.target);
+      expect(result.Reserve).to.deep.equal([
+        {
+          token: "UNI",
+          address: token.target,
+          decimals: "18",
+          ltv: "66.67%",
+          liquidationThreshold: "66.67%",
+          liquidationBonus: "0%",
+          flashLoanFee: "0.09%",
+          borrowingEnabled: "true",
+          collateralEnabled: "true",
+        },
+      ]);
+    });
+  });
+
+  describe("pool:set-price", function () {
+    it("Should publish a price on the token's feed by symbol", async function () {
+      const { priceOracle, WETH } = await loadTasksFixture(deployTasksFixture);
+
+      const { result } = await runTask("pool:set-price", {
+        token: "weth",
+        price: "1850.25",
+      });
+      expect(await priceOracle.getPrice(WETH.target)).to.equal(
+        ethers.parseEther("1850.25")
+      );
+      expect(result.Price[0]).to.include({
+        token: "WETH",
+        previous: "2000.0",
+        current: "1850.25",
+      });
+    });
+
+    it("Should reject unknown symbols", async function () {
+      await loadTasksFixture(deployTasksFixture);
+      await expect(
+        runTask("pool:set-price", { token: "XYZ", price: "1" })
+      ).to.be.rejectedWith("XYZ is neither an address nor the symbol");
+    });
+  });
+
+  describe("pool:position", function () {
+    it("Should show collateral, debt and health factor", async function () {
+      const { borrower } = await loadTasksFixture(deployTasksFixture);
+
+      const { result } = await runTask("pool:position", {
+        user: borrower.address,
+      });
+      expect(result.Positions[0]).to.deep.equal({
+        side: "collateral",
+        token: "WETH",
+        amount: "1.0",
+        valueUsd: "2000.0",
+      });
+      expect(result.Positions[1]).to.include({ side: "debt", token: "DAI" });
+      expect(Number(result.Positions[1].amount)).to.be.closeTo(1200, 0.01);
+
+      const [account] = result.Account;
+      expect(account.collateralUsd).to.equal("2000.0");
+      expect(Number(account.healthFactor)).to.be.closeTo(1.111, 0.001);
+      expect(account.liquidatable).to.equal("false");
+    });
+
+    it("Should show an infinite health factor without debt", async function () {
+      const { deployer } = await loadTasksFixture(deployTasksFixture);
+      const { result } = await runTask("pool:position", {
+        user: deployer.address,
+      });
+      expect(result.Positions).to.be.empty;
+      expect(result.Account[0].healthFactor).to.equal("∞");
+    });
+
+    it("Should print readable tables by default", async function () {
+      const { borrower } = await loadTasksFixture(deployTasksFixture);
+      const { output } = await runTask("pool:position", {
+        user: borrower.address,
+      });
+      expect(output).to.match(/^Positions:/);
+      expect(output).to.match(/collateral\s+WETH\s+1\.0\s+2000\.0/);
+      expect(output).to.include("Account:");
+    });
+
+    it("Should print the returned tables as JSON", async function () {
+      const { borrower } = await loadTasksFixture(deployTasksFixture);
+      const { result, output } = await runTask("pool:position", {
+        user: borrower.address,
+        json: true,
+      });
+      expect(JSON.parse(output)).to.deep.equal(result);
+    });
+  });
+
+  describe("pool:liquidatable", function () {
+    it("Should list nobody while borrowers are healthy", async function () {
+      await loadTasksFixture(deployTasksFixture);
+      const { result, output } = await runTask("pool:liquidatable");
+      expect(result.Liquidatable).to.be.empty;
+      expect(output).to.include("(none)");
+    });
+
+    it("Should list borrowers below a health factor of 1", async function () {
+      const { lendingPool, DAI, borrower, otherBorrower } =
+        await loadTasksFixture(deployUnhealthyFixture);
+      // Down to $700 of debt, the other borrower is healthy again.
+      const repayment = ethers.parseEther("500");
+      await DAI.connect(otherBorrower).approve(lendingPool.target, repayment);
+      await lendingPool.connect(otherBorrower).repay(DAI.target, repayment);
+
+      const { result } = await runTask("pool:liquidatable", { json: true });
+      expect(result.Liquidatable.map((row) => row.user)).to.deep.equal([
+        borrower.address,
+      ]);
+      expect(Number(result.Liquidatable[0].healthFactor)).to.be.closeTo(
+        0.833,
+        0.001
+      );
+    });
+  });
+
+  describe("auction:list and auction:settle", function () {
+    it("Should list and settle a Dutch auction", async function () {
+      const { lendingPool, auctionManager, WETH, DAI, deployer, borrower } =
+        await loadTasksFixture(deployUnhealthyFixture);
+      await lendingPool.liquidateToAuction(
+        borrower.address,
+        WETH.target,
+        DAI.target
+      );
+
+      const { result: listed } = await runTask("auction:list");
+      expect(listed.Auctions).to.have.lengthOf(1);
+      expect(listed.Auctions[0]).to.include({
+        id: "0",
+        user: borrower.address,
+        collateral: "WETH",
+        lot: "1.0",
+        debt: "DAI",
+        status: "active",
+      });
+      // Auctions open 20% above the oracle price.
+      expect(Number(listed.Auctions[0].price)).to.be.closeTo(1800, 1);
+
+      const wethBefore = await WETH.balanceOf(deployer.address);
+      const { result: settled } = await runTask("auction:settle", {
+        auctionId: 0,
+      });
+      expect(settled.Settlement[0]).to.include({
+        id: "0",
+        buyer: deployer.address,
+        debtRemaining: "0.0",
+        status: "closed",
+      });
+      expect(await WETH.balanceOf(deployer.address)).to.be.gt(wethBefore);
+      expect(
+        (await auctionManager.dutchAuctions(0)).collateralRemaining
+      ).to.equal(0);
+
+      expect((await runTask("auction:list")).result.Auctions).to.be.empty;
+      const { result: all } = await runTask("auction:list", { all: true });
+      expect(all.Auctions[0]).to.include({ status: "closed", price: "-" });
+    });
+
+    it("Should not settle above the maximum price", async function () {
+      const { lendingPool, WETH, DAI, borrower } = await loadTasksFixture(
+        deployUnhealthyFixture
+      );
+      await lendingPool.liquidateToAuction(
+        borrower.address,
+        WETH.target,
+        DAI.target
+      );
+      await expect(
+        runTask("auction:settle", { auctionId: 0, maxPrice: "1500" })
+      ).to.be.rejectedWith("Price above limit");
+    });
+
+    it("Should not settle closed auctions", async function () {
+      await loadTasksFixture(deployTasksFixture);
+      await expect(
+        runTask("auction:settle", { auctionId: 0 })
+      ).to.be.rejectedWith("Auction 0 is not active");
+    });
+  });
+
+  describe("rewards:distribute", function () {
+    async function deployRewardsFixture() {
+      const fixture = await deployUnhealthyFixture();
+      const { lendingPool, WETH, DAI, borrower, liquidator, otherLiquidator } =
+        fixture;
+
+      const distributor = await ethers.deployContract("RewardsDistributor", [
+        WETH.target,
+        lendingPool.target,
+        7 * 24 * 60 * 60,
+      ]);
+      await lendingPool.setRewardsDistributor(distributor.target);
+
+      // A 0.09% fee on 50,000 DAI sends 45 DAI of fees, 4.5 of them to the
+      // liquidator incentive pool.
+      const flashBorrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      await DAI.mint(flashBorrower.target, ethers.parseEther("45"));
+      await flashBorrower.borrow(DAI.target, ethers.parseEther("50000"), "0x");
+
+      // Liquidators repay $300 and $100 of debt.
+      await lendingPool
+        .connect(liquidator)
+        .liquidate(
+          borrower.address,
+          WETH.target,
+          DAI.target,
+          ethers.parseEther("300")
+        );
+      await lendingPool
+        .connect(otherLiquidator)
+        .liquidate(
+          borrower.address,
+          WETH.target,
+          DAI.target,
+          ethers.parseEther("100")
+        );
+
+      return { ...fixture, distributor };
+    }
+
+    it("Should pay liquidators pro rata to the debt they repaid", async function () {
+      const { distributor, DAI, liquidator, otherLiquidator } =
+        await loadTasksFixture(deployRewardsFixture);
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(
+        ethers.parseEther("4.5")
+      );
+      const before = await DAI.balanceOf(liquidator.address);
+      const otherBefore = await DAI.balanceOf(otherLiquidator.address);
+
+      const { result } = await runTask("rewards:distribute");
+      expect(result.Liquidators).to.deep.equal([
+        { liquidator: liquidator.address, debtRepaidUsd: "300.0" },
+        { liquidator: otherLiquidator.address, debtRepaidUsd: "100.0" },
+      ]);
+      expect(result.Payouts).to.deep.equal([
+        {
+          liquidator: liquidator.address,
+          token: "DAI",
+          amount: "3.375",
+          status: "paid",
+        },
+        {
+          liquidator: otherLiquidator.address,
+          token: "DAI",
+          amount: "1.125",
+          status: "paid",
+        },
+      ]);
+      expect(await DAI.balanceOf(liquidator.address)).to.equal(
+        before + ethers.parseEther("3.375")
+      );
+      expect(await DAI.balanceOf(otherLiquidator.address)).to.equal(
+        otherBefore + ethers.parseEther("1.125")
+      );
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(0);
+    });
+
+    it("Should not pay for the same liquidations twice", async function () {
+      const { lendingPool, distributor, WETH, DAI, borrower, otherLiquidator } =
+        await loadTasksFixture(deployRewardsFixture);
+      const first = await runTask("rewards:distribute");
+      expect(first.result.Payouts).to.have.length(2);
+
+      // More fees arrive, but nobody liquidated since.
+      const flashBorrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      await DAI.mint(flashBorrower.target, ethers.parseEther("45"));
+      await flashBorrower.borrow(DAI.target, ethers.parseEther("50000"), "0x");
+      const second = await runTask("rewards:distribute");
+      expect(second.result.Blocks[0].fromBlock).to.equal(
+        String(Number(first.result.Blocks[0].toBlock) + 1)
+      );
+      expect(second.result.Liquidators).to.deep.equal([]);
+      expect(second.result.Payouts).to.deep.equal([]);
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(
+        ethers.parseEther("4.5")
+      );
+
+      // The next liquidation takes the whole pot.
+      await lendingPool
+        .connect(otherLiquidator)
+        .liquidate(
+          borrower.address,
+          WETH.target,
+          DAI.target,
+          ethers.parseEther("100")
+        );
+      const third = await runTask("rewards:distribute");
+      expect(third.result.Payouts).to.deep.equal([
+        {
+          liquidator: otherLiquidator.address,
+          token: "DAI",
+          amount: "4.5",
+          status: "paid",
+        },
+      ]);
+    });
+
+    it("Should finish an interrupted run without paying anyone twice", async function () {
+      const { distributor, DAI, liquidator, otherLiquidator } =
+        await loadTasksFixture(deployRewardsFixture);
+      // What a run leaves behind when it stops after paying the first
+      // liquidator.
+      await distributor.withdrawLiquidatorIncentive(
+        DAI.target,
+        liquidator.address,
+        ethers.parseEther("3.375")
+      );
+      const nextBlock = (await ethers.provider.getBlockNumber()) + 1;
+      writeFileSync(
+        path.join(deploymentDir, "rewards-checkpoint.json"),
+        JSON.stringify({
+          nextBlock,
+          pending: [
+            {
+              token: DAI.target,
+              liquidator: otherLiquidator.address,
+              amount: ethers.parseEther("1.125").toString(),
+            },
+          ],
+        })
+      );
+      const before = await DAI.balanceOf(liquidator.address);
+
+      const { result } = await runTask("rewards:distribute");
+      expect(result.Blocks[0].fromBlock).to.equal(String(nextBlock));
+      expect(result.Payouts).to.deep.equal([
+        {
+          liquidator: otherLiquidator.address,
+          token: "DAI",
+          amount: "1.125",
+          status: "paid",
+        },
+      ]);
+      expect(await DAI.balanceOf(liquidator.address)).to.equal(before);
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(0n);
+      expect(
+        JSON.parse(
+          readFileSync(
+            path.join(deploymentDir, "rewards-checkpoint.json"),
+            "utf8"
+          )
+        ).pending
+      ).to.deep.equal([]);
+    });
+
+    it("Should pay liquidators who hand positions to auctions", async function () {
+      const { lendingPool, WETH, DAI, otherBorrower, otherLiquidator } =
+        await loadTasksFixture(deployRewardsFixture);
+      await lendingPool
+        .connect(otherLiquidator)
+        .liquidateToAuction(otherBorrower.address, WETH.target, DAI.target);
+
+      const { result } = await runTask("rewards:distribute", { dryRun: true });
+      const [, other] = result.Liquidators;
+      expect(other.liquidator).to.equal(otherLiquidator.address);
+      // $100 repaid and ~$1200 of debt handed to the auction.
+      expect(Number(other.debtRepaidUsd)).to.be.closeTo(1300, 0.1);
+    });
+
+    it("Should count liquidations in the given blocks", async function () {
+      const { lendingPool, liquidator } = await loadTasksFixture(
+        deployRewardsFixture
+      );
+      const [first] = await lendingPool.queryFilter(
+        lendingPool.filters.Liquidation()
+      );
+
+      const { result } = await runTask("rewards:distribute", {
+        fromBlock: first.blockNumber,
+        toBlock: first.blockNumber,
+        dryRun: true,
+      });
+      expect(result.Liquidators).to.deep.equal([
+        { liquidator: liquidator.address, debtRepaidUsd: "300.0" },
+      ]);
+      await expect(
+        runTask("rewards:distribute", { fromBlock: 2, toBlock: 1 })
+      ).to.be.rejectedWith("--to-block 1 is before --from-block 2");
+    });
+
+    it("Should pay pots of tokens stakers get no share of", async function () {
+      const { lendingPool, distributor, WETH, liquidator, otherLiquidator } =
+        await loadTasksFixture(deployRewardsFixture);
+      await distributor.setFeeShares({
+        reserve: 5000n,
+        liquidatorIncentive: 5000n,
+        stakers: 0n,
+      });
+      // A 0.09% fee on 10 WETH puts 0.0045 WETH in the pot.
+      const flashBorrower = await ethers.deployContract("FlashBorrower", [
+        lendingPool.target,
+      ]);
+      await WETH.mint(flashBorrower.target, ethers.parseEther("0.009"));
+      await flashBorrower.borrow(WETH.target, ethers.parseEther("10"), "0x");
+      expect(await distributor.getRewardTokens()).not.to.include(WETH.target);
+
+      const { result } = await runTask("rewards:distribute");
+      expect(
+        result.Payouts.filter((row) => row.token === "WETH")
+      ).to.deep.equal([
+        {
+          liquidator: liquidator.address,
+          token: "WETH",
+          amount: "0.003375",
+          status: "paid",
+        },
+        {
+          liquidator: otherLiquidator.address,
+          token: "WETH",
+          amount: "0.001125",
+          status: "paid",
+        },
+      ]);
+      expect(await distributor.liquidatorIncentives(WETH.target)).to.equal(0n);
+    });
+
+    it("Should pay pots of delisted reserves", async function () {
+      const { lendingPool, distributor, DAI } = await loadTasksFixture(
+        deployRewardsFixture
+      );
+      await lendingPool.delistToken(DAI.target);
+
+      const { result } = await runTask("rewards:distribute");
+      expect(result.Payouts.map((row) => row.amount)).to.deep.equal([
+        "3.375",
+        "1.125",
+      ]);
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(0n);
+    });
+
+    it("Should only plan payouts in a dry run", async function () {
+      const { distributor, DAI } = await loadTasksFixture(deployRewardsFixture);
+
+      const { result } = await runTask("rewards:distribute", { dryRun: true });
+      expect(result.Payouts.map((row) => row.status)).to.deep.equal([
+        "planned",
+        "planned",
+      ]);
+      expect(await distributor.liquidatorIncentives(DAI.target)).to.equal(
+        ethers.parseEther("4.5")
+      );
+    });
+
+    it("Should fail without a rewards distributor", async function () {
+      await loadTasksFixture(deployTasksFixture);
+      await expect(runTask("rewards:distribute")).to.be.rejectedWith(
+        "The pool has no rewards distributor"
+      );
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deployPriceFeed,
+  deployPriceOracle,
+  refreshPrices,
+} from "./helpers/oracle";
+import { deployReceiptToken, supplyLiquidity } from "./helpers/pool";
+
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+describe("Withdraw", function () {
+  async function deployWithdrawFixture() {
+    const [owner, user1, user2] = await ethers.getSigners();
+
+    const priceOracle = await deployPriceOracle();
+    const LendingPool = await ethers.getContractFactory("LendingPool");
+    const lendingPool = await LendingPool.deploy(priceOracle.target);
+
+    const loanManager = await ethers.getContractAt(
+      "LoanManager",
+      await lendingPool.loanManager()
+    );
+
+    const Token = await ethers.getContractFactory("Token");
+    const token1 = await Token.deploy("Token1", "TKN1");
+    const token2 = await Token.deploy("Token2", "TKN2");
+
+    await lendingPool.whitelistToken(token1.target);
+    await lendingPool.whitelistToken(token2.target);
+    const feed1 = await deployPriceFeed(
+      priceOracle,
+      token1.target,
+      ethers.parseEther("1")
+    );
+    const feed2 = await deployPriceFeed(
+      priceOracle,
+      token2.target,
+      ethers.parseEther("2")
+    );
+
+    for (const token of [token1, token2]) {
+      await deployReceiptToken(lendingPool, token);
+      await supplyLiquidity(
+        lendingPool,
+        token,
+        owner,
+        ethers.parseEther("1000")
+      );
+    }
+
+    // user1 backs a $100 loan with $300 of collateral, leaving $150 free.
+    const depositAmount = ethers.parseEther("300");
+    await token1.mint(user1.address, depositAmount);
+    await token1.connect(user1).approve(lendingPool.target, depositAmount);
+    await lendingPool.connect(user1).deposit(token1.target, depositAmount);
+
+    return {
+      lendingPool,
+      loanManager,
+      token1,
+      token2,
+      feed1,
+      feed2,
+      depositAmount,
+      owner,
+      user1,
+      user2,
+    };
+  }
+
+  describe("Without debt", function () {
+    it("Should allow a partial withdrawal", async function () {
+      const { lendingPool, loanManager, token1, depositAmount, user1 } =
+        await loadFixture(deployWithdrawFixture);
+      const amount = ethers.parseEther("100");
+
+      await expect(lendingPool.connect(user1).withdraw(token1.target, amount))
+        .to.emit(lendingPool, "Withdraw")
+        .withArgs(user1.address, token1.target, amount);
+
+      expect(await token1.balanceOf(user1.address)).to.equal(amount);
+      expect(
+        await loanManager.getCollateralAmount(user1.address, token1.target)
+      ).to.equal(depositAmount - amount);
+    });
+
+    it("Should allow withdrawing everything", async function () {
+      const { lendingPool, loanManager, token1, depositAmount, user1 } =
+        await loadFixture(deployWithdrawFixture);
+
+      await lendingPool.connect(user1).withdraw(token1.target, depositAmount);
+
+      expect(await token1.balanceOf(user1.address)).to.equal(depositAmount);
+      expect(
+        await loanManager.getCollateralAmount(user1.address, token1.target)
+      ).to.equal(0);
+    });
+
+    it("Should not allow withdrawing more than deposited", async function () {
+      const { lendingPool, token1, depositAmount, user1 } = await loadFixture(
+        deployWithdrawFixture
+      );
+
+      await expect(
+        lendingPool.connect(user1).withdraw(token1.target, depositAmount + 1n)
+      ).to.be.revertedWith("insufficient collateral");
+    });
+
+    it("Should not allow withdrawing another user's collateral", async function () {
+      const { lendingPool, token1, user2 } = await loadFixture(
+        deployWithdrawFixture
+      );
+
+      await expect(
+        lendingPool.connect(user2).withdraw(token1.target, 1n)
+      ).to.be.revertedWith("insufficient collateral");
+    });
+  });
+
+  describe("With debt", function () {
+    it("Should allow withdrawing down to the collateralization ratio", async function () {
+      const { lendingPool, token1, token2, user1 } = await loadFixture(
+        deployWithdrawFixture
+      );
+      await lendingPool
+        .connect(user1)
+        .borrow(token2.target, ethers.parseEther("50"));
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .withdraw(token1.target, ethers.parseEther("149"))
+      )
+        .to.emit(lendingPool, "Withdraw")
+        .withArgs(user1.address, token1.target, ethers.parseEther("149"));
+    });
+
+    it("Should block withdrawals below the collateralization ratio", async function () {
+      const { lendingPool, token1, token2, user1 } = await loadFixture(
+        deployWithdrawFixture
+      );
+      await lendingPool
+        .connect(user1)
+        .borrow(token2.target, ethers.parseEther("50"));
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .withdraw(token1.target, ethers.parseEther("151"))
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+    });
+
+    it("Should count debt in every borrowed token", async function () {
+      const { lendingPool, token1, token2, user1 } = await loadFixture(
+        deployWithdrawFixture
+      );
+      // $100 of token2 debt plus $20 of token1 debt needs $180 of collateral.
+      await lendingPool
+        .connect(user1)
+        .borrow(token2.target, ethers.parseEther("50"));
+      await lendingPool
+        .connect(user1)
+        .borrow(token1.target, ethers.parseEther("20"));
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .withdraw(token1.target, ethers.parseEther("130"))
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+
+      await lendingPool
+        .connect(user1)
+        .withdraw(token1.target, ethers.parseEther("119"));
+    });
+
+    it("Should block withdrawals once accrued interest eats the buffer", async function () {
+      const { lendingPool, token1, token2, feed1, feed2, user1 } =
+        await loadFixture(deployWithdrawFixture);
+      await lendingPool
+        .connect(user1)
+        .borrow(token2.target, ethers.parseEther("50"));
+
+      // After a year at 5% the debt is worth $105 and needs $157.5 backing.
+      await time.increase(ONE_YEAR);
+      await refreshPrices(feed1, feed2);
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .withdraw(token1.target, ethers.parseEther("145"))
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+
+      await expect(
+        lendingPool
+          .connect(user1)
+          .withdraw(token1.target, ethers.parseEther("142"))
+      ).to.emit(lendingPool, "Withdraw");
+    });
+
+    it("Should allow a full withdrawal after the loan is repaid", async function () {
+      const { lendingPool, loanManager, token1, token2, depositAmount, user1 } =
+        await loadFixture(deployWithdrawFixture);
+      const borrowAmount = ethers.parseEther("50");
+      await lendingPool.connect(user1).borrow(token2.target, borrowAmount);
+
+      await token2.mint(user1.address, borrowAmount);
+      await token2.connect(user1).approve(lendingPool.target, borrowAmount);
+      await lendingPool.connect(user1).repay(token2.target, borrowAmount);
+
+      const remainingDebt =
+        (await loanManager.getLoanAmount(user1.address, token2.target)) +
+        (await loanManager.calculateInterest(user1.address, token2.target));
+      // Interest accrued over the couple of blocks the loan was open keeps a
+      // sliver of collateral locked: $3 of token1 per token2 of debt, plus a
+      // margin for the interest of the next blocks.
+      const locked = remainingDebt * 3n + ethers.parseEther("0.001");
+
+      await lendingPool
+        .connect(user1)
+        .withdraw(token1.target, depositAmount - locked);
+      await expect(
+        lendingPool.connect(user1).withdraw(token1.target, locked)
+      ).to.be.revertedWith("withdrawal would undercollateralize loan");
+    });
+  });
+});
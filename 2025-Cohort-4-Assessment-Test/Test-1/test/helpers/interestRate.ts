@@ -0,0 +1,56 @@
+// Reference implementation of InterestRateStrategy and LoanManager's index
+// accrual, written with the same integer rounding as the contracts so tests
+// can compare results exactly.
+
+export const WAD = 10n ** 18n;
+export const SECONDS_PER_YEAR = 31536000n;
+export const RESERVE_FACTOR = 10n; // percent
+
+export interface RateCurve {
+  baseRate: bigint;
+  slope1: bigint;
+  slope2: bigint;
+  optimalUtilization: bigint;
+}
+
+export function utilization(cash: bigint, borrows: bigint): bigint {
+  if (borrows === 0n) return 0n;
+  return (borrows * WAD) / (cash + borrows);
+}
+
+export function borrowRate(
+  curve: RateCurve,
+  cash: bigint,
+  borrows: bigint
+): bigint {
+  const util = utilization(cash, borrows);
+
+  if (util <= curve.optimalUtilization) {
+    return curve.baseRate + (util * curve.slope1) / curve.optimalUtilization;
+  }
+
+  return (
+    curve.baseRate +
+    curve.slope1 +
+    ((util - curve.optimalUtilization) * curve.slope2) /
+      (WAD - curve.optimalUtilization)
+  );
+}
+
+export function supplyRate(
+  curve: RateCurve,
+  cash: bigint,
+  borrows: bigint
+): bigint {
+  return (
+    (borrowRate(curve, cash, borrows) *
+      utilization(cash, borrows) *
+      (100n - RESERVE_FACTOR)) /
+    (WAD * 100n)
+  );
+}
+
+// Simple interest over one accrual period, as LoanManager._grow.
+export function grow(value: bigint, rate: bigint, elapsed: bigint): bigint {
+  return value + (value * rate * elapsed) / (SECONDS_PER_YEAR * WAD);
+}
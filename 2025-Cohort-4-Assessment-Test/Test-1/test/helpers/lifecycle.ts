@@ -0,0 +1,613 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import {
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import fc from "fast-check";
+import { TOKEN_IDS } from "../../ignition/modules/Tokens";
+import {
+  InsufficientCollateralError,
+  LendingClient,
+  LendingError,
+  decodeError,
+} from "../../sdk";
+import {
+  AuctionManager,
+  LendingPool,
+  LoanManager,
+  MockAggregator,
+  PriceOracle,
+  ReceiptToken,
+  RewardsDistributor,
+  Token,
+} from "../../typechain-types";
+import { refreshPrices, setPrice } from "./oracle";
+
+// A deployed pool and the accounts that act on it. `tokens`, `feeds` and
+// `receiptTokens` follow TOKEN_IDS.
+export interface Lifecycle {
+  lendingPool: LendingPool;
+  loanManager: LoanManager;
+  auctionManager: AuctionManager;
+  priceOracle: PriceOracle;
+  distributor: RewardsDistributor;
+  tokens: Token[];
+  feeds: MockAggregator[];
+  receiptTokens: ReceiptToken[];
+  borrowers: LendingClient[];
+  lender: HardhatEthersSigner;
+  liquidator: HardhatEthersSigner;
+  staker: HardhatEthersSigner;
+  // Checked after every step on top of the protocol's invariants.
+  extraInvariants?: ((system: Lifecycle) => Promise<void>)[];
+}
+
+// What the pool should hold, rebuilt from the token flows its events report.
+export interface Ledger {
+  poolBalance: Map<string, bigint>;
+  fees: Map<string, bigint>;
+}
+
+// Missing when the step was skipped or reverted.
+type Receipt = ContractTransactionReceipt | null | undefined;
+
+export async function openLedger(system: Lifecycle): Promise<Ledger> {
+  const ledger: Ledger = { poolBalance: new Map(), fees: new Map() };
+  for (const token of system.tokens) {
+    ledger.poolBalance.set(
+      await token.getAddress(),
+      await token.balanceOf(system.lendingPool.target)
+    );
+  }
+  return ledger;
+}
+
+function record(system: Lifecycle, ledger: Ledger, receipts: Receipt[]) {
+  const pool = system.lendingPool;
+  const move = (token: string, amount: bigint) =>
+    ledger.poolBalance.set(
+      token,
+      (ledger.poolBalance.get(token) ?? 0n) + amount
+    );
+
+  for (const receipt of receipts) {
+    for (const log of receipt?.logs ?? []) {
+      if (log.address !== pool.target) continue;
+      const event = pool.interface.parseLog(log);
+      if (!event) continue;
+      const { args } = event;
+      switch (event.name) {
+        case "Deposit":
+        case "Supply":
+        case "Repay":
+        case "AuctionProceeds":
+          move(args.token, args.amount);
+          break;
+        case "Withdraw":
+        case "Redeem":
+        case "Borrow":
+          move(args.token, 0n - args.amount);
+          break;
+        case "Liquidation":
+          move(args.debtToken, args.debtRepaid);
+          move(args.collateralToken, 0n - args.collateralSeized);
+          break;
+        case "LiquidationToAuction":
+          move(args.collateralToken, 0n - args.collateralAmount);
+          break;
+        case "FeesCollected":
+          move(args.token, 0n - args.amount);
+          ledger.fees.set(
+            args.token,
+            (ledger.fees.get(args.token) ?? 0n) + args.amount
+          );
+          break;
+      }
+    }
+  }
+}
+
+// Runs an action the random sequence may have made impossible. Reverts on
+// the protocol's own rules are expected and skipped; anything else, such as
+// an arithmetic panic, fails the run.
+async function attempt<T>(action: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await action();
+  } catch (error) {
+    const decoded = decodeError(error);
+    if (decoded.constructor === LendingError) throw decoded;
+  }
+}
+
+async function mined(tx: Promise<ContractTransactionResponse>) {
+  return (await tx).wait();
+}
+
+export async function checkInvariants(
+  system: Lifecycle,
+  ledger: Ledger
+): Promise<void> {
+  const { lendingPool, loanManager, auctionManager, distributor } = system;
+
+  for (const [i, token] of system.tokens.entries()) {
+    const symbol = TOKEN_IDS[i];
+    const address = await token.getAddress();
+
+    // Whatever came in through deposits, supplies and repayments, less what
+    // went out as withdrawals, loans and fees, is still there.
+    const balance = await token.balanceOf(lendingPool.target);
+    expect(balance, `pool ${symbol} balance`).to.be.gte(
+      ledger.poolBalance.get(address)!
+    );
+    expect(balance, `pool ${symbol} balance backs its books`).to.be.gte(
+      (await loanManager.totalCollateral(address)) +
+        (await lendingPool.availableLiquidity(address))
+    );
+
+    // The distributor never credits more than the fees it was sent, and
+    // holds what it owes.
+    const [reserve, incentive, stakers] = await distributor.getFeeBreakdown(
+      address
+    );
+    expect(reserve + incentive + stakers, `${symbol} fees split`).to.be.lte(
+      ledger.fees.get(address) ?? 0n
+    );
+    expect(
+      await token.balanceOf(distributor.target),
+      `distributor ${symbol} balance`
+    ).to.be.gte(
+      (await distributor.reserves(address)) +
+        (await distributor.liquidatorIncentives(address)) +
+        (await distributor.earned(system.staker.address, address))
+    );
+
+    // Open Dutch auction lots are held by the auction manager.
+    let lots = 0n;
+    const count = await auctionManager.dutchAuctionCount();
+    for (let id = 0n; id < count; id++) {
+      const auction = await auctionManager.dutchAuctions(id);
+      if (auction.collateralToken === address) {
+        lots += auction.collateralRemaining;
+      }
+    }
+    expect(
+      await token.balanceOf(auctionManager.target),
+      `auction manager ${symbol} balance`
+    ).to.be.gte(lots);
+  }
+
+  // Healthy accounts cannot be liquidated either way.
+  for (const client of system.borrowers) {
+    const user = await client.signer.getAddress();
+    const { healthFactor } = await lendingPool.getAccountData(user);
+    if (healthFactor < 10n ** 18n) continue;
+
+    const liquidator = lendingPool.connect(system.liquidator);
+    for (const debtToken of await loanManager.getDebtTokens(user)) {
+      for (const collateralToken of await loanManager.getCollateralTokens(
+        user
+      )) {
+        if (
+          (await loanManager.getCollateralAmount(user, collateralToken)) == 0n
+        )
+          continue;
+        for (const liquidation of [
+          () =>
+            liquidator.liquidate.staticCall(
+              user,
+              collateralToken,
+              debtToken,
+              1n
+            ),
+          () =>
+            liquidator.liquidateToAuction.staticCall(
+              user,
+              collateralToken,
+              debtToken
+            ),
+        ]) {
+          const error = await liquidation().then(
+            () => expect.fail(`healthy ${user} was liquidatable`),
+            decodeError
+          );
+          expect(error).to.be.instanceOf(InsufficientCollateralError);
+        }
+      }
+    }
+  }
+}
+
+// One step of a lifecycle. Each step acts on the chain, books what the pool
+// reported into the ledger and then checks every invariant.
+abstract class Step implements fc.AsyncCommand<Ledger, Lifecycle> {
+  check(): boolean {
+    return true;
+  }
+
+  async run(ledger: Ledger, system: Lifecycle): Promise<void> {
+    record(system, ledger, await this.act(system));
+    await checkInvariants(system, ledger);
+    for (const invariant of system.extraInvariants ?? []) {
+      await invariant(system);
+    }
+  }
+
+  abstract act(system: Lifecycle): Promise<Receipt[]>;
+  abstract toString(): string;
+}
+
+// Token amount worth `usd` dollars at the oracle price.
+async function worth(system: Lifecycle, token: number, usd: number) {
+  const price = await system.priceOracle.getPrice(system.tokens[token].target);
+  return (BigInt(usd) * 10n ** 36n) / price;
+}
+
+export class Deposit extends Step {
+  constructor(
+    readonly user: number,
+    readonly token: number,
+    readonly usd: number
+  ) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const client = system.borrowers[this.user];
+    const token = await system.tokens[this.token].getAddress();
+    const amount = await worth(system, this.token, this.usd);
+    return [await attempt(() => client.depositWithApproval(token, amount))];
+  }
+
+  toString() {
+    return `Deposit(user${this.user}, $${this.usd} ${TOKEN_IDS[this.token]})`;
+  }
+}
+
+// Steps that unwind a position act on the user's `pick`th collateral or
+// debt token, so they rarely miss.
+export class Withdraw extends Step {
+  constructor(
+    readonly user: number,
+    readonly pick: number,
+    readonly percent: number
+  ) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const client = system.borrowers[this.user];
+    const user = await client.signer.getAddress();
+    const tokens = await system.loanManager.getCollateralTokens(user);
+    if (tokens.length === 0) return [];
+    const token = tokens[this.pick % tokens.length];
+
+    const amount =
+      ((await system.loanManager.getCollateralAmount(user, token)) *
+        BigInt(this.percent)) /
+      100n;
+    if (amount === 0n) return [];
+    return [await attempt(() => client.withdraw(token, amount))];
+  }
+
+  toString() {
+    return `Withdraw(user${this.user}, collateral #${this.pick}, ${this.percent}%)`;
+  }
+}
+
+export class Borrow extends Step {
+  constructor(
+    readonly user: number,
+    readonly token: number,
+    readonly percent: number
+  ) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const client = system.borrowers[this.user];
+    const token = await system.tokens[this.token].getAddress();
+    const amount =
+      ((await client.maxBorrowable(token)) * BigInt(this.percent)) / 100n;
+    if (amount === 0n) return [];
+    return [await attempt(() => client.borrow(token, amount))];
+  }
+
+  toString() {
+    return `Borrow(user${this.user}, ${this.percent}% of max ${
+      TOKEN_IDS[this.token]
+    })`;
+  }
+}
+
+// Repaying 100% repays the debt with its live interest.
+export class Repay extends Step {
+  constructor(
+    readonly user: number,
+    readonly pick: number,
+    readonly percent: number
+  ) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const client = system.borrowers[this.user];
+    const user = await client.signer.getAddress();
+    const tokens = await system.loanManager.getDebtTokens(user);
+    if (tokens.length === 0) return [];
+    const token = tokens[this.pick % tokens.length];
+
+    if (this.percent === 100) {
+      const result = await attempt(() => client.repayAll(token));
+      return result?.receipts ?? [];
+    }
+    const principal = await system.loanManager.getLoanAmount(user, token);
+    const amount = (principal * BigInt(this.percent)) / 100n;
+    if (amount === 0n) return [];
+    return [await attempt(() => client.repay(token, amount))];
+  }
+
+  toString() {
+    return `Repay(user${this.user}, debt #${this.pick}, ${this.percent}%)`;
+  }
+}
+
+export class Supply extends Step {
+  constructor(readonly token: number, readonly usd: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const token = system.tokens[this.token];
+    const amount = await worth(system, this.token, this.usd);
+    const pool = system.lendingPool.connect(system.lender);
+    return [await attempt(() => mined(pool.supply(token.target, amount)))];
+  }
+
+  toString() {
+    return `Supply($${this.usd} ${TOKEN_IDS[this.token]})`;
+  }
+}
+
+export class Redeem extends Step {
+  constructor(readonly token: number, readonly percent: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const token = system.tokens[this.token];
+    const { lender } = system;
+    const shares =
+      ((await system.receiptTokens[this.token].balanceOf(lender.address)) *
+        BigInt(this.percent)) /
+      100n;
+    if (shares === 0n) return [];
+    const pool = system.lendingPool.connect(lender);
+    return [await attempt(() => mined(pool.redeem(token.target, shares)))];
+  }
+
+  toString() {
+    return `Redeem(${this.percent}% ib${TOKEN_IDS[this.token]})`;
+  }
+}
+
+export class MovePrice extends Step {
+  constructor(readonly token: number, readonly percent: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const price = await system.priceOracle.getPrice(
+      system.tokens[this.token].target
+    );
+    await setPrice(
+      system.feeds[this.token],
+      (price * BigInt(100 + this.percent)) / 100n
+    );
+    return [];
+  }
+
+  toString() {
+    const sign = this.percent > 0 ? "+" : "";
+    return `MovePrice(${TOKEN_IDS[this.token]} ${sign}${this.percent}%)`;
+  }
+}
+
+export class Advance extends Step {
+  constructor(readonly seconds: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    await time.increase(this.seconds);
+    await refreshPrices(...system.feeds);
+    return [];
+  }
+
+  toString() {
+    return `Advance(${this.seconds}s)`;
+  }
+}
+
+// The (collateral, debt) token pairs a liquidation of `user` can target.
+async function liquidationPairs(system: Lifecycle, user: string) {
+  const { loanManager } = system;
+  const pairs: [string, string][] = [];
+  for (const collateral of await loanManager.getCollateralTokens(user)) {
+    if ((await loanManager.getCollateralAmount(user, collateral)) === 0n) {
+      continue;
+    }
+    for (const debt of await loanManager.getDebtTokens(user)) {
+      pairs.push([collateral, debt]);
+    }
+  }
+  return pairs;
+}
+
+export class Liquidate extends Step {
+  constructor(
+    readonly user: number,
+    readonly pair: number,
+    readonly percent: number
+  ) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const user = await system.borrowers[this.user].signer.getAddress();
+    const pairs = await liquidationPairs(system, user);
+    if (pairs.length === 0) return [];
+    const [collateralToken, debtToken] = pairs[this.pair % pairs.length];
+
+    const debt = await system.loanManager.getLoanAmount(user, debtToken);
+    const amount = (debt * BigInt(this.percent)) / 100n;
+    const pool = system.lendingPool.connect(system.liquidator);
+    return [
+      await attempt(() =>
+        mined(pool.liquidate(user, collateralToken, debtToken, amount))
+      ),
+    ];
+  }
+
+  toString() {
+    return `Liquidate(user${this.user}, pair #${this.pair}, ${this.percent}%)`;
+  }
+}
+
+export class LiquidateToAuction extends Step {
+  constructor(readonly user: number, readonly pair: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const user = await system.borrowers[this.user].signer.getAddress();
+    const pairs = await liquidationPairs(system, user);
+    if (pairs.length === 0) return [];
+    const [collateralToken, debtToken] = pairs[this.pair % pairs.length];
+
+    const pool = system.lendingPool.connect(system.liquidator);
+    return [
+      await attempt(() =>
+        mined(pool.liquidateToAuction(user, collateralToken, debtToken))
+      ),
+    ];
+  }
+
+  toString() {
+    return `LiquidateToAuction(user${this.user}, pair #${this.pair})`;
+  }
+}
+
+export class Buy extends Step {
+  constructor(readonly pick: number, readonly percent: number) {
+    super();
+  }
+
+  async act(system: Lifecycle) {
+    const { auctionManager } = system;
+    const open = [];
+    const count = await auctionManager.dutchAuctionCount();
+    for (let id = 0n; id < count; id++) {
+      const { collateralRemaining } = await auctionManager.dutchAuctions(id);
+      if (collateralRemaining > 0n) open.push({ id, collateralRemaining });
+    }
+    if (open.length === 0) return [];
+
+    const { id, collateralRemaining } = open[this.pick % open.length];
+    const amount = (collateralRemaining * BigInt(this.percent)) / 100n;
+    if (amount === 0n) return [];
+    const buyer = auctionManager.connect(system.liquidator);
+    return [await attempt(() => mined(buyer.buy(id, amount, 2n ** 256n - 1n)))];
+  }
+
+  toString() {
+    return `Buy(auction #${this.pick}, ${this.percent}%)`;
+  }
+}
+
+export class Claim extends Step {
+  async act(system: Lifecycle) {
+    return [await mined(system.distributor.connect(system.staker).claim())];
+  }
+
+  toString() {
+    return "Claim()";
+  }
+}
+
+// Every step a lifecycle can take, across `users` borrowers. Steps that
+// build up and unwind positions are drawn more often than the rest.
+export function lifecycleSteps(users: number) {
+  const user = fc.nat({ max: users - 1 });
+  const token = fc.nat({ max: TOKEN_IDS.length - 1 });
+  const pick = fc.nat({ max: 8 });
+  const usd = fc.integer({ min: 100, max: 20000 });
+  const percent = fc.integer({ min: 1, max: 100 });
+
+  return [
+    fc.oneof(
+      {
+        weight: 3,
+        arbitrary: fc
+          .tuple(user, token, usd)
+          .map((args) => new Deposit(...args)),
+      },
+      {
+        weight: 2,
+        arbitrary: fc
+          .tuple(user, pick, percent)
+          .map((args) => new Withdraw(...args)),
+      },
+      {
+        weight: 4,
+        arbitrary: fc
+          .tuple(user, token, fc.oneof(percent, fc.constant(100)))
+          .map((args) => new Borrow(...args)),
+      },
+      {
+        weight: 2,
+        arbitrary: fc
+          .tuple(user, pick, fc.oneof(percent, fc.constant(100)))
+          .map((args) => new Repay(...args)),
+      },
+      {
+        weight: 1,
+        arbitrary: fc.tuple(token, usd).map((args) => new Supply(...args)),
+      },
+      {
+        weight: 1,
+        arbitrary: fc.tuple(token, percent).map((args) => new Redeem(...args)),
+      },
+      {
+        weight: 3,
+        arbitrary: fc
+          .tuple(token, fc.integer({ min: -50, max: 30 }))
+          .map((args) => new MovePrice(...args)),
+      },
+      {
+        weight: 2,
+        arbitrary: fc
+          .integer({ min: 60, max: 30 * 24 * 60 * 60 })
+          .map((seconds) => new Advance(seconds)),
+      },
+      {
+        weight: 3,
+        arbitrary: fc
+          .tuple(user, pick, percent)
+          .map((args) => new Liquidate(...args)),
+      },
+      {
+        weight: 2,
+        arbitrary: fc
+          .tuple(user, pick)
+          .map((args) => new LiquidateToAuction(...args)),
+      },
+      {
+        weight: 2,
+        arbitrary: fc.tuple(pick, percent).map((args) => new Buy(...args)),
+      },
+      { weight: 1, arbitrary: fc.constant(new Claim()) }
+    ),
+  ];
+}
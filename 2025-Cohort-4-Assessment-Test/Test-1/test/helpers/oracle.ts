@@ -0,0 +1,61 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { AddressLike } from "ethers";
+import { ethers } from "hardhat";
+import { MockAggregator, PriceOracle } from "../../typechain-types";
+
+// Chainlink USD feeds report 8 decimals; prices in tests are written with
+// 18 decimals (ethers.parseEther) and converted on the way in.
+export const FEED_DECIMALS = 8;
+export const HEARTBEAT = 60 * 60;
+
+export async function deployPriceOracle(): Promise<PriceOracle> {
+  return ethers.deployContract("PriceOracle");
+}
+
+export function toFeedAnswer(price: bigint, decimals = FEED_DECIMALS): bigint {
+  return price / 10n ** BigInt(18 - decimals);
+}
+
+export async function deployPriceFeed(
+  oracle: PriceOracle,
+  token: AddressLike,
+  price: bigint,
+  { decimals = FEED_DECIMALS, heartbeat = HEARTBEAT } = {}
+): Promise<MockAggregator> {
+  const feed = await ethers.deployContract("MockAggregator", [
+    decimals,
+    "mock / USD",
+    toFeedAnswer(price, decimals),
+  ]);
+  await oracle.setFeed(token, feed.target, heartbeat);
+  return feed;
+}
+
+export async function setPrice(
+  feed: MockAggregator,
+  price: bigint
+): Promise<void> {
+  await feed.updateAnswer(toFeedAnswer(price, Number(await feed.decimals())));
+}
+
+// Walks a feed along `path`, advancing the chain by `interval` seconds before
+// publishing each new round, like a live feed would.
+export async function movePrice(
+  feed: MockAggregator,
+  path: bigint[],
+  interval: number
+): Promise<void> {
+  for (const price of path) {
+    await time.increase(interval);
+    await setPrice(feed, price);
+  }
+}
+
+// Republishes the latest answer of each feed so they are fresh again after
+// time travel.
+export async function refreshPrices(...feeds: MockAggregator[]): Promise<void> {
+  for (const feed of feeds) {
+    const [, answer] = await feed.latestRoundData();
+    await feed.updateAnswer(answer);
+  }
+}
@@ -0,0 +1,43 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AddressLike, Signature } from "ethers";
+import { ethers } from "hardhat";
+import { Token } from "../../typechain-types";
+
+// Signs an EIP-2612 permit letting `spender` move `value` of `owner`'s
+// `token` until `deadline`, and splits the signature the way `permit` takes
+// it.
+export async function signPermit(
+  token: Token,
+  owner: HardhatEthersSigner,
+  spender: AddressLike,
+  value: bigint,
+  deadline: bigint = ethers.MaxUint256
+) {
+  const { chainId } = await ethers.provider.getNetwork();
+  const signature = await owner.signTypedData(
+    {
+      name: await token.name(),
+      version: "1",
+      chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    {
+      owner: owner.address,
+      spender: await ethers.resolveAddress(spender),
+      value,
+      nonce: await token.nonces(owner.address),
+      deadline,
+    }
+  );
+  const { v, r, s } = Signature.from(signature);
+  return { value, deadline, v, r, s };
+}
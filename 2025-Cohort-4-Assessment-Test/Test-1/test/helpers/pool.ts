@@ -0,0 +1,31 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { LendingPool, ReceiptToken, Token } from "../../typechain-types";
+
+// Deploys an interest-bearing receipt token for `token` and enables supplying
+// it to the pool. Must be called by the pool owner.
+export async function deployReceiptToken(
+  lendingPool: LendingPool,
+  token: Token
+): Promise<ReceiptToken> {
+  const receiptToken = await ethers.deployContract("ReceiptToken", [
+    `Interest Bearing ${await token.name()}`,
+    `ib${await token.symbol()}`,
+    lendingPool.target,
+    token.target,
+  ]);
+  await lendingPool.setReceiptToken(token.target, receiptToken.target);
+  return receiptToken;
+}
+
+// Mints `amount` to `supplier` and supplies it, so the pool can lend it out.
+export async function supplyLiquidity(
+  lendingPool: LendingPool,
+  token: Token,
+  supplier: HardhatEthersSigner,
+  amount: bigint
+): Promise<void> {
+  await token.mint(supplier.address, amount);
+  await token.connect(supplier).approve(lendingPool.target, amount);
+  await lendingPool.connect(supplier).supply(token.target, amount);
+}
@@ -0,0 +1,21 @@
+import { setTimeout } from "node:timers/promises";
+
+// Runs `round` every `intervalMs` until `signal` aborts. A round that throws
+// is handed to `onError` and the next one runs on schedule, so a flaky RPC
+// endpoint does not stop a long-running process.
+export async function poll(
+  intervalMs: number,
+  signal: AbortSignal,
+  round: () => Promise<void>,
+  onError: (error: unknown) => void | Promise<void>
+): Promise<void> {
+  while (!signal.aborted) {
+    try {
+      await round();
+    } catch (error) {
+      await onError(error);
+    }
+    // Aborting ends the wait early; the loop condition then stops it.
+    await setTimeout(intervalMs, undefined, { signal }).catch(() => {});
+  }
+}